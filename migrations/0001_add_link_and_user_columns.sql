@@ -0,0 +1,29 @@
+-- 已有表新增的列。sql.txt 只建基础表结构，新列统一在这里添加，
+-- 由 wrangler d1 migrations apply 记录在 d1_migrations 表中，每个数据库只执行一次
+
+-- users：两步验证（TOTP）
+ALTER TABLE users ADD COLUMN totp_secret TEXT;                          -- Base32 密钥；totp_enabled=0 时为待确认的密钥
+ALTER TABLE users ADD COLUMN totp_enabled INTEGER NOT NULL DEFAULT 0;   -- 0=未启用 1=已启用
+ALTER TABLE users ADD COLUMN totp_last_step INTEGER;                    -- 最近一次使用的时间步，防止验证码重放
+
+-- users：OIDC 单点登录关联（首次 SSO 登录时写入）
+ALTER TABLE users ADD COLUMN oidc_issuer TEXT;                          -- IdP issuer
+ALTER TABLE users ADD COLUMN oidc_subject TEXT;                         -- id_token 中的 sub
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_oidc ON users(oidc_issuer, oidc_subject);
+
+-- domains：隐私设置（NULL 则使用全局设置 app_settings.privacy_ip_mode）
+ALTER TABLE domains ADD COLUMN ip_mode TEXT;                            -- full=原样保存 truncate=截断 /24,/48 hash=每日加盐哈希
+
+-- short_links：生效时间、周期时间段、兜底地址、路由规则、A/B 分流
+ALTER TABLE short_links ADD COLUMN start_at INTEGER;                    -- 生效时间，之前返回"暂不可用"；NULL=立即生效
+ALTER TABLE short_links ADD COLUMN schedule TEXT;                       -- 周期性生效时间段 JSON {timezone, windows:[{days, start, end}]}；NULL=不限制
+ALTER TABLE short_links ADD COLUMN fallback_url TEXT;                   -- 过期或达到访问上限后跳转的地址；NULL=返回错误页
+ALTER TABLE short_links ADD COLUMN routing_rules TEXT;                  -- 路由规则 JSON 数组（按国家/设备/语言等跳转到不同地址）；NULL=无
+ALTER TABLE short_links ADD COLUMN ab_variants TEXT;                    -- A/B 分流版本 JSON 数组 [{name, url, weight}]；NULL=不分流
+ALTER TABLE short_links ADD COLUMN ab_sticky INTEGER NOT NULL DEFAULT 0; -- A/B 分流是否用 cookie 固定访问者的版本
+
+-- link_visit_events：独立访客、命中的路由规则和 A/B 版本
+ALTER TABLE link_visit_events ADD COLUMN visitor_hash TEXT;             -- 当日加盐哈希(ip + ua)，用于统计独立访客
+ALTER TABLE link_visit_events ADD COLUMN matched_rule TEXT;             -- 命中的路由规则名称；default=未命中，NULL=短链接没有规则
+ALTER TABLE link_visit_events ADD COLUMN variant TEXT;                  -- A/B 分流命中的版本名；NULL=未分流
@@ -0,0 +1,38 @@
+-- 默认密码页模板（id 2 / 5）改为 POST 提交密码。sql.txt 中的种子数据只对新数据库生效，
+-- 这里更新已有数据库里的模板；只替换原来的 GET 跳转脚本，已被修改过这段脚本的模板保持不变
+
+UPDATE redirect_templates
+SET html_content = replace(html_content,
+'      const url = new URL(window.location.href);
+      url.searchParams.set(''password'', pwd);
+      window.location.href = url.toString();',
+'      const form = document.createElement(''form'');
+      form.method = ''POST'';
+      form.action = window.location.pathname;
+      const field = document.createElement(''input'');
+      field.type = ''hidden'';
+      field.name = ''password'';
+      field.value = pwd;
+      form.appendChild(field);
+      document.body.appendChild(form);
+      form.submit();')
+WHERE id = 2;
+
+UPDATE redirect_templates
+SET html_content = replace(html_content,
+'      // 跳转到当前页面，并追加/更新 password 参数
+      const url = new URL(window.location.href);
+      url.searchParams.set(''password'', pwd);
+      window.location.href = url.toString();',
+'      // 以 POST 表单提交到当前短链接，密码不会出现在 URL 中
+      const form = document.createElement(''form'');
+      form.method = ''POST'';
+      form.action = window.location.pathname;
+      const field = document.createElement(''input'');
+      field.type = ''hidden'';
+      field.name = ''password'';
+      field.value = pwd;
+      form.appendChild(field);
+      document.body.appendChild(form);
+      form.submit();')
+WHERE id = 5;
@@ -0,0 +1,19 @@
+-- link_visit_stats_daily 记录访问时的域名，域名统计按它筛选：
+-- 彻底删除的短链接和改过域名的短链接，其汇总数据仍计入访问时所在的域名，与原始事件的 domain_id 一致
+
+ALTER TABLE link_visit_stats_daily ADD COLUMN domain_id INTEGER;        -- 访问时的 domains.id（来自 link_visit_events.domain_id）
+
+-- 已有汇总优先取当天原始事件的域名，事件已归档时取短链接当前的域名；两者都没有的行不计入域名统计
+UPDATE link_visit_stats_daily
+SET domain_id = COALESCE(
+  (SELECT e.domain_id FROM link_visit_events e
+   WHERE e.short_link_id = link_visit_stats_daily.short_link_id
+     AND strftime('%Y-%m-%d', e.visited_at, 'unixepoch') = link_visit_stats_daily.day
+   LIMIT 1),
+  (SELECT sl.domain_id FROM short_links sl WHERE sl.id = link_visit_stats_daily.short_link_id)
+);
+
+-- 同一短链接同一天可能在两个域名下都有访问，唯一索引加入 domain_id（沿用原索引名，重复执行 sql.txt 时不会再建旧索引）
+DROP INDEX IF EXISTS idx_lvsd_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lvsd_unique ON link_visit_stats_daily(short_link_id, domain_id, day);
+CREATE INDEX IF NOT EXISTS idx_lvsd_domain_day ON link_visit_stats_daily(domain_id, day);
@@ -0,0 +1,125 @@
+import type { AbVariant } from "../lib/api";
+
+// ==================== A/B 分流编辑 ====================
+export function AbVariantsEditor({
+    variants,
+    sticky,
+    defaultUrl,
+    onVariantsChange,
+    onStickyChange,
+}: {
+    variants: AbVariant[];
+    sticky: boolean;
+    defaultUrl: string;
+    onVariantsChange: (variants: AbVariant[]) => void;
+    onStickyChange: (sticky: boolean) => void;
+}) {
+    const totalWeight = variants.reduce((sum, v) => sum + (v.weight || 0), 0);
+
+    const updateVariant = (index: number, patch: Partial<AbVariant>) => {
+        onVariantsChange(variants.map((variant, i) => (i === index ? { ...variant, ...patch } : variant)));
+    };
+
+    // 下一个未使用的字母作为默认版本名
+    const nextName = () => {
+        for (let i = 0; i < 26; i++) {
+            const name = String.fromCharCode(65 + i);
+            if (!variants.some((v) => v.name === name)) return name;
+        }
+        return "";
+    };
+
+    return (
+        <div className="form-control">
+            <label className="label">
+                <span className="label-text font-medium">A/B test</span>
+            </label>
+
+            {variants.length === 0 ? (
+                <>
+                    <p className="text-xs text-gray-500 mb-2">
+                        Split traffic that matches no routing rule across several destinations by weight.
+                    </p>
+                    <button
+                        type="button"
+                        className="btn btn-sm btn-outline self-start"
+                        onClick={() =>
+                            onVariantsChange([
+                                { name: "A", url: defaultUrl, weight: 50 },
+                                { name: "B", url: "", weight: 50 },
+                            ])
+                        }
+                    >
+                        Start A/B test
+                    </button>
+                </>
+            ) : (
+                <>
+                    <p className="text-xs text-gray-500 mb-2">
+                        Visitors matching no routing rule go to one of these URLs instead of the target URL.
+                    </p>
+                    <div className="space-y-2">
+                        {variants.map((variant, index) => (
+                            <div key={index} className="flex items-center gap-2">
+                                <input
+                                    type="text"
+                                    className="input input-bordered input-sm w-20"
+                                    placeholder="Name"
+                                    value={variant.name}
+                                    onChange={(e) => updateVariant(index, { name: e.target.value })}
+                                />
+                                <input
+                                    type="url"
+                                    className="input input-bordered input-sm flex-1"
+                                    placeholder="https://..."
+                                    value={variant.url}
+                                    onChange={(e) => updateVariant(index, { url: e.target.value })}
+                                />
+                                <input
+                                    type="number"
+                                    min={0}
+                                    className="input input-bordered input-sm w-20"
+                                    value={variant.weight}
+                                    onChange={(e) => updateVariant(index, { weight: Number(e.target.value) || 0 })}
+                                />
+                                <span className="text-xs text-gray-500 w-12 text-right">
+                                    {totalWeight > 0 ? `${Math.round((variant.weight / totalWeight) * 100)}%` : "-"}
+                                </span>
+                                <button
+                                    type="button"
+                                    className="btn btn-ghost btn-xs text-error"
+                                    onClick={() =>
+                                        onVariantsChange(
+                                            // 少于两个版本时不再分流
+                                            variants.length <= 2 ? [] : variants.filter((_, i) => i !== index)
+                                        )
+                                    }
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex items-center gap-4 mt-2">
+                        <button
+                            type="button"
+                            className="btn btn-sm btn-outline"
+                            onClick={() => onVariantsChange([...variants, { name: nextName(), url: "", weight: 0 }])}
+                        >
+                            Add variant
+                        </button>
+                        <label className="label cursor-pointer gap-2">
+                            <input
+                                type="checkbox"
+                                className="checkbox checkbox-sm"
+                                checked={sticky}
+                                onChange={(e) => onStickyChange(e.target.checked)}
+                            />
+                            <span className="label-text">Sticky (returning visitors keep their variant)</span>
+                        </label>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,16 +1,19 @@
 import { NavLink, Outlet, useNavigate } from "react-router";
 import { useState } from "react";
+import { authApi } from "../lib/api";
+import { clearSession, getTokenPayload } from "../lib/auth";
 
 const menuItems = [
     {
         path: "/",
-        label: "Index",
+        label: "Dashboard",
         icon: (
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-4 0a1 1 0 01-1-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 01-1 1h-2z" /></svg>
         ),
     },
     {
         path: "/users",
+        adminOnly: true,
         label: "Users",
         icon: (
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" /></svg>
@@ -18,6 +21,7 @@ const menuItems = [
     },
     {
         path: "/domains",
+        adminOnly: true,
         label: "Domains",
         icon: (
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 12a9 9 0 01-9 9m9-9a9 9 0 00-9-9m9 9H3m9 9a9 9 0 01-9-9m9 9c1.657 0 3-4.03 3-9s-1.343-9-3-9m0 18c-1.657 0-3-4.03-3-9s1.343-9 3-9m-9 9a9 9 0 019-9" /></svg>
@@ -32,6 +36,7 @@ const menuItems = [
     },
     {
         path: "/templates",
+        adminOnly: true,
         label: "Templates Management",
         icon: (
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
@@ -39,34 +44,27 @@ const menuItems = [
     },
     {
         path: "/template-resources",
+        adminOnly: true,
         label: "Template Resources Management",
         icon: (
             <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" /></svg>
         ),
     },
+    {
+        path: "/audit-log",
+        adminOnly: true,
+        label: "Audit Log",
+        icon: (
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>
+        ),
+    },
 ];
 
 function getUsernameFromToken(): string {
-    const token = localStorage.getItem("auth_token");
-    if (!token) return "unauthorized";
-
-    try {
-        const parts = token.split('.');
-        if (parts.length !== 3) {
-            return "Token error";
-        }
-        // Base64Url decode the payload
-        const payload = parts[1].replace(/-/g, '+').replace(/_/g, '/');
-        const jsonPayload = decodeURIComponent(window.atob(payload).split('').map(function(c) {
-            return '%' + ('00' + c.charCodeAt(0).toString(16)).slice(-2);
-        }).join(''));
-
-        const data = JSON.parse(jsonPayload);
-        return data.username || "unknown username";
-    } catch (e) {
-        console.error("Failed to parse token", e);
-        return "parse error";
-    }
+    if (!localStorage.getItem("auth_token")) return "unauthorized";
+    const payload = getTokenPayload();
+    if (!payload) return "Token error";
+    return payload.username || "unknown username";
 }
 
 export function AdminLayout() {
@@ -74,9 +72,17 @@ export function AdminLayout() {
     
     // 优化：直接在 useState 初始化时读取，避免 useEffect 导致的二次渲染
     const [username] = useState<string>(() => getUsernameFromToken());
+    // 普通用户隐藏仅管理员可用的页面
+    const [role] = useState<string | undefined>(() => getTokenPayload()?.role);
+    const visibleMenuItems = menuItems.filter((item) => !item.adminOnly || role === "admin");
 
-    const handleLogout = () => {
-        localStorage.removeItem("auth_token");
+    const handleLogout = async () => {
+        try {
+            await authApi.logout();
+        } catch {
+            // 会话可能已失效，本地登出即可
+        }
+        clearSession();
         navigate("/login");
     };
 
@@ -134,7 +140,7 @@ export function AdminLayout() {
                     {/* 导航菜单 */}
                     <nav className="flex-1 px-2 py-4">
                         <ul className="space-y-1">
-                            {menuItems.map((item) => (
+                            {visibleMenuItems.map((item) => (
                                 <li key={item.path}>
                                     <NavLink
                                         to={item.path}
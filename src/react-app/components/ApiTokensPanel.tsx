@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { apiTokenApi, type ApiToken } from "../lib/api";
+
+const EXPIRY_OPTIONS = [
+    { label: "Never", days: 0 },
+    { label: "7 days", days: 7 },
+    { label: "30 days", days: 30 },
+    { label: "90 days", days: 90 },
+    { label: "1 year", days: 365 },
+];
+
+function errorMessage(err: unknown, fallback: string): string {
+    if (axios.isAxiosError(err)) {
+        return err.response?.data?.message || fallback;
+    }
+    return fallback;
+}
+
+const formatTime = (timestamp: number | null) => {
+    if (!timestamp) return "-";
+    return new Date(timestamp * 1000).toLocaleString("en-US");
+};
+
+// ==================== API token 管理 ====================
+export function ApiTokensPanel() {
+    const [tokens, setTokens] = useState<ApiToken[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState("");
+
+    const [name, setName] = useState("");
+    const [scopes, setScopes] = useState("");
+    const [expiryDays, setExpiryDays] = useState(90);
+    const [creating, setCreating] = useState(false);
+    // 新建 token 的明文，只展示一次
+    const [createdToken, setCreatedToken] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    const [revoking, setRevoking] = useState<ApiToken | null>(null);
+
+    const loadTokens = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await apiTokenApi.getList();
+            if (res.data.code === 0) {
+                setTokens(res.data.data);
+            } else {
+                setError(res.data.message || "Failed to load API tokens");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Failed to load API tokens"));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadTokens();
+    }, [loadTokens]);
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        if (!name.trim()) {
+            setError("Please enter a token name");
+            return;
+        }
+
+        try {
+            setCreating(true);
+            const res = await apiTokenApi.create({
+                name: name.trim(),
+                scopes: scopes.trim() || null,
+                expires_at: expiryDays > 0 ? Math.floor(Date.now() / 1000) + expiryDays * 86400 : null,
+            });
+            if (res.data.code === 0 && res.data.data) {
+                setCreatedToken(res.data.data.token);
+                setCopied(false);
+                setName("");
+                setScopes("");
+                loadTokens();
+            } else {
+                setError(res.data.message || "Failed to create API token");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Failed to create API token"));
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const handleToggle = async (token: ApiToken) => {
+        try {
+            const res = await apiTokenApi.toggleStatus(token.id);
+            if (res.data.code === 0) {
+                loadTokens();
+            } else {
+                setError(res.data.message || "Failed to update API token");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Failed to update API token"));
+        }
+    };
+
+    const handleRevoke = async () => {
+        if (!revoking) return;
+        try {
+            const res = await apiTokenApi.delete(revoking.id);
+            if (res.data.code === 0) {
+                loadTokens();
+            } else {
+                setError(res.data.message || "Failed to revoke API token");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Failed to revoke API token"));
+        } finally {
+            setRevoking(null);
+        }
+    };
+
+    const handleCopy = async () => {
+        if (!createdToken) return;
+        await navigator.clipboard.writeText(createdToken);
+        setCopied(true);
+    };
+
+    const now = Math.floor(Date.now() / 1000);
+
+    return (
+        <div className="mt-10">
+            <h2 className="text-xl font-bold mb-2">API Tokens</h2>
+            <p className="text-sm opacity-70 mb-4">
+                Personal tokens for scripts and integrations. Send them as <code>Authorization: Bearer &lt;token&gt;</code>.
+                Scopes are comma-separated <code>resource:r</code> or <code>resource:rw</code> pairs; resources are{" "}
+                <code>links, domains, templates, assets, users, stats, settings</code>. Leave empty for full access.
+            </p>
+
+            {error && (
+                <div className="alert alert-error mb-4">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {createdToken && (
+                <div className="alert alert-warning mb-4 flex-col items-start">
+                    <span className="font-semibold">Copy your new token now. It will not be shown again.</span>
+                    <div className="flex w-full gap-2">
+                        <input className="input input-bordered input-sm w-full font-mono" readOnly value={createdToken} />
+                        <button className="btn btn-sm" onClick={handleCopy}>
+                            {copied ? "Copied" : "Copy"}
+                        </button>
+                        <button className="btn btn-sm btn-ghost" onClick={() => setCreatedToken(null)}>
+                            Done
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <form onSubmit={handleCreate} className="flex flex-wrap gap-2 items-end mb-4">
+                <div className="form-control">
+                    <label className="label">
+                        <span className="label-text">Name</span>
+                    </label>
+                    <input
+                        className="input input-bordered input-sm w-48"
+                        placeholder="e.g. CI deploy"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                    />
+                </div>
+                <div className="form-control">
+                    <label className="label">
+                        <span className="label-text">Scopes</span>
+                    </label>
+                    <input
+                        className="input input-bordered input-sm w-48 font-mono"
+                        placeholder="links:rw,stats:r"
+                        value={scopes}
+                        onChange={(e) => setScopes(e.target.value)}
+                    />
+                </div>
+                <div className="form-control">
+                    <label className="label">
+                        <span className="label-text">Expires</span>
+                    </label>
+                    <select
+                        className="select select-bordered select-sm w-32"
+                        value={expiryDays}
+                        onChange={(e) => setExpiryDays(Number(e.target.value))}
+                    >
+                        {EXPIRY_OPTIONS.map((o) => (
+                            <option key={o.days} value={o.days}>
+                                {o.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+                <button type="submit" className="btn btn-primary btn-sm" disabled={creating}>
+                    {creating ? "Creating..." : "Create Token"}
+                </button>
+            </form>
+
+            <div className="overflow-x-auto bg-base-100 rounded-lg shadow">
+                <table className="table table-sm">
+                    <thead>
+                        <tr>
+                            <th>Name</th>
+                            <th>Scopes</th>
+                            <th>Status</th>
+                            <th>Last used</th>
+                            <th>Expires</th>
+                            <th>Created</th>
+                            <th className="text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {loading && tokens.length === 0 ? (
+                            <tr>
+                                <td colSpan={7} className="text-center py-6">
+                                    <span className="loading loading-spinner"></span>
+                                </td>
+                            </tr>
+                        ) : tokens.length === 0 ? (
+                            <tr>
+                                <td colSpan={7} className="text-center py-6 text-gray-500">
+                                    No API tokens
+                                </td>
+                            </tr>
+                        ) : (
+                            tokens.map((token) => {
+                                const expired = token.expires_at !== null && token.expires_at <= now;
+                                return (
+                                    <tr key={token.id}>
+                                        <td className="font-medium">{token.name || "-"}</td>
+                                        <td className="font-mono text-xs">{token.scopes || "full access"}</td>
+                                        <td>
+                                            {expired ? (
+                                                <span className="badge badge-warning badge-sm">Expired</span>
+                                            ) : token.status === 0 ? (
+                                                <span className="badge badge-success badge-sm">Enabled</span>
+                                            ) : (
+                                                <span className="badge badge-ghost badge-sm">Disabled</span>
+                                            )}
+                                        </td>
+                                        <td>{formatTime(token.last_used_at)}</td>
+                                        <td>{token.expires_at ? formatTime(token.expires_at) : "Never"}</td>
+                                        <td>{formatTime(token.created_at)}</td>
+                                        <td className="text-right whitespace-nowrap">
+                                            <button className="btn btn-xs btn-ghost" onClick={() => handleToggle(token)}>
+                                                {token.status === 0 ? "Disable" : "Enable"}
+                                            </button>
+                                            <button
+                                                className="btn btn-xs btn-ghost text-error"
+                                                onClick={() => setRevoking(token)}
+                                            >
+                                                Revoke
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {revoking && (
+                <div className="modal modal-open">
+                    <div className="modal-box">
+                        <h3 className="font-bold text-lg">Revoke API token</h3>
+                        <p className="py-4">
+                            Revoke <span className="font-semibold">{revoking.name}</span>? Scripts using it will stop
+                            working immediately. This cannot be undone.
+                        </p>
+                        <div className="modal-action">
+                            <button className="btn" onClick={() => setRevoking(null)}>
+                                Cancel
+                            </button>
+                            <button className="btn btn-error" onClick={handleRevoke}>
+                                Revoke
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import type { AxiosResponse } from "axios";
+import type { ExportFormat } from "../lib/api";
+
+// 优先使用服务端 Content-Disposition 中的文件名
+function downloadName(res: AxiosResponse<Blob>, fallback: string): string {
+    const disposition = String(res.headers["content-disposition"] || "");
+    const match = disposition.match(/filename="([^"]+)"/);
+    return match ? decodeURIComponent(match[1]) : fallback;
+}
+
+// ==================== 导出下载按钮 ====================
+export function ExportButton({
+    label = "Export",
+    filename,
+    onExport,
+}: {
+    label?: string;
+    filename: string;
+    onExport: (format: ExportFormat) => Promise<AxiosResponse<Blob>>;
+}) {
+    const [exporting, setExporting] = useState(false);
+    const [error, setError] = useState("");
+
+    const handleExport = async (format: ExportFormat) => {
+        try {
+            setExporting(true);
+            setError("");
+            const res = await onExport(format);
+            const url = URL.createObjectURL(new Blob([res.data]));
+            const a = document.createElement("a");
+            a.href = url;
+            a.download = downloadName(res, `${filename}.${format}`);
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        } catch (e) {
+            console.error("Export failed:", e);
+            setError("Export failed");
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    return (
+        <div className="dropdown dropdown-end">
+            <button
+                type="button"
+                tabIndex={0}
+                className={`btn btn-outline ${error ? "btn-error" : ""}`}
+                title={error || undefined}
+                disabled={exporting}
+            >
+                {exporting && <span className="loading loading-spinner loading-sm"></span>}
+                {label}
+            </button>
+            <ul tabIndex={0} className="dropdown-content menu bg-base-100 rounded-box shadow z-10 w-40 p-2">
+                <li>
+                    <button type="button" onClick={() => handleExport("csv")}>CSV</button>
+                </li>
+                <li>
+                    <button type="button" onClick={() => handleExport("ndjson")}>NDJSON</button>
+                </li>
+            </ul>
+        </div>
+    );
+}
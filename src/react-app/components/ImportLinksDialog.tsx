@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { shortLinkApi, ImportFormat, ImportReport, ImportRowResult } from "../lib/api";
+
+const CSV_EXAMPLE = "domain,code,target_url,tags,expire_at,password,redirect_http_code,remark";
+
+const STATUS_BADGES: Record<ImportRowResult["status"], string> = {
+    ok: "badge-success",
+    created: "badge-success",
+    conflict: "badge-warning",
+    error: "badge-error",
+};
+
+function errorMessage(error: unknown, fallback: string): string {
+    return error && typeof error === "object" && "response" in error
+        ? (error.response as { data?: { message?: string } })?.data?.message || fallback
+        : fallback;
+}
+
+// ==================== 批量导入对话框 ====================
+export function ImportLinksDialog({
+    onClose,
+    onImported,
+}: {
+    onClose: () => void;
+    onImported: () => void;
+}) {
+    const [format, setFormat] = useState<ImportFormat>("csv");
+    const [content, setContent] = useState("");
+    const [report, setReport] = useState<ImportReport | null>(null);
+    const [error, setError] = useState("");
+    const [loading, setLoading] = useState(false);
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return;
+        setFormat(file.name.toLowerCase().endsWith(".json") ? "json" : "csv");
+        setContent(await file.text());
+        setReport(null);
+    };
+
+    const run = async (dryRun: boolean) => {
+        try {
+            setLoading(true);
+            setError("");
+            const res = await shortLinkApi.import(format, content, dryRun);
+            if (res.data.code === 0 && res.data.data) {
+                setReport(res.data.data);
+                if (!dryRun && res.data.data.created > 0) {
+                    onImported();
+                }
+            } else {
+                setError(res.data.message || "Import failed");
+            }
+        } catch (e: unknown) {
+            setError(errorMessage(e, "Import failed"));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // 试运行通过后才允许正式导入，修改内容后需要重新校验
+    const canImport = report?.dry_run === true && report.valid > 0;
+
+    return (
+        <div className="modal modal-open">
+            <div className="modal-box max-w-3xl max-h-[90vh]">
+                <h3 className="font-bold text-lg mb-4">Import Short Links</h3>
+
+                <div className="flex flex-wrap items-center gap-3 mb-2">
+                    <input
+                        type="file"
+                        accept=".csv,.json,text/csv,application/json"
+                        className="file-input file-input-bordered file-input-sm"
+                        onChange={(e) => handleFile(e.target.files?.[0])}
+                        disabled={loading}
+                    />
+                    <select
+                        className="select select-bordered select-sm"
+                        value={format}
+                        onChange={(e) => {
+                            setFormat(e.target.value as ImportFormat);
+                            setReport(null);
+                        }}
+                        disabled={loading}
+                    >
+                        <option value="csv">CSV</option>
+                        <option value="json">JSON</option>
+                    </select>
+                </div>
+
+                <textarea
+                    className="textarea textarea-bordered w-full font-mono text-xs h-40"
+                    placeholder={
+                        format === "csv"
+                            ? `${CSV_EXAMPLE}\nexample.com,promo,https://example.org/landing,"spring,sale",2026-12-31,,301,Spring promo`
+                            : '[{"domain": "example.com", "code": "promo", "target_url": "https://example.org/landing", "tags": ["spring"]}]'
+                    }
+                    value={content}
+                    onChange={(e) => {
+                        setContent(e.target.value);
+                        setReport(null);
+                    }}
+                    disabled={loading}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                    Columns: {CSV_EXAMPLE}. Only domain and target_url are required; a blank code gets a random one.
+                    expire_at accepts a unix timestamp or a date. Separate tags with commas or "|". Up to 500 rows per
+                    import, at most 20 of them with a password.
+                </p>
+
+                {error && <div className="alert alert-error mt-3 text-sm">{error}</div>}
+
+                {report && (
+                    <div className="mt-4">
+                        <div className="flex flex-wrap gap-2 mb-2 text-sm">
+                            {report.dry_run ? (
+                                <span className="badge badge-success">{report.valid} ready</span>
+                            ) : (
+                                <span className="badge badge-success">{report.created} created</span>
+                            )}
+                            <span className="badge badge-warning">{report.conflicts} conflicts</span>
+                            <span className="badge badge-error">{report.errors} errors</span>
+                            <span className="text-gray-500">of {report.total} rows</span>
+                        </div>
+                        <div className="overflow-x-auto max-h-64">
+                            <table className="table table-xs table-pin-rows">
+                                <thead>
+                                    <tr>
+                                        <th>Row</th>
+                                        <th>Short link</th>
+                                        <th>Target URL</th>
+                                        <th>Result</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {report.results.map((r) => (
+                                        <tr key={r.row}>
+                                            <td>{r.row}</td>
+                                            <td className="font-mono">
+                                                {r.domain ? `${r.domain}/${r.code ?? "(auto)"}` : "-"}
+                                            </td>
+                                            <td className="max-w-xs truncate">{r.target_url || "-"}</td>
+                                            <td>
+                                                <span className={`badge badge-sm ${STATUS_BADGES[r.status]}`}>
+                                                    {r.status}
+                                                </span>{" "}
+                                                {r.message}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+
+                <div className="modal-action">
+                    <button className="btn btn-ghost" onClick={onClose} disabled={loading}>
+                        {report && !report.dry_run ? "Close" : "Cancel"}
+                    </button>
+                    <button
+                        className="btn btn-outline"
+                        onClick={() => run(true)}
+                        disabled={loading || !content.trim()}
+                    >
+                        Validate (dry run)
+                    </button>
+                    <button
+                        className="btn btn-primary"
+                        onClick={() => run(false)}
+                        disabled={loading || !canImport}
+                    >
+                        {loading ? <span className="loading loading-spinner loading-sm"></span> : null}
+                        Import {canImport ? `${report.valid} links` : ""}
+                    </button>
+                </div>
+            </div>
+            <div className="modal-backdrop" onClick={() => !loading && onClose()}></div>
+        </div>
+    );
+}
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useState } from "react";
+import { shortLinkApi, LinkRevision, RevisionAction, ShortLinkWithDomain } from "../lib/api";
+
+const ACTION_LABELS: Record<RevisionAction, string> = {
+    baseline: "Initial state",
+    create: "Created",
+    import: "Imported",
+    update: "Edited",
+    toggle: "Enabled / disabled",
+    delete: "Moved to trash",
+    restore: "Restored",
+    transfer: "Owner transferred",
+    revert: "Reverted",
+};
+
+// 时间类字段按本地时间显示
+const TIME_FIELDS = ["start_at", "expire_at", "deleted_at"];
+
+function errorMessage(error: unknown, fallback: string): string {
+    return error && typeof error === "object" && "response" in error
+        ? (error.response as { data?: { message?: string } })?.data?.message || fallback
+        : fallback;
+}
+
+function formatValue(field: string, value: unknown): string {
+    if (value === null || value === undefined || value === "") return "—";
+    if (TIME_FIELDS.includes(field) && typeof value === "number") {
+        return new Date(value * 1000).toLocaleString("en-US");
+    }
+    if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+    return String(value);
+}
+
+// ==================== 修改历史对话框 ====================
+export function LinkHistoryDialog({
+    link,
+    onClose,
+    onReverted,
+}: {
+    link: ShortLinkWithDomain;
+    onClose: () => void;
+    onReverted: () => void;
+}) {
+    const [revisions, setRevisions] = useState<LinkRevision[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState("");
+    const [notice, setNotice] = useState("");
+    // 待确认回滚的版本号
+    const [confirming, setConfirming] = useState<number | null>(null);
+
+    const loadRevisions = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await shortLinkApi.getRevisions(link.id);
+            if (res.data.code === 0) {
+                setRevisions(res.data.data);
+            } else {
+                setError(res.data.message || "Failed to load history");
+            }
+        } catch (e: unknown) {
+            setError(errorMessage(e, "Failed to load history"));
+        } finally {
+            setLoading(false);
+        }
+    }, [link.id]);
+
+    useEffect(() => {
+        loadRevisions();
+    }, [loadRevisions]);
+
+    const handleRevert = async (revision: number) => {
+        try {
+            setLoading(true);
+            setError("");
+            const res = await shortLinkApi.revert(link.id, revision);
+            if (res.data.code === 0) {
+                setNotice(res.data.message);
+                setConfirming(null);
+                onReverted();
+                await loadRevisions();
+            } else {
+                setError(res.data.message || "Revert failed");
+            }
+        } catch (e: unknown) {
+            setError(errorMessage(e, "Revert failed"));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // 已删除的短链接需要先从回收站恢复；最新版本就是当前状态，无需回滚
+    const canRevert = link.deleted_at === null;
+    const latest = revisions[0]?.revision;
+
+    return (
+        <div className="modal modal-open">
+            <div className="modal-box max-w-3xl max-h-[90vh]">
+                <h3 className="font-bold text-lg">History</h3>
+                <p className="text-sm text-gray-500 font-mono mb-4">
+                    {link.domain_host}/{link.code}
+                </p>
+
+                {error && (
+                    <div className="alert alert-error mb-4">
+                        <span>{error}</span>
+                    </div>
+                )}
+                {notice && (
+                    <div className="alert alert-success mb-4">
+                        <span>{notice}</span>
+                    </div>
+                )}
+
+                {revisions.length === 0 ? (
+                    <div className="text-center text-gray-500 py-8">
+                        {loading ? <span className="loading loading-spinner"></span> : "No changes recorded yet"}
+                    </div>
+                ) : (
+                    <ul className="timeline timeline-vertical timeline-compact">
+                        {revisions.map((item, index) => (
+                            <li key={item.id}>
+                                {index > 0 && <hr />}
+                                <div className="timeline-middle">
+                                    <span className="badge badge-sm badge-neutral">#{item.revision}</span>
+                                </div>
+                                <div className="timeline-end mb-6 w-full">
+                                    <div className="flex flex-wrap items-center justify-between gap-2">
+                                        <div>
+                                            <span className="font-semibold">{ACTION_LABELS[item.action]}</span>
+                                            {item.reverted_from !== null && (
+                                                <span className="text-gray-500"> to #{item.reverted_from}</span>
+                                            )}
+                                            <div className="text-xs text-gray-500">
+                                                {new Date(item.created_at * 1000).toLocaleString("en-US")}
+                                                {" · "}
+                                                {item.actor_username || (item.actor_user_id ? `User #${item.actor_user_id}` : "System")}
+                                            </div>
+                                        </div>
+                                        {canRevert && item.revision !== latest && (
+                                            confirming === item.revision ? (
+                                                <div className="flex gap-1">
+                                                    <button
+                                                        className="btn btn-xs btn-ghost"
+                                                        onClick={() => setConfirming(null)}
+                                                        disabled={loading}
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                    <button
+                                                        className="btn btn-xs btn-warning"
+                                                        onClick={() => handleRevert(item.revision)}
+                                                        disabled={loading}
+                                                    >
+                                                        Confirm revert
+                                                    </button>
+                                                </div>
+                                            ) : (
+                                                <button
+                                                    className="btn btn-xs btn-outline"
+                                                    onClick={() => setConfirming(item.revision)}
+                                                    disabled={loading}
+                                                >
+                                                    Revert to this revision
+                                                </button>
+                                            )
+                                        )}
+                                    </div>
+                                    {item.changes && Object.keys(item.changes).length > 0 && (
+                                        <table className="table table-xs mt-2">
+                                            <tbody>
+                                                {Object.entries(item.changes).map(([field, change]) => (
+                                                    <tr key={field}>
+                                                        <td className="font-mono w-40">{field}</td>
+                                                        <td className="text-error line-through break-all">
+                                                            {formatValue(field, change.from)}
+                                                        </td>
+                                                        <td className="text-success break-all">
+                                                            {formatValue(field, change.to)}
+                                                        </td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    )}
+                                </div>
+                                {index < revisions.length - 1 && <hr />}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="modal-action">
+                    <button className="btn" onClick={onClose} disabled={loading}>
+                        Close
+                    </button>
+                </div>
+            </div>
+            <div className="modal-backdrop" onClick={() => !loading && onClose()}></div>
+        </div>
+    );
+}
@@ -0,0 +1,135 @@
+import type { RoutingRule, RoutingRuleField, RoutingRuleOperator } from "../lib/api";
+
+const FIELD_OPTIONS: { value: RoutingRuleField; label: string; placeholder: string }[] = [
+    { value: "country", label: "Country", placeholder: "CN, HK" },
+    { value: "region", label: "Region", placeholder: "California" },
+    { value: "city", label: "City", placeholder: "Berlin" },
+    { value: "device_type", label: "Device type", placeholder: "mobile, tablet" },
+    { value: "os", label: "OS", placeholder: "iOS, Android" },
+    { value: "browser", label: "Browser", placeholder: "Chrome, Safari" },
+    { value: "language", label: "Language", placeholder: "de, fr-ca" },
+];
+
+const OPERATOR_OPTIONS: { value: RoutingRuleOperator; label: string }[] = [
+    { value: "in", label: "is one of" },
+    { value: "not_in", label: "is not one of" },
+    { value: "starts_with", label: "starts with" },
+];
+
+// ==================== 路由规则编辑 ====================
+export function RoutingRulesEditor({
+    rules,
+    onChange,
+}: {
+    rules: RoutingRule[];
+    onChange: (rules: RoutingRule[]) => void;
+}) {
+    const updateRule = (index: number, patch: Partial<RoutingRule>) => {
+        onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+    };
+
+    const moveRule = (index: number, offset: number) => {
+        const next = [...rules];
+        const [rule] = next.splice(index, 1);
+        next.splice(index + offset, 0, rule);
+        onChange(next);
+    };
+
+    const addRule = () => {
+        onChange([...rules, { field: "country", operator: "in", values: [], target_url: "" }]);
+    };
+
+    return (
+        <div className="form-control">
+            <label className="label">
+                <span className="label-text font-medium">Routing rules</span>
+            </label>
+            <p className="text-xs text-gray-500 mb-2">
+                Rules are checked from top to bottom. The first match wins; visitors matching no rule go to the
+                target URL. Values are case-insensitive and comma-separated.
+            </p>
+
+            <div className="space-y-2">
+                {rules.map((rule, index) => (
+                    <div key={index} className="border border-base-300 rounded-lg p-3 space-y-2">
+                        <div className="flex items-center gap-2">
+                            <span className="badge badge-ghost">#{index + 1}</span>
+                            <input
+                                type="text"
+                                className="input input-bordered input-sm flex-1"
+                                placeholder="Name (optional, shown in stats)"
+                                value={rule.name || ""}
+                                onChange={(e) => updateRule(index, { name: e.target.value })}
+                            />
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-xs"
+                                disabled={index === 0}
+                                onClick={() => moveRule(index, -1)}
+                            >
+                                ↑
+                            </button>
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-xs"
+                                disabled={index === rules.length - 1}
+                                onClick={() => moveRule(index, 1)}
+                            >
+                                ↓
+                            </button>
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-xs text-error"
+                                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                            >
+                                ✕
+                            </button>
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                            <select
+                                className="select select-bordered select-sm"
+                                value={rule.field}
+                                onChange={(e) => updateRule(index, { field: e.target.value as RoutingRuleField })}
+                            >
+                                {FIELD_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                className="select select-bordered select-sm"
+                                value={rule.operator}
+                                onChange={(e) => updateRule(index, { operator: e.target.value as RoutingRuleOperator })}
+                            >
+                                {OPERATOR_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>
+                                        {option.label}
+                                    </option>
+                                ))}
+                            </select>
+                            <input
+                                type="text"
+                                className="input input-bordered input-sm"
+                                placeholder={FIELD_OPTIONS.find((o) => o.value === rule.field)?.placeholder}
+                                value={rule.values.join(",")}
+                                onChange={(e) => updateRule(index, { values: e.target.value.split(",") })}
+                            />
+                        </div>
+                        <input
+                            type="url"
+                            className="input input-bordered input-sm w-full"
+                            placeholder="Redirect to https://..."
+                            value={rule.target_url}
+                            onChange={(e) => updateRule(index, { target_url: e.target.value })}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            <button type="button" className="btn btn-sm btn-outline mt-2 self-start" onClick={addRule}>
+                Add rule
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,108 @@
+import type { LinkSchedule, ScheduleWindow } from "../lib/api";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const browserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+// ==================== 周期性生效时间段编辑 ====================
+export function ScheduleEditor({
+    schedule,
+    onChange,
+}: {
+    schedule: LinkSchedule | null;
+    onChange: (schedule: LinkSchedule | null) => void;
+}) {
+    const updateWindow = (index: number, patch: Partial<ScheduleWindow>) => {
+        if (!schedule) return;
+        onChange({
+            ...schedule,
+            windows: schedule.windows.map((w, i) => (i === index ? { ...w, ...patch } : w)),
+        });
+    };
+
+    const removeWindow = (index: number) => {
+        if (!schedule) return;
+        const windows = schedule.windows.filter((_, i) => i !== index);
+        onChange(windows.length > 0 ? { ...schedule, windows } : null);
+    };
+
+    const addWindow = () => {
+        const window: ScheduleWindow = { days: [1, 2, 3, 4, 5], start: "09:00", end: "18:00" };
+        onChange(
+            schedule
+                ? { ...schedule, windows: [...schedule.windows, window] }
+                : { timezone: browserTimezone(), windows: [window] }
+        );
+    };
+
+    const toggleDay = (index: number, day: number) => {
+        const days = schedule?.windows[index].days || [];
+        updateWindow(index, {
+            days: days.includes(day) ? days.filter((d) => d !== day) : [...days, day].sort((a, b) => a - b),
+        });
+    };
+
+    return (
+        <div className="form-control">
+            <label className="label">
+                <span className="label-text font-medium">Active hours</span>
+            </label>
+            <p className="text-xs text-gray-500 mb-2">
+                Only allow visits during these recurring windows. An end time before the start time runs past
+                midnight. Leave empty to allow visits at any time.
+            </p>
+
+            {schedule && (
+                <div className="space-y-2">
+                    <input
+                        type="text"
+                        className="input input-bordered input-sm w-full md:w-64"
+                        placeholder="Time zone, e.g. Europe/Berlin"
+                        value={schedule.timezone}
+                        onChange={(e) => onChange({ ...schedule, timezone: e.target.value })}
+                    />
+                    {schedule.windows.map((window, index) => (
+                        <div key={index} className="flex flex-wrap items-center gap-2">
+                            <div className="join">
+                                {DAY_LABELS.map((label, day) => (
+                                    <button
+                                        key={day}
+                                        type="button"
+                                        className={`btn btn-xs join-item ${window.days.includes(day) ? "btn-primary" : ""}`}
+                                        onClick={() => toggleDay(index, day)}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                            <input
+                                type="time"
+                                className="input input-bordered input-sm"
+                                value={window.start}
+                                onChange={(e) => updateWindow(index, { start: e.target.value })}
+                            />
+                            <span className="text-sm">to</span>
+                            <input
+                                type="time"
+                                className="input input-bordered input-sm"
+                                value={window.end}
+                                onChange={(e) => updateWindow(index, { end: e.target.value })}
+                            />
+                            <button
+                                type="button"
+                                className="btn btn-ghost btn-xs text-error"
+                                onClick={() => removeWindow(index)}
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <button type="button" className="btn btn-sm btn-outline mt-2 self-start" onClick={addWindow}>
+                Add time window
+            </button>
+        </div>
+    );
+}
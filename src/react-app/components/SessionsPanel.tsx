@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { sessionsApi, type UserSession } from "../lib/api";
+
+function errorMessage(err: unknown, fallback: string): string {
+    if (axios.isAxiosError(err)) {
+        return err.response?.data?.message || fallback;
+    }
+    return fallback;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp * 1000).toLocaleString("en-US");
+
+// 从 User-Agent 粗略识别浏览器和系统，仅用于展示
+function describeDevice(userAgent: string | null): string {
+    if (!userAgent) return "Unknown device";
+    const browser =
+        /Edg\//.test(userAgent) ? "Edge" :
+            /Firefox\//.test(userAgent) ? "Firefox" :
+                /Chrome\//.test(userAgent) ? "Chrome" :
+                    /Safari\//.test(userAgent) ? "Safari" :
+                        "Browser";
+    const os =
+        /Windows/.test(userAgent) ? "Windows" :
+            /Android/.test(userAgent) ? "Android" :
+                /iPhone|iPad/.test(userAgent) ? "iOS" :
+                    /Mac OS X/.test(userAgent) ? "macOS" :
+                        /Linux/.test(userAgent) ? "Linux" :
+                            "Unknown OS";
+    return `${browser} on ${os}`;
+}
+
+// ==================== 登录会话管理 ====================
+export function SessionsPanel() {
+    const [sessions, setSessions] = useState<UserSession[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState("");
+
+    const loadSessions = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await sessionsApi.getList();
+            if (res.data.code === 0) {
+                setSessions(res.data.data);
+            } else {
+                setError(res.data.message || "Failed to load sessions");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Failed to load sessions"));
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadSessions();
+    }, [loadSessions]);
+
+    const handleRevoke = async (session: UserSession) => {
+        setError("");
+        try {
+            const res = await sessionsApi.revoke(session.id);
+            if (res.data.code === 0) {
+                loadSessions();
+            } else {
+                setError(res.data.message || "Failed to sign out session");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Failed to sign out session"));
+        }
+    };
+
+    const handleRevokeOthers = async () => {
+        setError("");
+        try {
+            const res = await sessionsApi.revokeOthers();
+            if (res.data.code === 0) {
+                loadSessions();
+            } else {
+                setError(res.data.message || "Failed to sign out other sessions");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Failed to sign out other sessions"));
+        }
+    };
+
+    return (
+        <div className="mt-10">
+            <div className="flex items-center justify-between mb-2">
+                <h2 className="text-xl font-bold">Sessions</h2>
+                <button
+                    className="btn btn-sm btn-ghost text-error"
+                    onClick={handleRevokeOthers}
+                    disabled={sessions.filter((s) => !s.current).length === 0}
+                >
+                    Sign out other sessions
+                </button>
+            </div>
+            <p className="text-sm opacity-70 mb-4">
+                Devices currently signed in to your account. Signing out a session takes effect immediately.
+            </p>
+
+            {error && (
+                <div className="alert alert-error mb-4">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            <div className="overflow-x-auto bg-base-100 rounded-lg shadow">
+                <table className="table table-sm">
+                    <thead>
+                        <tr>
+                            <th>Device</th>
+                            <th>IP</th>
+                            <th>Last seen</th>
+                            <th>Signed in</th>
+                            <th className="text-right">Actions</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {loading && sessions.length === 0 ? (
+                            <tr>
+                                <td colSpan={5} className="text-center py-6">
+                                    <span className="loading loading-spinner"></span>
+                                </td>
+                            </tr>
+                        ) : sessions.length === 0 ? (
+                            <tr>
+                                <td colSpan={5} className="text-center py-6 text-gray-500">
+                                    No active sessions
+                                </td>
+                            </tr>
+                        ) : (
+                            sessions.map((session) => (
+                                <tr key={session.id}>
+                                    <td>
+                                        <span className="font-medium" title={session.user_agent || undefined}>
+                                            {describeDevice(session.user_agent)}
+                                        </span>
+                                        {session.current && (
+                                            <span className="badge badge-primary badge-sm ml-2">This device</span>
+                                        )}
+                                    </td>
+                                    <td className="font-mono text-xs">{session.ip || "-"}</td>
+                                    <td>{formatTime(session.last_seen_at)}</td>
+                                    <td>{formatTime(session.created_at)}</td>
+                                    <td className="text-right whitespace-nowrap">
+                                        {!session.current && (
+                                            <button
+                                                className="btn btn-xs btn-ghost text-error"
+                                                onClick={() => handleRevoke(session)}
+                                            >
+                                                Sign out
+                                            </button>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,185 @@
+import type { StatsBlockedMode, StatsBreakdownItem, StatsInterval, StatsTimeseriesPoint } from "../lib/api";
+
+const INTERVAL_SECONDS: Record<StatsInterval, number> = {
+    hour: 3600,
+    day: 86400,
+    week: 604800,
+};
+
+// 与后端一致：周桶从周一 00:00 (UTC) 开始
+const WEEK_OFFSET_SECONDS = 4 * 86400;
+
+function alignBucket(ts: number, interval: StatsInterval): number {
+    const size = INTERVAL_SECONDS[interval];
+    if (interval === "week") {
+        return Math.floor((ts - WEEK_OFFSET_SECONDS) / size) * size + WEEK_OFFSET_SECONDS;
+    }
+    return Math.floor(ts / size) * size;
+}
+
+// 补齐没有访问的空桶，保证图表横轴连续
+function fillBuckets(
+    points: StatsTimeseriesPoint[],
+    interval: StatsInterval,
+    start: number,
+    end: number
+): StatsTimeseriesPoint[] {
+    const size = INTERVAL_SECONDS[interval];
+    const byBucket = new Map(points.map((p) => [p.bucket, p]));
+    const filled: StatsTimeseriesPoint[] = [];
+    for (let b = alignBucket(start, interval); b < end; b += size) {
+        filled.push(byBucket.get(b) || { bucket: b, clicks: 0, blocked: 0 });
+    }
+    return filled;
+}
+
+function formatBucket(ts: number, interval: StatsInterval): string {
+    const d = new Date(ts * 1000);
+    if (interval === "hour") {
+        return d.toLocaleString("en-US", { month: "short", day: "numeric", hour: "2-digit" });
+    }
+    return d.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+// ==================== 点击趋势图 ====================
+export function ClicksChart({
+    points,
+    interval,
+    start,
+    end,
+}: {
+    points: StatsTimeseriesPoint[];
+    interval: StatsInterval;
+    start: number;
+    end: number;
+}) {
+    const data = fillBuckets(points, interval, start, end);
+    const max = Math.max(1, ...data.map((p) => p.clicks + p.blocked));
+    const labelStep = Math.max(1, Math.ceil(data.length / 8));
+
+    if (data.length === 0) {
+        return <div className="text-center py-12 text-gray-500">No data</div>;
+    }
+
+    return (
+        <div>
+            <div className="flex items-end gap-px h-48 border-b border-base-300">
+                {data.map((p) => (
+                    <div
+                        key={p.bucket}
+                        className="flex-1 flex flex-col justify-end h-full group"
+                        title={`${formatBucket(p.bucket, interval)}: ${p.clicks} clicks, ${p.blocked} blocked`}
+                    >
+                        <div
+                            className="bg-error/40 group-hover:opacity-80"
+                            style={{ height: `${(p.blocked / max) * 100}%` }}
+                        />
+                        <div
+                            className="bg-primary group-hover:opacity-80 rounded-t-sm"
+                            style={{ height: `${(p.clicks / max) * 100}%` }}
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-px mt-1 text-xs text-gray-400">
+                {data.map((p, i) => (
+                    <div key={p.bucket} className="flex-1 overflow-visible whitespace-nowrap">
+                        {i % labelStep === 0 ? formatBucket(p.bucket, interval) : ""}
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-4 mt-3 text-xs text-gray-500">
+                <span className="flex items-center gap-1">
+                    <span className="inline-block w-3 h-3 bg-primary rounded-sm"></span> Clicks
+                </span>
+                <span className="flex items-center gap-1">
+                    <span className="inline-block w-3 h-3 bg-error/40 rounded-sm"></span> Blocked
+                </span>
+            </div>
+        </div>
+    );
+}
+
+// ==================== 维度排行卡片 ====================
+export function BreakdownCard({ title, items }: { title: string; items: StatsBreakdownItem[] }) {
+    const max = Math.max(1, ...items.map((i) => i.clicks));
+
+    return (
+        <div className="bg-base-100 rounded-lg shadow p-4">
+            <h3 className="font-semibold mb-3">{title}</h3>
+            {items.length === 0 ? (
+                <div className="text-sm text-gray-500 py-4 text-center">No data</div>
+            ) : (
+                <ul className="space-y-2">
+                    {items.map((item) => (
+                        <li key={item.value}>
+                            <div className="flex justify-between text-sm mb-1">
+                                <span className="truncate mr-2" title={item.value}>
+                                    {item.value}
+                                </span>
+                                <span className="font-medium">{item.clicks}</span>
+                            </div>
+                            <progress
+                                className="progress progress-primary w-full"
+                                value={item.clicks}
+                                max={max}
+                            ></progress>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+// ==================== 统计筛选工具栏 ====================
+export interface StatsRange {
+    days: number;
+    interval: StatsInterval;
+    blocked: StatsBlockedMode;
+}
+
+export function StatsToolbar({ value, onChange }: { value: StatsRange; onChange: (value: StatsRange) => void }) {
+    return (
+        <div className="flex flex-wrap gap-3 items-center">
+            <div className="join">
+                {[1, 7, 30, 90].map((days) => (
+                    <button
+                        key={days}
+                        className={`join-item btn btn-sm ${value.days === days ? "btn-active" : ""}`}
+                        onClick={() =>
+                            onChange({
+                                ...value,
+                                days,
+                                // 小时粒度最多支持 31 天
+                                interval: days > 31 && value.interval === "hour" ? "day" : value.interval,
+                            })
+                        }
+                    >
+                        {days === 1 ? "24h" : `${days}d`}
+                    </button>
+                ))}
+            </div>
+            <select
+                className="select select-bordered select-sm w-28"
+                value={value.interval}
+                onChange={(e) => onChange({ ...value, interval: e.target.value as StatsInterval })}
+            >
+                <option value="hour" disabled={value.days > 31}>
+                    Hourly
+                </option>
+                <option value="day">Daily</option>
+                <option value="week">Weekly</option>
+            </select>
+            <select
+                className="select select-bordered select-sm w-44"
+                value={value.blocked}
+                onChange={(e) => onChange({ ...value, blocked: e.target.value as StatsBlockedMode })}
+            >
+                <option value="include">Include blocked</option>
+                <option value="exclude">Exclude blocked</option>
+                <option value="only">Blocked only</option>
+            </select>
+        </div>
+    );
+}
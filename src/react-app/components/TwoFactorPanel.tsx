@@ -0,0 +1,296 @@
+import { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { twoFactorApi, type TwoFactorSetup, type TwoFactorStatus } from "../lib/api";
+
+function errorMessage(err: unknown, fallback: string): string {
+    if (axios.isAxiosError(err)) {
+        return err.response?.data?.message || fallback;
+    }
+    return fallback;
+}
+
+// 密钥分组显示，方便手动输入
+const formatSecret = (secret: string) => secret.replace(/(.{4})/g, "$1 ").trim();
+
+// ==================== 绑定信息（otpauth URI + 手动输入密钥） ====================
+export function ProvisioningDetails({ setup }: { setup: TwoFactorSetup }) {
+    return (
+        <div className="space-y-2 text-sm">
+            <p>
+                Add this account to an authenticator app (Google Authenticator, 1Password, Authy...). On a phone, tap
+                the link below; otherwise paste the URI into a QR generator you trust or type the key manually.
+            </p>
+            <a className="link link-primary break-all font-mono text-xs" href={setup.otpauth_uri}>
+                {setup.otpauth_uri}
+            </a>
+            <div>
+                <span className="opacity-70">Setup key: </span>
+                <code className="font-mono">{formatSecret(setup.secret)}</code>
+            </div>
+        </div>
+    );
+}
+
+// ==================== 恢复码（只显示一次） ====================
+export function RecoveryCodesNotice({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+    const [copied, setCopied] = useState(false);
+
+    const handleCopy = async () => {
+        await navigator.clipboard.writeText(codes.join("\n"));
+        setCopied(true);
+    };
+
+    return (
+        <div className="alert alert-warning flex-col items-start">
+            <span className="font-semibold">
+                Save these recovery codes now. Each can be used once if you lose your authenticator; they will not be
+                shown again.
+            </span>
+            <div className="grid grid-cols-2 gap-x-6 gap-y-1 font-mono text-sm">
+                {codes.map((code) => (
+                    <span key={code}>{code}</span>
+                ))}
+            </div>
+            <div className="flex gap-2">
+                <button type="button" className="btn btn-sm" onClick={handleCopy}>
+                    {copied ? "Copied" : "Copy"}
+                </button>
+                <button type="button" className="btn btn-sm btn-primary" onClick={onDone}>
+                    I have saved them
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// ==================== 两步验证管理 ====================
+export function TwoFactorPanel() {
+    const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+    const [code, setCode] = useState("");
+    const [password, setPassword] = useState("");
+    const [disabling, setDisabling] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState("");
+
+    const loadStatus = useCallback(async () => {
+        try {
+            const res = await twoFactorApi.getStatus();
+            if (res.data.code === 0) {
+                setStatus(res.data.data);
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Failed to load two-factor status"));
+        }
+    }, []);
+
+    useEffect(() => {
+        loadStatus();
+    }, [loadStatus]);
+
+    const resetForm = () => {
+        setCode("");
+        setPassword("");
+        setError("");
+    };
+
+    const handleSetup = async () => {
+        resetForm();
+        try {
+            setBusy(true);
+            const res = await twoFactorApi.setup();
+            if (res.data.code === 0 && res.data.data) {
+                setSetup(res.data.data);
+            } else {
+                setError(res.data.message || "Failed to start setup");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Failed to start setup"));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleEnable = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        try {
+            setBusy(true);
+            const res = await twoFactorApi.enable(code.trim());
+            if (res.data.code === 0 && res.data.data) {
+                setRecoveryCodes(res.data.data.recovery_codes);
+                setSetup(null);
+                resetForm();
+                loadStatus();
+            } else {
+                setError(res.data.message || "Invalid code");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Invalid code"));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleRegenerate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        try {
+            setBusy(true);
+            const res = await twoFactorApi.regenerateRecoveryCodes(code.trim());
+            if (res.data.code === 0 && res.data.data) {
+                setRecoveryCodes(res.data.data.recovery_codes);
+                resetForm();
+                loadStatus();
+            } else {
+                setError(res.data.message || "Invalid code");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Invalid code"));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleDisable = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError("");
+        const value = code.trim();
+        try {
+            setBusy(true);
+            // 6 位数字视为验证码，其余视为恢复码
+            const res = await twoFactorApi.disable(
+                /^\d{6}$/.test(value) ? { password, code: value } : { password, recovery_code: value }
+            );
+            if (res.data.code === 0) {
+                setDisabling(false);
+                resetForm();
+                loadStatus();
+            } else {
+                setError(res.data.message || "Failed to disable two-factor authentication");
+            }
+        } catch (err) {
+            setError(errorMessage(err, "Failed to disable two-factor authentication"));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (!status) {
+        return null;
+    }
+
+    return (
+        <div className="max-w-md mt-10 space-y-4">
+            <h2 className="text-xl font-bold">Two-factor authentication</h2>
+
+            {error && (
+                <div className="alert alert-error">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {recoveryCodes && <RecoveryCodesNotice codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />}
+
+            {status.enabled ? (
+                <>
+                    <p className="text-sm">
+                        <span className="badge badge-success badge-sm mr-2">Enabled</span>
+                        {status.recovery_codes_remaining} recovery codes left.
+                    </p>
+
+                    <form onSubmit={disabling ? handleDisable : handleRegenerate} className="space-y-2">
+                        {disabling && (
+                            <input
+                                type="password"
+                                className="input input-bordered w-full"
+                                placeholder="Current password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                autoComplete="current-password"
+                            />
+                        )}
+                        <input
+                            className="input input-bordered w-full font-mono"
+                            placeholder={disabling ? "Authenticator code or recovery code" : "Authenticator code"}
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            autoComplete="one-time-code"
+                        />
+                        <div className="flex gap-2">
+                            {disabling ? (
+                                <>
+                                    <button type="submit" className="btn btn-error btn-sm" disabled={busy}>
+                                        Disable 2FA
+                                    </button>
+                                    <button
+                                        type="button"
+                                        className="btn btn-ghost btn-sm"
+                                        onClick={() => {
+                                            setDisabling(false);
+                                            resetForm();
+                                        }}
+                                    >
+                                        Cancel
+                                    </button>
+                                </>
+                            ) : (
+                                <>
+                                    <button type="submit" className="btn btn-sm" disabled={busy}>
+                                        New recovery codes
+                                    </button>
+                                    {!status.required && (
+                                        <button
+                                            type="button"
+                                            className="btn btn-ghost btn-sm text-error"
+                                            onClick={() => {
+                                                setDisabling(true);
+                                                resetForm();
+                                            }}
+                                        >
+                                            Disable…
+                                        </button>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                    </form>
+                    {status.required && (
+                        <p className="text-xs opacity-70">Two-factor authentication is required for admin accounts.</p>
+                    )}
+                </>
+            ) : setup ? (
+                <form onSubmit={handleEnable} className="space-y-3">
+                    <ProvisioningDetails setup={setup} />
+                    <input
+                        className="input input-bordered w-full font-mono"
+                        placeholder="6-digit code from the app"
+                        inputMode="numeric"
+                        value={code}
+                        onChange={(e) => setCode(e.target.value)}
+                        autoComplete="one-time-code"
+                    />
+                    <div className="flex gap-2">
+                        <button type="submit" className="btn btn-primary btn-sm" disabled={busy || !code.trim()}>
+                            Verify and enable
+                        </button>
+                        <button type="button" className="btn btn-ghost btn-sm" onClick={() => setSetup(null)}>
+                            Cancel
+                        </button>
+                    </div>
+                </form>
+            ) : (
+                <>
+                    <p className="text-sm opacity-70">
+                        Require a code from an authenticator app in addition to your password when signing in.
+                        {status.required && " Required for admin accounts."}
+                    </p>
+                    <button className="btn btn-primary btn-sm" onClick={handleSetup} disabled={busy}>
+                        Set up 2FA
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
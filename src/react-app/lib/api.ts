@@ -1,4 +1,5 @@
-import axios from "axios";
+import axios, { type InternalAxiosRequestConfig } from "axios";
+import { clearSession, saveSession } from "./auth";
 
 const api = axios.create({
     baseURL: "/",
@@ -14,13 +15,75 @@ export const authApi = {
             '/api/auth/init-status'
         ),
 
+    // 登录页选项（SSO 按钮、是否允许密码登录）
+    getLoginOptions: () =>
+        api.get<{ code: number; message: string; data: LoginOptions }>(
+            '/api/auth/oidc/options'
+        ),
+
     // 执行初始化
     init: (data: { username: string; password: string }) =>
         api.post<{ code: number; message: string }>(
             '/api/auth/init',
             data
         ),
+
+    // 登录（启用两步验证时返回 challenge_token）
+    login: (data: { username: string; password: string }) =>
+        api.post<{ code: number; message: string; data?: LoginResult }>(
+            '/api/auth/login',
+            data
+        ),
+
+    // 登录第二步：验证码或恢复码
+    loginTwoFactor: (data: { challenge_token: string; code?: string; recovery_code?: string }) =>
+        api.post<{ code: number; message: string; data?: LoginResult }>(
+            '/api/auth/login/2fa',
+            data
+        ),
+
+    // 强制启用两步验证时的首次绑定
+    loginTwoFactorSetup: (challengeToken: string) =>
+        api.post<{ code: number; message: string; data?: TwoFactorSetup }>(
+            '/api/auth/login/2fa/setup',
+            { challenge_token: challengeToken }
+        ),
+
+    loginTwoFactorEnable: (challengeToken: string, code: string) =>
+        api.post<{ code: number; message: string; data?: { token: string; refresh_token: string; recovery_codes: string[] } }>(
+            '/api/auth/login/2fa/enable',
+            { challenge_token: challengeToken, code }
+        ),
+
+    // SSO 登录后输入本地密码，确认关联已有账号
+    linkSso: (linkToken: string, password: string) =>
+        api.post<{ code: number; message: string; data?: LoginResult }>(
+            '/api/auth/oidc/link',
+            { link_token: linkToken, password }
+        ),
+
+    // 退出登录（作废当前会话）
+    logout: () =>
+        api.post<{ code: number; message: string }>('/api/auth/logout'),
 };
+
+export interface LoginOptions {
+    sso_enabled: boolean;
+    sso_label: string;
+    password_login: boolean;
+}
+
+export interface LoginResult {
+    token?: string;
+    refresh_token?: string;
+    two_factor?: "verify" | "setup";
+    challenge_token?: string;
+}
+
+export interface TwoFactorSetup {
+    secret: string;
+    otpauth_uri: string;
+}
 api.interceptors.request.use((config) => {
     const token = localStorage.getItem("auth_token") || "";
     if (token && config.url?.startsWith("/api/")) {
@@ -29,20 +92,61 @@ api.interceptors.request.use((config) => {
     return config;
 });
 
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retried?: boolean };
+
+// 同一时刻只发起一次刷新，并发的 401 请求共用结果
+let refreshing: Promise<string | null> | null = null;
+
+async function refreshAccessToken(): Promise<string | null> {
+    const refreshToken = localStorage.getItem("refresh_token");
+    if (!refreshToken) return null;
+    try {
+        // 不经过 api 实例，避免刷新失败时再次进入拦截器
+        const res = await axios.post<{ code: number; message: string; data?: LoginResult }>(
+            "/api/auth/refresh",
+            { refresh_token: refreshToken }
+        );
+        const data = res.data?.data;
+        if (!data?.token) return null;
+        saveSession(data.token, data.refresh_token);
+        return data.token;
+    } catch {
+        // 其他标签页可能刚刚轮换了 refresh token，直接使用它保存的新 token
+        const latest = localStorage.getItem("refresh_token");
+        return latest && latest !== refreshToken ? localStorage.getItem("auth_token") : null;
+    }
+}
+
 api.interceptors.response.use(
     (response) => response,
-    (error) => {
+    async (error) => {
         const status = error?.response?.status;
-        const url = error?.config?.url || "";
+        const config = error?.config as RetriableRequestConfig | undefined;
+        const url = config?.url || "";
         // 登录接口的 401 属于正常业务响应（如密码错误），不应跳转
         if (status === 401 && !url.includes("auth/login")) {
-            localStorage.removeItem("auth_token");
+            // access token 过期：用 refresh token 换取新 token 后重试一次
+            if (config && !config._retried) {
+                refreshing ??= refreshAccessToken().finally(() => {
+                    refreshing = null;
+                });
+                const token = await refreshing;
+                if (token) {
+                    config._retried = true;
+                    config.headers.Authorization = `Bearer ${token}`;
+                    return api(config);
+                }
+            }
+            clearSession();
             window.location.href = `${import.meta.env.BASE_URL}login`;
         }
         return Promise.reject(error);
     },
 );
 
+// 访问者 IP 存储方式：原样保存 / 截断 /24,/48 / 每日加盐哈希
+export type IpMode = "full" | "truncate" | "hash";
+
 // 域名相关接口类型定义
 export interface Domain {
     id: number;
@@ -53,6 +157,7 @@ export interface Domain {
     error_template_id: number | null;
     password_template_id: number | null;
     interstitial_template_id: number | null;
+    ip_mode: IpMode | null;
     created_at: number;
     updated_at: number;
 }
@@ -79,6 +184,7 @@ export interface CreateDomainRequest {
     error_template_id?: number;
     password_template_id?: number;
     interstitial_template_id?: number;
+    ip_mode?: IpMode | null;
 }
 
 export interface UpdateDomainRequest {
@@ -89,6 +195,7 @@ export interface UpdateDomainRequest {
     error_template_id?: number | null;
     password_template_id?: number | null;
     interstitial_template_id?: number | null;
+    ip_mode?: IpMode | null;
 }
 
 // 域名 API 方法
@@ -134,6 +241,7 @@ export interface User {
     role: string;
     status: number;
     deleted_at: number | null;
+    totp_enabled: number;
     created_at: number;
     updated_at: number;
 }
@@ -343,6 +451,18 @@ export const userApi = {
             `/api/user/delete/${id}`
         ),
 
+    // 重置用户的两步验证
+    resetTwoFactor: (id: number) =>
+        api.put<{ code: number; message: string }>(
+            `/api/user/reset-2fa/${id}`
+        ),
+
+    // 强制下线（作废该用户的全部登录会话）
+    revokeSessions: (id: number) =>
+        api.put<{ code: number; message: string; data?: { revoked: number } }>(
+            `/api/user/revoke-sessions/${id}`
+        ),
+
     // 新增：获取当前用户信息
     getCurrentUser: () =>
         api.get<{ code: number; message: string; data: User }>(
@@ -467,6 +587,37 @@ export interface TagInfo {
     name: string;
 }
 
+// 路由规则：按顺序匹配，命中时跳转到规则的 target_url
+export type RoutingRuleField = "country" | "region" | "city" | "device_type" | "os" | "browser" | "language";
+export type RoutingRuleOperator = "in" | "not_in" | "starts_with";
+
+export interface RoutingRule {
+    name?: string;
+    field: RoutingRuleField;
+    operator: RoutingRuleOperator;
+    values: string[];
+    target_url: string;
+}
+
+// 周期性生效时间段：days 为 0=周日 ... 6=周六，时间为 "HH:MM"
+export interface ScheduleWindow {
+    days: number[];
+    start: string;
+    end: string;
+}
+
+export interface LinkSchedule {
+    timezone: string;
+    windows: ScheduleWindow[];
+}
+
+// A/B 分流版本：未命中路由规则的访问按 weight 比例分配
+export interface AbVariant {
+    name: string;
+    url: string;
+    weight: number;
+}
+
 export interface ShortLink {
     id: number;
     domain_id: number;
@@ -480,9 +631,15 @@ export interface ShortLink {
     template_id: number | null;
     error_template_id: number | null;
     password_template_id: number | null;
-    password: string | null;
+    has_password: number; // the password itself is never returned
     max_visits: number | null;
+    start_at: number | null;
     expire_at: number | null;
+    schedule: LinkSchedule | null;
+    fallback_url: string | null;
+    routing_rules: RoutingRule[];
+    ab_variants: AbVariant[];
+    ab_sticky: number;
     is_disabled: number;
     deleted_at: number | null;
     remark: string | null;
@@ -494,9 +651,33 @@ export interface ShortLink {
 
 export interface ShortLinkWithDomain extends ShortLink {
     domain_host: string;
+    owner_username: string | null;
     tags: TagInfo[];
 }
 
+export type RevisionAction =
+    | 'baseline'
+    | 'create'
+    | 'import'
+    | 'update'
+    | 'toggle'
+    | 'delete'
+    | 'restore'
+    | 'transfer'
+    | 'revert';
+
+// 短链接修改历史中的一条记录；changes 为字段差异，密码只显示是否设置
+export interface LinkRevision {
+    id: number;
+    revision: number;
+    action: RevisionAction;
+    actor_user_id: number | null;
+    actor_username: string | null;
+    changes: Record<string, { from: unknown; to: unknown }> | null;
+    reverted_from: number | null;
+    created_at: number;
+}
+
 export interface ShortLinkListResponse {
     results: ShortLinkWithDomain[];
     pagination: {
@@ -520,7 +701,13 @@ export interface CreateShortLinkRequest {
     password_template_id?: number | null;
     password?: string | null;
     max_visits?: number | null;
+    start_at?: number | null;
     expire_at?: number | null;
+    schedule?: LinkSchedule | null;
+    fallback_url?: string | null;
+    routing_rules?: RoutingRule[] | null;
+    ab_variants?: AbVariant[] | null;
+    ab_sticky?: number;
     remark?: string | null;
     tags?: string[];
 }
@@ -538,39 +725,82 @@ export interface UpdateShortLinkRequest {
     password_template_id?: number | null;
     password?: string | null;
     max_visits?: number | null;
+    start_at?: number | null;
     expire_at?: number | null;
+    schedule?: LinkSchedule | null;
+    fallback_url?: string | null;
+    routing_rules?: RoutingRule[] | null;
+    ab_variants?: AbVariant[] | null;
+    ab_sticky?: number;
     is_disabled?: number;
     remark?: string | null;
     tags?: string[];
 }
 
+export type ImportFormat = "csv" | "json";
+export type ExportFormat = "csv" | "ndjson";
+
+// 列表筛选条件，导出时同样适用
+export interface ShortLinkListFilter {
+    domain_id?: string;
+    keyword?: string;
+    tag?: string;
+    is_disabled?: string;
+    owner_user_id?: string; // admin only
+    order_by?: string;
+    order_dir?: string;
+}
+
+function buildListFilterQuery(query: URLSearchParams, params: ShortLinkListFilter) {
+    if (params.domain_id) query.set('domain_id', params.domain_id);
+    if (params.keyword) query.set('keyword', params.keyword);
+    if (params.tag) query.set('tag', params.tag);
+    if (params.is_disabled !== undefined && params.is_disabled !== '') query.set('is_disabled', params.is_disabled);
+    if (params.owner_user_id) query.set('owner_user_id', params.owner_user_id);
+    if (params.order_by) query.set('order_by', params.order_by);
+    if (params.order_dir) query.set('order_dir', params.order_dir);
+}
+
+export interface ImportRowResult {
+    row: number;
+    domain: string | null;
+    code: string | null; // null for auto-generated codes during a dry run
+    target_url: string | null;
+    status: "ok" | "created" | "conflict" | "error";
+    message?: string;
+    id?: number;
+}
+
+export interface ImportReport {
+    dry_run: boolean;
+    total: number;
+    valid: number;
+    created: number;
+    conflicts: number;
+    errors: number;
+    results: ImportRowResult[];
+}
+
 // 短链接 API 方法
 export const shortLinkApi = {
     // 获取短链接列表
-    getList: (params: {
-        page?: number;
-        pageSize?: number;
-        domain_id?: string;
-        keyword?: string;
-        tag?: string;
-        is_disabled?: string;
-        order_by?: string;
-        order_dir?: string;
-    } = {}) => {
+    getList: (params: ShortLinkListFilter & { page?: number; pageSize?: number } = {}) => {
         const query = new URLSearchParams();
         query.set('page', String(params.page || 1));
         query.set('pageSize', String(params.pageSize || 10));
-        if (params.domain_id) query.set('domain_id', params.domain_id);
-        if (params.keyword) query.set('keyword', params.keyword);
-        if (params.tag) query.set('tag', params.tag);
-        if (params.is_disabled !== undefined && params.is_disabled !== '') query.set('is_disabled', params.is_disabled);
-        if (params.order_by) query.set('order_by', params.order_by);
-        if (params.order_dir) query.set('order_dir', params.order_dir);
+        buildListFilterQuery(query, params);
         return api.get<{ code: number; message: string; data: ShortLinkListResponse }>(
             `/api/shortlink/list?${query.toString()}`
         );
     },
 
+    // 按列表筛选条件导出全部短链接
+    export: (format: ExportFormat, params: ShortLinkListFilter = {}) => {
+        const query = new URLSearchParams({ format });
+        buildListFilterQuery(query, params);
+        return api.get<Blob>(`/api/shortlink/export?${query.toString()}`, { responseType: 'blob' as never });
+    },
+
     // 获取短链接详情
     getDetail: (id: number) =>
         api.get<{ code: number; message: string; data: ShortLinkWithDomain }>(
@@ -602,7 +832,360 @@ export const shortLinkApi = {
         api.put<{ code: number; message: string; data?: { is_disabled: number } }>(
             `/api/shortlink/toggle-status/${id}`
         ),
+
+    // 修改历史（新的在前）
+    getRevisions: (id: number) =>
+        api.get<{ code: number; message: string; data: LinkRevision[] }>(
+            `/api/shortlink/revisions/${id}`
+        ),
+
+    // 回滚到指定版本
+    revert: (id: number, revision: number) =>
+        api.post<{ code: number; message: string; data?: ShortLinkWithDomain }>(
+            `/api/shortlink/revert/${id}`,
+            { revision }
+        ),
+
+    // 回收站列表
+    getTrash: (params: { page?: number; pageSize?: number; domain_id?: string; keyword?: string } = {}) => {
+        const query = new URLSearchParams();
+        query.set('page', String(params.page || 1));
+        query.set('pageSize', String(params.pageSize || 10));
+        if (params.domain_id) query.set('domain_id', params.domain_id);
+        if (params.keyword) query.set('keyword', params.keyword);
+        return api.get<{ code: number; message: string; data: ShortLinkListResponse }>(
+            `/api/shortlink/trash?${query.toString()}`
+        );
+    },
+
+    // 从回收站恢复
+    restore: (ids: number[]) =>
+        api.post<{ code: number; message: string; data?: { restored: number } }>(
+            '/api/shortlink/restore',
+            { ids }
+        ),
+
+    // 彻底删除（释放短码）
+    purge: (ids: number[]) =>
+        api.post<{ code: number; message: string; data?: { purged: number } }>(
+            '/api/shortlink/purge',
+            { ids }
+        ),
+
+    // 批量导入（dryRun 时只校验）
+    import: (format: ImportFormat, content: string, dryRun: boolean) =>
+        api.post<{ code: number; message: string; data?: ImportReport }>(
+            '/api/shortlink/import',
+            { format, content, dry_run: dryRun }
+        ),
+
+    // 转移短链接所有者（仅管理员）
+    transferOwner: (ids: number[], ownerUserId: number) =>
+        api.post<{ code: number; message: string; data?: { transferred: number } }>(
+            '/api/shortlink/transfer-owner',
+            { ids, owner_user_id: ownerUserId }
+        ),
+};
+
+// ==================== 访问统计相关类型 ====================
+
+export type StatsInterval = "hour" | "day" | "week";
+export type StatsBlockedMode = "include" | "exclude" | "only";
+
+export interface StatsQuery {
+    start?: number;
+    end?: number;
+    interval?: StatsInterval;
+    blocked?: StatsBlockedMode;
+    limit?: number;
+}
+
+export interface StatsTimeseriesPoint {
+    bucket: number;
+    clicks: number;
+    blocked: number;
+}
+
+export interface StatsBreakdownItem {
+    value: string;
+    clicks: number;
+}
+
+export interface StatsReport {
+    scope: "all" | "link" | "domain" | "tag";
+    filter: Required<StatsQuery>;
+    rollup: { start: number; end: number } | null; // range served from daily rollups
+    summary: {
+        total: number;
+        clicks: number;
+        blocked: number;
+    };
+    timeseries: StatsTimeseriesPoint[];
+    referrers: StatsBreakdownItem[];
+    countries: StatsBreakdownItem[];
+    regions: StatsBreakdownItem[];
+    cities: StatsBreakdownItem[];
+    device_types: StatsBreakdownItem[];
+    os: StatsBreakdownItem[];
+    browsers: StatsBreakdownItem[];
+    block_reasons: StatsBreakdownItem[];
+    matched_rules: StatsBreakdownItem[];
+    variants: StatsBreakdownItem[];
+}
+
+export interface StatsTopLink {
+    id: number;
+    code: string;
+    domain_host: string | null;
+    target_url: string;
+    clicks: number;
+}
+
+export interface StatsOverview {
+    total_links: number;
+    disabled_links: number;
+    clicks_today: number;
+    clicks_7d: number;
+    clicks_30d: number;
+    top_links: StatsTopLink[];
+    report: StatsReport;
+}
+
+function buildStatsQuery(params: StatsQuery & { today_start?: number }): string {
+    const query = new URLSearchParams();
+    if (params.start !== undefined) query.set("start", String(params.start));
+    if (params.end !== undefined) query.set("end", String(params.end));
+    if (params.interval) query.set("interval", params.interval);
+    if (params.blocked) query.set("blocked", params.blocked);
+    if (params.limit !== undefined) query.set("limit", String(params.limit));
+    if (params.today_start !== undefined) query.set("today_start", String(params.today_start));
+    return query.toString();
+}
+
+// 访问统计 API 方法
+export const statsApi = {
+    // 仪表盘概览
+    getOverview: (params: StatsQuery & { today_start?: number } = {}) =>
+        api.get<{ code: number; message: string; data: StatsOverview }>(
+            `/api/stats/overview?${buildStatsQuery(params)}`
+        ),
+
+    // 单个短链接统计
+    getLinkStats: (id: number, params: StatsQuery = {}) =>
+        api.get<{ code: number; message: string; data: StatsReport }>(
+            `/api/stats/link/${id}?${buildStatsQuery(params)}`
+        ),
+
+    // 域名统计
+    getDomainStats: (id: number, params: StatsQuery = {}) =>
+        api.get<{ code: number; message: string; data: StatsReport }>(
+            `/api/stats/domain/${id}?${buildStatsQuery(params)}`
+        ),
+
+    // 标签统计
+    getTagStats: (name: string, params: StatsQuery = {}) =>
+        api.get<{ code: number; message: string; data: StatsReport }>(
+            `/api/stats/tag/${encodeURIComponent(name)}?${buildStatsQuery(params)}`
+        ),
+
+    // 导出原始访问事件（不含已归档的事件），不传 link_id / domain_id 时导出全部
+    exportEvents: (format: ExportFormat, params: StatsQuery & { link_id?: number; domain_id?: number } = {}) => {
+        const query = new URLSearchParams(buildStatsQuery(params));
+        query.set("format", format);
+        if (params.link_id !== undefined) query.set("link_id", String(params.link_id));
+        if (params.domain_id !== undefined) query.set("domain_id", String(params.domain_id));
+        return api.get<Blob>(`/api/stats/events/export?${query.toString()}`, { responseType: 'blob' as never });
+    },
+};
+
+
+// 系统设置
+// OIDC 单点登录配置（client_secret 只写不读）
+export interface OidcSettings {
+    enabled: boolean;
+    issuer: string;
+    client_id: string;
+    client_secret_set: boolean;
+    scopes: string;
+    button_label: string;
+    role_claim: string;
+    admin_groups: string[];
+    default_role: "admin" | "user";
+}
+
+export interface AppSettings {
+    privacy_ip_mode: IpMode;
+    require_admin_2fa: boolean;
+    disable_password_login: boolean;
+    trash_retention_days: number; // 0 = never empty the trash automatically
+    oidc: OidcSettings;
+}
+
+export type UpdateAppSettingsRequest = Partial<Omit<AppSettings, "oidc">> & {
+    // client_secret 省略表示不修改，空字符串表示清除
+    oidc?: Partial<OidcSettings> & { client_secret?: string };
+};
+
+export const appSettingsApi = {
+    // 获取系统设置
+    get: () =>
+        api.get<{ code: number; message: string; data: AppSettings }>('/api/app-settings/'),
+
+    // 更新系统设置
+    update: (data: UpdateAppSettingsRequest) =>
+        api.put<{ code: number; message: string; data?: AppSettings }>('/api/app-settings/', data),
 };
 
+// API token
+export interface ApiToken {
+    id: number;
+    user_id: number;
+    name: string | null;
+    scopes: string | null;      // e.g. "links:rw,stats:r", null = full access
+    status: number;             // 0=enabled 1=disabled
+    last_used_at: number | null;
+    expires_at: number | null;
+    created_at: number;
+}
+
+export interface CreateApiTokenRequest {
+    name: string;
+    scopes?: string | null;
+    expires_at?: number | null;
+}
+
+export const apiTokenApi = {
+    // 获取当前用户的 token 列表
+    getList: () =>
+        api.get<{ code: number; message: string; data: ApiToken[] }>('/api/token/list'),
+
+    // 创建 token（明文只返回一次）
+    create: (data: CreateApiTokenRequest) =>
+        api.post<{ code: number; message: string; data?: { token: string; api_token: ApiToken | null } }>(
+            '/api/token/create',
+            data
+        ),
+
+    // 启用/禁用
+    toggleStatus: (id: number) =>
+        api.put<{ code: number; message: string; data?: { status: number } }>(
+            `/api/token/toggle-status/${id}`
+        ),
+
+    // 吊销
+    delete: (id: number) =>
+        api.delete<{ code: number; message: string }>(
+            `/api/token/delete/${id}`
+        ),
+};
+
+// 两步验证
+export interface TwoFactorStatus {
+    enabled: boolean;
+    pending: boolean;
+    recovery_codes_remaining: number;
+    required: boolean;
+}
+
+export const twoFactorApi = {
+    getStatus: () =>
+        api.get<{ code: number; message: string; data: TwoFactorStatus }>('/api/2fa/status'),
+
+    // 生成待绑定的密钥
+    setup: () =>
+        api.post<{ code: number; message: string; data?: TwoFactorSetup }>('/api/2fa/setup'),
+
+    // 确认验证码并启用（返回恢复码）
+    enable: (code: string) =>
+        api.post<{ code: number; message: string; data?: { recovery_codes: string[] } }>('/api/2fa/enable', { code }),
+
+    regenerateRecoveryCodes: (code: string) =>
+        api.post<{ code: number; message: string; data?: { recovery_codes: string[] } }>('/api/2fa/recovery-codes', { code }),
+
+    disable: (data: { password: string; code?: string; recovery_code?: string }) =>
+        api.post<{ code: number; message: string }>('/api/2fa/disable', data),
+};
+
+// 登录会话
+export interface UserSession {
+    id: number;
+    user_agent: string | null;
+    ip: string | null;
+    created_at: number;
+    last_seen_at: number;
+    expires_at: number;
+    current: boolean;
+}
+
+export const sessionsApi = {
+    getList: () =>
+        api.get<{ code: number; message: string; data: UserSession[] }>('/api/sessions/list'),
+
+    revoke: (id: number) =>
+        api.delete<{ code: number; message: string }>(`/api/sessions/${id}`),
+
+    // 退出除当前会话以外的所有会话
+    revokeOthers: () =>
+        api.post<{ code: number; message: string; data?: { revoked: number } }>('/api/sessions/revoke-others'),
+};
+
+// 审计日志
+export type AuditEntityType = "domain" | "template" | "template_asset" | "user";
+
+export interface AuditLog {
+    id: number;
+    actor_user_id: number | null;
+    actor_username: string | null;
+    api_token_id: number | null;
+    ip: string | null;
+    user_agent: string | null;
+    action: string;
+    entity_type: AuditEntityType;
+    entity_id: number | null;
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+    created_at: number;
+}
+
+// action 以 . 结尾时按前缀匹配，如 "user."
+export interface AuditLogFilter {
+    entity_type?: AuditEntityType;
+    entity_id?: number;
+    action?: string;
+    actor_user_id?: number;
+    ip?: string;
+    start?: number;
+    end?: number;
+}
+
+function buildAuditQuery(query: URLSearchParams, params: AuditLogFilter) {
+    for (const [key, value] of Object.entries(params)) {
+        if (value !== undefined && value !== "") query.set(key, String(value));
+    }
+}
+
+export const auditApi = {
+    getList: (params: AuditLogFilter & { page?: number; pageSize?: number } = {}) => {
+        const { page, pageSize, ...filter } = params;
+        const query = new URLSearchParams();
+        query.set("page", String(page || 1));
+        query.set("pageSize", String(pageSize || 20));
+        buildAuditQuery(query, filter);
+        return api.get<{
+            code: number;
+            message: string;
+            data: {
+                results: AuditLog[];
+                pagination: { page: number; pageSize: number; total: number; totalPages: number };
+            };
+        }>(`/api/audit/list?${query.toString()}`);
+    },
+
+    export: (format: ExportFormat, params: AuditLogFilter = {}) => {
+        const query = new URLSearchParams({ format });
+        buildAuditQuery(query, params);
+        return api.get<Blob>(`/api/audit/export?${query.toString()}`, { responseType: 'blob' as never });
+    },
+};
 
 export default api;
\ No newline at end of file
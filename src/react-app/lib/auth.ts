@@ -0,0 +1,50 @@
+// 从本地保存的 JWT 中解析登录信息（仅用于界面展示，权限以后端校验为准）
+
+export interface TokenPayload {
+    sub: number;
+    sid: number;
+    username: string;
+    role: string;
+    exp: number;
+}
+
+export function getTokenPayload(): TokenPayload | null {
+    const token = localStorage.getItem("auth_token");
+    if (!token) return null;
+
+    const parts = token.split(".");
+    if (parts.length !== 3) return null;
+
+    try {
+        // Base64Url decode the payload
+        const payload = parts[1].replace(/-/g, "+").replace(/_/g, "/");
+        const jsonPayload = decodeURIComponent(
+            window
+                .atob(payload)
+                .split("")
+                .map((c) => "%" + ("00" + c.charCodeAt(0).toString(16)).slice(-2))
+                .join("")
+        );
+        return JSON.parse(jsonPayload) as TokenPayload;
+    } catch (e) {
+        console.error("Failed to parse token", e);
+        return null;
+    }
+}
+
+export function isAdmin(): boolean {
+    return getTokenPayload()?.role === "admin";
+}
+
+// 登录成功或刷新后保存 access token 与 refresh token
+export function saveSession(token: string, refreshToken?: string): void {
+    localStorage.setItem("auth_token", token);
+    if (refreshToken) {
+        localStorage.setItem("refresh_token", refreshToken);
+    }
+}
+
+export function clearSession(): void {
+    localStorage.removeItem("auth_token");
+    localStorage.removeItem("refresh_token");
+}
@@ -13,6 +13,10 @@ import { TemplateResourcesPage } from "./pages/TemplateResourcesPage";
 import {TemplatesPage} from "./pages/TemplatesPage.tsx";
 import {ShortLinksPage} from "./pages/ShortLinksPage.tsx";
 import {InitPage} from "./pages/InitPage.tsx";
+import {LinkStatsPage} from "./pages/LinkStatsPage.tsx";
+import {TrashPage} from "./pages/TrashPage.tsx";
+import {AuditLogPage} from "./pages/AuditLogPage.tsx";
+import {isAdmin} from "./lib/auth";
 
 const BASE_URL = import.meta.env.BASE_URL;
 
@@ -24,6 +28,11 @@ function AuthGuard() {
 	return isAuthed() ? <Outlet /> : <Navigate to="/login" replace />;
 }
 
+// 仅管理员可访问的页面，其他角色回到首页
+function AdminGuard() {
+	return isAdmin() ? <Outlet /> : <Navigate to="/" replace />;
+}
+
 createRoot(document.getElementById("root")!).render(
 	<StrictMode>
 		<BrowserRouter basename={BASE_URL}>
@@ -33,13 +42,18 @@ createRoot(document.getElementById("root")!).render(
 				<Route element={<AuthGuard />}>
 					<Route element={<AdminLayout />}>
 						<Route path="/" element={<HomePage />} />
-						<Route path="/domains" element={<DomainsPage />} />
-						<Route path="/users" element={<UsersPage />} />
+						<Route element={<AdminGuard />}>
+							<Route path="/domains" element={<DomainsPage />} />
+							<Route path="/users" element={<UsersPage />} />
+							<Route path="/template-resources" element={<TemplateResourcesPage />} />
+							<Route path="/templates" element={<TemplatesPage />} />
+							<Route path="/audit-log" element={<AuditLogPage />} />
+						</Route>
 						<Route path="/user-settings" element={<SettingsPage />} />
 						<Route path="/change-password" element={<ChangePasswordPage />} />
-						<Route path="/template-resources" element={<TemplateResourcesPage />} />
-						<Route path="/templates" element={<TemplatesPage />} />
 						<Route path="/links" element={<ShortLinksPage />} />
+						<Route path="/links/:id/stats" element={<LinkStatsPage />} />
+						<Route path="/links/trash" element={<TrashPage />} />
 
 						{/* 后续页面在此添加 */}
 						{/* <Route path="/links" element={<LinksPage />} /> */}
@@ -0,0 +1,350 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { auditApi, AuditEntityType, AuditLog, AuditLogFilter } from "../lib/api";
+import { ExportButton } from "../components/ExportButton";
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+    domain: "Domain",
+    template: "Template",
+    template_asset: "Template asset",
+    user: "User",
+};
+
+// 供 action 输入框提示，以 . 结尾的按前缀匹配
+const KNOWN_ACTIONS = [
+    "domain.",
+    "domain.create",
+    "domain.update",
+    "domain.delete",
+    "template.",
+    "template.create",
+    "template.update",
+    "template.toggle",
+    "template.delete",
+    "template_asset.",
+    "template_asset.upload",
+    "template_asset.update",
+    "template_asset.delete",
+    "user.",
+    "user.create",
+    "user.update",
+    "user.delete",
+    "user.reset_2fa",
+    "user.revoke_sessions",
+];
+
+interface FilterForm {
+    entity_type: string;
+    entity_id: string;
+    action: string;
+    actor_user_id: string;
+    ip: string;
+    from: string;
+    to: string;
+}
+
+const EMPTY_FORM: FilterForm = {
+    entity_type: "",
+    entity_id: "",
+    action: "",
+    actor_user_id: "",
+    ip: "",
+    from: "",
+    to: "",
+};
+
+// 日期按本地时区解析，to 包含当天
+function toFilter(form: FilterForm): AuditLogFilter {
+    const dayStart = (value: string) => Math.floor(new Date(`${value}T00:00:00`).getTime() / 1000);
+    return {
+        entity_type: (form.entity_type || undefined) as AuditEntityType | undefined,
+        entity_id: form.entity_id ? Number(form.entity_id) : undefined,
+        action: form.action.trim() || undefined,
+        actor_user_id: form.actor_user_id ? Number(form.actor_user_id) : undefined,
+        ip: form.ip.trim() || undefined,
+        start: form.from ? dayStart(form.from) : undefined,
+        end: form.to ? dayStart(form.to) + 86400 : undefined,
+    };
+}
+
+function formatValue(value: unknown): string {
+    if (value === null || value === undefined || value === "") return "—";
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+}
+
+// 操作前后有变化的字段；新建/删除时列出全部字段
+function changedFields(log: AuditLog): string[] {
+    const keys = new Set([...Object.keys(log.before || {}), ...Object.keys(log.after || {})]);
+    return [...keys].filter(
+        (key) => !log.before || !log.after || JSON.stringify(log.before[key]) !== JSON.stringify(log.after[key])
+    );
+}
+
+// ==================== 审计日志 ====================
+export function AuditLogPage() {
+    const [logs, setLogs] = useState<AuditLog[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState("");
+    const [page, setPage] = useState(1);
+    const [total, setTotal] = useState(0);
+    const [totalPages, setTotalPages] = useState(0);
+    const [form, setForm] = useState<FilterForm>(EMPTY_FORM);
+    const [filter, setFilter] = useState<AuditLogFilter>({});
+    const [expanded, setExpanded] = useState<number | null>(null);
+
+    const loadLogs = useCallback(async () => {
+        try {
+            setLoading(true);
+            setError("");
+            const res = await auditApi.getList({ ...filter, page, pageSize: 20 });
+            if (res.data.code === 0) {
+                setLogs(res.data.data.results);
+                setTotal(res.data.data.pagination.total);
+                setTotalPages(res.data.data.pagination.totalPages);
+            } else {
+                setError(res.data.message || "Failed to load audit log");
+            }
+        } catch (e: unknown) {
+            const msg =
+                e && typeof e === "object" && "response" in e
+                    ? (e.response as { data?: { message?: string } })?.data?.message || "Failed to load audit log"
+                    : "Failed to load audit log";
+            setError(msg);
+        } finally {
+            setLoading(false);
+        }
+    }, [filter, page]);
+
+    useEffect(() => {
+        loadLogs();
+    }, [loadLogs]);
+
+    const applyFilter = () => {
+        setPage(1);
+        setExpanded(null);
+        setFilter(toFilter(form));
+    };
+
+    const resetFilter = () => {
+        setForm(EMPTY_FORM);
+        setPage(1);
+        setExpanded(null);
+        setFilter({});
+    };
+
+    const updateForm = (key: keyof FilterForm, value: string) => setForm((prev) => ({ ...prev, [key]: value }));
+
+    return (
+        <div className="p-6">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold">Audit Log</h1>
+                    <p className="text-sm text-gray-500 mt-1">
+                        {total} administrative actions on domains, templates, template assets and users. Entries
+                        cannot be edited or deleted.
+                    </p>
+                </div>
+                <ExportButton
+                    filename="audit-log"
+                    onExport={(format) => auditApi.export(format, filter)}
+                />
+            </div>
+
+            <div className="bg-base-100 rounded-lg shadow p-4 mb-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <select
+                        className="select select-bordered select-sm"
+                        value={form.entity_type}
+                        onChange={(e) => updateForm("entity_type", e.target.value)}
+                    >
+                        <option value="">All object types</option>
+                        {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+                            <option key={type} value={type}>
+                                {ENTITY_LABELS[type]}
+                            </option>
+                        ))}
+                    </select>
+                    <input
+                        type="number"
+                        className="input input-bordered input-sm"
+                        placeholder="Object ID"
+                        value={form.entity_id}
+                        onChange={(e) => updateForm("entity_id", e.target.value)}
+                    />
+                    <input
+                        type="text"
+                        className="input input-bordered input-sm"
+                        placeholder='Action, e.g. "user.update" or "user."'
+                        list="audit-actions"
+                        value={form.action}
+                        onChange={(e) => updateForm("action", e.target.value)}
+                    />
+                    <datalist id="audit-actions">
+                        {KNOWN_ACTIONS.map((action) => (
+                            <option key={action} value={action} />
+                        ))}
+                    </datalist>
+                    <input
+                        type="number"
+                        className="input input-bordered input-sm"
+                        placeholder="Actor user ID"
+                        value={form.actor_user_id}
+                        onChange={(e) => updateForm("actor_user_id", e.target.value)}
+                    />
+                    <input
+                        type="text"
+                        className="input input-bordered input-sm"
+                        placeholder="IP address"
+                        value={form.ip}
+                        onChange={(e) => updateForm("ip", e.target.value)}
+                    />
+                    <label className="input input-bordered input-sm flex items-center gap-2">
+                        <span className="text-gray-500">From</span>
+                        <input
+                            type="date"
+                            className="grow"
+                            value={form.from}
+                            onChange={(e) => updateForm("from", e.target.value)}
+                        />
+                    </label>
+                    <label className="input input-bordered input-sm flex items-center gap-2">
+                        <span className="text-gray-500">To</span>
+                        <input
+                            type="date"
+                            className="grow"
+                            value={form.to}
+                            onChange={(e) => updateForm("to", e.target.value)}
+                        />
+                    </label>
+                    <div className="flex gap-2">
+                        <button className="btn btn-sm btn-primary" onClick={applyFilter} disabled={loading}>
+                            Search
+                        </button>
+                        <button className="btn btn-sm btn-ghost" onClick={resetFilter} disabled={loading}>
+                            Reset
+                        </button>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="alert alert-error mb-4">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            <div className="bg-base-100 rounded-lg shadow overflow-x-auto">
+                <table className="table">
+                    <thead>
+                        <tr>
+                            <th>Time</th>
+                            <th>Actor</th>
+                            <th>IP</th>
+                            <th>Action</th>
+                            <th>Object</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {logs.length === 0 ? (
+                            <tr>
+                                <td colSpan={6} className="text-center text-gray-500 py-8">
+                                    {loading ? <span className="loading loading-spinner"></span> : "No audit entries"}
+                                </td>
+                            </tr>
+                        ) : (
+                            logs.map((log) => (
+                                <Fragment key={log.id}>
+                                    <tr>
+                                        <td className="whitespace-nowrap">
+                                            {new Date(log.created_at * 1000).toLocaleString("en-US")}
+                                        </td>
+                                        <td>
+                                            {log.actor_username || (log.actor_user_id ? `User #${log.actor_user_id}` : "-")}
+                                            {log.api_token_id !== null && (
+                                                <span className="badge badge-sm badge-ghost ml-1">API token #{log.api_token_id}</span>
+                                            )}
+                                        </td>
+                                        <td className="font-mono text-sm">{log.ip || "-"}</td>
+                                        <td className="font-mono text-sm">{log.action}</td>
+                                        <td>
+                                            {ENTITY_LABELS[log.entity_type] || log.entity_type}
+                                            {log.entity_id !== null && ` #${log.entity_id}`}
+                                        </td>
+                                        <td className="text-right">
+                                            <button
+                                                className="btn btn-ghost btn-xs"
+                                                onClick={() => setExpanded(expanded === log.id ? null : log.id)}
+                                            >
+                                                {expanded === log.id ? "Hide" : "Details"}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                    {expanded === log.id && (
+                                        <tr>
+                                            <td colSpan={6} className="bg-base-200">
+                                                {log.user_agent && (
+                                                    <div className="text-xs text-gray-500 mb-2 break-all">{log.user_agent}</div>
+                                                )}
+                                                {changedFields(log).length === 0 ? (
+                                                    <div className="text-sm text-gray-500">No field changes recorded</div>
+                                                ) : (
+                                                    <table className="table table-xs">
+                                                        <thead>
+                                                            <tr>
+                                                                <th>Field</th>
+                                                                <th>Before</th>
+                                                                <th>After</th>
+                                                            </tr>
+                                                        </thead>
+                                                        <tbody>
+                                                            {changedFields(log).map((field) => (
+                                                                <tr key={field}>
+                                                                    <td className="font-mono w-48">{field}</td>
+                                                                    <td className="break-all max-w-md">
+                                                                        <div className="max-h-40 overflow-auto">{formatValue(log.before?.[field])}</div>
+                                                                    </td>
+                                                                    <td className="break-all max-w-md">
+                                                                        <div className="max-h-40 overflow-auto">{formatValue(log.after?.[field])}</div>
+                                                                    </td>
+                                                                </tr>
+                                                            ))}
+                                                        </tbody>
+                                                    </table>
+                                                )}
+                                            </td>
+                                        </tr>
+                                    )}
+                                </Fragment>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {totalPages > 1 && (
+                <div className="flex justify-between items-center mt-6">
+                    <div className="text-sm text-gray-500">
+                        Page {page}/{totalPages}
+                    </div>
+                    <div className="join">
+                        <button
+                            className="join-item btn btn-sm"
+                            onClick={() => setPage((p) => Math.max(1, p - 1))}
+                            disabled={page === 1 || loading}
+                        >
+                            «
+                        </button>
+                        <button
+                            className="join-item btn btn-sm"
+                            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                            disabled={page === totalPages || loading}
+                        >
+                            »
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
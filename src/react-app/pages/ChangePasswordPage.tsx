@@ -3,6 +3,7 @@ import { useState } from "react";
 import { userApi } from "../lib/api";
 import axios from "axios";
 import { useNavigate } from "react-router";
+import { clearSession } from "../lib/auth";
 
 export function ChangePasswordPage() {
     const [oldPassword, setOldPassword] = useState("");
@@ -43,7 +44,7 @@ export function ChangePasswordPage() {
                 
                 // 延迟 1.5 秒后登出并跳转
                 setTimeout(() => {
-                    localStorage.removeItem("auth_token");
+                    clearSession();
                     navigate("/login", { replace: true });
                 }, 1500);
             } else {
@@ -1,5 +1,5 @@
 import { useEffect, useState } from "react";
-import { domainApi, Domain, CreateDomainRequest, UpdateDomainRequest, templateApi } from "../lib/api";
+import { domainApi, Domain, CreateDomainRequest, UpdateDomainRequest, templateApi, IpMode } from "../lib/api";
 
 type MessageType = 'success' | 'error' | 'info';
 
@@ -36,6 +36,7 @@ export function DomainsPage() {
         error_template_id: undefined,
         password_template_id: undefined,
         interstitial_template_id: undefined,
+        ip_mode: null,
     });
 
     // Template select options
@@ -95,6 +96,7 @@ export function DomainsPage() {
             error_template_id: undefined,
             password_template_id: undefined,
             interstitial_template_id: undefined,
+            ip_mode: null,
         });
         setShowModal(true);
     };
@@ -111,6 +113,7 @@ export function DomainsPage() {
             error_template_id: domain.error_template_id || undefined,
             password_template_id: domain.password_template_id || undefined,
             interstitial_template_id: domain.interstitial_template_id || undefined,
+            ip_mode: domain.ip_mode,
         });
         setShowModal(true);
     };
@@ -145,6 +148,7 @@ export function DomainsPage() {
                     error_template_id: formData.error_template_id || null,
                     password_template_id: formData.password_template_id || null,
                     interstitial_template_id: formData.interstitial_template_id || null,
+                    ip_mode: formData.ip_mode || null,
                 };
                 const res = await domainApi.update(editingDomain.id, updateData);
                 if (res.data.code === 0) {
@@ -508,6 +512,28 @@ export function DomainsPage() {
 
                             <div className="divider my-2"></div>
 
+                            {/* Privacy */}
+                            <div className="form-control">
+                                <label className="label">
+                                    <span className="label-text font-medium">Visitor IP Storage</span>
+                                </label>
+                                <select
+                                    className="select select-bordered w-full focus:select-primary"
+                                    value={formData.ip_mode || ''}
+                                    onChange={(e) => setFormData({
+                                        ...formData,
+                                        ip_mode: e.target.value ? e.target.value as IpMode : null
+                                    })}
+                                >
+                                    <option value="">Use system default</option>
+                                    <option value="full">Full IP address</option>
+                                    <option value="truncate">Truncated (/24 IPv4, /48 IPv6)</option>
+                                    <option value="hash">Daily salted hash (no raw IP)</option>
+                                </select>
+                            </div>
+
+                            <div className="divider my-2"></div>
+
                             <div className="space-y-3">
                                 <div className="form-control">
                                     <label className="label cursor-pointer justify-start gap-3 py-3 px-4 rounded-lg hover:bg-base-200 transition-colors">
@@ -1,9 +1,153 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router";
+import { statsApi, type StatsOverview } from "../lib/api";
+import { BreakdownCard, ClicksChart, StatsToolbar, type StatsRange } from "../components/StatsWidgets";
+import { ExportButton } from "../components/ExportButton";
+
 export function HomePage() {
+    const [overview, setOverview] = useState<StatsOverview | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState("");
+    const [range, setRange] = useState<StatsRange>({ days: 30, interval: "day", blocked: "exclude" });
+    const [statsWindow, setStatsWindow] = useState<{ start: number; end: number } | null>(null);
+
+    const loadOverview = useCallback(async () => {
+        const end = Math.floor(Date.now() / 1000);
+        const start = end - range.days * 86400;
+        const todayStart = new Date();
+        todayStart.setHours(0, 0, 0, 0);
+
+        try {
+            setLoading(true);
+            setError("");
+            const res = await statsApi.getOverview({
+                start,
+                end,
+                interval: range.interval,
+                blocked: range.blocked,
+                limit: 10,
+                today_start: Math.floor(todayStart.getTime() / 1000),
+            });
+            if (res.data.code === 0) {
+                setOverview(res.data.data);
+                setStatsWindow({ start, end });
+            } else {
+                setError(res.data.message || "Failed to load dashboard");
+            }
+        } catch (e) {
+            console.error("Failed to load dashboard:", e);
+            setError("Failed to load dashboard");
+        } finally {
+            setLoading(false);
+        }
+    }, [range]);
+
+    useEffect(() => {
+        loadOverview();
+    }, [loadOverview]);
+
     return (
-        <div className="flex flex-col items-center justify-center h-full gap-4">
-            <h1 className="text-4xl font-bold text-base-content">
-                Welcome Shorturl
-            </h1>
+        <div className="p-6">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+                <div>
+                    <h1 className="text-2xl font-bold">Dashboard</h1>
+                    <p className="text-sm text-gray-500 mt-1">Traffic overview of all short links</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <StatsToolbar value={range} onChange={setRange} />
+                    {statsWindow && (
+                        <ExportButton
+                            label="Export visits"
+                            filename="visit-events"
+                            onExport={(format) =>
+                                statsApi.exportEvents(format, { ...statsWindow, blocked: range.blocked })
+                            }
+                        />
+                    )}
+                </div>
+            </div>
+
+            {error && (
+                <div className="alert alert-error mb-4">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {loading && !overview ? (
+                <div className="text-center py-12">
+                    <span className="loading loading-spinner loading-lg"></span>
+                </div>
+            ) : overview && statsWindow ? (
+                <div className="space-y-6">
+                    {/* Summary cards */}
+                    <div className="stats stats-vertical md:stats-horizontal shadow w-full">
+                        <div className="stat">
+                            <div className="stat-title">Total links</div>
+                            <div className="stat-value">{overview.total_links}</div>
+                            <div className="stat-desc">{overview.disabled_links} disabled</div>
+                        </div>
+                        <div className="stat">
+                            <div className="stat-title">Clicks today</div>
+                            <div className="stat-value text-primary">{overview.clicks_today}</div>
+                        </div>
+                        <div className="stat">
+                            <div className="stat-title">Clicks (7 days)</div>
+                            <div className="stat-value">{overview.clicks_7d}</div>
+                        </div>
+                        <div className="stat">
+                            <div className="stat-title">Clicks (30 days)</div>
+                            <div className="stat-value">{overview.clicks_30d}</div>
+                        </div>
+                    </div>
+
+                    {/* Clicks over time */}
+                    <div className="bg-base-100 rounded-lg shadow p-4">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="font-semibold">Clicks over time</h3>
+                            <span className="text-sm text-gray-500">
+                                {overview.report.summary.clicks} clicks, {overview.report.summary.blocked} blocked
+                            </span>
+                        </div>
+                        <ClicksChart
+                            points={overview.report.timeseries}
+                            interval={overview.report.filter.interval}
+                            start={statsWindow.start}
+                            end={statsWindow.end}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                        {/* Top links */}
+                        <div className="bg-base-100 rounded-lg shadow p-4 lg:col-span-1">
+                            <h3 className="font-semibold mb-3">Top links</h3>
+                            {overview.top_links.length === 0 ? (
+                                <div className="text-sm text-gray-500 py-4 text-center">No data</div>
+                            ) : (
+                                <table className="table table-sm">
+                                    <tbody>
+                                        {overview.top_links.map((link) => (
+                                            <tr key={link.id}>
+                                                <td className="max-w-0 w-full">
+                                                    <Link
+                                                        to={`/links/${link.id}/stats`}
+                                                        className="link link-primary font-mono block truncate"
+                                                        title={link.target_url}
+                                                    >
+                                                        {link.domain_host}/{link.code}
+                                                    </Link>
+                                                </td>
+                                                <td className="text-right font-medium">{link.clicks}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                        <BreakdownCard title="Top referrers" items={overview.report.referrers} />
+                        <BreakdownCard title="Countries" items={overview.report.countries} />
+                    </div>
+                </div>
+            ) : null}
         </div>
     );
-}
\ No newline at end of file
+}
@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router";
+import { shortLinkApi, statsApi, type ShortLinkWithDomain, type StatsReport } from "../lib/api";
+import { BreakdownCard, ClicksChart, StatsToolbar, type StatsRange } from "../components/StatsWidgets";
+import { ExportButton } from "../components/ExportButton";
+import { LinkHistoryDialog } from "../components/LinkHistoryDialog";
+
+export function LinkStatsPage() {
+    const { id } = useParams();
+    const linkId = Number(id);
+
+    const [link, setLink] = useState<ShortLinkWithDomain | null>(null);
+    const [report, setReport] = useState<StatsReport | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState("");
+    const [range, setRange] = useState<StatsRange>({ days: 30, interval: "day", blocked: "include" });
+    const [statsWindow, setStatsWindow] = useState<{ start: number; end: number } | null>(null);
+    const [showHistory, setShowHistory] = useState(false);
+
+    const loadLink = useCallback(() => {
+        if (!linkId) return;
+        shortLinkApi
+            .getDetail(linkId)
+            .then((res) => {
+                if (res.data.code === 0) {
+                    setLink(res.data.data);
+                }
+            })
+            .catch((e) => console.error("Failed to load short link:", e));
+    }, [linkId]);
+
+    useEffect(() => {
+        loadLink();
+    }, [loadLink]);
+
+    const loadStats = useCallback(async () => {
+        if (!linkId) {
+            setError("Invalid short link ID");
+            return;
+        }
+        const end = Math.floor(Date.now() / 1000);
+        const start = end - range.days * 86400;
+
+        try {
+            setLoading(true);
+            setError("");
+            const res = await statsApi.getLinkStats(linkId, {
+                start,
+                end,
+                interval: range.interval,
+                blocked: range.blocked,
+                limit: 10,
+            });
+            if (res.data.code === 0) {
+                setReport(res.data.data);
+                setStatsWindow({ start, end });
+            } else {
+                setError(res.data.message || "Failed to load statistics");
+            }
+        } catch (e) {
+            console.error("Failed to load statistics:", e);
+            setError("Failed to load statistics");
+        } finally {
+            setLoading(false);
+        }
+    }, [linkId, range]);
+
+    useEffect(() => {
+        loadStats();
+    }, [loadStats]);
+
+    return (
+        <div className="p-6">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+                <div>
+                    <div className="text-sm breadcrumbs py-0">
+                        <ul>
+                            <li>
+                                <Link to="/links">Link Management</Link>
+                            </li>
+                            <li>Statistics</li>
+                        </ul>
+                    </div>
+                    <h1 className="text-2xl font-bold font-mono">
+                        {link ? `${link.domain_host}/${link.code}` : `#${id}`}
+                    </h1>
+                    {link && (
+                        <p className="text-sm text-gray-500 mt-1 truncate max-w-xl" title={link.target_url}>
+                            → {link.target_url}
+                        </p>
+                    )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                    <StatsToolbar value={range} onChange={setRange} />
+                    {link && (
+                        <button className="btn btn-outline" onClick={() => setShowHistory(true)}>
+                            History
+                        </button>
+                    )}
+                    {statsWindow && (
+                        <ExportButton
+                            label="Export visits"
+                            filename={`visit-events-${linkId}`}
+                            onExport={(format) =>
+                                statsApi.exportEvents(format, {
+                                    ...statsWindow,
+                                    blocked: range.blocked,
+                                    link_id: linkId,
+                                })
+                            }
+                        />
+                    )}
+                </div>
+            </div>
+
+            {error && (
+                <div className="alert alert-error mb-4">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            {loading && !report ? (
+                <div className="text-center py-12">
+                    <span className="loading loading-spinner loading-lg"></span>
+                </div>
+            ) : report && statsWindow ? (
+                <div className="space-y-6">
+                    <div className="stats stats-vertical md:stats-horizontal shadow w-full">
+                        <div className="stat">
+                            <div className="stat-title">Visits</div>
+                            <div className="stat-value">{report.summary.total}</div>
+                        </div>
+                        <div className="stat">
+                            <div className="stat-title">Clicks</div>
+                            <div className="stat-value text-primary">{report.summary.clicks}</div>
+                        </div>
+                        <div className="stat">
+                            <div className="stat-title">Blocked</div>
+                            <div className="stat-value text-error">{report.summary.blocked}</div>
+                        </div>
+                        <div className="stat">
+                            <div className="stat-title">All-time clicks</div>
+                            <div className="stat-value">{link?.total_clicks ?? "-"}</div>
+                        </div>
+                    </div>
+
+                    <div className="bg-base-100 rounded-lg shadow p-4">
+                        <h3 className="font-semibold mb-4">Clicks over time</h3>
+                        <ClicksChart
+                            points={report.timeseries}
+                            interval={report.filter.interval}
+                            start={statsWindow.start}
+                            end={statsWindow.end}
+                        />
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                        <BreakdownCard title="Referrers" items={report.referrers} />
+                        <BreakdownCard title="Countries" items={report.countries} />
+                        <BreakdownCard title="Regions" items={report.regions} />
+                        <BreakdownCard title="Cities" items={report.cities} />
+                        <BreakdownCard title="Device types" items={report.device_types} />
+                        <BreakdownCard title="Operating systems" items={report.os} />
+                        <BreakdownCard title="Browsers" items={report.browsers} />
+                        <BreakdownCard title="Block reasons" items={report.block_reasons} />
+                        <BreakdownCard title="Routing rules" items={report.matched_rules} />
+                        <BreakdownCard title="A/B variants" items={report.variants} />
+                    </div>
+                </div>
+            ) : null}
+
+            {link && showHistory && (
+                <LinkHistoryDialog link={link} onClose={() => setShowHistory(false)} onReverted={loadLink} />
+            )}
+        </div>
+    );
+}
@@ -1,15 +1,58 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router";
-import api, { authApi } from "../lib/api";
+import { authApi, type LoginOptions, type LoginResult, type TwoFactorSetup } from "../lib/api";
+import { ProvisioningDetails, RecoveryCodesNotice } from "../components/TwoFactorPanel";
+import { saveSession } from "../lib/auth";
 import axios from "axios";
 
+// 登录流程：密码 / SSO（已有账号需先输入密码确认关联） -> （可选）两步验证 / 首次绑定 -> 展示恢复码
+type LoginStep = "password" | "link" | "verify" | "setup" | "recovery-codes";
+
+interface SsoResult {
+    token?: string;
+    refreshToken?: string;
+    error?: string;
+    twoFactor?: "verify" | "setup";
+    challengeToken?: string;
+    linkToken?: string;
+    linkUser?: string;
+}
+
+// SSO 回调把 token、两步验证挑战、关联确认或错误信息放在 URL fragment 中，读取后立即清除
+function readSsoResult(): SsoResult {
+    const params = new URLSearchParams(window.location.hash.slice(1));
+    if (!["token", "challenge_token", "sso_link", "sso_error"].some((key) => params.has(key))) return {};
+    window.history.replaceState(null, "", window.location.pathname + window.location.search);
+    const twoFactor = params.get("two_factor");
+    return {
+        token: params.get("token") ?? undefined,
+        refreshToken: params.get("refresh_token") ?? undefined,
+        error: params.get("sso_error") ?? undefined,
+        twoFactor: twoFactor === "verify" || twoFactor === "setup" ? twoFactor : undefined,
+        challengeToken: params.get("challenge_token") ?? undefined,
+        linkToken: params.get("sso_link") ?? undefined,
+        linkUser: params.get("sso_user") ?? undefined,
+    };
+}
+
 export function LoginPage() {
     const navigate = useNavigate();
+    const [ssoResult] = useState(readSsoResult);
     const [username, setUsername] = useState("");
     const [password, setPassword] = useState("");
     const [loading, setLoading] = useState(false);
     const [checking, setChecking] = useState(true);
-    const [error, setError] = useState("");
+    const [error, setError] = useState(ssoResult.error ?? "");
+    const [step, setStep] = useState<LoginStep>(
+        ssoResult.twoFactor && ssoResult.challengeToken ? ssoResult.twoFactor : ssoResult.linkToken ? "link" : "password"
+    );
+    const [challengeToken, setChallengeToken] = useState(ssoResult.challengeToken ?? "");
+    const [code, setCode] = useState("");
+    const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+    const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+    const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+    const [options, setOptions] = useState<LoginOptions | null>(null);
+    const [pendingTokens, setPendingTokens] = useState<{ token: string; refresh_token: string } | null>(null);
 
     useEffect(() => {
         authApi.getInitStatus()
@@ -22,26 +65,38 @@ export function LoginPage() {
                 // Do not block login when the check fails
             })
             .finally(() => setChecking(false));
+
+        authApi.getLoginOptions()
+            .then((res) => setOptions(res.data?.data ?? null))
+            .catch(() => {
+                // Fall back to password login only
+            });
     }, [navigate]);
 
-    async function handleLogin() {
+    useEffect(() => {
+        if (ssoResult.token) {
+            saveSession(ssoResult.token, ssoResult.refreshToken);
+            navigate("/", { replace: true });
+        } else if (ssoResult.twoFactor === "setup" && ssoResult.challengeToken) {
+            authApi.loginTwoFactorSetup(ssoResult.challengeToken)
+                .then((res) => setSetup(res.data?.data ?? null))
+                .catch(() => setError("Failed to start two-factor setup, please sign in again"));
+        }
+    }, [ssoResult, navigate]);
+
+    function finishLogin(token: string, refreshToken?: string) {
+        saveSession(token, refreshToken);
+        navigate("/", { replace: true });
+    }
+
+    async function runStep(action: () => Promise<void>, fallback: string) {
         setLoading(true);
         setError("");
 
         try {
-            const res = await api.post("/api/auth/login", { username, password });
-            const body = res.data;
-
-            const token = body?.data?.token;
-            if (!token) {
-                setError("Login failed: token not received");
-                return;
-            }
-
-            localStorage.setItem("auth_token", token);
-            navigate("/", { replace: true });
+            await action();
         } catch (e) {
-            let msg = "Login failed";
+            let msg = fallback;
             if (axios.isAxiosError(e)) {
                 msg = e.response?.data?.message || msg;
             }
@@ -51,6 +106,81 @@ export function LoginPage() {
         }
     }
 
+    // 第一步（密码或 SSO 关联确认）的结果：直接登录，或进入两步验证 / 首次绑定
+    async function handleFirstFactor(result: LoginResult | undefined) {
+        if (result?.token) {
+            finishLogin(result.token, result.refresh_token);
+            return;
+        }
+        if (!result?.challenge_token || !result.two_factor) {
+            setError("Login failed: token not received");
+            return;
+        }
+
+        setChallengeToken(result.challenge_token);
+        setCode("");
+        if (result.two_factor === "setup") {
+            const setupRes = await authApi.loginTwoFactorSetup(result.challenge_token);
+            setSetup(setupRes.data?.data ?? null);
+        }
+        setStep(result.two_factor);
+    }
+
+    async function handleLogin() {
+        await runStep(async () => {
+            const res = await authApi.login({ username, password });
+            await handleFirstFactor(res.data?.data);
+        }, "Login failed");
+    }
+
+    async function handleLink() {
+        await runStep(async () => {
+            const res = await authApi.linkSso(ssoResult.linkToken ?? "", password);
+            setPassword("");
+            await handleFirstFactor(res.data?.data);
+        }, "Linking failed");
+    }
+
+    async function handleVerify() {
+        await runStep(async () => {
+            const value = code.trim();
+            const res = await authApi.loginTwoFactor(
+                useRecoveryCode
+                    ? { challenge_token: challengeToken, recovery_code: value }
+                    : { challenge_token: challengeToken, code: value }
+            );
+            const result = res.data?.data;
+            if (!result?.token) {
+                setError("Login failed: token not received");
+                return;
+            }
+            finishLogin(result.token, result.refresh_token);
+        }, "Verification failed");
+    }
+
+    async function handleEnable() {
+        await runStep(async () => {
+            const res = await authApi.loginTwoFactorEnable(challengeToken, code.trim());
+            const data = res.data?.data;
+            if (!data?.token) {
+                setError("Login failed: token not received");
+                return;
+            }
+            setPendingTokens({ token: data.token, refresh_token: data.refresh_token });
+            setRecoveryCodes(data.recovery_codes);
+            setStep("recovery-codes");
+        }, "Verification failed");
+    }
+
+    function backToPassword() {
+        setStep("password");
+        setChallengeToken("");
+        setCode("");
+        setUseRecoveryCode(false);
+        setSetup(null);
+        setError("");
+    }
+
     if (checking) {
         return (
             <div className="min-h-screen grid place-items-center">
@@ -69,34 +199,100 @@ export function LoginPage() {
                             Welcome back
                         </h1>
                         <p className="text-sm text-base-content/60">
-                            Please sign in to continue
+                            {step === "password"
+                                ? "Please sign in to continue"
+                                : step === "link"
+                                    ? "Confirm your password to link single sign-on to your account"
+                                    : step === "verify"
+                                        ? "Enter the code from your authenticator app"
+                                        : "Two-factor authentication is required for your account"}
                         </p>
                     </div>
 
                     <div className="divider my-0" />
 
-                    <label className="form-control w-full">
-                        <span className="label-text font-medium mb-1">Account</span>
-                        <input
-                            className="input input-bordered input-lg w-full focus:input-primary transition-all"
-                            placeholder="Enter your account"
-                            value={username}
-                            onChange={(e) => setUsername(e.target.value)}
-                            onKeyDown={(e) => e.key === "Enter" && handleLogin()}
-                        />
-                    </label>
-
-                    <label className="form-control w-full">
-                        <span className="label-text font-medium mb-1">Password</span>
-                        <input
-                            type="password"
-                            className="input input-bordered input-lg w-full focus:input-primary transition-all"
-                            placeholder="Enter your password"
-                            value={password}
-                            onChange={(e) => setPassword(e.target.value)}
-                            onKeyDown={(e) => e.key === "Enter" && handleLogin()}
-                        />
-                    </label>
+                    {step === "password" && options?.sso_enabled ? (
+                        <a className="btn btn-outline btn-lg w-full text-base" href="/api/auth/oidc/start">
+                            {options.sso_label || "Sign in with SSO"}
+                        </a>
+                    ) : null}
+
+                    {step === "password" && options?.sso_enabled && options.password_login ? (
+                        <div className="divider my-0 text-xs text-base-content/50">or</div>
+                    ) : null}
+
+                    {step === "password" && options?.password_login !== false ? (
+                        <>
+                            <label className="form-control w-full">
+                                <span className="label-text font-medium mb-1">Account</span>
+                                <input
+                                    className="input input-bordered input-lg w-full focus:input-primary transition-all"
+                                    placeholder="Enter your account"
+                                    value={username}
+                                    onChange={(e) => setUsername(e.target.value)}
+                                    onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+                                />
+                            </label>
+
+                            <label className="form-control w-full">
+                                <span className="label-text font-medium mb-1">Password</span>
+                                <input
+                                    type="password"
+                                    className="input input-bordered input-lg w-full focus:input-primary transition-all"
+                                    placeholder="Enter your password"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    onKeyDown={(e) => e.key === "Enter" && handleLogin()}
+                                />
+                            </label>
+                        </>
+                    ) : null}
+
+                    {step === "link" ? (
+                        <>
+                            <p className="text-sm text-base-content/70">
+                                Your identity provider reported the email of the existing account
+                                {ssoResult.linkUser ? <strong> {ssoResult.linkUser}</strong> : null}. Enter that
+                                account's password once to link it. Afterwards single sign-on logs you straight in.
+                            </p>
+                            <label className="form-control w-full">
+                                <span className="label-text font-medium mb-1">Password</span>
+                                <input
+                                    type="password"
+                                    className="input input-bordered input-lg w-full focus:input-primary transition-all"
+                                    placeholder="Enter your password"
+                                    autoFocus
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    onKeyDown={(e) => e.key === "Enter" && handleLink()}
+                                />
+                            </label>
+                        </>
+                    ) : null}
+
+                    {step === "setup" && setup ? <ProvisioningDetails setup={setup} /> : null}
+
+                    {step === "verify" || step === "setup" ? (
+                        <label className="form-control w-full">
+                            <span className="label-text font-medium mb-1">
+                                {useRecoveryCode ? "Recovery code" : "Authentication code"}
+                            </span>
+                            <input
+                                className="input input-bordered input-lg w-full font-mono focus:input-primary transition-all"
+                                placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                                inputMode={useRecoveryCode ? "text" : "numeric"}
+                                autoComplete="one-time-code"
+                                autoFocus
+                                value={code}
+                                onChange={(e) => setCode(e.target.value)}
+                                onKeyDown={(e) => e.key === "Enter" && (step === "verify" ? handleVerify() : handleEnable())}
+                            />
+                        </label>
+                    ) : null}
+
+                    {step === "recovery-codes" ? (
+                        <RecoveryCodesNotice codes={recoveryCodes} onDone={() => pendingTokens && finishLogin(pendingTokens.token, pendingTokens.refresh_token)} />
+                    ) : null}
 
                     {error ? (
                         <div role="alert" className="alert alert-error alert-soft text-sm">
@@ -107,20 +303,44 @@ export function LoginPage() {
                         </div>
                     ) : null}
 
-                    <button
-                        className="btn btn-primary btn-lg w-full mt-2 text-base"
-                        onClick={handleLogin}
-                        disabled={loading}
-                    >
-                        {loading ? (
-                            <>
-                                <span className="loading loading-spinner loading-sm" />
-                                Signing in...
-                            </>
-                        ) : (
-                            "Sign in"
-                        )}
-                    </button>
+                    {step !== "recovery-codes" && (step !== "password" || options?.password_login !== false) ? (
+                        <button
+                            className="btn btn-primary btn-lg w-full mt-2 text-base"
+                            onClick={step === "password" ? handleLogin : step === "link" ? handleLink : step === "verify" ? handleVerify : handleEnable}
+                            disabled={loading}
+                        >
+                            {loading ? (
+                                <>
+                                    <span className="loading loading-spinner loading-sm" />
+                                    {step === "password" || step === "link" ? "Signing in..." : "Verifying..."}
+                                </>
+                            ) : (
+                                step === "password"
+                                    ? "Sign in"
+                                    : step === "link"
+                                        ? "Link and sign in"
+                                        : step === "verify" ? "Verify" : "Verify and enable"
+                            )}
+                        </button>
+                    ) : null}
+
+                    {step === "verify" ? (
+                        <button
+                            className="btn btn-link btn-sm"
+                            onClick={() => {
+                                setUseRecoveryCode(!useRecoveryCode);
+                                setCode("");
+                            }}
+                        >
+                            {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                        </button>
+                    ) : null}
+
+                    {step === "link" || step === "verify" || step === "setup" ? (
+                        <button className="btn btn-ghost btn-sm" onClick={backToPassword}>
+                            Back to sign in
+                        </button>
+                    ) : null}
                 </div>
             </div>
         </div>
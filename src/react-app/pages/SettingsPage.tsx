@@ -1,7 +1,10 @@
 
-import { useState, useEffect } from "react";
-import { userApi, type User } from "../lib/api";
+import { useCallback, useState, useEffect } from "react";
+import { appSettingsApi, userApi, type AppSettings, type IpMode, type OidcSettings, type User } from "../lib/api";
 import axios from "axios";
+import { ApiTokensPanel } from "../components/ApiTokensPanel";
+import { TwoFactorPanel } from "../components/TwoFactorPanel";
+import { SessionsPanel } from "../components/SessionsPanel";
 
 export function SettingsPage() {
     const [user, setUser] = useState<User | null>(null);
@@ -124,7 +127,336 @@ export function SettingsPage() {
                         {loading ? "Saving..." : "Save Settings"}
                     </button>
                 </form>
+
+                {user?.role === "admin" && <SystemSettings />}
             </div>
+
+            <TwoFactorPanel />
+
+            <SessionsPanel />
+
+            <ApiTokensPanel />
         </div>
     );
+}
+
+function SystemSettings() {
+    const [settings, setSettings] = useState<AppSettings | null>(null);
+    const [message, setMessage] = useState("");
+    const [error, setError] = useState("");
+    const [saving, setSaving] = useState(false);
+    // client_secret 只写：留空不修改，勾选清除时提交空字符串
+    const [clientSecret, setClientSecret] = useState("");
+    const [clearSecret, setClearSecret] = useState(false);
+    const [adminGroups, setAdminGroups] = useState("");
+
+    const applySettings = useCallback((data: AppSettings) => {
+        setSettings(data);
+        setAdminGroups(data.oidc.admin_groups.join(", "));
+        setClientSecret("");
+        setClearSecret(false);
+    }, []);
+
+    useEffect(() => {
+        appSettingsApi
+            .get()
+            .then((res) => {
+                if (res.data.code === 0) {
+                    applySettings(res.data.data);
+                }
+            })
+            .catch((e) => console.error("Failed to load system settings:", e));
+    }, [applySettings]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!settings) return;
+        setMessage("");
+        setError("");
+
+        try {
+            setSaving(true);
+            const response = await appSettingsApi.update({
+                ...settings,
+                oidc: {
+                    ...settings.oidc,
+                    admin_groups: adminGroups.split(",").map((g) => g.trim()).filter(Boolean),
+                    ...(clearSecret ? { client_secret: "" } : clientSecret ? { client_secret: clientSecret } : {}),
+                },
+            });
+            if (response.data.code === 0) {
+                setMessage("System settings saved");
+                if (response.data.data) {
+                    applySettings(response.data.data);
+                }
+            } else {
+                setError(response.data.message || "Update failed");
+            }
+        } catch (err: unknown) {
+            if (axios.isAxiosError(err)) {
+                setError(err.response?.data?.message || "Failed to save system settings");
+            } else {
+                setError("Failed to save system settings");
+            }
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (!settings) {
+        return null;
+    }
+
+    const updateOidc = (changes: Partial<OidcSettings>) =>
+        setSettings({ ...settings, oidc: { ...settings.oidc, ...changes } });
+
+    return (
+        <form onSubmit={handleSave} className="space-y-4 mt-10">
+            <h2 className="text-xl font-bold">System</h2>
+
+            {message && (
+                <div className="alert alert-success">
+                    <span>{message}</span>
+                </div>
+            )}
+
+            {error && (
+                <div className="alert alert-error">
+                    <span>{error}</span>
+                </div>
+            )}
+
+            <div className="form-control">
+                <label className="label">
+                    <span className="label-text">Visitor IP storage</span>
+                </label>
+                <select
+                    className="select select-bordered w-full"
+                    value={settings.privacy_ip_mode}
+                    onChange={(e) => setSettings({ ...settings, privacy_ip_mode: e.target.value as IpMode })}
+                    disabled={saving}
+                >
+                    <option value="full">Full IP address</option>
+                    <option value="truncate">Truncated (/24 IPv4, /48 IPv6)</option>
+                    <option value="hash">Daily salted hash (no raw IP)</option>
+                </select>
+                <label className="label">
+                    <span className="label-text-alt opacity-70">
+                        Default for all domains; a domain can override it. Hash mode also drops the raw user agent.
+                    </span>
+                </label>
+            </div>
+
+            <div className="form-control">
+                <label className="label cursor-pointer justify-start gap-3">
+                    <input
+                        type="checkbox"
+                        className="checkbox checkbox-sm"
+                        checked={settings.require_admin_2fa}
+                        onChange={(e) => setSettings({ ...settings, require_admin_2fa: e.target.checked })}
+                        disabled={saving}
+                    />
+                    <span className="label-text">Require two-factor authentication for admins</span>
+                </label>
+                <label className="label">
+                    <span className="label-text-alt opacity-70">
+                        Admins without 2FA must set it up at their next sign-in.
+                    </span>
+                </label>
+            </div>
+
+            <div className="form-control">
+                <label className="label">
+                    <span className="label-text">Empty trash after (days)</span>
+                </label>
+                <input
+                    type="number"
+                    min={0}
+                    max={3650}
+                    className="input input-bordered w-full"
+                    value={settings.trash_retention_days}
+                    onChange={(e) =>
+                        setSettings({ ...settings, trash_retention_days: Math.max(0, parseInt(e.target.value) || 0) })
+                    }
+                    disabled={saving}
+                />
+                <label className="label">
+                    <span className="label-text-alt opacity-70">
+                        Deleted short links are removed for good after this many days, which frees their codes. 0 keeps them until deleted by hand.
+                    </span>
+                </label>
+            </div>
+
+            <h3 className="text-lg font-semibold pt-4">Single sign-on (OIDC)</h3>
+
+            <div className="form-control">
+                <label className="label cursor-pointer justify-start gap-3">
+                    <input
+                        type="checkbox"
+                        className="checkbox checkbox-sm"
+                        checked={settings.oidc.enabled}
+                        onChange={(e) => updateOidc({ enabled: e.target.checked })}
+                        disabled={saving}
+                    />
+                    <span className="label-text">Enable OpenID Connect login</span>
+                </label>
+                <label className="label">
+                    <span className="label-text-alt opacity-70">
+                        Register <code>{window.location.origin}/api/auth/oidc/callback</code> as the redirect URI at
+                        your identity provider.
+                    </span>
+                </label>
+            </div>
+
+            <div className="form-control">
+                <label className="label">
+                    <span className="label-text">Issuer URL</span>
+                </label>
+                <input
+                    className="input input-bordered w-full"
+                    placeholder="https://idp.example.com/realms/main"
+                    value={settings.oidc.issuer}
+                    onChange={(e) => updateOidc({ issuer: e.target.value })}
+                    disabled={saving}
+                />
+            </div>
+
+            <div className="form-control">
+                <label className="label">
+                    <span className="label-text">Client ID</span>
+                </label>
+                <input
+                    className="input input-bordered w-full"
+                    value={settings.oidc.client_id}
+                    onChange={(e) => updateOidc({ client_id: e.target.value })}
+                    disabled={saving}
+                />
+            </div>
+
+            <div className="form-control">
+                <label className="label">
+                    <span className="label-text">Client secret</span>
+                </label>
+                <input
+                    type="password"
+                    className="input input-bordered w-full"
+                    placeholder={settings.oidc.client_secret_set ? "Unchanged" : "Leave empty for a public client (PKCE only)"}
+                    value={clientSecret}
+                    onChange={(e) => setClientSecret(e.target.value)}
+                    disabled={saving || clearSecret}
+                    autoComplete="new-password"
+                />
+                {settings.oidc.client_secret_set && (
+                    <label className="label cursor-pointer justify-start gap-2">
+                        <input
+                            type="checkbox"
+                            className="checkbox checkbox-xs"
+                            checked={clearSecret}
+                            onChange={(e) => setClearSecret(e.target.checked)}
+                            disabled={saving}
+                        />
+                        <span className="label-text-alt">Remove stored secret</span>
+                    </label>
+                )}
+            </div>
+
+            <div className="form-control">
+                <label className="label">
+                    <span className="label-text">Scopes</span>
+                </label>
+                <input
+                    className="input input-bordered w-full font-mono"
+                    value={settings.oidc.scopes}
+                    onChange={(e) => updateOidc({ scopes: e.target.value })}
+                    disabled={saving}
+                />
+            </div>
+
+            <div className="form-control">
+                <label className="label">
+                    <span className="label-text">Button label</span>
+                </label>
+                <input
+                    className="input input-bordered w-full"
+                    value={settings.oidc.button_label}
+                    onChange={(e) => updateOidc({ button_label: e.target.value })}
+                    disabled={saving}
+                />
+            </div>
+
+            <div className="form-control">
+                <label className="label">
+                    <span className="label-text">Group claim</span>
+                </label>
+                <input
+                    className="input input-bordered w-full font-mono"
+                    placeholder="groups"
+                    value={settings.oidc.role_claim}
+                    onChange={(e) => updateOidc({ role_claim: e.target.value })}
+                    disabled={saving}
+                />
+                <label className="label">
+                    <span className="label-text-alt opacity-70">
+                        Dot paths such as <code>realm_access.roles</code> are supported. Leave empty to keep roles
+                        managed here.
+                    </span>
+                </label>
+            </div>
+
+            <div className="form-control">
+                <label className="label">
+                    <span className="label-text">Admin groups</span>
+                </label>
+                <input
+                    className="input input-bordered w-full"
+                    placeholder="shorturl-admins"
+                    value={adminGroups}
+                    onChange={(e) => setAdminGroups(e.target.value)}
+                    disabled={saving}
+                />
+                <label className="label">
+                    <span className="label-text-alt opacity-70">
+                        Comma-separated. Members become admins; everyone else gets the default role.
+                    </span>
+                </label>
+            </div>
+
+            <div className="form-control">
+                <label className="label">
+                    <span className="label-text">Default role</span>
+                </label>
+                <select
+                    className="select select-bordered w-full"
+                    value={settings.oidc.default_role}
+                    onChange={(e) => updateOidc({ default_role: e.target.value as OidcSettings["default_role"] })}
+                    disabled={saving}
+                >
+                    <option value="user">User</option>
+                    <option value="admin">Admin</option>
+                </select>
+            </div>
+
+            <div className="form-control">
+                <label className="label cursor-pointer justify-start gap-3">
+                    <input
+                        type="checkbox"
+                        className="checkbox checkbox-sm"
+                        checked={settings.disable_password_login}
+                        onChange={(e) => setSettings({ ...settings, disable_password_login: e.target.checked })}
+                        disabled={saving}
+                    />
+                    <span className="label-text">Disable password login</span>
+                </label>
+                <label className="label">
+                    <span className="label-text-alt opacity-70">
+                        Only single sign-on is offered. Ignored while SSO is disabled. API tokens keep working.
+                    </span>
+                </label>
+            </div>
+
+            <button type="submit" className="btn btn-primary w-full" disabled={saving}>
+                {saving ? "Saving..." : "Save System Settings"}
+            </button>
+        </form>
+    );
 }
\ No newline at end of file
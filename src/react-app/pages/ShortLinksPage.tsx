@@ -1,13 +1,23 @@
 import { useEffect, useState, useCallback } from "react";
+import { Link } from "react-router";
 import {
     shortLinkApi,
     domainApi,
     templateApi,
+    userApi,
     ShortLinkWithDomain,
     Domain,
+    User,
     CreateShortLinkRequest,
     UpdateShortLinkRequest,
 } from "../lib/api";
+import { isAdmin } from "../lib/auth";
+import { RoutingRulesEditor } from "../components/RoutingRulesEditor";
+import { AbVariantsEditor } from "../components/AbVariantsEditor";
+import { ScheduleEditor } from "../components/ScheduleEditor";
+import { ImportLinksDialog } from "../components/ImportLinksDialog";
+import { ExportButton } from "../components/ExportButton";
+import { LinkHistoryDialog } from "../components/LinkHistoryDialog";
 
 type MessageType = "success" | "error" | "info";
 
@@ -90,6 +100,9 @@ function TagInput({
 
 // ==================== 主页面 ====================
 export function ShortLinksPage() {
+    // 管理员可查看所有用户的短链接，并按所有者筛选/转移
+    const admin = isAdmin();
+
     // 列表数据
     const [links, setLinks] = useState<ShortLinkWithDomain[]>([]);
     const [loading, setLoading] = useState(false);
@@ -103,12 +116,15 @@ export function ShortLinksPage() {
     const [filterKeyword, setFilterKeyword] = useState("");
     const [filterTag, setFilterTag] = useState("");
     const [filterStatus, setFilterStatus] = useState("");
+    const [filterOwnerId, setFilterOwnerId] = useState("");
     const [orderBy, setOrderBy] = useState("created_at");
     const [orderDir, setOrderDir] = useState("desc");
 
     // 域名 & 模板选项（用于筛选和表单）
     const [domains, setDomains] = useState<Domain[]>([]);
     const [templateOptions, setTemplateOptions] = useState<TemplateOption[]>([]);
+    // 用户选项（仅管理员，用于所有者筛选和转移）
+    const [users, setUsers] = useState<User[]>([]);
 
     // 消息提示
     const [message, setMessage] = useState<Message | null>(null);
@@ -121,6 +137,14 @@ export function ShortLinksPage() {
     // 删除确认
     const [deletingLink, setDeletingLink] = useState<ShortLinkWithDomain | null>(null);
 
+    // 转移所有者
+    const [transferringLink, setTransferringLink] = useState<ShortLinkWithDomain | null>(null);
+    const [historyLink, setHistoryLink] = useState<ShortLinkWithDomain | null>(null);
+    const [transferOwnerId, setTransferOwnerId] = useState("");
+
+    // 批量导入
+    const [showImport, setShowImport] = useState(false);
+
     // 表单状态
     const [formData, setFormData] = useState<CreateShortLinkRequest>({
         domain_id: 0,
@@ -135,13 +159,21 @@ export function ShortLinksPage() {
         password_template_id: null,
         password: null,
         max_visits: null,
+        start_at: null,
         expire_at: null,
+        schedule: null,
+        fallback_url: null,
+        routing_rules: [],
+        ab_variants: [],
+        ab_sticky: 0,
         remark: null,
         tags: [],
     });
 
     // 高级选项展开
     const [showAdvanced, setShowAdvanced] = useState(false);
+    // 编辑时取消已设置的访问密码
+    const [removePassword, setRemovePassword] = useState(false);
 
     const showMessage = (type: MessageType, text: string) => {
         setMessage({ type, text });
@@ -163,6 +195,19 @@ export function ShortLinksPage() {
         }
     }, []);
 
+    // 加载用户列表（仅管理员）
+    const loadUsers = useCallback(async () => {
+        if (!admin) return;
+        try {
+            const res = await userApi.getList(1, 100);
+            if (res.data.code === 0) {
+                setUsers(res.data.data.results);
+            }
+        } catch (e) {
+            console.error("Failed to load users:", e);
+        }
+    }, [admin]);
+
     // 加载模板选项
     const loadTemplateOptions = useCallback(async () => {
         try {
@@ -186,6 +231,7 @@ export function ShortLinksPage() {
                 keyword: filterKeyword || undefined,
                 tag: filterTag || undefined,
                 is_disabled: filterStatus,
+                owner_user_id: filterOwnerId || undefined,
                 order_by: orderBy,
                 order_dir: orderDir,
             });
@@ -210,12 +256,13 @@ export function ShortLinksPage() {
         } finally {
             setLoading(false);
         }
-    }, [page, pageSize, filterDomainId, filterKeyword, filterTag, filterStatus, orderBy, orderDir]);
+    }, [page, pageSize, filterDomainId, filterKeyword, filterTag, filterStatus, filterOwnerId, orderBy, orderDir]);
 
     useEffect(() => {
         loadDomains();
         loadTemplateOptions();
-    }, [loadDomains, loadTemplateOptions]);
+        loadUsers();
+    }, [loadDomains, loadTemplateOptions, loadUsers]);
 
     useEffect(() => {
         loadLinks();
@@ -243,11 +290,18 @@ export function ShortLinksPage() {
             password_template_id: null,
             password: null,
             max_visits: null,
+            start_at: null,
             expire_at: null,
+            schedule: null,
+            fallback_url: null,
+            routing_rules: [],
+            ab_variants: [],
+            ab_sticky: 0,
             remark: null,
             tags: [],
         });
         setShowAdvanced(false);
+        setRemovePassword(false);
         setShowModal(true);
     };
 
@@ -266,13 +320,20 @@ export function ShortLinksPage() {
             template_id: link.template_id,
             error_template_id: link.error_template_id,
             password_template_id: link.password_template_id,
-            password: link.password,
+            password: null, // 留空表示不修改
             max_visits: link.max_visits,
+            start_at: link.start_at,
             expire_at: link.expire_at,
+            schedule: link.schedule,
+            fallback_url: link.fallback_url,
+            routing_rules: link.routing_rules,
+            ab_variants: link.ab_variants,
+            ab_sticky: link.ab_sticky,
             remark: link.remark,
             tags: link.tags.map((t) => t.name),
         });
         setShowAdvanced(true);
+        setRemovePassword(false);
         setShowModal(true);
     };
 
@@ -301,7 +362,13 @@ export function ShortLinksPage() {
                     showMessage("error", res.data.message || "Create failed");
                 }
             } else if (editingLink) {
-                const updateData: UpdateShortLinkRequest = { ...formData };
+                const { password, ...rest } = formData;
+                const updateData: UpdateShortLinkRequest = { ...rest };
+                if (removePassword) {
+                    updateData.password = null;
+                } else if (password) {
+                    updateData.password = password;
+                }
                 const res = await shortLinkApi.update(editingLink.id, updateData);
                 if (res.data.code === 0) {
                     showMessage("success", "Short link updated successfully");
@@ -328,7 +395,7 @@ export function ShortLinksPage() {
             setLoading(true);
             const res = await shortLinkApi.delete(link.id);
             if (res.data.code === 0) {
-                showMessage("success", "Deleted successfully");
+                showMessage("success", "Moved to trash");
                 setDeletingLink(null);
                 loadLinks();
             } else {
@@ -360,6 +427,30 @@ export function ShortLinksPage() {
         }
     };
 
+    // 转移所有者
+    const handleTransfer = async () => {
+        if (!transferringLink || !transferOwnerId) return;
+        try {
+            setLoading(true);
+            const res = await shortLinkApi.transferOwner([transferringLink.id], Number(transferOwnerId));
+            if (res.data.code === 0) {
+                showMessage("success", res.data.message);
+                setTransferringLink(null);
+                loadLinks();
+            } else {
+                showMessage("error", res.data.message || "Transfer failed");
+            }
+        } catch (error: unknown) {
+            const msg =
+                error && typeof error === "object" && "response" in error
+                    ? (error.response as { data?: { message?: string } })?.data?.message || "Transfer failed"
+                    : "Transfer failed";
+            showMessage("error", msg);
+        } finally {
+            setLoading(false);
+        }
+    };
+
     // 搜索重置到第 1 页
     const handleSearch = () => {
         setPage(1);
@@ -372,6 +463,7 @@ export function ShortLinksPage() {
         setFilterKeyword("");
         setFilterTag("");
         setFilterStatus("");
+        setFilterOwnerId("");
         setOrderBy("created_at");
         setOrderDir("desc");
         setPage(1);
@@ -457,9 +549,32 @@ export function ShortLinksPage() {
                     <h1 className="text-2xl font-bold">Short Link Management</h1>
                     <p className="text-sm text-gray-500 mt-1">{total} short links total</p>
                 </div>
-                <button className="btn btn-primary" onClick={handleCreate} disabled={loading}>
-                    + New Short Link
-                </button>
+                <div className="flex gap-2">
+                    <Link to="/links/trash" className="btn btn-ghost">
+                        Trash
+                    </Link>
+                    <button className="btn btn-outline" onClick={() => setShowImport(true)} disabled={loading}>
+                        Import
+                    </button>
+                    {/* 按当前筛选条件导出全部结果（不分页） */}
+                    <ExportButton
+                        filename="short-links"
+                        onExport={(format) =>
+                            shortLinkApi.export(format, {
+                                domain_id: filterDomainId || undefined,
+                                keyword: filterKeyword || undefined,
+                                tag: filterTag || undefined,
+                                is_disabled: filterStatus,
+                                owner_user_id: filterOwnerId || undefined,
+                                order_by: orderBy,
+                                order_dir: orderDir,
+                            })
+                        }
+                    />
+                    <button className="btn btn-primary" onClick={handleCreate} disabled={loading}>
+                        + New Short Link
+                    </button>
+                </div>
             </div>
 
             {/* Filters */}
@@ -543,6 +658,30 @@ export function ShortLinksPage() {
                         </select>
                     </div>
 
+                    {/* Owner filter (admin only) */}
+                    {admin && (
+                        <div className="form-control">
+                            <label className="label py-1">
+                                <span className="label-text text-xs">Owner</span>
+                            </label>
+                            <select
+                                className="select select-bordered select-sm w-36 ml-2"
+                                value={filterOwnerId}
+                                onChange={(e) => {
+                                    setFilterOwnerId(e.target.value);
+                                    setPage(1);
+                                }}
+                            >
+                                <option value="">All owners</option>
+                                {users.map((u) => (
+                                    <option key={u.id} value={u.id}>
+                                        {u.username || u.email || `#${u.id}`}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
+
                     {/* Sort */}
                     <div className="form-control">
                         <label className="label py-1">
@@ -608,7 +747,7 @@ export function ShortLinksPage() {
                                         <span className={`badge badge-sm ${link.is_disabled === 0 ? "badge-success" : "badge-error"}`}>
                                             {link.is_disabled === 0 ? "Enabled" : "Disabled"}
                                         </span>
-                                        {link.password && (
+                                        {link.has_password === 1 && (
                                             <span className="badge badge-sm badge-warning">🔒 Password protected</span>
                                         )}
                                         {link.expire_at && link.expire_at < Date.now() / 1000 && (
@@ -624,6 +763,9 @@ export function ShortLinksPage() {
                                                 onChange={() => handleToggleStatus(link)}
                                             />
                                         </label>
+                                        <Link to={`/links/${link.id}/stats`} className="btn btn-sm btn-ghost">
+                                            Stats
+                                        </Link>
                                         <button
                                             className="btn btn-sm btn-ghost"
                                             onClick={() => handleEdit(link)}
@@ -631,6 +773,25 @@ export function ShortLinksPage() {
                                         >
                                             Edit
                                         </button>
+                                        <button
+                                            className="btn btn-sm btn-ghost"
+                                            onClick={() => setHistoryLink(link)}
+                                            disabled={loading}
+                                        >
+                                            History
+                                        </button>
+                                        {admin && (
+                                            <button
+                                                className="btn btn-sm btn-ghost"
+                                                onClick={() => {
+                                                    setTransferringLink(link);
+                                                    setTransferOwnerId(String(link.owner_user_id));
+                                                }}
+                                                disabled={loading}
+                                            >
+                                                Transfer
+                                            </button>
+                                        )}
                                         <button
                                             className="btn btn-sm btn-ghost text-error hover:bg-error hover:text-white"
                                             onClick={() => setDeletingLink(link)}
@@ -667,12 +828,36 @@ export function ShortLinksPage() {
                                     </div>
                                     <div>
                                         <span className="text-gray-400">Max visits:</span>
-                                        <span>{link.max_visits ?? "Unlimited"}</span>
+                                        <span>{link.max_visits === 1 ? "1 (one-time)" : link.max_visits ?? "Unlimited"}</span>
                                     </div>
+                                    {link.start_at && (
+                                        <div>
+                                            <span className="text-gray-400">Starts:</span>
+                                            <span>{formatTime(link.start_at)}</span>
+                                        </div>
+                                    )}
                                     <div>
                                         <span className="text-gray-400">Expiration:</span>
                                         <span>{link.expire_at ? formatTime(link.expire_at) : "Never"}</span>
                                     </div>
+                                    {link.schedule && (
+                                        <div>
+                                            <span className="text-gray-400">Active hours:</span>
+                                            <span>{link.schedule.windows.length} window(s), {link.schedule.timezone}</span>
+                                        </div>
+                                    )}
+                                    <div>
+                                        <span className="text-gray-400">Routing rules:</span>
+                                        <span>{link.routing_rules.length || "None"}</span>
+                                    </div>
+                                    <div>
+                                        <span className="text-gray-400">A/B test:</span>
+                                        <span>
+                                            {link.ab_variants.length > 0
+                                                ? link.ab_variants.map((v) => `${v.name} ${v.weight}`).join(" / ")
+                                                : "Off"}
+                                        </span>
+                                    </div>
                                 </div>
 
                                 {/* Row 4: Templates */}
@@ -714,6 +899,9 @@ export function ShortLinksPage() {
                                     {link.remark && (
                                         <span title={link.remark}>Notes: {link.remark}</span>
                                     )}
+                                    {admin && (
+                                        <span>Owner: {link.owner_username || `#${link.owner_user_id}`}</span>
+                                    )}
                                     <span>Created: {formatTime(link.created_at)}</span>
                                     {link.updated_at && <span>Updated: {formatTime(link.updated_at)}</span>}
                                     {link.last_access_at && (
@@ -807,7 +995,7 @@ export function ShortLinksPage() {
                             <span className="font-mono font-bold">
                                 {deletingLink.domain_host}/{deletingLink.code}
                             </span>{" "}
-                            ? This action cannot be undone.
+                            ? It will be moved to the trash, where it can be restored. Its code stays reserved until the trash is emptied.
                         </p>
                         <div className="modal-action">
                             <button
@@ -840,6 +1028,63 @@ export function ShortLinksPage() {
                 </div>
             )}
 
+            {/* Transfer owner modal */}
+            {transferringLink && (
+                <div className="modal modal-open">
+                    <div className="modal-box">
+                        <h3 className="font-bold text-lg mb-4">Transfer ownership</h3>
+                        <p className="mb-4">
+                            Transfer{" "}
+                            <span className="font-mono font-bold">
+                                {transferringLink.domain_host}/{transferringLink.code}
+                            </span>{" "}
+                            to another user. The new owner will be able to edit it and see its stats.
+                        </p>
+                        <select
+                            className="select select-bordered w-full"
+                            value={transferOwnerId}
+                            onChange={(e) => setTransferOwnerId(e.target.value)}
+                        >
+                            {users.map((u) => (
+                                <option key={u.id} value={u.id}>
+                                    {u.username || u.email || `#${u.id}`}
+                                </option>
+                            ))}
+                        </select>
+                        <div className="modal-action">
+                            <button
+                                className="btn btn-ghost"
+                                onClick={() => setTransferringLink(null)}
+                                disabled={loading}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                className="btn btn-primary"
+                                onClick={handleTransfer}
+                                disabled={loading || !transferOwnerId || Number(transferOwnerId) === transferringLink.owner_user_id}
+                            >
+                                Transfer
+                            </button>
+                        </div>
+                    </div>
+                    <div
+                        className="modal-backdrop"
+                        onClick={() => !loading && setTransferringLink(null)}
+                    ></div>
+                </div>
+            )}
+
+            {/* Import modal */}
+            {showImport && (
+                <ImportLinksDialog onClose={() => setShowImport(false)} onImported={loadLinks} />
+            )}
+
+            {/* History modal */}
+            {historyLink && (
+                <LinkHistoryDialog link={historyLink} onClose={() => setHistoryLink(null)} onReverted={loadLinks} />
+            )}
+
             {/* Create/Edit modal */}
             {showModal && (
                 <div className="modal modal-open">
@@ -1177,10 +1422,16 @@ export function ShortLinksPage() {
                                                 </span>
                                             </label>
                                             <input
-                                                type="text"
+                                                type="password"
                                                 className="input input-bordered w-full"
-                                                placeholder="Leave blank for no password"
+                                                placeholder={
+                                                    editingLink?.has_password
+                                                        ? "Leave blank to keep current password"
+                                                        : "Leave blank for no password"
+                                                }
                                                 value={formData.password || ""}
+                                                disabled={removePassword}
+                                                autoComplete="new-password"
                                                 onChange={(e) =>
                                                     setFormData({
                                                         ...formData,
@@ -1188,6 +1439,17 @@ export function ShortLinksPage() {
                                                     })
                                                 }
                                             />
+                                            {modalMode === "edit" && editingLink?.has_password === 1 && (
+                                                <label className="label cursor-pointer justify-start gap-2">
+                                                    <input
+                                                        type="checkbox"
+                                                        className="checkbox checkbox-sm"
+                                                        checked={removePassword}
+                                                        onChange={(e) => setRemovePassword(e.target.checked)}
+                                                    />
+                                                    <span className="label-text">Remove password</span>
+                                                </label>
+                                            )}
                                         </div>
 
                                         <div className="form-control">
@@ -1211,30 +1473,106 @@ export function ShortLinksPage() {
                                                     })
                                                 }
                                             />
+                                            <label className="label cursor-pointer justify-start gap-2">
+                                                <input
+                                                    type="checkbox"
+                                                    className="checkbox checkbox-sm"
+                                                    checked={formData.max_visits === 1}
+                                                    onChange={(e) =>
+                                                        setFormData({
+                                                            ...formData,
+                                                            max_visits: e.target.checked ? 1 : null,
+                                                        })
+                                                    }
+                                                />
+                                                <span className="label-text">One-time link (burn after reading)</span>
+                                            </label>
+                                        </div>
+                                    </div>
+
+                                    <div className="grid grid-cols-2 gap-4">
+                                        <div className="form-control">
+                                            <label className="label">
+                                                <span className="label-text font-medium">Start time</span>
+                                            </label>
+                                            <input
+                                                type="datetime-local"
+                                                className="input input-bordered w-full"
+                                                value={timestampToDatetimeLocal(formData.start_at ?? null)}
+                                                onChange={(e) =>
+                                                    setFormData({
+                                                        ...formData,
+                                                        start_at: datetimeLocalToTimestamp(e.target.value),
+                                                    })
+                                                }
+                                            />
+                                            <label className="label">
+                                                <span className="label-text-alt text-gray-500">
+                                                    Before this, visitors see a "not yet available" page
+                                                </span>
+                                            </label>
+                                        </div>
+
+                                        <div className="form-control">
+                                            <label className="label">
+                                                <span className="label-text font-medium">Expiration time</span>
+                                            </label>
+                                            <input
+                                                type="datetime-local"
+                                                className="input input-bordered w-full"
+                                                value={timestampToDatetimeLocal(formData.expire_at ?? null)}
+                                                onChange={(e) =>
+                                                    setFormData({
+                                                        ...formData,
+                                                        expire_at: datetimeLocalToTimestamp(e.target.value),
+                                                    })
+                                                }
+                                            />
+                                            <label className="label">
+                                                <span className="label-text-alt text-gray-500">
+                                                    Leave blank for no expiration
+                                                </span>
+                                            </label>
                                         </div>
                                     </div>
 
                                     <div className="form-control">
                                         <label className="label">
-                                            <span className="label-text font-medium">Expiration time</span>
+                                            <span className="label-text font-medium">Fallback URL</span>
                                         </label>
                                         <input
-                                            type="datetime-local"
+                                            type="url"
                                             className="input input-bordered w-full"
-                                            value={timestampToDatetimeLocal(formData.expire_at ?? null)}
+                                            placeholder="https://..."
+                                            value={formData.fallback_url || ""}
                                             onChange={(e) =>
-                                                setFormData({
-                                                    ...formData,
-                                                    expire_at: datetimeLocalToTimestamp(e.target.value),
-                                                })
+                                                setFormData({ ...formData, fallback_url: e.target.value || null })
                                             }
                                         />
                                         <label className="label">
                                             <span className="label-text-alt text-gray-500">
-                                                Leave blank for no expiration
+                                                Redirect here after expiry or once max visits is reached, instead of showing an error
                                             </span>
                                         </label>
                                     </div>
+
+                                    <ScheduleEditor
+                                        schedule={formData.schedule ?? null}
+                                        onChange={(schedule) => setFormData({ ...formData, schedule })}
+                                    />
+
+                                    <RoutingRulesEditor
+                                        rules={formData.routing_rules || []}
+                                        onChange={(routing_rules) => setFormData({ ...formData, routing_rules })}
+                                    />
+
+                                    <AbVariantsEditor
+                                        variants={formData.ab_variants || []}
+                                        sticky={formData.ab_sticky === 1}
+                                        defaultUrl={formData.target_url}
+                                        onVariantsChange={(ab_variants) => setFormData({ ...formData, ab_variants })}
+                                        onStickyChange={(sticky) => setFormData({ ...formData, ab_sticky: sticky ? 1 : 0 })}
+                                    />
                                 </div>
                             )}
 
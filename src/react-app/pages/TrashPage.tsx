@@ -0,0 +1,273 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router";
+import { shortLinkApi, ShortLinkWithDomain } from "../lib/api";
+
+type MessageType = "success" | "error";
+
+interface Message {
+    type: MessageType;
+    text: string;
+}
+
+// 一次彻底删除的上限与后端一致
+const MAX_PURGE_IDS = 90;
+
+// ==================== 回收站 ====================
+export function TrashPage() {
+    const [links, setLinks] = useState<ShortLinkWithDomain[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [page, setPage] = useState(1);
+    const [pageSize] = useState(20);
+    const [total, setTotal] = useState(0);
+    const [totalPages, setTotalPages] = useState(0);
+    const [keyword, setKeyword] = useState("");
+    const [search, setSearch] = useState("");
+    const [selected, setSelected] = useState<number[]>([]);
+    const [message, setMessage] = useState<Message | null>(null);
+    // 待彻底删除的短链接，确认后执行
+    const [purging, setPurging] = useState<number[] | null>(null);
+
+    const showMessage = (type: MessageType, text: string) => {
+        setMessage({ type, text });
+        setTimeout(() => setMessage(null), 5000);
+    };
+
+    const loadTrash = useCallback(async () => {
+        try {
+            setLoading(true);
+            const res = await shortLinkApi.getTrash({ page, pageSize, keyword: search || undefined });
+            if (res.data.code === 0) {
+                setLinks(res.data.data.results);
+                setTotal(res.data.data.pagination.total);
+                setTotalPages(res.data.data.pagination.totalPages);
+                setSelected([]);
+            }
+        } catch (e) {
+            console.error("Failed to load trash:", e);
+        } finally {
+            setLoading(false);
+        }
+    }, [page, pageSize, search]);
+
+    useEffect(() => {
+        loadTrash();
+    }, [loadTrash]);
+
+    const runAction = async (action: () => Promise<{ data: { code: number; message: string } }>, fallback: string) => {
+        try {
+            setLoading(true);
+            const res = await action();
+            if (res.data.code === 0) {
+                showMessage("success", res.data.message);
+                setPurging(null);
+                loadTrash();
+            } else {
+                showMessage("error", res.data.message || fallback);
+            }
+        } catch (error: unknown) {
+            const msg =
+                error && typeof error === "object" && "response" in error
+                    ? (error.response as { data?: { message?: string } })?.data?.message || fallback
+                    : fallback;
+            showMessage("error", msg);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const toggleSelected = (id: number) =>
+        setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+
+    const formatTime = (timestamp: number | null) => {
+        if (!timestamp) return "-";
+        return new Date(timestamp * 1000).toLocaleString("en-US");
+    };
+
+    return (
+        <div className="p-6">
+            {message && (
+                <div className="toast toast-top toast-center z-50">
+                    <div className={`alert ${message.type === "success" ? "alert-success" : "alert-error"} shadow-lg`}>
+                        <span>{message.text}</span>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+                <div>
+                    <div className="text-sm breadcrumbs py-0">
+                        <ul>
+                            <li>
+                                <Link to="/links">Link Management</Link>
+                            </li>
+                            <li>Trash</li>
+                        </ul>
+                    </div>
+                    <h1 className="text-2xl font-bold">Trash</h1>
+                    <p className="text-sm text-gray-500 mt-1">
+                        {total} deleted short links. Their codes stay reserved until they are deleted forever.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <button
+                        className="btn btn-outline"
+                        onClick={() => runAction(() => shortLinkApi.restore(selected), "Restore failed")}
+                        disabled={loading || selected.length === 0}
+                    >
+                        Restore selected
+                    </button>
+                    <button
+                        className="btn btn-error"
+                        onClick={() => setPurging(selected)}
+                        disabled={loading || selected.length === 0 || selected.length > MAX_PURGE_IDS}
+                    >
+                        Delete selected forever
+                    </button>
+                </div>
+            </div>
+
+            <div className="bg-base-100 rounded-lg shadow p-4 mb-4 flex gap-2">
+                <input
+                    type="text"
+                    className="input input-bordered input-sm w-64"
+                    placeholder="Code / target URL / remark"
+                    value={keyword}
+                    onChange={(e) => setKeyword(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") {
+                            setPage(1);
+                            setSearch(keyword);
+                        }
+                    }}
+                />
+                <button
+                    className="btn btn-sm btn-primary"
+                    onClick={() => {
+                        setPage(1);
+                        setSearch(keyword);
+                    }}
+                >
+                    Search
+                </button>
+            </div>
+
+            <div className="bg-base-100 rounded-lg shadow overflow-x-auto">
+                <table className="table">
+                    <thead>
+                        <tr>
+                            <th>
+                                <input
+                                    type="checkbox"
+                                    className="checkbox checkbox-sm"
+                                    checked={links.length > 0 && selected.length === links.length}
+                                    onChange={(e) => setSelected(e.target.checked ? links.map((l) => l.id) : [])}
+                                />
+                            </th>
+                            <th>Short link</th>
+                            <th>Target URL</th>
+                            <th>Owner</th>
+                            <th>Deleted at</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {links.length === 0 ? (
+                            <tr>
+                                <td colSpan={6} className="text-center text-gray-500 py-8">
+                                    {loading ? <span className="loading loading-spinner"></span> : "Trash is empty"}
+                                </td>
+                            </tr>
+                        ) : (
+                            links.map((link) => (
+                                <tr key={link.id}>
+                                    <td>
+                                        <input
+                                            type="checkbox"
+                                            className="checkbox checkbox-sm"
+                                            checked={selected.includes(link.id)}
+                                            onChange={() => toggleSelected(link.id)}
+                                        />
+                                    </td>
+                                    <td className="font-mono">
+                                        {link.domain_host}/{link.code}
+                                    </td>
+                                    <td className="max-w-xs truncate" title={link.target_url}>
+                                        {link.target_url}
+                                    </td>
+                                    <td>{link.owner_username || "-"}</td>
+                                    <td>{formatTime(link.deleted_at)}</td>
+                                    <td className="whitespace-nowrap text-right">
+                                        <button
+                                            className="btn btn-ghost btn-xs"
+                                            onClick={() => runAction(() => shortLinkApi.restore([link.id]), "Restore failed")}
+                                            disabled={loading}
+                                        >
+                                            Restore
+                                        </button>
+                                        <button
+                                            className="btn btn-ghost btn-xs text-error"
+                                            onClick={() => setPurging([link.id])}
+                                            disabled={loading}
+                                        >
+                                            Delete forever
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            {totalPages > 1 && (
+                <div className="flex justify-between items-center mt-6">
+                    <div className="text-sm text-gray-500">
+                        Page {page}/{totalPages}
+                    </div>
+                    <div className="join">
+                        <button
+                            className="join-item btn btn-sm"
+                            onClick={() => setPage((p) => Math.max(1, p - 1))}
+                            disabled={page === 1 || loading}
+                        >
+                            «
+                        </button>
+                        <button
+                            className="join-item btn btn-sm"
+                            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+                            disabled={page === totalPages || loading}
+                        >
+                            »
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {/* Purge confirmation modal */}
+            {purging && (
+                <div className="modal modal-open">
+                    <div className="modal-box">
+                        <h3 className="font-bold text-lg mb-4">Delete forever</h3>
+                        <p className="py-4">
+                            Permanently delete {purging.length} short link{purging.length > 1 ? "s" : ""}? Their codes
+                            become available again. Visit statistics are kept. This action cannot be undone.
+                        </p>
+                        <div className="modal-action">
+                            <button className="btn btn-ghost" onClick={() => setPurging(null)} disabled={loading}>
+                                Cancel
+                            </button>
+                            <button
+                                className="btn btn-error"
+                                onClick={() => runAction(() => shortLinkApi.purge(purging), "Delete failed")}
+                                disabled={loading}
+                            >
+                                Delete forever
+                            </button>
+                        </div>
+                    </div>
+                    <div className="modal-backdrop" onClick={() => !loading && setPurging(null)}></div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -27,6 +27,12 @@ export function UsersPage() {
     // Delete confirmation modal
     const [deletingUser, setDeletingUser] = useState<User | null>(null);
 
+    // Reset 2FA confirmation modal
+    const [resettingUser, setResettingUser] = useState<User | null>(null);
+
+    // Force sign-out confirmation modal
+    const [signingOutUser, setSigningOutUser] = useState<User | null>(null);
+
     // Form data
     const [formData, setFormData] = useState<CreateUserRequest>({
         email: '',
@@ -166,6 +172,49 @@ export function UsersPage() {
         }
     };
 
+    // Reset two-factor authentication (user has lost their authenticator)
+    const handleResetTwoFactor = async (user: User) => {
+        try {
+            setLoading(true);
+            const res = await userApi.resetTwoFactor(user.id);
+            if (res.data.code === 0) {
+                showMessage('success', 'Two-factor authentication reset');
+                setResettingUser(null);
+                loadUsers();
+            } else {
+                showMessage('error', res.data.message || 'Reset failed');
+            }
+        } catch (error: unknown) {
+            const message = error && typeof error === 'object' && 'response' in error
+                ? (error.response as { data?: { message?: string } })?.data?.message || 'Reset failed'
+                : 'Reset failed';
+            showMessage('error', message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    // Force sign-out (revoke all login sessions of the user)
+    const handleRevokeSessions = async (user: User) => {
+        try {
+            setLoading(true);
+            const res = await userApi.revokeSessions(user.id);
+            if (res.data.code === 0) {
+                showMessage('success', `Signed out ${res.data.data?.revoked ?? 0} session(s)`);
+                setSigningOutUser(null);
+            } else {
+                showMessage('error', res.data.message || 'Sign out failed');
+            }
+        } catch (error: unknown) {
+            const message = error && typeof error === 'object' && 'response' in error
+                ? (error.response as { data?: { message?: string } })?.data?.message || 'Sign out failed'
+                : 'Sign out failed';
+            showMessage('error', message);
+        } finally {
+            setLoading(false);
+        }
+    };
+
     // Format time
     const formatTime = (timestamp: number) => {
         return new Date(timestamp * 1000).toLocaleString('en-US');
@@ -231,6 +280,7 @@ export function UsersPage() {
                         <th>Username</th>
                         <th>Role</th>
                         <th>Status</th>
+                        <th>2FA</th>
                         <th>Created At</th>
                         <th>Actions</th>
                     </tr>
@@ -238,13 +288,13 @@ export function UsersPage() {
                     <tbody>
                     {loading && users.length === 0 ? (
                         <tr>
-                            <td colSpan={7} className="text-center py-8">
+                            <td colSpan={8} className="text-center py-8">
                                 <span className="loading loading-spinner loading-lg"></span>
                             </td>
                         </tr>
                     ) : users.length === 0 ? (
                         <tr>
-                            <td colSpan={7} className="text-center py-8 text-gray-500">
+                            <td colSpan={8} className="text-center py-8 text-gray-500">
                                 No users found
                             </td>
                         </tr>
@@ -260,6 +310,11 @@ export function UsersPage() {
                                             {user.status === 0 ? 'Active' : 'Disabled'}
                                         </span>
                                 </td>
+                                <td>
+                                    {user.totp_enabled === 1
+                                        ? <span className="badge badge-success badge-outline">On</span>
+                                        : <span className="text-gray-400">-</span>}
+                                </td>
                                 <td className="text-sm text-gray-500">
                                     {formatTime(user.created_at)}
                                 </td>
@@ -272,6 +327,22 @@ export function UsersPage() {
                                         >
                                             Edit
                                         </button>
+                                        <button
+                                            className="btn btn-sm btn-ghost"
+                                            onClick={() => setSigningOutUser(user)}
+                                            disabled={loading}
+                                        >
+                                            Sign out
+                                        </button>
+                                        {user.totp_enabled === 1 && (
+                                            <button
+                                                className="btn btn-sm btn-ghost"
+                                                onClick={() => setResettingUser(user)}
+                                                disabled={loading}
+                                            >
+                                                Reset 2FA
+                                            </button>
+                                        )}
                                         <button
                                             className="btn btn-sm btn-ghost text-error hover:bg-error hover:text-white"
                                             onClick={() => setDeletingUser(user)}
@@ -349,6 +420,80 @@ export function UsersPage() {
                 </div>
             )}
 
+            {/* 重置两步验证确认弹窗 */}
+            {resettingUser && (
+                <div className="modal modal-open">
+                    <div className="modal-box">
+                        <h3 className="font-bold text-lg mb-4">Reset Two-Factor Authentication</h3>
+                        <p className="py-4">
+                            Disable two-factor authentication for <span className="font-bold">"{resettingUser.email || resettingUser.username}"</span>?
+                            The authenticator and all recovery codes will stop working.
+                        </p>
+                        <div className="modal-action">
+                            <button
+                                className="btn btn-ghost"
+                                onClick={() => setResettingUser(null)}
+                                disabled={loading}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                className="btn btn-warning"
+                                onClick={() => handleResetTwoFactor(resettingUser)}
+                                disabled={loading}
+                            >
+                                {loading ? (
+                                    <>
+                                        <span className="loading loading-spinner loading-sm"></span>
+                                        Resetting...
+                                    </>
+                                ) : (
+                                    'Reset 2FA'
+                                )}
+                            </button>
+                        </div>
+                    </div>
+                    <div className="modal-backdrop" onClick={() => !loading && setResettingUser(null)}></div>
+                </div>
+            )}
+
+            {/* 强制下线确认弹窗 */}
+            {signingOutUser && (
+                <div className="modal modal-open">
+                    <div className="modal-box">
+                        <h3 className="font-bold text-lg mb-4">Sign Out Everywhere</h3>
+                        <p className="py-4">
+                            Sign out <span className="font-bold">"{signingOutUser.email || signingOutUser.username}"</span> on all devices?
+                            API tokens are not affected.
+                        </p>
+                        <div className="modal-action">
+                            <button
+                                className="btn btn-ghost"
+                                onClick={() => setSigningOutUser(null)}
+                                disabled={loading}
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                className="btn btn-warning"
+                                onClick={() => handleRevokeSessions(signingOutUser)}
+                                disabled={loading}
+                            >
+                                {loading ? (
+                                    <>
+                                        <span className="loading loading-spinner loading-sm"></span>
+                                        Signing out...
+                                    </>
+                                ) : (
+                                    'Sign Out'
+                                )}
+                            </button>
+                        </div>
+                    </div>
+                    <div className="modal-backdrop" onClick={() => !loading && setSigningOutUser(null)}></div>
+                </div>
+            )}
+
             {/* 创建/编辑弹窗 */}
             {showModal && (
                 <div className="modal modal-open">
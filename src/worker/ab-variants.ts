@@ -0,0 +1,101 @@
+/**
+ * A/B 分流
+ * 短链接可配置多个目标地址及权重（JSON 保存在 short_links.ab_variants），未命中路由规则的访问按权重随机分配；
+ * 开启 ab_sticky 时用 cookie 记住访问者分到的版本。命中的版本名记录到访问事件的 variant
+ */
+
+interface AbVariant {
+    name: string;       // 版本名，用于统计和 sticky cookie，只允许字母、数字、- 和 _
+    url: string;
+    weight: number;     // 非负整数，按占总权重的比例分流
+}
+
+const MAX_VARIANTS = 10;
+const MAX_WEIGHT = 10000;
+
+const VARIANT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/** 读取保存的版本列表，格式错误时视为未启用 */
+function parseAbVariants(raw: string | null): AbVariant[] {
+    if (!raw) {
+        return [];
+    }
+    try {
+        const variants = JSON.parse(raw);
+        return Array.isArray(variants) ? variants : [];
+    } catch {
+        return [];
+    }
+}
+
+/** 校验并规范化接口提交的版本列表；空列表表示不分流 */
+function validateAbVariants(value: unknown): { variants: AbVariant[] } | { error: string } {
+    if (value === null) {
+        return { variants: [] };
+    }
+    if (!Array.isArray(value)) {
+        return { error: 'A/B 版本格式无效' };
+    }
+    if (value.length === 0) {
+        return { variants: [] };
+    }
+    if (value.length < 2 || value.length > MAX_VARIANTS) {
+        return { error: `A/B 分流需要 2-${MAX_VARIANTS} 个版本` };
+    }
+
+    const variants: AbVariant[] = [];
+    for (const [index, item] of value.entries()) {
+        const label = `第 ${index + 1} 个 A/B 版本`;
+        if (!item || typeof item !== 'object') {
+            return { error: `${label}格式无效` };
+        }
+        const { name, url, weight } = item as Record<string, unknown>;
+        // 未填写名称时按顺序命名为 A、B、C...
+        const variantName = typeof name === 'string' && name.trim() ? name.trim() : String.fromCharCode(65 + index);
+        if (!VARIANT_NAME_PATTERN.test(variantName)) {
+            return { error: `${label}的名称只能包含字母、数字、连字符和下划线（最多 32 个字符）` };
+        }
+        if (variants.some((v) => v.name === variantName)) {
+            return { error: `A/B 版本名称重复: ${variantName}` };
+        }
+        if (typeof url !== 'string' || !url.trim()) {
+            return { error: `${label}的目标 URL 不能为空` };
+        }
+        if (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 0 || weight > MAX_WEIGHT) {
+            return { error: `${label}的权重必须是 0-${MAX_WEIGHT} 的整数` };
+        }
+        variants.push({ name: variantName, url: url.trim(), weight });
+    }
+    if (variants.every((v) => v.weight === 0)) {
+        return { error: 'A/B 版本的权重不能全部为 0' };
+    }
+    return { variants };
+}
+
+/**
+ * 选择版本：sticky 指定的版本仍存在且权重大于 0 时沿用，否则按权重随机
+ * 没有可用版本时返回 null
+ */
+function pickAbVariant(variants: AbVariant[], stickyName: string | null): AbVariant | null {
+    const candidates = variants.filter((v) => v.weight > 0);
+    if (candidates.length === 0) {
+        return null;
+    }
+    const sticky = stickyName ? candidates.find((v) => v.name === stickyName) : undefined;
+    if (sticky) {
+        return sticky;
+    }
+
+    const total = candidates.reduce((sum, v) => sum + v.weight, 0);
+    let point = crypto.getRandomValues(new Uint32Array(1))[0] % total;
+    for (const variant of candidates) {
+        if (point < variant.weight) {
+            return variant;
+        }
+        point -= variant.weight;
+    }
+    return candidates[candidates.length - 1];
+}
+
+export { parseAbVariants, validateAbVariants, pickAbVariant };
+export type { AbVariant };
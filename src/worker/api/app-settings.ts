@@ -0,0 +1,183 @@
+import { Hono } from "hono";
+import { ErrorCode, HttpResponseJsonBody, Variables } from "../util";
+import { requireScope } from "../scopes";
+import { requireAdmin } from "../rbac";
+import { setAppSetting } from "../settings";
+import { getGlobalIpMode, IpMode, isIpMode, PRIVACY_IP_MODE_KEY } from "../privacy";
+import { isAdminTwoFactorRequired, setAdminTwoFactorRequired } from "../two-factor";
+import { getTrashRetentionDays, setTrashRetentionDays } from "../link-trash";
+import {
+    getOidcConfig,
+    getPasswordLoginDisabledSetting,
+    isOidcReady,
+    OidcConfig,
+    setOidcConfig,
+    setPasswordLoginDisabled,
+    validateOidcConfig,
+} from "../oidc";
+
+// ============ 类型定义 ============
+
+/** SSO 配置（client_secret 只写不读） */
+interface OidcSettings extends Omit<OidcConfig, 'client_secret'> {
+    client_secret_set: boolean;
+}
+
+/** 系统级设置，保存在 app_settings 表中 */
+interface AppSettings {
+    privacy_ip_mode: IpMode;
+    require_admin_2fa: boolean;     // 强制所有管理员启用两步验证
+    disable_password_login: boolean;    // 只允许 SSO 登录（SSO 未启用时不生效）
+    trash_retention_days: number;   // 回收站中的短链接保留天数，0 表示不自动清空
+    oidc: OidcSettings;
+}
+
+interface UpdateAppSettingsRequest extends Partial<Omit<AppSettings, 'oidc'>> {
+    oidc?: Partial<OidcConfig>;     // client_secret 省略表示不修改，空字符串表示清除
+}
+
+// 回收站保留天数上限（10 年）
+const MAX_TRASH_RETENTION_DAYS = 3650;
+
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+async function loadAppSettings(db: D1Database): Promise<AppSettings> {
+    const { client_secret: clientSecret, ...oidc } = await getOidcConfig(db);
+    return {
+        privacy_ip_mode: await getGlobalIpMode(db),
+        require_admin_2fa: await isAdminTwoFactorRequired(db),
+        disable_password_login: await getPasswordLoginDisabledSetting(db),
+        trash_retention_days: await getTrashRetentionDays(db),
+        oidc: { ...oidc, client_secret_set: clientSecret !== '' },
+    };
+}
+
+/**
+ * GET /
+ * 获取系统设置
+ */
+app.get('/', requireScope('settings', 'r'), requireAdmin, async (c) => {
+    try {
+        const response: HttpResponseJsonBody<AppSettings> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: await loadAppSettings(c.env.shorturl)
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询系统设置失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询系统设置失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * PUT /
+ * 更新系统设置，只更新请求中包含的字段
+ * body: { privacy_ip_mode?: "full" | "truncate" | "hash", require_admin_2fa?: boolean,
+ *         disable_password_login?: boolean, trash_retention_days?: number, oidc?: Partial<OidcConfig> }
+ */
+app.put('/', requireScope('settings', 'rw'), requireAdmin, async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const body = await c.req.json<UpdateAppSettingsRequest>();
+
+        if (body.privacy_ip_mode !== undefined && !isIpMode(body.privacy_ip_mode)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: 'IP 存储方式无效'
+            };
+            return c.json(response, 400);
+        }
+
+        if (body.require_admin_2fa !== undefined && typeof body.require_admin_2fa !== 'boolean') {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: 'require_admin_2fa 必须是布尔值'
+            };
+            return c.json(response, 400);
+        }
+
+        if (body.disable_password_login !== undefined && typeof body.disable_password_login !== 'boolean') {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: 'disable_password_login 必须是布尔值'
+            };
+            return c.json(response, 400);
+        }
+
+        const trashDays = body.trash_retention_days;
+        if (trashDays !== undefined && (typeof trashDays !== 'number' || !Number.isInteger(trashDays)
+            || trashDays < 0 || trashDays > MAX_TRASH_RETENTION_DAYS)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: `回收站保留天数必须是 0 ~ ${MAX_TRASH_RETENTION_DAYS} 之间的整数`
+            };
+            return c.json(response, 400);
+        }
+
+        // 合并后整体校验 SSO 配置
+        let oidc: OidcConfig = await getOidcConfig(db);
+        if (body.oidc !== undefined) {
+            // 前端回传的只读字段不保存
+            const changes: Partial<OidcConfig> & { client_secret_set?: boolean } = { ...body.oidc };
+            delete changes.client_secret_set;
+            oidc = { ...oidc, ...changes };
+            if (typeof oidc.issuer === 'string') {
+                oidc.issuer = oidc.issuer.trim().replace(/\/+$/, '');
+            }
+            const error = validateOidcConfig(oidc);
+            if (error) {
+                const response: HttpResponseJsonBody = {
+                    code: ErrorCode.DATA_INPUT_ERROR,
+                    message: error
+                };
+                return c.json(response, 400);
+            }
+        }
+
+        const disablePasswordLogin = body.disable_password_login ?? await getPasswordLoginDisabledSetting(db);
+        if (disablePasswordLogin && !isOidcReady(oidc)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '请先启用并配置 SSO，再禁用密码登录'
+            };
+            return c.json(response, 400);
+        }
+
+        if (body.privacy_ip_mode !== undefined) {
+            await setAppSetting(db, PRIVACY_IP_MODE_KEY, body.privacy_ip_mode);
+        }
+        if (body.oidc !== undefined) {
+            await setOidcConfig(db, oidc);
+        }
+        if (body.disable_password_login !== undefined) {
+            await setPasswordLoginDisabled(db, body.disable_password_login);
+        }
+        if (body.require_admin_2fa !== undefined) {
+            await setAdminTwoFactorRequired(db, body.require_admin_2fa);
+        }
+        if (trashDays !== undefined) {
+            await setTrashRetentionDays(db, trashDays);
+        }
+
+        const response: HttpResponseJsonBody<AppSettings> = {
+            code: ErrorCode.SUCCESS,
+            message: '更新成功',
+            data: await loadAppSettings(db)
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('更新系统设置失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '更新系统设置失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+export default app;
@@ -0,0 +1,208 @@
+import { Hono } from "hono";
+import { ErrorCode, HttpResponseJsonBody, Variables } from "../util";
+import { requireScope } from "../scopes";
+import { requireAdmin } from "../rbac";
+import { isValidDay } from "../stats-rollup";
+import {
+    ArchiveDayResult,
+    ArchiveObject,
+    getRetentionDays,
+    listArchives,
+    restoreDay,
+    runRetention,
+    setRetentionDays,
+} from "../event-archive";
+
+// ============ 类型定义 ============
+
+interface RetentionSettings {
+    retention_days: number;
+}
+
+interface ArchiveListResponse {
+    results: ArchiveObject[];
+    cursor: string | null;
+}
+
+interface RestoreRequest {
+    day?: string;
+    domain_id?: number | null;
+}
+
+// 保留天数上限（10 年）
+const MAX_RETENTION_DAYS = 3650;
+
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+/**
+ * GET /settings
+ * 获取原始访问事件保留策略
+ */
+app.get('/settings', requireScope('stats', 'r'), requireAdmin, async (c) => {
+    try {
+        const response: HttpResponseJsonBody<RetentionSettings> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: { retention_days: await getRetentionDays(c.env.shorturl) }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询保留策略失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询保留策略失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * PUT /settings
+ * 更新保留天数，0 表示永久保留（不归档、不删除）
+ * body: { retention_days }
+ */
+app.put('/settings', requireScope('stats', 'rw'), requireAdmin, async (c) => {
+    try {
+        const body = await c.req.json<Partial<RetentionSettings>>();
+        const days = body.retention_days;
+
+        if (typeof days !== 'number' || !Number.isInteger(days) || days < 0 || days > MAX_RETENTION_DAYS) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: `保留天数必须是 0 ~ ${MAX_RETENTION_DAYS} 之间的整数`
+            };
+            return c.json(response, 400);
+        }
+
+        await setRetentionDays(c.env.shorturl, days);
+
+        const response: HttpResponseJsonBody<RetentionSettings> = {
+            code: ErrorCode.SUCCESS,
+            message: '更新成功',
+            data: { retention_days: days }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('更新保留策略失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '更新保留策略失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * GET /list
+ * 列出 R2 中的归档对象
+ * query: day (日期前缀，如 "2026"、"2026-01"、"2026-01-15"), cursor (分页游标)
+ */
+app.get('/list', requireScope('stats', 'r'), requireAdmin, async (c) => {
+    try {
+        const day = c.req.query('day')?.trim() || '';
+        const cursor = c.req.query('cursor') || undefined;
+
+        if (day && !/^\d{4}(-\d{2}(-\d{2})?)?$/.test(day)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '日期格式无效，应为 YYYY、YYYY-MM 或 YYYY-MM-DD'
+            };
+            return c.json(response, 400);
+        }
+
+        const { objects, cursor: nextCursor } = await listArchives(c.env.R2_BUCKET, day, cursor);
+
+        const response: HttpResponseJsonBody<ArchiveListResponse> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: { results: objects, cursor: nextCursor }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询归档列表失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询归档列表失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * POST /restore
+ * 将某一天的归档重新导入 link_visit_events，用于排查问题
+ * body: { day: "YYYY-MM-DD", domain_id?: number }
+ */
+app.post('/restore', requireScope('stats', 'rw'), requireAdmin, async (c) => {
+    try {
+        const body = await c.req.json<RestoreRequest>();
+        const day = body.day?.trim() || '';
+        const domainId = body.domain_id ?? null;
+
+        if (!isValidDay(day)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '日期格式无效，应为 YYYY-MM-DD'
+            };
+            return c.json(response, 400);
+        }
+
+        if (domainId !== null && (typeof domainId !== 'number' || !Number.isInteger(domainId))) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的域名 ID'
+            };
+            return c.json(response, 400);
+        }
+
+        const result = await restoreDay(c.env.shorturl, c.env.R2_BUCKET, day, domainId);
+
+        if (result.objects === 0) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '未找到该日期的归档'
+            };
+            return c.json(response, 404);
+        }
+
+        const response: HttpResponseJsonBody<{ day: string; objects: number; events: number }> = {
+            code: ErrorCode.SUCCESS,
+            message: '导入成功',
+            data: { day, ...result }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('导入归档失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '导入归档失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * POST /run
+ * 立即执行一次保留策略（归档并删除过期的原始事件），与定时任务逻辑相同
+ */
+app.post('/run', requireScope('stats', 'rw'), requireAdmin, async (c) => {
+    try {
+        const results = await runRetention(c.env.shorturl, c.env.R2_BUCKET);
+
+        const response: HttpResponseJsonBody<ArchiveDayResult[]> = {
+            code: ErrorCode.SUCCESS,
+            message: results.length > 0 ? '归档成功' : '没有需要归档的数据',
+            data: results
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('执行归档失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '执行归档失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+export default app;
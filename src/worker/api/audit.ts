@@ -0,0 +1,214 @@
+import { Context, Hono } from "hono";
+import { ErrorCode, HttpResponseJsonBody, Variables } from "../util";
+import { requireScope } from "../scopes";
+import { requireAdmin } from "../rbac";
+import { AuditLogRow, isAuditEntityType } from "../audit-log";
+import { exportResponse, ExportRow, parseExportFormat } from "../export-stream";
+
+// ============ 类型定义 ============
+
+/** 返回给前端的审计日志：before / after 解析为对象 */
+interface AuditLogItem extends Omit<AuditLogRow, 'before' | 'after'> {
+    before: Record<string, unknown> | null;
+    after: Record<string, unknown> | null;
+}
+
+interface AuditLogListResponse {
+    results: AuditLogItem[];
+    pagination: {
+        page: number;
+        pageSize: number;
+        total: number;
+        totalPages: number;
+    };
+}
+
+type DBParam = string | number | null;
+
+// 导出列顺序
+const AUDIT_COLUMNS = [
+    'id', 'created_at', 'actor_user_id', 'actor_username', 'api_token_id', 'ip', 'user_agent',
+    'action', 'entity_type', 'entity_id', 'before', 'after',
+] as const;
+
+// 导出时每页读取的行数
+const EXPORT_PAGE_SIZE = 500;
+
+const MAX_PAGE_SIZE = 100;
+
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// ============ 辅助函数 ============
+
+/**
+ * 解析筛选条件：entity_type, entity_id, action, actor_user_id, ip, start, end（unix 秒，含 start 不含 end）
+ * 参数错误时返回错误信息
+ */
+function buildAuditFilter(c: Context<{ Bindings: Env; Variables: Variables }>): { where: string; params: DBParam[] } | string {
+    const conditions: string[] = [];
+    const params: DBParam[] = [];
+
+    const entityType = c.req.query('entity_type');
+    if (entityType) {
+        if (!isAuditEntityType(entityType)) {
+            return '无效的对象类型';
+        }
+        conditions.push('entity_type = ?');
+        params.push(entityType);
+    }
+
+    const numbers: [string, string][] = [
+        ['entity_id', 'entity_id = ?'],
+        ['actor_user_id', 'actor_user_id = ?'],
+        ['start', 'created_at >= ?'],
+        ['end', 'created_at < ?'],
+    ];
+    for (const [name, condition] of numbers) {
+        const raw = c.req.query(name);
+        if (!raw) continue;
+        const value = parseInt(raw);
+        if (isNaN(value)) {
+            return `无效的参数: ${name}`;
+        }
+        conditions.push(condition);
+        params.push(value);
+    }
+
+    // action 以 . 结尾时按前缀匹配，如 "user." 匹配所有用户操作
+    const action = c.req.query('action')?.trim();
+    if (action) {
+        if (action.endsWith('.')) {
+            conditions.push("action LIKE ? ESCAPE '\\'");
+            params.push(`${action.replace(/[\\%_]/g, '\\$&')}%`);
+        } else {
+            conditions.push('action = ?');
+            params.push(action);
+        }
+    }
+
+    const ip = c.req.query('ip')?.trim();
+    if (ip) {
+        conditions.push('ip = ?');
+        params.push(ip);
+    }
+
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+function toAuditItem(row: AuditLogRow): AuditLogItem {
+    return {
+        ...row,
+        before: row.before ? JSON.parse(row.before) : null,
+        after: row.after ? JSON.parse(row.after) : null,
+    };
+}
+
+/** 按 id 倒序分页读取，新的在前 */
+async function* exportAuditPages(db: D1Database, where: string, params: DBParam[]): AsyncGenerator<ExportRow[]> {
+    const conditions = where ? `${where} AND id < ?` : 'WHERE id < ?';
+    let lastId = Number.MAX_SAFE_INTEGER;
+    while (true) {
+        const { results } = await db.prepare(`
+            SELECT ${AUDIT_COLUMNS.join(', ')} FROM audit_logs
+            ${conditions}
+            ORDER BY id DESC
+            LIMIT ?
+        `).bind(...params, lastId, EXPORT_PAGE_SIZE).all<AuditLogRow>();
+        if (results.length === 0) return;
+        yield results.map(toAuditItem) as unknown as ExportRow[];
+        if (results.length < EXPORT_PAGE_SIZE) return;
+        lastId = results[results.length - 1].id;
+    }
+}
+
+// ============ 接口 ============
+
+/**
+ * GET /list
+ * 分页查询审计日志，新的在前
+ * query: page, pageSize, 以及 buildAuditFilter 中的筛选条件
+ */
+app.get('/list', requireScope('audit', 'r'), requireAdmin, async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const filter = buildAuditFilter(c);
+        if (typeof filter === 'string') {
+            const response: HttpResponseJsonBody = { code: ErrorCode.DATA_INPUT_ERROR, message: filter };
+            return c.json(response, 400);
+        }
+
+        const page = Math.max(1, parseInt(c.req.query('page') || '1') || 1);
+        const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(c.req.query('pageSize') || '20') || 20));
+        const offset = (page - 1) * pageSize;
+
+        const countResult = await db.prepare(`
+            SELECT COUNT(*) as total FROM audit_logs ${filter.where}
+        `).bind(...filter.params).first<{ total: number }>();
+        const total = countResult?.total || 0;
+
+        const { results } = await db.prepare(`
+            SELECT ${AUDIT_COLUMNS.join(', ')} FROM audit_logs
+            ${filter.where}
+            ORDER BY id DESC
+            LIMIT ? OFFSET ?
+        `).bind(...filter.params, pageSize, offset).all<AuditLogRow>();
+
+        const response: HttpResponseJsonBody<AuditLogListResponse> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: {
+                results: results.map(toAuditItem),
+                pagination: {
+                    page,
+                    pageSize,
+                    total,
+                    totalPages: Math.ceil(total / pageSize)
+                }
+            }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询审计日志失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询审计日志失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * GET /export
+ * 按筛选条件导出全部审计日志（CSV / NDJSON）
+ * query: format (csv/ndjson), 以及 buildAuditFilter 中的筛选条件
+ */
+app.get('/export', requireScope('audit', 'r'), requireAdmin, async (c) => {
+    try {
+        const format = parseExportFormat(c.req.query('format'));
+        if (!format) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '导出格式仅支持 csv 或 ndjson'
+            };
+            return c.json(response, 400);
+        }
+
+        const filter = buildAuditFilter(c);
+        if (typeof filter === 'string') {
+            const response: HttpResponseJsonBody = { code: ErrorCode.DATA_INPUT_ERROR, message: filter };
+            return c.json(response, 400);
+        }
+
+        const filename = `audit-log-${new Date().toISOString().slice(0, 10)}`;
+        return exportResponse(format, filename, AUDIT_COLUMNS, exportAuditPages(c.env.shorturl, filter.where, filter.params));
+    } catch (error) {
+        console.error('导出审计日志失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '导出审计日志失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+export default app;
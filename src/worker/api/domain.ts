@@ -1,6 +1,11 @@
 
 import {Hono} from "hono";
-import {ErrorCode, HttpResponseJsonBody} from "../util";
+import {ErrorCode, HttpResponseJsonBody, Variables} from "../util";
+import {requireScope} from "../scopes";
+import {requireAdmin} from "../rbac";
+import {IpMode, isIpMode} from "../privacy";
+import {invalidateDomain} from "../link-cache";
+import {recordAudit} from "../audit-log";
 
 // 定义类型
 interface Domain {
@@ -12,6 +17,7 @@ interface Domain {
     error_template_id: number | null;
     password_template_id: number | null;
     interstitial_template_id: number | null;
+    ip_mode: IpMode | null;
     created_at: number;
     updated_at: number;
 }
@@ -38,6 +44,7 @@ interface CreateDomainRequest {
     error_template_id?: number;
     password_template_id?: number;
     interstitial_template_id?: number;
+    ip_mode?: IpMode | null;
 }
 
 interface UpdateDomainRequest {
@@ -48,14 +55,15 @@ interface UpdateDomainRequest {
     error_template_id?: number | null;
     password_template_id?: number | null;
     interstitial_template_id?: number | null;
+    ip_mode?: IpMode | null;
 }
 
 type DBParam = string | number | null;
 
-const app = new Hono<{ Bindings: Env }>()
+const app = new Hono<{ Bindings: Env; Variables: Variables }>()
 
 // 获取域名列表
-app.get('/list', async (c) => {
+app.get('/list', requireScope('domains', 'r'), async (c) => {
     try {
         const db = c.env.shorturl;
 
@@ -82,6 +90,7 @@ app.get('/list', async (c) => {
                 error_template_id,
                 password_template_id,
                 interstitial_template_id,
+                ip_mode,
                 created_at,
                 updated_at
             FROM domains
@@ -115,7 +124,7 @@ app.get('/list', async (c) => {
 })
 
 // 创建域名
-app.post('/create', async (c) => {
+app.post('/create', requireScope('domains', 'rw'), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const body = await c.req.json<CreateDomainRequest>();
@@ -129,6 +138,14 @@ app.post('/create', async (c) => {
             return c.json(response, 400);
         }
 
+        if (body.ip_mode != null && !isIpMode(body.ip_mode)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: 'IP 存储方式无效'
+            };
+            return c.json(response, 400);
+        }
+
         // 检查域名是否已存在
         const existing = await db.prepare(`
             SELECT id FROM domains WHERE host = ?
@@ -172,9 +189,10 @@ app.post('/create', async (c) => {
                 error_template_id,
                 password_template_id,
                 interstitial_template_id,
+                ip_mode,
                 created_at,
                 updated_at
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `).bind(
             body.host.trim(),
             body.is_active ?? 0,
@@ -183,14 +201,22 @@ app.post('/create', async (c) => {
             body.error_template_id || null,
             body.password_template_id || null,
             body.interstitial_template_id || null,
+            body.ip_mode || null,
             now,
             now
         ).run();
+        await invalidateDomain(c.env, body.host.trim());
 
         // 查询新创建的域名
         const newDomain = await db.prepare(`
             SELECT * FROM domains WHERE id = ?
         `).bind(result.meta.last_row_id).first<Domain>();
+        await recordAudit(c, {
+            action: 'domain.create',
+            entityType: 'domain',
+            entityId: result.meta.last_row_id,
+            after: newDomain
+        });
 
         const response: HttpResponseJsonBody<Domain> = {
             code: ErrorCode.SUCCESS,
@@ -210,7 +236,7 @@ app.post('/create', async (c) => {
 })
 
 // 更新域名
-app.put('/update/:id', async (c) => {
+app.put('/update/:id', requireScope('domains', 'rw'), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param('id'));
@@ -237,6 +263,14 @@ app.put('/update/:id', async (c) => {
             return c.json(response, 404);
         }
 
+        if (body.ip_mode != null && !isIpMode(body.ip_mode)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: 'IP 存储方式无效'
+            };
+            return c.json(response, 400);
+        }
+
         // 如果尝试取消默认域名，需要检查是否有其他默认域名
         if (body.is_default === 0 && existing.is_default === 1) {
             const otherDefaultCount = await db.prepare(`
@@ -308,6 +342,10 @@ app.put('/update/:id', async (c) => {
             updates.push('interstitial_template_id = ?');
             params.push(body.interstitial_template_id);
         }
+        if (body.ip_mode !== undefined) {
+            updates.push('ip_mode = ?');
+            params.push(body.ip_mode || null);
+        }
 
         updates.push('updated_at = ?');
         params.push(now);
@@ -317,10 +355,23 @@ app.put('/update/:id', async (c) => {
             UPDATE domains SET ${updates.join(', ')} WHERE id = ?
         `).bind(...params).run();
 
+        // 域名设置缓存在该域名下的每个短链接中，修改 host 时新旧域名都要清除
+        await invalidateDomain(c.env, existing.host);
+        if (body.host && body.host.trim() !== existing.host) {
+            await invalidateDomain(c.env, body.host.trim());
+        }
+
         // 查询更新后的数据
         const updated = await db.prepare(`
             SELECT * FROM domains WHERE id = ?
         `).bind(id).first<Domain>();
+        await recordAudit(c, {
+            action: 'domain.update',
+            entityType: 'domain',
+            entityId: id,
+            before: existing,
+            after: updated
+        });
 
         const response: HttpResponseJsonBody<Domain> = {
             code: ErrorCode.SUCCESS,
@@ -340,7 +391,7 @@ app.put('/update/:id', async (c) => {
 })
 
 // 删除域名
-app.delete('/delete/:id', async (c) => {
+app.delete('/delete/:id', requireScope('domains', 'rw'), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param('id'));
@@ -392,6 +443,13 @@ app.delete('/delete/:id', async (c) => {
         await db.prepare(`
             DELETE FROM domains WHERE id = ?
         `).bind(id).run();
+        await invalidateDomain(c.env, existing.host);
+        await recordAudit(c, {
+            action: 'domain.delete',
+            entityType: 'domain',
+            entityId: id,
+            before: existing
+        });
 
         const response: HttpResponseJsonBody = {
             code: ErrorCode.SUCCESS,
@@ -410,7 +468,7 @@ app.delete('/delete/:id', async (c) => {
 })
 
 // 获取单个域名详情
-app.get('/detail/:id', async (c) => {
+app.get('/detail/:id', requireScope('domains', 'r'), async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param('id'));
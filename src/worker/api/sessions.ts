@@ -0,0 +1,119 @@
+import { Hono } from "hono";
+import { ErrorCode, HttpResponseJsonBody, Variables } from "../util";
+import { listSessions, revokeSession, revokeUserSessions, UserSession } from "../sessions";
+
+// ============ 类型定义 ============
+
+interface SessionItem extends UserSession {
+    current: boolean;                   // 是否为发起请求的会话
+}
+
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// 会话只能由账号密码登录的用户自己管理，API token 不可用
+app.use('*', async (c, next) => {
+    const currentUser = c.get('currentUser');
+    if (currentUser.apiTokenId !== undefined) {
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.FORBIDDEN,
+            message: 'API token 不能用于管理登录会话'
+        };
+        return c.json(response, 403);
+    }
+    await next();
+});
+
+/**
+ * GET /list
+ * 当前用户的有效会话（设备、IP、最近活跃时间）
+ */
+app.get('/list', async (c) => {
+    try {
+        const currentUser = c.get('currentUser');
+        const sessions = await listSessions(c.env.shorturl, currentUser.id);
+
+        const response: HttpResponseJsonBody<SessionItem[]> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: sessions.map((session) => ({
+                ...session,
+                current: session.id === currentUser.sessionId,
+            }))
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询登录会话失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询登录会话失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * DELETE /:id
+ * 退出指定会话
+ */
+app.delete('/:id', async (c) => {
+    try {
+        const currentUser = c.get('currentUser');
+        const id = parseInt(c.req.param('id'));
+
+        if (isNaN(id)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的会话 ID'
+            };
+            return c.json(response, 400);
+        }
+
+        if (!(await revokeSession(c.env.shorturl, id, currentUser.id))) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '会话不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.SUCCESS,
+            message: '会话已退出'
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('退出会话失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '退出会话失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * POST /revoke-others
+ * 退出除当前会话以外的所有会话
+ */
+app.post('/revoke-others', async (c) => {
+    try {
+        const currentUser = c.get('currentUser');
+        const revoked = await revokeUserSessions(c.env.shorturl, currentUser.id, currentUser.sessionId);
+
+        const response: HttpResponseJsonBody<{ revoked: number }> = {
+            code: ErrorCode.SUCCESS,
+            message: `已退出 ${revoked} 个会话`,
+            data: { revoked }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('退出其他会话失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '退出其他会话失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+export default app;
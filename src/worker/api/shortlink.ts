@@ -1,5 +1,26 @@
-import { Hono } from "hono";
+import { Context, Hono } from "hono";
 import { ErrorCode, HttpResponseJsonBody, Variables } from "../util";
+import { requireScope } from "../scopes";
+import { linkOwnerScope, requireAdmin } from "../rbac";
+import { hashLinkPassword } from "../link-password";
+import { invalidateLinks, linkCacheKeys } from "../link-cache";
+import { parseRoutingRules, RoutingRule, validateRoutingRules } from "../routing-rules";
+import { AbVariant, parseAbVariants, validateAbVariants } from "../ab-variants";
+import { LinkSchedule, parseSchedule, validateFallbackUrl, validateSchedule } from "../link-schedule";
+import { ImportFormat, ImportRow, MAX_IMPORT_PASSWORD_ROWS, normalizeImportRow, parseImportContent } from "../link-import";
+import { exportResponse, ExportRow, parseExportFormat } from "../export-stream";
+import { purgeLinks } from "../link-trash";
+import { resyncVisitCount } from "../visit-counter";
+import {
+    getRevisionSnapshot,
+    listRevisions,
+    loadSnapshots,
+    recordChanges,
+    recordCreated,
+    REVERTIBLE_FIELDS,
+    RevisionAction,
+    RevisionChanges,
+} from "../link-revisions";
 
 // 短链接接口
 interface ShortLink {
@@ -15,9 +36,15 @@ interface ShortLink {
     template_id: number | null;
     error_template_id: number | null;
     password_template_id: number | null;
-    password: string | null;
+    password: string | null;       // bcrypt 哈希，不返回给前端
     max_visits: number | null;
+    start_at: number | null;
     expire_at: number | null;
+    schedule: string | null;       // JSON，返回给前端时解析为对象
+    fallback_url: string | null;
+    routing_rules: string | null;  // JSON，返回给前端时解析为数组
+    ab_variants: string | null;    // JSON，返回给前端时解析为数组
+    ab_sticky: number;
     is_disabled: number;
     deleted_at: number | null;
     remark: string | null;
@@ -27,11 +54,18 @@ interface ShortLink {
     last_access_at: number | null;
 }
 
-interface ShortLinkWithDomain extends ShortLink {
+interface ShortLinkWithDomain extends Omit<ShortLink, 'password' | 'schedule' | 'routing_rules' | 'ab_variants'> {
+    schedule: LinkSchedule | null;
+    routing_rules: RoutingRule[];
+    ab_variants: AbVariant[];
     domain_host: string;
+    owner_username: string | null;
+    has_password: number;
     tags: TagInfo[];
 }
 
+type ShortLinkRow = ShortLink & { domain_host: string; owner_username: string | null };
+
 interface TagInfo {
     id: number;
     name: string;
@@ -60,7 +94,13 @@ interface CreateShortLinkRequest {
     password_template_id?: number | null;
     password?: string | null;
     max_visits?: number | null;
+    start_at?: number | null;
     expire_at?: number | null;
+    schedule?: LinkSchedule | null;
+    fallback_url?: string | null;
+    routing_rules?: RoutingRule[] | null;
+    ab_variants?: AbVariant[] | null;
+    ab_sticky?: number;
     remark?: string | null;
     tags?: string[];           // 标签名数组
 }
@@ -78,12 +118,62 @@ interface UpdateShortLinkRequest {
     password_template_id?: number | null;
     password?: string | null;
     max_visits?: number | null;
+    start_at?: number | null;
     expire_at?: number | null;
+    schedule?: LinkSchedule | null;
+    fallback_url?: string | null;
+    routing_rules?: RoutingRule[] | null;
+    ab_variants?: AbVariant[] | null;
+    ab_sticky?: number;
     is_disabled?: number;
     remark?: string | null;
     tags?: string[];
 }
 
+interface ImportShortLinksRequest {
+    format: ImportFormat;
+    content: string;
+    dry_run?: boolean;         // 只校验并返回报告，不写入
+}
+
+// 导入结果：ok 为试运行校验通过，created 为已写入
+interface ImportRowResult {
+    row: number;               // 数据行号，从 1 开始（不含 CSV 表头）
+    domain: string | null;
+    code: string | null;       // 试运行时自动生成的短码为 null
+    target_url: string | null;
+    status: 'ok' | 'created' | 'conflict' | 'error';
+    message?: string;
+    id?: number;
+}
+
+interface ImportReport {
+    dry_run: boolean;
+    total: number;
+    valid: number;
+    created: number;
+    conflicts: number;
+    errors: number;
+    results: ImportRowResult[];
+}
+
+// 修改历史中的一条记录，changes 中的密码只标记是否设置
+interface RevisionItem {
+    id: number;
+    revision: number;
+    action: RevisionAction;
+    actor_user_id: number | null;
+    actor_username: string | null;
+    changes: RevisionChanges | null;
+    reverted_from: number | null;
+    created_at: number;
+}
+
+interface TransferOwnerRequest {
+    ids: number[];
+    owner_user_id: number;
+}
+
 type DBParam = string | number | null;
 
 // 生成随机短码
@@ -126,6 +216,27 @@ async function syncTags(db: D1Database, shortLinkId: number, tagNames: string[])
     }
 }
 
+// 普通用户只能访问自己的短链接，生成附加到 WHERE 的归属条件
+function ownerCondition(ownerId: number | null, column: string): { sql: string; params: DBParam[] } {
+    if (ownerId === null) {
+        return { sql: '', params: [] };
+    }
+    return { sql: ` AND ${column} = ?`, params: [ownerId] };
+}
+
+// 转换为返回给前端的数据：去掉密码哈希，只标记是否设置了密码
+function toLinkResponse(link: ShortLinkRow, tags: TagInfo[]): ShortLinkWithDomain {
+    const { password, schedule, routing_rules, ab_variants, ...rest } = link;
+    return {
+        ...rest,
+        schedule: parseSchedule(schedule),
+        routing_rules: parseRoutingRules(routing_rules),
+        ab_variants: parseAbVariants(ab_variants),
+        has_password: password ? 1 : 0,
+        tags,
+    };
+}
+
 // 获取短链接的标签列表
 async function getTagsForLink(db: D1Database, shortLinkId: number): Promise<TagInfo[]> {
     const result = await db.prepare(`
@@ -138,64 +249,196 @@ async function getTagsForLink(db: D1Database, shortLinkId: number): Promise<TagI
     return result.results || [];
 }
 
-const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+// 短码被回收站中的短链接占用时的提示（唯一索引包含已删除的记录）
+const TRASHED_CODE_MESSAGE = '该短码被回收站中的短链接占用，请先恢复或彻底删除';
 
-// 获取短链接列表
-app.get('/list', async (c) => {
-    try {
-        const db = c.env.shorturl;
+// D1 单条语句最多绑定 100 个参数，IN 查询按此分段
+const IN_CHUNK_SIZE = 90;
 
-        const page = parseInt(c.req.query('page') || '1');
-        const pageSize = parseInt(c.req.query('pageSize') || '10');
-        const offset = (page - 1) * pageSize;
+// 导入时每个 D1 batch 写入的短链接数
+const IMPORT_BATCH_SIZE = 50;
 
-        // 筛选参数
-        const domainId = c.req.query('domain_id');
-        const keyword = c.req.query('keyword');       // 搜索短码/目标URL/备注
-        const tagName = c.req.query('tag');
-        const isDisabled = c.req.query('is_disabled');
-        const orderBy = c.req.query('order_by') || 'created_at'; // created_at | total_clicks | last_access_at
-        const orderDir = c.req.query('order_dir') === 'asc' ? 'ASC' : 'DESC';
-
-        // 构建条件
-        const conditions: string[] = ['sl.deleted_at IS NULL'];
-        const params: DBParam[] = [];
+// 导出时每页读取的短链接数
+const EXPORT_PAGE_SIZE = 500;
 
-        if (domainId) {
-            conditions.push('sl.domain_id = ?');
-            params.push(parseInt(domainId));
+// 导出的列，CSV 按此顺序输出，tags 以 | 连接
+const EXPORT_COLUMNS = [
+    'id', 'domain_host', 'code', 'target_url', 'owner_username', 'redirect_http_code', 'has_password',
+    'max_visits', 'start_at', 'expire_at', 'fallback_url', 'is_disabled', 'remark', 'tags',
+    'total_clicks', 'last_access_at', 'created_at', 'updated_at',
+] as const;
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+// 查询某域名下已被占用的短码，值表示是否为已删除的短链接（唯一索引同样包含已删除的记录）
+async function findTakenCodes(db: D1Database, domainId: number, codes: string[]): Promise<Map<string, boolean>> {
+    const taken = new Map<string, boolean>();
+    for (const part of chunk([...new Set(codes)], IN_CHUNK_SIZE)) {
+        const placeholders = part.map(() => '?').join(',');
+        const { results } = await db.prepare(`
+            SELECT code, deleted_at FROM short_links WHERE domain_id = ? AND code IN (${placeholders})
+        `).bind(domainId, ...part).all<{ code: string; deleted_at: number | null }>();
+        for (const row of results) {
+            taken.set(row.code, row.deleted_at !== null);
         }
+    }
+    return taken;
+}
 
-        if (keyword) {
-            conditions.push('(sl.code LIKE ? OR sl.target_url LIKE ? OR sl.remark LIKE ?)');
-            const kw = `%${keyword}%`;
-            params.push(kw, kw, kw);
+// 批量关联导入短链接的标签
+async function attachImportedTags(db: D1Database, links: { id: number; tags: string[] }[]) {
+    const names = [...new Set(links.flatMap((link) => link.tags))];
+    if (names.length === 0) return;
+
+    const now = Math.floor(Date.now() / 1000);
+    await db.batch(names.map((name) =>
+        db.prepare(`INSERT OR IGNORE INTO tags (name, created_at) VALUES (?, ?)`).bind(name, now)
+    ));
+
+    const tagIds = new Map<string, number>();
+    for (const part of chunk(names, IN_CHUNK_SIZE)) {
+        const placeholders = part.map(() => '?').join(',');
+        const { results } = await db.prepare(`SELECT id, name FROM tags WHERE name IN (${placeholders})`)
+            .bind(...part).all<{ id: number; name: string }>();
+        for (const tag of results) {
+            tagIds.set(tag.name, tag.id);
         }
+    }
+
+    const statements = links.flatMap((link) => link.tags
+        .filter((name) => tagIds.has(name))
+        .map((name) =>
+            db.prepare(`INSERT OR IGNORE INTO short_link_tags (short_link_id, tag_id, created_at) VALUES (?, ?, ?)`)
+                .bind(link.id, tagIds.get(name)!, now)
+        ));
+    if (statements.length > 0) {
+        await db.batch(statements);
+    }
+}
+
+// 列表与导出共用的筛选条件和排序
+// query: domain_id, keyword, tag, is_disabled, owner_user_id（仅管理员）, order_by, order_dir
+function buildListQuery(c: Context<{ Bindings: Env; Variables: Variables }>): { whereClause: string; params: DBParam[]; orderClause: string } {
+    // 筛选参数
+    const domainId = c.req.query('domain_id');
+    const keyword = c.req.query('keyword');       // 搜索短码/目标URL/备注
+    const tagName = c.req.query('tag');
+    const isDisabled = c.req.query('is_disabled');
+    const ownerUserId = c.req.query('owner_user_id');   // 仅管理员可用
+    const orderBy = c.req.query('order_by') || 'created_at'; // created_at | total_clicks | last_access_at
+    const orderDir = c.req.query('order_dir') === 'asc' ? 'ASC' : 'DESC';
+
+    // 构建条件
+    const conditions: string[] = ['sl.deleted_at IS NULL'];
+    const params: DBParam[] = [];
+
+    if (domainId) {
+        conditions.push('sl.domain_id = ?');
+        params.push(parseInt(domainId));
+    }
+
+    if (keyword) {
+        conditions.push('(sl.code LIKE ? OR sl.target_url LIKE ? OR sl.remark LIKE ?)');
+        const kw = `%${keyword}%`;
+        params.push(kw, kw, kw);
+    }
+
+    if (tagName) {
+        conditions.push(`sl.id IN (
+            SELECT slt.short_link_id FROM short_link_tags slt
+            JOIN tags t ON slt.tag_id = t.id
+            WHERE t.name = ?
+        )`);
+        params.push(tagName);
+    }
+
+    if (isDisabled !== undefined && isDisabled !== '') {
+        conditions.push('sl.is_disabled = ?');
+        params.push(parseInt(isDisabled));
+    }
+
+    // 普通用户只能看到自己的短链接，管理员可按所有者筛选
+    const ownerId = linkOwnerScope(c.get('currentUser'));
+    if (ownerId !== null) {
+        conditions.push('sl.owner_user_id = ?');
+        params.push(ownerId);
+    } else if (ownerUserId) {
+        conditions.push('sl.owner_user_id = ?');
+        params.push(parseInt(ownerUserId));
+    }
+
+    const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+
+    // 允许的排序字段白名单
+    const allowedOrderFields: Record<string, string> = {
+        'created_at': 'sl.created_at',
+        'total_clicks': 'sl.total_clicks',
+        'last_access_at': 'sl.last_access_at',
+        'updated_at': 'sl.updated_at',
+    };
+    const orderField = allowedOrderFields[orderBy] || 'sl.created_at';
 
-        if (tagName) {
-            conditions.push(`sl.id IN (
-                SELECT slt.short_link_id FROM short_link_tags slt
+    return { whereClause, params, orderClause: `${orderField} ${orderDir}` };
+}
+
+// 按列表的筛选和排序分页读取短链接及其标签；按 id 追加排序，保证分页稳定
+async function* exportLinkPages(db: D1Database, query: ReturnType<typeof buildListQuery>): AsyncGenerator<ExportRow[]> {
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+        const { results } = await db.prepare(`
+            SELECT sl.id, d.host as domain_host, sl.code, sl.target_url, u.username as owner_username,
+                   sl.redirect_http_code, CASE WHEN sl.password IS NULL THEN 0 ELSE 1 END as has_password,
+                   sl.max_visits, sl.start_at, sl.expire_at, sl.fallback_url, sl.is_disabled, sl.remark,
+                   sl.total_clicks, sl.last_access_at, sl.created_at, sl.updated_at
+            FROM short_links sl
+            LEFT JOIN domains d ON sl.domain_id = d.id
+            LEFT JOIN users u ON sl.owner_user_id = u.id
+            ${query.whereClause}
+            ORDER BY ${query.orderClause}, sl.id
+            LIMIT ? OFFSET ?
+        `).bind(...query.params, EXPORT_PAGE_SIZE, offset).all<ExportRow & { id: number }>();
+        if (results.length === 0) return;
+
+        const tags = new Map<number, string[]>();
+        for (const part of chunk(results.map((link) => link.id), IN_CHUNK_SIZE)) {
+            const placeholders = part.map(() => '?').join(',');
+            const rows = await db.prepare(`
+                SELECT slt.short_link_id, t.name
+                FROM short_link_tags slt
                 JOIN tags t ON slt.tag_id = t.id
-                WHERE t.name = ?
-            )`);
-            params.push(tagName);
+                WHERE slt.short_link_id IN (${placeholders})
+                ORDER BY t.name
+            `).bind(...part).all<{ short_link_id: number; name: string }>();
+            for (const row of rows.results) {
+                tags.set(row.short_link_id, [...(tags.get(row.short_link_id) || []), row.name]);
+            }
         }
 
-        if (isDisabled !== undefined && isDisabled !== '') {
-            conditions.push('sl.is_disabled = ?');
-            params.push(parseInt(isDisabled));
-        }
+        yield results.map((link) => {
+            const row: ExportRow = { ...link, tags: tags.get(link.id) || [] };
+            return Object.fromEntries(EXPORT_COLUMNS.map((column) => [column, row[column] ?? null]));
+        });
+        if (results.length < EXPORT_PAGE_SIZE) return;
+    }
+}
 
-        const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
 
-        // 允许的排序字段白名单
-        const allowedOrderFields: Record<string, string> = {
-            'created_at': 'sl.created_at',
-            'total_clicks': 'sl.total_clicks',
-            'last_access_at': 'sl.last_access_at',
-            'updated_at': 'sl.updated_at',
-        };
-        const orderField = allowedOrderFields[orderBy] || 'sl.created_at';
+// 获取短链接列表
+app.get('/list', requireScope('links', 'r'), async (c) => {
+    try {
+        const db = c.env.shorturl;
+
+        const page = parseInt(c.req.query('page') || '1');
+        const pageSize = parseInt(c.req.query('pageSize') || '10');
+        const offset = (page - 1) * pageSize;
+
+        const { whereClause, params, orderClause } = buildListQuery(c);
 
         // 查询总数
         const countResult = await db.prepare(
@@ -206,19 +449,20 @@ app.get('/list', async (c) => {
 
         // 查询分页数据
         const result = await db.prepare(`
-            SELECT sl.*, d.host as domain_host
+            SELECT sl.*, d.host as domain_host, u.username as owner_username
             FROM short_links sl
             LEFT JOIN domains d ON sl.domain_id = d.id
+            LEFT JOIN users u ON sl.owner_user_id = u.id
             ${whereClause}
-            ORDER BY ${orderField} ${orderDir}
+            ORDER BY ${orderClause}
             LIMIT ? OFFSET ?
-        `).bind(...params, pageSize, offset).all<ShortLink & { domain_host: string }>();
+        `).bind(...params, pageSize, offset).all<ShortLinkRow>();
 
         // 为每个短链接获取标签
         const linksWithTags: ShortLinkWithDomain[] = [];
         for (const link of result.results || []) {
             const tags = await getTagsForLink(db, link.id);
-            linksWithTags.push({ ...link, tags });
+            linksWithTags.push(toLinkResponse(link, tags));
         }
 
         const response: HttpResponseJsonBody<ShortLinkListResponse> = {
@@ -246,8 +490,32 @@ app.get('/list', async (c) => {
     }
 });
 
+// 导出短链接（CSV / NDJSON），筛选和排序参数与列表相同，不分页
+app.get('/export', requireScope('links', 'r'), async (c) => {
+    try {
+        const format = parseExportFormat(c.req.query('format'));
+        if (!format) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '导出格式仅支持 csv 或 ndjson'
+            };
+            return c.json(response, 400);
+        }
+
+        const today = new Date().toISOString().slice(0, 10);
+        return exportResponse(format, `short-links-${today}`, EXPORT_COLUMNS, exportLinkPages(c.env.shorturl, buildListQuery(c)));
+    } catch (error) {
+        console.error('导出短链接失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '导出短链接失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
 // 获取短链接详情
-app.get('/detail/:id', async (c) => {
+app.get('/detail/:id', requireScope('links', 'r'), async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param('id'));
@@ -260,12 +528,14 @@ app.get('/detail/:id', async (c) => {
             return c.json(response, 400);
         }
 
+        const owner = ownerCondition(linkOwnerScope(c.get('currentUser')), 'sl.owner_user_id');
         const link = await db.prepare(`
-            SELECT sl.*, d.host as domain_host
+            SELECT sl.*, d.host as domain_host, u.username as owner_username
             FROM short_links sl
             LEFT JOIN domains d ON sl.domain_id = d.id
-            WHERE sl.id = ? AND sl.deleted_at IS NULL
-        `).bind(id).first<ShortLink & { domain_host: string }>();
+            LEFT JOIN users u ON sl.owner_user_id = u.id
+            WHERE sl.id = ? AND sl.deleted_at IS NULL${owner.sql}
+        `).bind(id, ...owner.params).first<ShortLinkRow>();
 
         if (!link) {
             const response: HttpResponseJsonBody = {
@@ -276,7 +546,7 @@ app.get('/detail/:id', async (c) => {
         }
 
         const tags = await getTagsForLink(db, link.id);
-        const linkWithTags: ShortLinkWithDomain = { ...link, tags };
+        const linkWithTags = toLinkResponse(link, tags);
 
         const response: HttpResponseJsonBody<ShortLinkWithDomain> = {
             code: ErrorCode.SUCCESS,
@@ -296,7 +566,7 @@ app.get('/detail/:id', async (c) => {
 });
 
 // 创建短链接
-app.post('/create', async (c) => {
+app.post('/create', requireScope('links', 'rw'), async (c) => {
     try {
         const db = c.env.shorturl;
         const body = await c.req.json<CreateShortLinkRequest>();
@@ -343,6 +613,51 @@ app.post('/create', async (c) => {
             return c.json(response, 400);
         }
 
+        // 验证路由规则
+        const routing = validateRoutingRules(body.routing_rules ?? null);
+        if ('error' in routing) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: routing.error
+            };
+            return c.json(response, 400);
+        }
+
+        // 验证 A/B 分流版本
+        const ab = validateAbVariants(body.ab_variants ?? null);
+        if ('error' in ab) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: ab.error
+            };
+            return c.json(response, 400);
+        }
+
+        // 验证生效时间
+        if (body.start_at && body.expire_at && body.start_at >= body.expire_at) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '生效时间必须早于过期时间'
+            };
+            return c.json(response, 400);
+        }
+        const scheduled = validateSchedule(body.schedule ?? null);
+        if ('error' in scheduled) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: scheduled.error
+            };
+            return c.json(response, 400);
+        }
+        const fallback = validateFallbackUrl(body.fallback_url);
+        if ('error' in fallback) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: fallback.error
+            };
+            return c.json(response, 400);
+        }
+
         // 生成或使用自定义短码
         let code = body.code?.trim();
         if (code) {
@@ -355,15 +670,15 @@ app.post('/create', async (c) => {
                 return c.json(response, 400);
             }
 
-            // 检查短码唯一性（同一域名下）
+            // 检查短码唯一性（同一域名下，回收站中的短链接同样占用短码）
             const existing = await db.prepare(`
-                SELECT id FROM short_links WHERE domain_id = ? AND code = ? AND deleted_at IS NULL
-            `).bind(body.domain_id, code).first();
+                SELECT id, deleted_at FROM short_links WHERE domain_id = ? AND code = ?
+            `).bind(body.domain_id, code).first<{ id: number; deleted_at: number | null }>();
 
             if (existing) {
                 const response: HttpResponseJsonBody = {
                     code: ErrorCode.DATA_INPUT_ERROR,
-                    message: '该短码在此域名下已被使用'
+                    message: existing.deleted_at !== null ? TRASHED_CODE_MESSAGE : '该短码在此域名下已被使用'
                 };
                 return c.json(response, 409);
             }
@@ -395,10 +710,11 @@ app.post('/create', async (c) => {
                 domain_id, code, target_url, owner_user_id,
                 redirect_http_code, use_interstitial, interstitial_delay, force_interstitial,
                 template_id, error_template_id, password_template_id,
-                password, max_visits, expire_at,
+                password, max_visits, start_at, expire_at, schedule, fallback_url,
+                routing_rules, ab_variants, ab_sticky,
                 is_disabled, remark,
                 created_at, updated_at, total_clicks
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, 0)
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, 0)
         `).bind(
             body.domain_id,
             code,
@@ -411,35 +727,45 @@ app.post('/create', async (c) => {
             body.template_id ?? null,
             body.error_template_id ?? null,
             body.password_template_id ?? null,
-            body.password ?? null,
+            body.password ? await hashLinkPassword(body.password) : null,
             body.max_visits ?? null,
+            body.start_at ?? null,
             body.expire_at ?? null,
+            scheduled.schedule ? JSON.stringify(scheduled.schedule) : null,
+            fallback.url,
+            routing.rules.length > 0 ? JSON.stringify(routing.rules) : null,
+            ab.variants.length > 0 ? JSON.stringify(ab.variants) : null,
+            body.ab_sticky ? 1 : 0,
             body.remark ?? null,
             now,
             now
         ).run();
 
         const newId = result.meta.last_row_id;
+        // 清除该短码此前"不存在"的缓存
+        await invalidateLinks(c.env, [newId]);
 
         // 处理标签
         if (body.tags && body.tags.length > 0) {
             await syncTags(db, newId, body.tags);
         }
+        await recordCreated(db, currentUser.id, 'create', [newId]);
 
         // 查询新创建的短链接
         const newLink = await db.prepare(`
-            SELECT sl.*, d.host as domain_host
+            SELECT sl.*, d.host as domain_host, u.username as owner_username
             FROM short_links sl
             LEFT JOIN domains d ON sl.domain_id = d.id
+            LEFT JOIN users u ON sl.owner_user_id = u.id
             WHERE sl.id = ?
-        `).bind(newId).first<ShortLink & { domain_host: string }>();
+        `).bind(newId).first<ShortLinkRow>();
 
         const tags = await getTagsForLink(db, newId);
 
         const response: HttpResponseJsonBody<ShortLinkWithDomain> = {
             code: ErrorCode.SUCCESS,
             message: '短链接创建成功',
-            data: newLink ? { ...newLink, tags } : undefined
+            data: newLink ? toLinkResponse(newLink, tags) : undefined
         };
 
         return c.json(response, 201);
@@ -453,8 +779,237 @@ app.post('/create', async (c) => {
     }
 });
 
+// 批量导入短链接（CSV / JSON），dry_run 时只返回校验报告
+app.post('/import', requireScope('links', 'rw'), async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const body = await c.req.json<ImportShortLinksRequest>();
+        const currentUser = c.get('currentUser');
+
+        if (body.format !== 'csv' && body.format !== 'json') {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '导入格式仅支持 csv 或 json'
+            };
+            return c.json(response, 400);
+        }
+        if (typeof body.content !== 'string' || !body.content.trim()) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '导入内容不能为空'
+            };
+            return c.json(response, 400);
+        }
+
+        const parsed = parseImportContent(body.format, body.content);
+        if ('error' in parsed) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: parsed.error
+            };
+            return c.json(response, 400);
+        }
+
+        // 只能导入到启用的域名
+        const { results: domainRows } = await db.prepare(`
+            SELECT id, host FROM domains WHERE is_active = 1
+        `).all<{ id: number; host: string }>();
+        const domainIds = new Map(domainRows.map((d) => [d.host.toLowerCase(), d.id]));
+
+        const results: ImportRowResult[] = [];
+        const pending: { result: ImportRowResult; row: ImportRow; domainId: number }[] = [];
+        const seen = new Set<string>();
+        let passwordRows = 0;
+
+        for (const [index, record] of parsed.records.entries()) {
+            const normalized = normalizeImportRow(record);
+            if ('error' in normalized) {
+                results.push({ row: index + 1, domain: null, code: null, target_url: null, status: 'error', message: normalized.error });
+                continue;
+            }
+            const { row } = normalized;
+            const result: ImportRowResult = {
+                row: index + 1,
+                domain: row.domain,
+                code: row.code || null,
+                target_url: row.target_url,
+                status: 'ok',
+            };
+            results.push(result);
+
+            const domainId = domainIds.get(row.domain);
+            if (!domainId) {
+                result.status = 'error';
+                result.message = '域名不存在或已停用';
+                continue;
+            }
+            if (row.code) {
+                const key = `${domainId}:${row.code}`;
+                if (seen.has(key)) {
+                    result.status = 'conflict';
+                    result.message = '短码在导入内容中重复';
+                    continue;
+                }
+                seen.add(key);
+            }
+            if (row.password && ++passwordRows > MAX_IMPORT_PASSWORD_ROWS) {
+                result.status = 'error';
+                result.message = `每次最多导入 ${MAX_IMPORT_PASSWORD_ROWS} 个带密码的短链接，请分批导入`;
+                continue;
+            }
+            pending.push({ result, row, domainId });
+        }
+
+        // 检查自定义短码是否已被占用
+        const byDomain = new Map<number, typeof pending>();
+        for (const item of pending) {
+            byDomain.set(item.domainId, [...(byDomain.get(item.domainId) || []), item]);
+        }
+        for (const [domainId, items] of byDomain) {
+            const custom = items.filter((item) => item.row.code);
+            const taken = await findTakenCodes(db, domainId, custom.map((item) => item.row.code));
+            for (const item of custom) {
+                if (taken.has(item.row.code)) {
+                    item.result.status = 'conflict';
+                    item.result.message = taken.get(item.row.code)
+                        ? TRASHED_CODE_MESSAGE
+                        : '该短码在此域名下已被使用';
+                }
+            }
+        }
+
+        const valid = pending.filter((item) => item.result.status === 'ok');
+
+        if (!body.dry_run) {
+            // 为未填写短码的行生成短码，避开已占用和本次导入中的短码
+            for (const [domainId, items] of byDomain) {
+                let auto = items.filter((item) => item.result.status === 'ok' && !item.row.code);
+                for (let attempt = 0; attempt < 10 && auto.length > 0; attempt++) {
+                    for (const item of auto) {
+                        item.row.code = generateCode(6);
+                    }
+                    const taken = await findTakenCodes(db, domainId, auto.map((item) => item.row.code));
+                    auto = auto.filter((item) => {
+                        const key = `${domainId}:${item.row.code}`;
+                        if (taken.has(item.row.code) || seen.has(key)) {
+                            return true;
+                        }
+                        seen.add(key);
+                        item.result.code = item.row.code;
+                        return false;
+                    });
+                }
+                for (const item of auto) {
+                    item.result.status = 'error';
+                    item.result.message = '短码生成失败，请重试';
+                }
+            }
+
+            const now = Math.floor(Date.now() / 1000);
+            for (const batch of chunk(valid.filter((item) => item.result.status === 'ok'), IMPORT_BATCH_SIZE)) {
+                let ids: number[];
+                try {
+                    // bcrypt 是同步计算，逐行哈希
+                    const statements: D1PreparedStatement[] = [];
+                    for (const { row, domainId } of batch) {
+                        const password = row.password ? await hashLinkPassword(row.password) : null;
+                        statements.push(db.prepare(`
+                            INSERT INTO short_links (
+                                domain_id, code, target_url, owner_user_id,
+                                redirect_http_code, password, expire_at,
+                                is_disabled, remark,
+                                created_at, updated_at, total_clicks
+                            ) VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, 0)
+                        `).bind(
+                            domainId,
+                            row.code,
+                            row.target_url,
+                            currentUser.id,
+                            row.redirect_http_code,
+                            password,
+                            row.expire_at,
+                            row.remark,
+                            now,
+                            now
+                        ));
+                    }
+                    const inserted = await db.batch(statements);
+                    ids = inserted.map((r) => r.meta.last_row_id);
+                } catch (error) {
+                    // 同一 batch 在一个事务中执行，失败时整批未写入
+                    console.error('导入短链接写入失败:', error);
+                    for (const item of batch) {
+                        item.result.status = 'error';
+                        item.result.message = '写入失败';
+                    }
+                    continue;
+                }
+
+                batch.forEach((item, i) => {
+                    item.result.status = 'created';
+                    item.result.id = ids[i];
+                });
+
+                // 以下步骤失败时短链接已创建，只在对应行上提示
+                const warnings: string[] = [];
+                try {
+                    await attachImportedTags(db, batch.map((item, i) => ({ id: ids[i], tags: item.row.tags })));
+                } catch (error) {
+                    console.error('导入短链接的标签写入失败:', error);
+                    warnings.push('标签未保存');
+                }
+                try {
+                    await recordCreated(db, currentUser.id, 'import', ids);
+                } catch (error) {
+                    console.error('导入短链接的修改历史写入失败:', error);
+                    warnings.push('修改历史未记录');
+                }
+                try {
+                    // 清除这些短码此前"不存在"的缓存
+                    await invalidateLinks(c.env, ids);
+                } catch (error) {
+                    console.error('清除导入短链接的缓存失败:', error);
+                    warnings.push('缓存未清除，最长 60 秒内可能仍返回不存在');
+                }
+                if (warnings.length > 0) {
+                    for (const item of batch) {
+                        item.result.message = `已创建，但${warnings.join('，')}`;
+                    }
+                }
+            }
+        }
+
+        const count = (status: ImportRowResult['status']) => results.filter((r) => r.status === status).length;
+        const report: ImportReport = {
+            dry_run: !!body.dry_run,
+            total: results.length,
+            valid: valid.length,
+            created: count('created'),
+            conflicts: count('conflict'),
+            errors: count('error'),
+            results,
+        };
+
+        const response: HttpResponseJsonBody<ImportReport> = {
+            code: ErrorCode.SUCCESS,
+            message: report.dry_run
+                ? `校验完成：可导入 ${report.valid} 条，冲突 ${report.conflicts} 条，错误 ${report.errors} 条`
+                : `导入完成：成功 ${report.created} 条，冲突 ${report.conflicts} 条，错误 ${report.errors} 条`,
+            data: report
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('导入短链接失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '导入短链接失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
 // 更新短链接
-app.put('/update/:id', async (c) => {
+app.put('/update/:id', requireScope('links', 'rw'), async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param('id'));
@@ -468,10 +1023,11 @@ app.put('/update/:id', async (c) => {
             return c.json(response, 400);
         }
 
-        // 检查短链接是否存在
+        // 检查短链接是否存在（普通用户只能修改自己的短链接）
+        const owner = ownerCondition(linkOwnerScope(c.get('currentUser')), 'owner_user_id');
         const existing = await db.prepare(`
-            SELECT * FROM short_links WHERE id = ? AND deleted_at IS NULL
-        `).bind(id).first<ShortLink>();
+            SELECT * FROM short_links WHERE id = ? AND deleted_at IS NULL${owner.sql}
+        `).bind(id, ...owner.params).first<ShortLink>();
 
         if (!existing) {
             const response: HttpResponseJsonBody = {
@@ -510,13 +1066,13 @@ app.put('/update/:id', async (c) => {
 
             if (newCode !== existing.code || targetDomainId !== existing.domain_id) {
                 const duplicate = await db.prepare(`
-                    SELECT id FROM short_links WHERE domain_id = ? AND code = ? AND id != ? AND deleted_at IS NULL
-                `).bind(targetDomainId, newCode, id).first();
+                    SELECT id, deleted_at FROM short_links WHERE domain_id = ? AND code = ? AND id != ?
+                `).bind(targetDomainId, newCode, id).first<{ id: number; deleted_at: number | null }>();
 
                 if (duplicate) {
                     const response: HttpResponseJsonBody = {
                         code: ErrorCode.DATA_INPUT_ERROR,
-                        message: '该短码在此域名下已被使用'
+                        message: duplicate.deleted_at !== null ? TRASHED_CODE_MESSAGE : '该短码在此域名下已被使用'
                     };
                     return c.json(response, 409);
                 }
@@ -535,6 +1091,69 @@ app.put('/update/:id', async (c) => {
             }
         }
 
+        // 验证路由规则
+        let routingRules: RoutingRule[] | undefined;
+        if (body.routing_rules !== undefined) {
+            const routing = validateRoutingRules(body.routing_rules);
+            if ('error' in routing) {
+                const response: HttpResponseJsonBody = {
+                    code: ErrorCode.DATA_INPUT_ERROR,
+                    message: routing.error
+                };
+                return c.json(response, 400);
+            }
+            routingRules = routing.rules;
+        }
+
+        // 验证 A/B 分流版本
+        let abVariants: AbVariant[] | undefined;
+        if (body.ab_variants !== undefined) {
+            const ab = validateAbVariants(body.ab_variants);
+            if ('error' in ab) {
+                const response: HttpResponseJsonBody = {
+                    code: ErrorCode.DATA_INPUT_ERROR,
+                    message: ab.error
+                };
+                return c.json(response, 400);
+            }
+            abVariants = ab.variants;
+        }
+
+        // 验证生效时间（未修改的一侧取原值）
+        const startAt = body.start_at !== undefined ? body.start_at : existing.start_at;
+        const expireAt = body.expire_at !== undefined ? body.expire_at : existing.expire_at;
+        if (startAt && expireAt && startAt >= expireAt) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '生效时间必须早于过期时间'
+            };
+            return c.json(response, 400);
+        }
+        let schedule: LinkSchedule | null | undefined;
+        if (body.schedule !== undefined) {
+            const scheduled = validateSchedule(body.schedule);
+            if ('error' in scheduled) {
+                const response: HttpResponseJsonBody = {
+                    code: ErrorCode.DATA_INPUT_ERROR,
+                    message: scheduled.error
+                };
+                return c.json(response, 400);
+            }
+            schedule = scheduled.schedule;
+        }
+        let fallbackUrl: string | null | undefined;
+        if (body.fallback_url !== undefined) {
+            const fallback = validateFallbackUrl(body.fallback_url);
+            if ('error' in fallback) {
+                const response: HttpResponseJsonBody = {
+                    code: ErrorCode.DATA_INPUT_ERROR,
+                    message: fallback.error
+                };
+                return c.json(response, 400);
+            }
+            fallbackUrl = fallback.url;
+        }
+
         const now = Math.floor(Date.now() / 1000);
 
         // 构建动态更新语句
@@ -582,17 +1201,42 @@ app.put('/update/:id', async (c) => {
             params.push(body.password_template_id);
         }
         if (body.password !== undefined) {
+            // 空字符串或 null 表示取消密码
             updates.push('password = ?');
-            params.push(body.password);
+            params.push(body.password ? await hashLinkPassword(body.password) : null);
         }
         if (body.max_visits !== undefined) {
             updates.push('max_visits = ?');
             params.push(body.max_visits);
         }
+        if (body.start_at !== undefined) {
+            updates.push('start_at = ?');
+            params.push(body.start_at);
+        }
         if (body.expire_at !== undefined) {
             updates.push('expire_at = ?');
             params.push(body.expire_at);
         }
+        if (schedule !== undefined) {
+            updates.push('schedule = ?');
+            params.push(schedule ? JSON.stringify(schedule) : null);
+        }
+        if (fallbackUrl !== undefined) {
+            updates.push('fallback_url = ?');
+            params.push(fallbackUrl);
+        }
+        if (routingRules !== undefined) {
+            updates.push('routing_rules = ?');
+            params.push(routingRules.length > 0 ? JSON.stringify(routingRules) : null);
+        }
+        if (abVariants !== undefined) {
+            updates.push('ab_variants = ?');
+            params.push(abVariants.length > 0 ? JSON.stringify(abVariants) : null);
+        }
+        if (body.ab_sticky !== undefined) {
+            updates.push('ab_sticky = ?');
+            params.push(body.ab_sticky ? 1 : 0);
+        }
         if (body.is_disabled !== undefined) {
             updates.push('is_disabled = ?');
             params.push(body.is_disabled);
@@ -606,29 +1250,38 @@ app.put('/update/:id', async (c) => {
         params.push(now);
         params.push(id);
 
+        // 短码或域名可能变化，新旧缓存都要清除
+        const staleKeys = await linkCacheKeys(db, [id]);
+        const before = await loadSnapshots(db, [id]);
         await db.prepare(
             `UPDATE short_links SET ${updates.join(', ')} WHERE id = ?`
         ).bind(...params).run();
+        await invalidateLinks(c.env, [id], staleKeys);
+        if (body.max_visits && body.max_visits !== existing.max_visits) {
+            await resyncVisitCount(c.env, id);
+        }
 
         // 处理标签
         if (body.tags !== undefined) {
             await syncTags(db, id, body.tags);
         }
+        await recordChanges(db, c.get('currentUser').id, 'update', before);
 
         // 查询更新后的数据
         const updated = await db.prepare(`
-            SELECT sl.*, d.host as domain_host
+            SELECT sl.*, d.host as domain_host, u.username as owner_username
             FROM short_links sl
             LEFT JOIN domains d ON sl.domain_id = d.id
+            LEFT JOIN users u ON sl.owner_user_id = u.id
             WHERE sl.id = ?
-        `).bind(id).first<ShortLink & { domain_host: string }>();
+        `).bind(id).first<ShortLinkRow>();
 
         const tags = await getTagsForLink(db, id);
 
         const response: HttpResponseJsonBody<ShortLinkWithDomain> = {
             code: ErrorCode.SUCCESS,
             message: '短链接更新成功',
-            data: updated ? { ...updated, tags } : undefined
+            data: updated ? toLinkResponse(updated, tags) : undefined
         };
 
         return c.json(response);
@@ -642,8 +1295,159 @@ app.put('/update/:id', async (c) => {
     }
 });
 
+// 短链接的修改历史（含已删除的短链接），新的在前
+app.get('/revisions/:id', requireScope('links', 'r'), async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const id = parseInt(c.req.param('id'));
+
+        if (isNaN(id)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的短链接 ID'
+            };
+            return c.json(response, 400);
+        }
+
+        const owner = ownerCondition(linkOwnerScope(c.get('currentUser')), 'owner_user_id');
+        const link = await db.prepare(`
+            SELECT id FROM short_links WHERE id = ?${owner.sql}
+        `).bind(id, ...owner.params).first();
+
+        if (!link) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '短链接不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        const revisions = (await listRevisions(db, id)).map((row): RevisionItem => ({
+            id: row.id,
+            revision: row.revision,
+            action: row.action,
+            actor_user_id: row.actor_user_id,
+            actor_username: row.actor_username,
+            changes: row.changes ? JSON.parse(row.changes) : null,
+            reverted_from: row.reverted_from,
+            created_at: row.created_at,
+        }));
+
+        const response: HttpResponseJsonBody<RevisionItem[]> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: revisions
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询修改历史失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询修改历史失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+// 回滚到指定 revision 的状态（不改变所有者和删除状态），回滚本身也记录为一条 revision
+app.post('/revert/:id', requireScope('links', 'rw'), async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const id = parseInt(c.req.param('id'));
+        const { revision } = await c.req.json<{ revision: number }>();
+
+        if (isNaN(id) || typeof revision !== 'number' || !Number.isInteger(revision)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的短链接 ID 或版本号'
+            };
+            return c.json(response, 400);
+        }
+
+        const owner = ownerCondition(linkOwnerScope(c.get('currentUser')), 'owner_user_id');
+        const existing = await db.prepare(`
+            SELECT id FROM short_links WHERE id = ? AND deleted_at IS NULL${owner.sql}
+        `).bind(id, ...owner.params).first();
+
+        if (!existing) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '短链接不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        const snapshot = await getRevisionSnapshot(db, id, revision);
+        if (!snapshot) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '版本不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        // 回滚后的域名和短码需要仍然可用
+        const domain = await db.prepare(`
+            SELECT id FROM domains WHERE id = ? AND is_active = 1
+        `).bind(snapshot.domain_id).first();
+        if (!domain) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '该版本的域名不存在或已停用'
+            };
+            return c.json(response, 400);
+        }
+        const duplicate = await db.prepare(`
+            SELECT id, deleted_at FROM short_links WHERE domain_id = ? AND code = ? AND id != ?
+        `).bind(snapshot.domain_id, snapshot.code, id).first<{ id: number; deleted_at: number | null }>();
+        if (duplicate) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: duplicate.deleted_at !== null ? TRASHED_CODE_MESSAGE : '该版本的短码已被其他短链接使用'
+            };
+            return c.json(response, 409);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const staleKeys = await linkCacheKeys(db, [id]);
+        const before = await loadSnapshots(db, [id]);
+        await db.prepare(`
+            UPDATE short_links SET ${REVERTIBLE_FIELDS.map((field) => `${field} = ?`).join(', ')}, updated_at = ?
+            WHERE id = ?
+        `).bind(...REVERTIBLE_FIELDS.map((field) => snapshot[field]), now, id).run();
+        await syncTags(db, id, snapshot.tags);
+        await invalidateLinks(c.env, [id], staleKeys);
+        if (snapshot.max_visits && snapshot.max_visits !== before.get(id)?.max_visits) {
+            await resyncVisitCount(c.env, id);
+        }
+        await recordChanges(db, c.get('currentUser').id, 'revert', before, revision);
+
+        const reverted = await db.prepare(`
+            SELECT sl.*, d.host as domain_host, u.username as owner_username
+            FROM short_links sl
+            LEFT JOIN domains d ON sl.domain_id = d.id
+            LEFT JOIN users u ON sl.owner_user_id = u.id
+            WHERE sl.id = ?
+        `).bind(id).first<ShortLinkRow>();
+
+        const response: HttpResponseJsonBody<ShortLinkWithDomain> = {
+            code: ErrorCode.SUCCESS,
+            message: `已回滚到版本 ${revision}`,
+            data: reverted ? toLinkResponse(reverted, await getTagsForLink(db, id)) : undefined
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('回滚短链接失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '回滚短链接失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
 // 删除短链接（软删除）
-app.delete('/delete/:id', async (c) => {
+app.delete('/delete/:id', requireScope('links', 'rw'), async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param('id'));
@@ -656,9 +1460,10 @@ app.delete('/delete/:id', async (c) => {
             return c.json(response, 400);
         }
 
+        const owner = ownerCondition(linkOwnerScope(c.get('currentUser')), 'owner_user_id');
         const existing = await db.prepare(`
-            SELECT id FROM short_links WHERE id = ? AND deleted_at IS NULL
-        `).bind(id).first();
+            SELECT id FROM short_links WHERE id = ? AND deleted_at IS NULL${owner.sql}
+        `).bind(id, ...owner.params).first();
 
         if (!existing) {
             const response: HttpResponseJsonBody = {
@@ -669,14 +1474,17 @@ app.delete('/delete/:id', async (c) => {
         }
 
         const now = Math.floor(Date.now() / 1000);
+        const before = await loadSnapshots(db, [id]);
 
         await db.prepare(`
             UPDATE short_links SET deleted_at = ?, updated_at = ? WHERE id = ?
         `).bind(now, now, id).run();
+        await invalidateLinks(c.env, [id]);
+        await recordChanges(db, c.get('currentUser').id, 'delete', before);
 
         const response: HttpResponseJsonBody = {
             code: ErrorCode.SUCCESS,
-            message: '短链接删除成功'
+            message: '短链接已移到回收站'
         };
 
         return c.json(response);
@@ -691,7 +1499,7 @@ app.delete('/delete/:id', async (c) => {
 });
 
 // 批量删除短链接（软删除）
-app.post('/batch-delete', async (c) => {
+app.post('/batch-delete', requireScope('links', 'rw'), async (c) => {
     try {
         const db = c.env.shorturl;
         const { ids } = await c.req.json<{ ids: number[] }>();
@@ -703,18 +1511,31 @@ app.post('/batch-delete', async (c) => {
             };
             return c.json(response, 400);
         }
+        if (ids.length > IN_CHUNK_SIZE) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: `每次最多删除 ${IN_CHUNK_SIZE} 个短链接`
+            };
+            return c.json(response, 400);
+        }
 
         const now = Math.floor(Date.now() / 1000);
         const placeholders = ids.map(() => '?').join(',');
+        // 普通用户只会删除其中属于自己的短链接
+        const owner = ownerCondition(linkOwnerScope(c.get('currentUser')), 'owner_user_id');
 
-        await db.prepare(`
+        const before = await loadSnapshots(db, ids);
+        const result = await db.prepare(`
             UPDATE short_links SET deleted_at = ?, updated_at = ? 
-            WHERE id IN (${placeholders}) AND deleted_at IS NULL
-        `).bind(now, now, ...ids).run();
+            WHERE id IN (${placeholders}) AND deleted_at IS NULL${owner.sql}
+        `).bind(now, now, ...ids, ...owner.params).run();
+        await invalidateLinks(c.env, ids);
+        // 未实际删除的（不属于自己或已删除）没有变化，不会记录
+        await recordChanges(db, c.get('currentUser').id, 'delete', before);
 
         const response: HttpResponseJsonBody = {
             code: ErrorCode.SUCCESS,
-            message: `已删除 ${ids.length} 个短链接`
+            message: `已将 ${result.meta.changes} 个短链接移到回收站`
         };
 
         return c.json(response);
@@ -728,8 +1549,168 @@ app.post('/batch-delete', async (c) => {
     }
 });
 
+// 回收站列表（已删除的短链接），按删除时间倒序
+// query: page, pageSize, keyword, domain_id
+app.get('/trash', requireScope('links', 'r'), async (c) => {
+    try {
+        const db = c.env.shorturl;
+
+        const page = parseInt(c.req.query('page') || '1');
+        const pageSize = parseInt(c.req.query('pageSize') || '10');
+        const offset = (page - 1) * pageSize;
+        const domainId = c.req.query('domain_id');
+        const keyword = c.req.query('keyword');
+
+        const conditions: string[] = ['sl.deleted_at IS NOT NULL'];
+        const params: DBParam[] = [];
+        if (domainId) {
+            conditions.push('sl.domain_id = ?');
+            params.push(parseInt(domainId));
+        }
+        if (keyword) {
+            conditions.push('(sl.code LIKE ? OR sl.target_url LIKE ? OR sl.remark LIKE ?)');
+            const kw = `%${keyword}%`;
+            params.push(kw, kw, kw);
+        }
+        const owner = ownerCondition(linkOwnerScope(c.get('currentUser')), 'sl.owner_user_id');
+        const whereClause = 'WHERE ' + conditions.join(' AND ') + owner.sql;
+        params.push(...owner.params);
+
+        const countResult = await db.prepare(
+            `SELECT COUNT(*) as total FROM short_links sl ${whereClause}`
+        ).bind(...params).first<{ total: number }>();
+        const total = countResult?.total || 0;
+
+        const result = await db.prepare(`
+            SELECT sl.*, d.host as domain_host, u.username as owner_username
+            FROM short_links sl
+            LEFT JOIN domains d ON sl.domain_id = d.id
+            LEFT JOIN users u ON sl.owner_user_id = u.id
+            ${whereClause}
+            ORDER BY sl.deleted_at DESC, sl.id DESC
+            LIMIT ? OFFSET ?
+        `).bind(...params, pageSize, offset).all<ShortLinkRow>();
+
+        const links: ShortLinkWithDomain[] = [];
+        for (const link of result.results || []) {
+            links.push(toLinkResponse(link, await getTagsForLink(db, link.id)));
+        }
+
+        const response: HttpResponseJsonBody<ShortLinkListResponse> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: {
+                results: links,
+                pagination: {
+                    page,
+                    pageSize,
+                    total,
+                    totalPages: Math.ceil(total / pageSize)
+                }
+            }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询回收站失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询回收站失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+// 从回收站恢复短链接
+app.post('/restore', requireScope('links', 'rw'), async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const { ids } = await c.req.json<{ ids: number[] }>();
+
+        if (!ids || !Array.isArray(ids) || ids.length === 0) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '请提供要恢复的短链接 ID 列表'
+            };
+            return c.json(response, 400);
+        }
+        if (ids.length > IN_CHUNK_SIZE) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: `每次最多恢复 ${IN_CHUNK_SIZE} 个短链接`
+            };
+            return c.json(response, 400);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const placeholders = ids.map(() => '?').join(',');
+        const owner = ownerCondition(linkOwnerScope(c.get('currentUser')), 'owner_user_id');
+
+        // 短码在删除期间一直占用唯一索引，恢复不会产生冲突
+        const before = await loadSnapshots(db, ids);
+        const result = await db.prepare(`
+            UPDATE short_links SET deleted_at = NULL, updated_at = ?
+            WHERE id IN (${placeholders}) AND deleted_at IS NOT NULL${owner.sql}
+        `).bind(now, ...ids, ...owner.params).run();
+        // 清除删除期间缓存的"不存在"
+        await invalidateLinks(c.env, ids);
+        await recordChanges(db, c.get('currentUser').id, 'restore', before);
+
+        const response: HttpResponseJsonBody<{ restored: number }> = {
+            code: ErrorCode.SUCCESS,
+            message: `已恢复 ${result.meta.changes} 个短链接`,
+            data: { restored: result.meta.changes }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('恢复短链接失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '恢复短链接失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+// 彻底删除回收站中的短链接，之后短码可以重新使用
+app.post('/purge', requireScope('links', 'rw'), async (c) => {
+    try {
+        const { ids } = await c.req.json<{ ids: number[] }>();
+
+        if (!ids || !Array.isArray(ids) || ids.length === 0) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '请提供要彻底删除的短链接 ID 列表'
+            };
+            return c.json(response, 400);
+        }
+        if (ids.length > IN_CHUNK_SIZE) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: `每次最多彻底删除 ${IN_CHUNK_SIZE} 个短链接`
+            };
+            return c.json(response, 400);
+        }
+
+        const purged = await purgeLinks(c.env.shorturl, ids, linkOwnerScope(c.get('currentUser')));
+
+        const response: HttpResponseJsonBody<{ purged: number }> = {
+            code: ErrorCode.SUCCESS,
+            message: `已彻底删除 ${purged} 个短链接`,
+            data: { purged }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('彻底删除短链接失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '彻底删除短链接失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
 // 切换启用/禁用状态
-app.put('/toggle-status/:id', async (c) => {
+app.put('/toggle-status/:id', requireScope('links', 'rw'), async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param('id'));
@@ -742,9 +1723,10 @@ app.put('/toggle-status/:id', async (c) => {
             return c.json(response, 400);
         }
 
+        const owner = ownerCondition(linkOwnerScope(c.get('currentUser')), 'owner_user_id');
         const existing = await db.prepare(`
-            SELECT id, is_disabled FROM short_links WHERE id = ? AND deleted_at IS NULL
-        `).bind(id).first<{ id: number; is_disabled: number }>();
+            SELECT id, is_disabled FROM short_links WHERE id = ? AND deleted_at IS NULL${owner.sql}
+        `).bind(id, ...owner.params).first<{ id: number; is_disabled: number }>();
 
         if (!existing) {
             const response: HttpResponseJsonBody = {
@@ -757,9 +1739,12 @@ app.put('/toggle-status/:id', async (c) => {
         const now = Math.floor(Date.now() / 1000);
         const newStatus = existing.is_disabled === 0 ? 1 : 0;
 
+        const before = await loadSnapshots(db, [id]);
         await db.prepare(`
             UPDATE short_links SET is_disabled = ?, updated_at = ? WHERE id = ?
         `).bind(newStatus, now, id).run();
+        await invalidateLinks(c.env, [id]);
+        await recordChanges(db, c.get('currentUser').id, 'toggle', before);
 
         const response: HttpResponseJsonBody<{ is_disabled: number }> = {
             code: ErrorCode.SUCCESS,
@@ -778,4 +1763,72 @@ app.put('/toggle-status/:id', async (c) => {
     }
 });
 
+// 转移短链接所有者（仅管理员）
+app.post('/transfer-owner', requireScope('links', 'rw'), requireAdmin, async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const { ids, owner_user_id: ownerUserId } = await c.req.json<TransferOwnerRequest>();
+
+        if (!ids || !Array.isArray(ids) || ids.length === 0) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '请提供要转移的短链接 ID 列表'
+            };
+            return c.json(response, 400);
+        }
+        if (ids.length > IN_CHUNK_SIZE) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: `每次最多转移 ${IN_CHUNK_SIZE} 个短链接`
+            };
+            return c.json(response, 400);
+        }
+
+        if (typeof ownerUserId !== 'number' || !Number.isInteger(ownerUserId)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的目标用户 ID'
+            };
+            return c.json(response, 400);
+        }
+
+        const user = await db.prepare(`
+            SELECT id FROM users WHERE id = ? AND deleted_at IS NULL
+        `).bind(ownerUserId).first();
+
+        if (!user) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '目标用户不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const placeholders = ids.map(() => '?').join(',');
+
+        const before = await loadSnapshots(db, ids);
+        const result = await db.prepare(`
+            UPDATE short_links SET owner_user_id = ?, updated_at = ?
+            WHERE id IN (${placeholders}) AND deleted_at IS NULL
+        `).bind(ownerUserId, now, ...ids).run();
+        await recordChanges(db, c.get('currentUser').id, 'transfer', before);
+
+        const response: HttpResponseJsonBody<{ transferred: number }> = {
+            code: ErrorCode.SUCCESS,
+            message: `已转移 ${result.meta.changes} 个短链接`,
+            data: { transferred: result.meta.changes }
+        };
+
+        return c.json(response);
+    } catch (error) {
+        console.error('转移短链接所有者失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '转移短链接所有者失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
 export default app;
\ No newline at end of file
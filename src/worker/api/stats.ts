@@ -0,0 +1,837 @@
+import { Hono, Context } from "hono";
+import { ErrorCode, HttpResponseJsonBody, Variables } from "../util";
+import { requireScope } from "../scopes";
+import { linkOwnerScope, requireAdmin } from "../rbac";
+import {
+    BreakdownDimension,
+    DAY_SECONDS,
+    dayStart,
+    getBreakdownThrough,
+    getRollupThrough,
+    isValidDay,
+    rollupDays,
+    toDay,
+} from "../stats-rollup";
+import { EVENT_COLUMNS } from "../event-archive";
+import { exportResponse, ExportRow, parseExportFormat } from "../export-stream";
+
+// ============ 类型定义 ============
+
+type StatsInterval = 'hour' | 'day' | 'week';
+
+// include=全部，exclude=仅成功访问，only=仅被拦截的访问
+type BlockedMode = 'include' | 'exclude' | 'only';
+
+type StatsScope = 'all' | 'link' | 'domain' | 'tag';
+
+interface StatsFilter {
+    start: number;          // unix seconds（含）
+    end: number;            // unix seconds（不含）
+    interval: StatsInterval;
+    blocked: BlockedMode;
+    limit: number;          // 各维度 Top N
+}
+
+interface TimeseriesPoint {
+    bucket: number;         // 桶起始时间，unix seconds (UTC)
+    clicks: number;
+    blocked: number;
+}
+
+interface BreakdownItem {
+    value: string;
+    clicks: number;
+}
+
+interface StatsSummary {
+    total: number;          // 总访问（含拦截）
+    clicks: number;         // 成功访问
+    blocked: number;        // 被拦截的访问
+}
+
+interface TimeRange {
+    start: number;          // unix seconds（含）
+    end: number;            // unix seconds（不含）
+}
+
+interface RangeSplit {
+    rollup: TimeRange | null;   // 从 link_visit_stats_daily 读取的整天区间
+    raw: TimeRange[];           // 从 link_visit_events 扫描的区间
+}
+
+/** 统计目标：同一范围在事件表 (e) 与日汇总表 (r) 上的过滤条件，二者共用参数 */
+interface StatsTarget {
+    scope: StatsScope;
+    eventCondition: string;
+    rollupCondition: string;
+    params: DBParam[];
+}
+
+interface StatsReport {
+    scope: StatsScope;
+    filter: StatsFilter;
+    rollup: TimeRange | null;   // 命中日汇总表的区间，null 表示全部来自原始事件
+    summary: StatsSummary;
+    timeseries: TimeseriesPoint[];
+    referrers: BreakdownItem[];
+    countries: BreakdownItem[];
+    regions: BreakdownItem[];
+    cities: BreakdownItem[];
+    device_types: BreakdownItem[];
+    os: BreakdownItem[];
+    browsers: BreakdownItem[];
+    block_reasons: BreakdownItem[];
+    matched_rules: BreakdownItem[];
+    variants: BreakdownItem[];
+}
+
+interface TopLinkItem {
+    id: number;
+    code: string;
+    domain_host: string | null;
+    target_url: string;
+    clicks: number;
+}
+
+interface OverviewResponse {
+    total_links: number;
+    disabled_links: number;
+    clicks_today: number;
+    clicks_7d: number;
+    clicks_30d: number;
+    top_links: TopLinkItem[];
+    report: StatsReport;
+}
+
+type DBParam = string | number | null;
+
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+const ALL_TARGET: StatsTarget = { scope: 'all', eventCondition: '1 = 1', rollupCondition: '1 = 1', params: [] };
+
+// ============ 辅助函数 ============
+
+const MAX_RANGE_SECONDS = 366 * DAY_SECONDS;
+// 小时粒度下最多返回的桶数，避免一次扫描过多数据
+const MAX_HOUR_BUCKETS = 24 * 31;
+
+// 导出原始事件时每页读取的行数
+const EXPORT_PAGE_SIZE = 1000;
+
+// 1970-01-01 是周四，偏移 4 天使周桶从周一 00:00 (UTC) 开始
+const WEEK_OFFSET_SECONDS = 4 * DAY_SECONDS;
+
+/** 生成时间桶的 SQL 表达式，column 为 unix seconds 表达式 */
+function bucketExpr(interval: StatsInterval, column: string): string {
+    switch (interval) {
+        case 'hour':
+            return `(${column} / 3600) * 3600`;
+        case 'week':
+            return `((${column} - ${WEEK_OFFSET_SECONDS}) / 604800) * 604800 + ${WEEK_OFFSET_SECONDS}`;
+        default:
+            return `(${column} / ${DAY_SECONDS}) * ${DAY_SECONDS}`;
+    }
+}
+
+/**
+ * 解析通用筛选参数
+ * query: start, end (unix seconds), interval (hour/day/week), blocked (include/exclude/only), limit
+ * 默认最近 30 天、按天聚合、包含被拦截的访问
+ */
+function parseStatsFilter(c: Context): StatsFilter | string {
+    const now = Math.floor(Date.now() / 1000);
+    const endStr = c.req.query('end');
+    const startStr = c.req.query('start');
+
+    const end = endStr ? parseInt(endStr) : now;
+    const start = startStr ? parseInt(startStr) : end - 30 * DAY_SECONDS;
+
+    if (isNaN(start) || isNaN(end)) {
+        return '无效的时间范围';
+    }
+    if (start >= end) {
+        return '开始时间必须早于结束时间';
+    }
+    if (end - start > MAX_RANGE_SECONDS) {
+        return '时间范围不能超过 366 天';
+    }
+
+    const intervalParam = c.req.query('interval') || 'day';
+    if (!['hour', 'day', 'week'].includes(intervalParam)) {
+        return '无效的聚合粒度，仅支持 hour/day/week';
+    }
+    const interval = intervalParam as StatsInterval;
+    if (interval === 'hour' && (end - start) / 3600 > MAX_HOUR_BUCKETS) {
+        return '按小时聚合时时间范围不能超过 31 天';
+    }
+
+    const blockedParam = c.req.query('blocked') || 'include';
+    if (!['include', 'exclude', 'only'].includes(blockedParam)) {
+        return '无效的 blocked 参数，仅支持 include/exclude/only';
+    }
+
+    const limit = Math.min(Math.max(parseInt(c.req.query('limit') || '10') || 10, 1), 100);
+
+    return { start, end, interval, blocked: blockedParam as BlockedMode, limit };
+}
+
+/**
+ * 拆分查询区间：已汇总（stats_rollup_through 之前）的整天读 link_visit_stats_daily，
+ * 首尾不足一天的部分和尚未汇总的日期扫描原始事件
+ * 按小时聚合时汇总表粒度不够，全部走原始事件
+ */
+function splitRange(start: number, end: number, interval: StatsInterval, rollupThrough: string | null): RangeSplit {
+    if (interval === 'hour' || !rollupThrough) {
+        return { rollup: null, raw: [{ start, end }] };
+    }
+
+    const firstFullDay = Math.ceil(start / DAY_SECONDS) * DAY_SECONDS;
+    const rollupEnd = Math.min(Math.floor(end / DAY_SECONDS) * DAY_SECONDS, dayStart(rollupThrough) + DAY_SECONDS);
+    if (rollupEnd <= firstFullDay) {
+        return { rollup: null, raw: [{ start, end }] };
+    }
+
+    const raw: TimeRange[] = [];
+    if (start < firstFullDay) {
+        raw.push({ start, end: firstFullDay });
+    }
+    if (rollupEnd < end) {
+        raw.push({ start: rollupEnd, end });
+    }
+    return { rollup: { start: firstFullDay, end: rollupEnd }, raw };
+}
+
+/** 普通用户的统计只包含自己拥有的短链接，ownerId 为 null 时不限制 */
+function restrictToOwner(target: StatsTarget, ownerId: number | null): StatsTarget {
+    if (ownerId === null) {
+        return target;
+    }
+    return {
+        scope: target.scope,
+        eventCondition: `${target.eventCondition} AND e.short_link_id IN (SELECT id FROM short_links WHERE owner_user_id = ?)`,
+        rollupCondition: `${target.rollupCondition} AND r.short_link_id IN (SELECT id FROM short_links WHERE owner_user_id = ?)`,
+        params: [...target.params, ownerId],
+    };
+}
+
+/** 构建事件表的 WHERE 条件（范围 + 时间 + 拦截） */
+function buildEventConditions(
+    target: StatsTarget,
+    ranges: TimeRange[],
+    blocked: BlockedMode
+): { where: string; params: DBParam[] } {
+    const rangeCondition = ranges.map(() => '(e.visited_at >= ? AND e.visited_at < ?)').join(' OR ');
+    const conditions: string[] = [target.eventCondition, `(${rangeCondition})`];
+    const params: DBParam[] = [...target.params, ...ranges.flatMap((r) => [r.start, r.end])];
+
+    if (blocked === 'exclude') {
+        conditions.push('e.is_blocked = 0');
+    } else if (blocked === 'only') {
+        conditions.push('e.is_blocked = 1');
+    }
+
+    return { where: 'WHERE ' + conditions.join(' AND '), params };
+}
+
+/** 构建日汇总表的 WHERE 条件及按拦截模式取值的列表达式 */
+function buildRollupConditions(
+    target: StatsTarget,
+    range: TimeRange,
+    blocked: BlockedMode
+): { where: string; params: DBParam[]; clicks: string; blocked: string } {
+    return {
+        where: `WHERE ${target.rollupCondition} AND r.day >= ? AND r.day < ?`,
+        params: [...target.params, toDay(range.start), toDay(range.end)],
+        clicks: blocked === 'only' ? '0' : 'r.clicks',
+        blocked: blocked === 'exclude' ? '0' : 'r.blocked',
+    };
+}
+
+/** 按指定维度聚合 Top N（维度日汇总 + 原始事件，合并后排序） */
+async function queryBreakdown(
+    db: D1Database,
+    target: StatsTarget,
+    split: RangeSplit,
+    dimension: BreakdownDimension,
+    blocked: BlockedMode,
+    limit: number
+): Promise<BreakdownItem[]> {
+    const parts: string[] = [];
+    const params: DBParam[] = [];
+
+    if (split.raw.length > 0) {
+        const raw = buildEventConditions(target, split.raw, blocked);
+        parts.push(`
+            SELECT COALESCE(NULLIF(e.${dimension}, ''), 'unknown') as value, COUNT(*) as clicks
+            FROM link_visit_events e
+            ${raw.where}
+            GROUP BY value
+        `);
+        params.push(...raw.params);
+    }
+
+    if (split.rollup) {
+        const rollup = buildRollupConditions(target, split.rollup, blocked);
+        parts.push(`
+            SELECT r.value, SUM(${rollup.clicks} + ${rollup.blocked}) as clicks
+            FROM link_visit_breakdown_daily r
+            ${rollup.where} AND r.dimension = ?
+            GROUP BY r.value
+        `);
+        params.push(...rollup.params, dimension);
+    }
+
+    const result = await db.prepare(`
+        SELECT value, SUM(clicks) as clicks
+        FROM (${parts.join(' UNION ALL ')})
+        GROUP BY value
+        HAVING clicks > 0
+        ORDER BY clicks DESC
+        LIMIT ?
+    `).bind(...params, limit).all<BreakdownItem>();
+    return result.results || [];
+}
+
+/** 汇总访问次数（原始事件 + 日汇总） */
+async function querySummary(
+    db: D1Database,
+    target: StatsTarget,
+    split: RangeSplit,
+    blocked: BlockedMode
+): Promise<StatsSummary> {
+    const summary: StatsSummary = { total: 0, clicks: 0, blocked: 0 };
+    const queries: Promise<{ clicks: number; blocked: number } | null>[] = [];
+
+    if (split.raw.length > 0) {
+        const { where, params } = buildEventConditions(target, split.raw, blocked);
+        queries.push(db.prepare(`
+            SELECT COALESCE(SUM(CASE WHEN e.is_blocked = 0 THEN 1 ELSE 0 END), 0) as clicks,
+                   COALESCE(SUM(CASE WHEN e.is_blocked = 1 THEN 1 ELSE 0 END), 0) as blocked
+            FROM link_visit_events e
+            ${where}
+        `).bind(...params).first<{ clicks: number; blocked: number }>());
+    }
+
+    if (split.rollup) {
+        const rollup = buildRollupConditions(target, split.rollup, blocked);
+        queries.push(db.prepare(`
+            SELECT COALESCE(SUM(${rollup.clicks}), 0) as clicks,
+                   COALESCE(SUM(${rollup.blocked}), 0) as blocked
+            FROM link_visit_stats_daily r
+            ${rollup.where}
+        `).bind(...rollup.params).first<{ clicks: number; blocked: number }>());
+    }
+
+    for (const row of await Promise.all(queries)) {
+        summary.clicks += row?.clicks || 0;
+        summary.blocked += row?.blocked || 0;
+    }
+    summary.total = summary.clicks + summary.blocked;
+    return summary;
+}
+
+/** 按时间桶统计访问次数（原始事件 + 日汇总），结果按桶合并 */
+async function queryTimeseries(
+    db: D1Database,
+    target: StatsTarget,
+    split: RangeSplit,
+    interval: StatsInterval,
+    blocked: BlockedMode
+): Promise<TimeseriesPoint[]> {
+    const queries: Promise<D1Result<TimeseriesPoint>>[] = [];
+
+    if (split.raw.length > 0) {
+        const { where, params } = buildEventConditions(target, split.raw, blocked);
+        queries.push(db.prepare(`
+            SELECT ${bucketExpr(interval, 'e.visited_at')} as bucket,
+                   SUM(CASE WHEN e.is_blocked = 0 THEN 1 ELSE 0 END) as clicks,
+                   SUM(CASE WHEN e.is_blocked = 1 THEN 1 ELSE 0 END) as blocked
+            FROM link_visit_events e
+            ${where}
+            GROUP BY bucket
+        `).bind(...params).all<TimeseriesPoint>());
+    }
+
+    if (split.rollup) {
+        const rollup = buildRollupConditions(target, split.rollup, blocked);
+        queries.push(db.prepare(`
+            SELECT ${bucketExpr(interval, "CAST(strftime('%s', r.day) AS INTEGER)")} as bucket,
+                   SUM(${rollup.clicks}) as clicks,
+                   SUM(${rollup.blocked}) as blocked
+            FROM link_visit_stats_daily r
+            ${rollup.where}
+            GROUP BY bucket
+        `).bind(...rollup.params).all<TimeseriesPoint>());
+    }
+
+    const merged = new Map<number, TimeseriesPoint>();
+    for (const result of await Promise.all(queries)) {
+        for (const point of result.results || []) {
+            const existing = merged.get(point.bucket);
+            if (existing) {
+                existing.clicks += point.clicks;
+                existing.blocked += point.blocked;
+            } else {
+                merged.set(point.bucket, { ...point });
+            }
+        }
+    }
+    return [...merged.values()].sort((a, b) => a.bucket - b.bucket);
+}
+
+/**
+ * 生成完整统计报表
+ * 维度明细按 stats_breakdown_through 拆分区间（升级后回填期间可能落后于 stats_rollup_through）
+ */
+async function buildStatsReport(
+    db: D1Database,
+    target: StatsTarget,
+    filter: StatsFilter
+): Promise<StatsReport> {
+    const [rollupThrough, breakdownThrough] = await Promise.all([getRollupThrough(db), getBreakdownThrough(db)]);
+    const split = splitRange(filter.start, filter.end, filter.interval, rollupThrough);
+    const breakdownSplit = splitRange(filter.start, filter.end, filter.interval, breakdownThrough);
+    const breakdown = (dimension: BreakdownDimension) =>
+        queryBreakdown(db, target, breakdownSplit, dimension, filter.blocked, filter.limit);
+
+    const [summary, timeseries, referrers, countries, regions, cities, deviceTypes, os, browsers, blockReasons, matchedRules, variants] =
+        await Promise.all([
+            querySummary(db, target, split, filter.blocked),
+            queryTimeseries(db, target, split, filter.interval, filter.blocked),
+            breakdown('referer'),
+            breakdown('country'),
+            breakdown('region'),
+            breakdown('city'),
+            breakdown('device_type'),
+            breakdown('os'),
+            breakdown('browser'),
+            breakdown('block_reason'),
+            breakdown('matched_rule'),
+            breakdown('variant'),
+        ]);
+
+    return {
+        scope: target.scope,
+        filter,
+        rollup: split.rollup,
+        summary,
+        timeseries,
+        referrers,
+        countries,
+        regions,
+        cities,
+        device_types: deviceTypes,
+        os,
+        browsers,
+        block_reasons: blockReasons,
+        matched_rules: matchedRules,
+        variants,
+    };
+}
+
+/** 统计某时间点之后的成功访问次数 */
+async function countClicksSince(
+    db: D1Database,
+    target: StatsTarget,
+    since: number,
+    now: number,
+    rollupThrough: string | null
+): Promise<number> {
+    const split = splitRange(since, now, 'day', rollupThrough);
+    const summary = await querySummary(db, target, split, 'exclude');
+    return summary.clicks;
+}
+
+// ============ 接口 ============
+
+/**
+ * GET /overview
+ * 仪表盘概览：链接总数、今日/7天/30天点击、热门链接及全局统计报表
+ * query: start, end, interval, blocked, limit, today_start (客户端本地零点，默认 UTC 零点)
+ */
+app.get('/overview', requireScope('stats', 'r'), async (c) => {
+    try {
+        const db = c.env.shorturl;
+
+        const filter = parseStatsFilter(c);
+        if (typeof filter === 'string') {
+            const response: HttpResponseJsonBody = { code: ErrorCode.DATA_INPUT_ERROR, message: filter };
+            return c.json(response, 400);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const todayStartParam = parseInt(c.req.query('today_start') || '');
+        const todayStart = !isNaN(todayStartParam) && todayStartParam <= now && now - todayStartParam < DAY_SECONDS
+            ? todayStartParam
+            : Math.floor(now / DAY_SECONDS) * DAY_SECONDS;
+
+        // 普通用户只统计自己的短链接
+        const ownerId = linkOwnerScope(c.get('currentUser'));
+        const target = restrictToOwner(ALL_TARGET, ownerId);
+
+        const linkCountPromise = db.prepare(`
+            SELECT COUNT(*) as total,
+                   COALESCE(SUM(CASE WHEN is_disabled = 1 THEN 1 ELSE 0 END), 0) as disabled
+            FROM short_links
+            WHERE deleted_at IS NULL${ownerId !== null ? ' AND owner_user_id = ?' : ''}
+        `).bind(...(ownerId !== null ? [ownerId] : [])).first<{ total: number; disabled: number }>();
+
+        // 热门链接：原始事件与日汇总分别按链接聚合后合并
+        const rollupThrough = await getRollupThrough(db);
+        const split = splitRange(filter.start, filter.end, filter.interval, rollupThrough);
+        const parts: string[] = [];
+        const topParams: DBParam[] = [];
+        if (split.raw.length > 0) {
+            const { where, params } = buildEventConditions(target, split.raw, filter.blocked);
+            parts.push(`SELECT e.short_link_id, COUNT(*) as clicks FROM link_visit_events e ${where} GROUP BY e.short_link_id`);
+            topParams.push(...params);
+        }
+        if (split.rollup) {
+            const rollup = buildRollupConditions(target, split.rollup, filter.blocked);
+            parts.push(`SELECT r.short_link_id, SUM(${rollup.clicks} + ${rollup.blocked}) as clicks FROM link_visit_stats_daily r ${rollup.where} GROUP BY r.short_link_id`);
+            topParams.push(...rollup.params);
+        }
+        const topLinksPromise = db.prepare(`
+            SELECT sl.id, sl.code, d.host as domain_host, sl.target_url, SUM(t.clicks) as clicks
+            FROM (${parts.join(' UNION ALL ')}) t
+            JOIN short_links sl ON t.short_link_id = sl.id
+            LEFT JOIN domains d ON sl.domain_id = d.id
+            GROUP BY sl.id
+            HAVING clicks > 0
+            ORDER BY clicks DESC
+            LIMIT ?
+        `).bind(...topParams, filter.limit).all<TopLinkItem>();
+
+        const [linkCount, clicksToday, clicks7d, clicks30d, topLinks, report] = await Promise.all([
+            linkCountPromise,
+            countClicksSince(db, target, todayStart, now, rollupThrough),
+            countClicksSince(db, target, now - 7 * DAY_SECONDS, now, rollupThrough),
+            countClicksSince(db, target, now - 30 * DAY_SECONDS, now, rollupThrough),
+            topLinksPromise,
+            buildStatsReport(db, target, filter),
+        ]);
+
+        const response: HttpResponseJsonBody<OverviewResponse> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: {
+                total_links: linkCount?.total || 0,
+                disabled_links: linkCount?.disabled || 0,
+                clicks_today: clicksToday,
+                clicks_7d: clicks7d,
+                clicks_30d: clicks30d,
+                top_links: topLinks.results || [],
+                report
+            }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询统计概览失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询统计概览失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * GET /link/:id
+ * 单个短链接的访问统计
+ * query: start, end, interval, blocked, limit
+ */
+app.get('/link/:id', requireScope('stats', 'r'), async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const id = parseInt(c.req.param('id'));
+
+        if (isNaN(id)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的短链接 ID'
+            };
+            return c.json(response, 400);
+        }
+
+        const filter = parseStatsFilter(c);
+        if (typeof filter === 'string') {
+            const response: HttpResponseJsonBody = { code: ErrorCode.DATA_INPUT_ERROR, message: filter };
+            return c.json(response, 400);
+        }
+
+        // 已软删除的短链接也允许查看历史统计；普通用户只能查看自己的短链接
+        const ownerId = linkOwnerScope(c.get('currentUser'));
+        const link = await db.prepare(`
+            SELECT id FROM short_links WHERE id = ?${ownerId !== null ? ' AND owner_user_id = ?' : ''}
+        `).bind(id, ...(ownerId !== null ? [ownerId] : [])).first();
+
+        if (!link) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '短链接不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        const target: StatsTarget = {
+            scope: 'link',
+            eventCondition: 'e.short_link_id = ?',
+            rollupCondition: 'r.short_link_id = ?',
+            params: [id],
+        };
+        const report = await buildStatsReport(db, target, filter);
+
+        const response: HttpResponseJsonBody<StatsReport> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: report
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询短链接统计失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询短链接统计失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * GET /domain/:id
+ * 域名下所有短链接的访问统计
+ * query: start, end, interval, blocked, limit
+ */
+app.get('/domain/:id', requireScope('stats', 'r'), async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const id = parseInt(c.req.param('id'));
+
+        if (isNaN(id)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的域名 ID'
+            };
+            return c.json(response, 400);
+        }
+
+        const filter = parseStatsFilter(c);
+        if (typeof filter === 'string') {
+            const response: HttpResponseJsonBody = { code: ErrorCode.DATA_INPUT_ERROR, message: filter };
+            return c.json(response, 400);
+        }
+
+        const domain = await db.prepare(`
+            SELECT id FROM domains WHERE id = ?
+        `).bind(id).first();
+
+        if (!domain) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '域名不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        const target: StatsTarget = {
+            scope: 'domain',
+            eventCondition: 'e.domain_id = ?',
+            rollupCondition: 'r.domain_id = ?',
+            params: [id],
+        };
+        const report = await buildStatsReport(db, restrictToOwner(target, linkOwnerScope(c.get('currentUser'))), filter);
+
+        const response: HttpResponseJsonBody<StatsReport> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: report
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询域名统计失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询域名统计失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * GET /tag/:name
+ * 带有指定标签的所有短链接的访问统计
+ * query: start, end, interval, blocked, limit
+ */
+app.get('/tag/:name', requireScope('stats', 'r'), async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const name = c.req.param('name').trim();
+
+        const filter = parseStatsFilter(c);
+        if (typeof filter === 'string') {
+            const response: HttpResponseJsonBody = { code: ErrorCode.DATA_INPUT_ERROR, message: filter };
+            return c.json(response, 400);
+        }
+
+        const tag = await db.prepare(`
+            SELECT id FROM tags WHERE name = ?
+        `).bind(name).first<{ id: number }>();
+
+        if (!tag) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '标签不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        const target: StatsTarget = {
+            scope: 'tag',
+            eventCondition: 'e.short_link_id IN (SELECT short_link_id FROM short_link_tags WHERE tag_id = ?)',
+            rollupCondition: 'r.short_link_id IN (SELECT short_link_id FROM short_link_tags WHERE tag_id = ?)',
+            params: [tag.id],
+        };
+        const report = await buildStatsReport(db, restrictToOwner(target, linkOwnerScope(c.get('currentUser'))), filter);
+
+        const response: HttpResponseJsonBody<StatsReport> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: report
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询标签统计失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询标签统计失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/** 按 id 分页读取符合条件的原始访问事件 */
+async function* exportEventPages(db: D1Database, where: string, params: DBParam[]): AsyncGenerator<ExportRow[]> {
+    let lastId = 0;
+    while (true) {
+        const { results } = await db.prepare(`
+            SELECT ${EVENT_COLUMNS.map((column) => `e.${column}`).join(', ')}
+            FROM link_visit_events e
+            ${where} AND e.id > ?
+            ORDER BY e.id
+            LIMIT ?
+        `).bind(...params, lastId, EXPORT_PAGE_SIZE).all<ExportRow & { id: number }>();
+        if (results.length === 0) return;
+        yield results;
+        if (results.length < EXPORT_PAGE_SIZE) return;
+        lastId = results[results.length - 1].id;
+    }
+}
+
+/**
+ * GET /events/export
+ * 导出时间范围内的原始访问事件（CSV / NDJSON），已归档到 R2 的事件不包含在内
+ * query: format (csv/ndjson), start, end, blocked, link_id, domain_id
+ */
+app.get('/events/export', requireScope('stats', 'r'), async (c) => {
+    try {
+        const format = parseExportFormat(c.req.query('format'));
+        if (!format) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '导出格式仅支持 csv 或 ndjson'
+            };
+            return c.json(response, 400);
+        }
+
+        const filter = parseStatsFilter(c);
+        if (typeof filter === 'string') {
+            const response: HttpResponseJsonBody = { code: ErrorCode.DATA_INPUT_ERROR, message: filter };
+            return c.json(response, 400);
+        }
+
+        const linkId = parseInt(c.req.query('link_id') || '');
+        const domainId = parseInt(c.req.query('domain_id') || '');
+        let target = ALL_TARGET;
+        if (!isNaN(linkId)) {
+            target = { scope: 'link', eventCondition: 'e.short_link_id = ?', rollupCondition: 'r.short_link_id = ?', params: [linkId] };
+        } else if (!isNaN(domainId)) {
+            target = {
+                scope: 'domain',
+                eventCondition: 'e.domain_id = ?',
+                rollupCondition: 'r.domain_id = ?',
+                params: [domainId],
+            };
+        }
+        const { where, params } = buildEventConditions(
+            restrictToOwner(target, linkOwnerScope(c.get('currentUser'))),
+            [{ start: filter.start, end: filter.end }],
+            filter.blocked
+        );
+
+        const filename = `visit-events-${toDay(filter.start)}-${toDay(filter.end - 1)}`;
+        return exportResponse(format, filename, EVENT_COLUMNS, exportEventPages(c.env.shorturl, where, params));
+    } catch (error) {
+        console.error('导出访问事件失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '导出访问事件失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * POST /rollup
+ * 手动重新汇总指定日期范围（UTC，含首尾）的访问数据，用于修复或回填
+ * body: { start_day: "YYYY-MM-DD", end_day: "YYYY-MM-DD" }
+ */
+app.post('/rollup', requireScope('stats', 'rw'), requireAdmin, async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const body = await c.req.json<{ start_day?: string; end_day?: string }>();
+        const startDay = body.start_day?.trim() || '';
+        const endDay = body.end_day?.trim() || startDay;
+
+        if (!isValidDay(startDay) || !isValidDay(endDay)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '日期格式无效，应为 YYYY-MM-DD'
+            };
+            return c.json(response, 400);
+        }
+
+        if (startDay > endDay) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '开始日期不能晚于结束日期'
+            };
+            return c.json(response, 400);
+        }
+
+        if (dayStart(endDay) - dayStart(startDay) >= MAX_RANGE_SECONDS) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '汇总范围不能超过 366 天'
+            };
+            return c.json(response, 400);
+        }
+
+        const rows = await rollupDays(db, startDay, endDay);
+
+        const response: HttpResponseJsonBody<{ start_day: string; end_day: string; rows: number }> = {
+            code: ErrorCode.SUCCESS,
+            message: '汇总成功',
+            data: { start_day: startDay, end_day: endDay, rows }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('汇总访问统计失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '汇总访问统计失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+export default app;
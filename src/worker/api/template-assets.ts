@@ -1,6 +1,10 @@
 // src/worker/api/template-assets.ts
 import { Hono } from "hono";
 import { ErrorCode, HttpResponseJsonBody, Variables } from "../util";
+import { requireScope } from "../scopes";
+import { requireAdmin } from "../rbac";
+import { invalidateFileTemplates } from "../link-cache";
+import { recordAudit } from "../audit-log";
 
 // ============ 类型定义 ============
 
@@ -51,6 +55,14 @@ type DBParam = string | number | null;
 
 const app = new Hono<{ Variables: Variables; Bindings: Env }>();
 
+// 资源写操作成功后清除文件型模板的缓存（主文件可能被新增、覆盖或删除）
+app.use("*", async (c, next) => {
+    await next();
+    if (c.req.method !== "GET" && c.res.status < 400) {
+        await invalidateFileTemplates(c.env);
+    }
+});
+
 // ============ 辅助函数 ============
 
 /** 生成 R2 key: prefix/filename */
@@ -114,7 +126,7 @@ function buildTree(assets: TemplateAssetListItem[]): TreeNode[] {
  * 获取指定 prefix 下的资源列表（分页）
  * query: prefix (必填), page, pageSize, filename (模糊搜索)
  */
-app.get("/list", async (c) => {
+app.get("/list", requireScope("assets", "r"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const prefix = c.req.query("prefix");
@@ -183,7 +195,7 @@ app.get("/list", async (c) => {
  * 获取指定 prefix 下的资源树结构
  * query: prefix (必填)
  */
-app.get("/tree", async (c) => {
+app.get("/tree", requireScope("assets", "r"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const prefix = c.req.query("prefix");
@@ -227,7 +239,7 @@ app.get("/tree", async (c) => {
  * GET /detail/:id
  * 获取单个资源详情（不含 BLOB content）
  */
-app.get("/detail/:id", async (c) => {
+app.get("/detail/:id", requireScope("assets", "r"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param("id"));
@@ -274,7 +286,7 @@ app.get("/detail/:id", async (c) => {
  * 下载指定资源的文件内容
  * 根据 storage_type 从数据库或 R2 读取文件并返回二进制流
  */
-app.get("/download/:id", async (c) => {
+app.get("/download/:id", requireScope("assets", "r"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param("id"));
@@ -378,7 +390,7 @@ app.get("/download/:id", async (c) => {
  * 上传文件到数据库存储（适用小文件）
  * FormData: file, prefix, filename?, is_public?, alt_text?
  */
-app.post("/upload/db", async (c) => {
+app.post("/upload/db", requireScope("assets", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const formData = await c.req.formData();
@@ -412,10 +424,12 @@ app.post("/upload/db", async (c) => {
         // 检查是否已存在同 prefix + filename
         const existing = await db
             .prepare(
-                `SELECT id FROM template_assets WHERE asset_prefix = ? AND filename = ?`
+                `SELECT id, asset_prefix, filename, content_type, size, checksum,
+                        storage_type, r2_key, is_public, alt_text, created_at, updated_at
+                 FROM template_assets WHERE asset_prefix = ? AND filename = ?`
             )
             .bind(prefix, filename)
-            .first<{ id: number }>();
+            .first<TemplateAssetListItem>();
 
         if (existing) {
             // 更新已有记录
@@ -446,6 +460,13 @@ app.post("/upload/db", async (c) => {
                 )
                 .bind(existing.id)
                 .first<TemplateAssetListItem>();
+            await recordAudit(c, {
+                action: "template_asset.upload",
+                entityType: "template_asset",
+                entityId: existing.id,
+                before: existing,
+                after: updated,
+            });
 
             return c.json<HttpResponseJsonBody<TemplateAssetListItem>>({
                 code: ErrorCode.SUCCESS,
@@ -484,6 +505,12 @@ app.post("/upload/db", async (c) => {
             )
             .bind(result.meta.last_row_id)
             .first<TemplateAssetListItem>();
+        await recordAudit(c, {
+            action: "template_asset.upload",
+            entityType: "template_asset",
+            entityId: result.meta.last_row_id,
+            after: newAsset,
+        });
 
         return c.json<HttpResponseJsonBody<TemplateAssetListItem>>(
             { code: ErrorCode.SUCCESS, message: "资源上传成功", data: newAsset! },
@@ -503,7 +530,7 @@ app.post("/upload/db", async (c) => {
  * 直接上传文件到 R2（< 50MB）
  * FormData: file, prefix, filename?, is_public?, alt_text?
  */
-app.post("/upload/r2", async (c) => {
+app.post("/upload/r2", requireScope("assets", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const bucket = c.env.R2_BUCKET;
@@ -551,10 +578,12 @@ app.post("/upload/r2", async (c) => {
         // 检查是否已存在
         const existing = await db
             .prepare(
-                `SELECT id FROM template_assets WHERE asset_prefix = ? AND filename = ?`
+                `SELECT id, asset_prefix, filename, content_type, size, checksum,
+                        storage_type, r2_key, is_public, alt_text, created_at, updated_at
+                 FROM template_assets WHERE asset_prefix = ? AND filename = ?`
             )
             .bind(prefix, filename)
-            .first<{ id: number }>();
+            .first<TemplateAssetListItem>();
 
         if (existing) {
             await db
@@ -584,6 +613,13 @@ app.post("/upload/r2", async (c) => {
                 )
                 .bind(existing.id)
                 .first<TemplateAssetListItem>();
+            await recordAudit(c, {
+                action: "template_asset.upload",
+                entityType: "template_asset",
+                entityId: existing.id,
+                before: existing,
+                after: updated,
+            });
 
             return c.json<HttpResponseJsonBody<TemplateAssetListItem>>({
                 code: ErrorCode.SUCCESS,
@@ -621,6 +657,12 @@ app.post("/upload/r2", async (c) => {
             )
             .bind(result.meta.last_row_id)
             .first<TemplateAssetListItem>();
+        await recordAudit(c, {
+            action: "template_asset.upload",
+            entityType: "template_asset",
+            entityId: result.meta.last_row_id,
+            after: newAsset,
+        });
 
         return c.json<HttpResponseJsonBody<TemplateAssetListItem>>(
             { code: ErrorCode.SUCCESS, message: "资源上传成功", data: newAsset! },
@@ -640,7 +682,7 @@ app.post("/upload/r2", async (c) => {
  * 创建分片上传会话
  * Body JSON: { prefix, filename, content_type? }
  */
-app.post("/upload/r2/multipart/create", async (c) => {
+app.post("/upload/r2/multipart/create", requireScope("assets", "rw"), requireAdmin, async (c) => {
     try {
         const bucket = c.env.R2_BUCKET;
 
@@ -705,7 +747,7 @@ app.post("/upload/r2/multipart/create", async (c) => {
  * Query: r2Key, uploadId, partNumber
  * Body: 二进制分片数据（raw body）
  */
-app.post("/upload/r2/multipart/part", async (c) => {
+app.post("/upload/r2/multipart/part", requireScope("assets", "rw"), requireAdmin, async (c) => {
     try {
         const bucket = c.env.R2_BUCKET;
 
@@ -764,7 +806,7 @@ app.post("/upload/r2/multipart/part", async (c) => {
  * 完成分片上传并写入数据库记录
  * Body JSON: { prefix, filename, r2Key, uploadId, parts: [{partNumber, etag}], size, is_public?, alt_text? }
  */
-app.post("/upload/r2/multipart/complete", async (c) => {
+app.post("/upload/r2/multipart/complete", requireScope("assets", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const bucket = c.env.R2_BUCKET;
@@ -819,10 +861,12 @@ app.post("/upload/r2/multipart/complete", async (c) => {
         // 写入/更新数据库记录
         const existing = await db
             .prepare(
-                `SELECT id FROM template_assets WHERE asset_prefix = ? AND filename = ?`
+                `SELECT id, asset_prefix, filename, content_type, size, checksum,
+                        storage_type, r2_key, is_public, alt_text, created_at, updated_at
+                 FROM template_assets WHERE asset_prefix = ? AND filename = ?`
             )
             .bind(body.prefix, filename)
-            .first<{ id: number }>();
+            .first<TemplateAssetListItem>();
 
         if (existing) {
             await db
@@ -852,6 +896,13 @@ app.post("/upload/r2/multipart/complete", async (c) => {
                 )
                 .bind(existing.id)
                 .first<TemplateAssetListItem>();
+            await recordAudit(c, {
+                action: "template_asset.upload",
+                entityType: "template_asset",
+                entityId: existing.id,
+                before: existing,
+                after: updated,
+            });
 
             return c.json<HttpResponseJsonBody<TemplateAssetListItem>>({
                 code: ErrorCode.SUCCESS,
@@ -889,6 +940,12 @@ app.post("/upload/r2/multipart/complete", async (c) => {
             )
             .bind(result.meta.last_row_id)
             .first<TemplateAssetListItem>();
+        await recordAudit(c, {
+            action: "template_asset.upload",
+            entityType: "template_asset",
+            entityId: result.meta.last_row_id,
+            after: newAsset,
+        });
 
         return c.json<HttpResponseJsonBody<TemplateAssetListItem>>(
             {
@@ -912,7 +969,7 @@ app.post("/upload/r2/multipart/complete", async (c) => {
  * 取消分片上传
  * Body JSON: { r2Key, uploadId }
  */
-app.post("/upload/r2/multipart/abort", async (c) => {
+app.post("/upload/r2/multipart/abort", requireScope("assets", "rw"), requireAdmin, async (c) => {
     try {
         const bucket = c.env.R2_BUCKET;
 
@@ -959,7 +1016,7 @@ app.post("/upload/r2/multipart/abort", async (c) => {
  * 更新资源元信息（不含文件内容）
  * Body JSON: { filename?, is_public?, alt_text?, content_type? }
  */
-app.put("/update/:id", async (c) => {
+app.put("/update/:id", requireScope("assets", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param("id"));
@@ -1083,6 +1140,13 @@ app.put("/update/:id", async (c) => {
             )
             .bind(id)
             .first<TemplateAssetListItem>();
+        await recordAudit(c, {
+            action: "template_asset.update",
+            entityType: "template_asset",
+            entityId: id,
+            before: existing,
+            after: updated,
+        });
 
         return c.json<HttpResponseJsonBody<TemplateAssetListItem>>({
             code: ErrorCode.SUCCESS,
@@ -1102,7 +1166,7 @@ app.put("/update/:id", async (c) => {
  * DELETE /delete/:id
  * 删除单个资源（同时删除 R2 文件）
  */
-app.delete("/delete/:id", async (c) => {
+app.delete("/delete/:id", requireScope("assets", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param("id"));
@@ -1116,10 +1180,12 @@ app.delete("/delete/:id", async (c) => {
 
         const existing = await db
             .prepare(
-                `SELECT id, storage_type, r2_key FROM template_assets WHERE id = ?`
+                `SELECT id, asset_prefix, filename, content_type, size, checksum,
+                        storage_type, r2_key, is_public, alt_text, created_at, updated_at
+                 FROM template_assets WHERE id = ?`
             )
             .bind(id)
-            .first<{ id: number; storage_type: number; r2_key: string | null }>();
+            .first<TemplateAssetListItem>();
 
         if (!existing) {
             return c.json<HttpResponseJsonBody>(
@@ -1137,6 +1203,12 @@ app.delete("/delete/:id", async (c) => {
             .prepare(`DELETE FROM template_assets WHERE id = ?`)
             .bind(id)
             .run();
+        await recordAudit(c, {
+            action: "template_asset.delete",
+            entityType: "template_asset",
+            entityId: id,
+            before: existing,
+        });
 
         return c.json<HttpResponseJsonBody>({
             code: ErrorCode.SUCCESS,
@@ -1156,7 +1228,7 @@ app.delete("/delete/:id", async (c) => {
  * 批量删除资源
  * Body JSON: { ids: number[] }
  */
-app.delete("/delete-batch", async (c) => {
+app.delete("/delete-batch", requireScope("assets", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const body = await c.req.json<{ ids: number[] }>();
@@ -1172,10 +1244,12 @@ app.delete("/delete-batch", async (c) => {
         const placeholders = body.ids.map(() => "?").join(",");
         const assets = await db
             .prepare(
-                `SELECT id, storage_type, r2_key FROM template_assets WHERE id IN (${placeholders})`
+                `SELECT id, asset_prefix, filename, content_type, size, checksum,
+                        storage_type, r2_key, is_public, alt_text, created_at, updated_at
+                 FROM template_assets WHERE id IN (${placeholders})`
             )
             .bind(...body.ids)
-            .all<{ id: number; storage_type: number; r2_key: string | null }>();
+            .all<TemplateAssetListItem>();
 
         // 删除 R2 对象
         const r2Keys = assets.results
@@ -1193,6 +1267,15 @@ app.delete("/delete-batch", async (c) => {
             )
             .bind(...body.ids)
             .run();
+        await recordAudit(
+            c,
+            assets.results.map((asset) => ({
+                action: "template_asset.delete",
+                entityType: "template_asset" as const,
+                entityId: asset.id,
+                before: asset,
+            }))
+        );
 
         return c.json<HttpResponseJsonBody>({
             code: ErrorCode.SUCCESS,
@@ -1216,7 +1299,7 @@ app.delete("/delete-batch", async (c) => {
  * GET /prefixes
  * 获取所有不重复的 asset_prefix 列表
  */
-app.get("/prefixes", async (c) => {
+app.get("/prefixes", requireScope("assets", "r"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
 
@@ -1245,7 +1328,7 @@ app.get("/prefixes", async (c) => {
     }
 });
 
-app.delete("/delete-by-prefix", async (c) => {
+app.delete("/delete-by-prefix", requireScope("assets", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const body = await c.req.json<{ prefix: string }>();
@@ -1257,17 +1340,20 @@ app.delete("/delete-by-prefix", async (c) => {
             );
         }
 
-        // 查询所有要删除的 R2 资源
+        // 查询所有要删除的资源（审计日志需要完整的元信息）
         const assets = await db
             .prepare(
-                `SELECT id, storage_type, r2_key FROM template_assets
-                 WHERE asset_prefix = ? AND storage_type = 1 AND r2_key IS NOT NULL`
+                `SELECT id, asset_prefix, filename, content_type, size, checksum,
+                        storage_type, r2_key, is_public, alt_text, created_at, updated_at
+                 FROM template_assets WHERE asset_prefix = ?`
             )
             .bind(body.prefix)
-            .all<{ id: number; storage_type: number; r2_key: string }>();
+            .all<TemplateAssetListItem>();
 
         // 批量删除 R2 对象
-        const r2Keys = assets.results.map((a) => a.r2_key);
+        const r2Keys = assets.results
+            .filter((a) => a.storage_type === 1 && a.r2_key)
+            .map((a) => a.r2_key!);
         if (r2Keys.length > 0 && c.env.R2_BUCKET) {
             await c.env.R2_BUCKET.delete(r2Keys);
         }
@@ -1277,6 +1363,15 @@ app.delete("/delete-by-prefix", async (c) => {
             .prepare(`DELETE FROM template_assets WHERE asset_prefix = ?`)
             .bind(body.prefix)
             .run();
+        await recordAudit(
+            c,
+            assets.results.map((asset) => ({
+                action: "template_asset.delete",
+                entityType: "template_asset" as const,
+                entityId: asset.id,
+                before: asset,
+            }))
+        );
 
         return c.json<HttpResponseJsonBody>({
             code: ErrorCode.SUCCESS,
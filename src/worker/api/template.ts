@@ -1,5 +1,9 @@
 import { Hono } from "hono";
 import { ErrorCode, HttpResponseJsonBody, Variables } from "../util";
+import { requireScope } from "../scopes";
+import { requireAdmin } from "../rbac";
+import { invalidateTemplates } from "../link-cache";
+import { AuditEntry, recordAudit } from "../audit-log";
 
 // ============ 类型定义 ============
 
@@ -73,7 +77,7 @@ function generateAssetPrefix(): string {
  * 获取模板列表（分页）
  * query: page, pageSize, name (模糊搜索), type, is_active
  */
-app.get("/list", async (c) => {
+app.get("/list", requireScope("templates", "r"), async (c) => {
     try {
         const db = c.env.shorturl;
 
@@ -146,7 +150,7 @@ app.get("/list", async (c) => {
  * GET /detail/:id
  * 获取单个模板详情（包含 html_content）
  */
-app.get("/detail/:id", async (c) => {
+app.get("/detail/:id", requireScope("templates", "r"), async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param("id"));
@@ -192,7 +196,7 @@ app.get("/detail/:id", async (c) => {
  * POST /create
  * 创建模板
  */
-app.post("/create", async (c) => {
+app.post("/create", requireScope("templates", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const body = await c.req.json<CreateTemplateRequest>();
@@ -258,6 +262,12 @@ app.post("/create", async (c) => {
             )
             .bind(result.meta.last_row_id)
             .first<RedirectTemplateDetail>();
+        await recordAudit(c, {
+            action: "template.create",
+            entityType: "template",
+            entityId: result.meta.last_row_id,
+            after: newTemplate,
+        });
 
         return c.json<HttpResponseJsonBody<RedirectTemplateDetail>>(
             { code: ErrorCode.SUCCESS, message: "模板创建成功", data: newTemplate! },
@@ -276,7 +286,7 @@ app.post("/create", async (c) => {
  * PUT /update/:id
  * 更新模板
  */
-app.put("/update/:id", async (c) => {
+app.put("/update/:id", requireScope("templates", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param("id"));
@@ -364,6 +374,7 @@ app.put("/update/:id", async (c) => {
             )
             .bind(...params)
             .run();
+        await invalidateTemplates(c.env, [id]);
 
         const updated = await db
             .prepare(
@@ -373,6 +384,13 @@ app.put("/update/:id", async (c) => {
             )
             .bind(id)
             .first<RedirectTemplateDetail>();
+        await recordAudit(c, {
+            action: "template.update",
+            entityType: "template",
+            entityId: id,
+            before: existing,
+            after: updated,
+        });
 
         return c.json<HttpResponseJsonBody<RedirectTemplateDetail>>({
             code: ErrorCode.SUCCESS,
@@ -393,7 +411,7 @@ app.put("/update/:id", async (c) => {
  * 删除模板
  * 会检查是否有域名或短链接在引用此模板
  */
-app.delete("/delete/:id", async (c) => {
+app.delete("/delete/:id", requireScope("templates", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param("id"));
@@ -457,6 +475,10 @@ app.delete("/delete/:id", async (c) => {
             );
         }
 
+        const auditEntries: AuditEntry[] = [
+            { action: "template.delete", entityType: "template", entityId: id, before: existing },
+        ];
+
         // 如果模板有 asset_prefix，检查是否有其他模板也在使用同一前缀
         if (existing.asset_prefix) {
             const otherTemplatesUsingPrefix = await db
@@ -469,6 +491,24 @@ app.delete("/delete/:id", async (c) => {
 
             // 如果没有其他模板使用此前缀，清理关联的资源文件
             if (!otherTemplatesUsingPrefix || otherTemplatesUsingPrefix.count === 0) {
+                // 一并删除的资源也记录到审计日志
+                const assets = await db
+                    .prepare(
+                        `SELECT id, asset_prefix, filename, content_type, size, checksum,
+                                storage_type, r2_key, is_public, alt_text, created_at, updated_at
+                         FROM template_assets WHERE asset_prefix = ?`
+                    )
+                    .bind(existing.asset_prefix)
+                    .all<{ id: number }>();
+                for (const asset of assets.results) {
+                    auditEntries.push({
+                        action: "template_asset.delete",
+                        entityType: "template_asset",
+                        entityId: asset.id,
+                        before: asset,
+                    });
+                }
+
                 // 获取 R2 存储的资源，需要从 R2 删除
                 const r2Assets = await db
                     .prepare(
@@ -502,6 +542,8 @@ app.delete("/delete/:id", async (c) => {
             .prepare(`DELETE FROM redirect_templates WHERE id = ?`)
             .bind(id)
             .run();
+        await invalidateTemplates(c.env, [id]);
+        await recordAudit(c, auditEntries);
 
         return c.json<HttpResponseJsonBody>({
             code: ErrorCode.SUCCESS,
@@ -520,7 +562,7 @@ app.delete("/delete/:id", async (c) => {
  * POST /toggle-active/:id
  * 切换模板的启用/禁用状态
  */
-app.post("/toggle-active/:id", async (c) => {
+app.post("/toggle-active/:id", requireScope("templates", "rw"), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param("id"));
@@ -553,6 +595,14 @@ app.post("/toggle-active/:id", async (c) => {
             )
             .bind(newActive, now, id)
             .run();
+        await invalidateTemplates(c.env, [id]);
+        await recordAudit(c, {
+            action: "template.toggle",
+            entityType: "template",
+            entityId: id,
+            before: { is_active: existing.is_active },
+            after: { is_active: newActive },
+        });
 
         return c.json<HttpResponseJsonBody<{ is_active: number }>>({
             code: ErrorCode.SUCCESS,
@@ -573,7 +623,7 @@ app.post("/toggle-active/:id", async (c) => {
  * 获取模板下拉选项列表（用于域名/短链接关联模板时的选择器）
  * query: type (可选，按模板类型过滤)
  */
-app.get("/select-options", async (c) => {
+app.get("/select-options", requireScope("templates", "r"), async (c) => {
     try {
         const db = c.env.shorturl;
         const typeFilter = c.req.query("type");
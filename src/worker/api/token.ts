@@ -0,0 +1,244 @@
+import { Hono } from "hono";
+import { ErrorCode, HttpResponseJsonBody, Variables } from "../util";
+import { generateApiToken, hashApiToken } from "../auth";
+import { parseScopes, SCOPE_RESOURCES } from "../scopes";
+
+// ============ 类型定义 ============
+
+/** 返回给前端的 token 信息，不包含 token_hash */
+interface ApiToken {
+    id: number;
+    user_id: number;
+    name: string | null;
+    scopes: string | null;
+    status: number;
+    last_used_at: number | null;
+    expires_at: number | null;
+    created_at: number;
+}
+
+interface CreateApiTokenRequest {
+    name?: string;
+    scopes?: string | null;
+    expires_at?: number | null;
+}
+
+const TOKEN_COLUMNS = 'id, user_id, name, scopes, status, last_used_at, expires_at, created_at';
+
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// 管理 token 需要账号密码登录，防止泄露的 API token 自我续期
+app.use('*', async (c, next) => {
+    const currentUser = c.get('currentUser');
+    if (currentUser.apiTokenId !== undefined) {
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.FORBIDDEN,
+            message: 'API token 不能用于管理 API token'
+        };
+        return c.json(response, 403);
+    }
+    await next();
+});
+
+/**
+ * GET /list
+ * 当前用户的 API token 列表
+ */
+app.get('/list', async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const currentUser = c.get('currentUser');
+
+        const result = await db.prepare(`
+            SELECT ${TOKEN_COLUMNS}
+            FROM api_tokens
+            WHERE user_id = ?
+            ORDER BY created_at DESC
+        `).bind(currentUser.id).all<ApiToken>();
+
+        const response: HttpResponseJsonBody<ApiToken[]> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: result.results || []
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询 API token 列表失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询 API token 列表失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * POST /create
+ * 创建 API token，明文只在本次响应中返回
+ * body: { name, scopes?, expires_at? }
+ */
+app.post('/create', async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const currentUser = c.get('currentUser');
+        const body = await c.req.json<CreateApiTokenRequest>();
+
+        const name = body.name?.trim() || '';
+        if (!name) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '名称不能为空'
+            };
+            return c.json(response, 400);
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const expiresAt = body.expires_at ?? null;
+        if (expiresAt !== null && (typeof expiresAt !== 'number' || expiresAt <= now)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '过期时间必须晚于当前时间'
+            };
+            return c.json(response, 400);
+        }
+
+        // scopes 为空表示拥有该用户的全部权限
+        const scopes = body.scopes?.trim() ? parseScopes(body.scopes) : [];
+        if (scopes === null) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: `scopes 格式无效，应为逗号分隔的 资源:r 或 资源:rw，可用资源: ${SCOPE_RESOURCES.join(', ')}`
+            };
+            return c.json(response, 400);
+        }
+
+        const token = generateApiToken();
+        const result = await db.prepare(`
+            INSERT INTO api_tokens (user_id, name, token_hash, scopes, status, expires_at, created_at)
+            VALUES (?, ?, ?, ?, 0, ?, ?)
+        `).bind(
+            currentUser.id,
+            name,
+            await hashApiToken(token),
+            scopes.length > 0 ? scopes.join(',') : null,
+            expiresAt,
+            now
+        ).run();
+
+        const created = await db.prepare(`
+            SELECT ${TOKEN_COLUMNS} FROM api_tokens WHERE id = ?
+        `).bind(result.meta.last_row_id).first<ApiToken>();
+
+        const response: HttpResponseJsonBody<{ token: string; api_token: ApiToken | null }> = {
+            code: ErrorCode.SUCCESS,
+            message: 'API token 创建成功，请立即保存，之后将无法再次查看',
+            data: { token, api_token: created }
+        };
+        return c.json(response, 201);
+    } catch (error) {
+        console.error('创建 API token 失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '创建 API token 失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * PUT /toggle-status/:id
+ * 启用/禁用 API token
+ */
+app.put('/toggle-status/:id', async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const currentUser = c.get('currentUser');
+        const id = parseInt(c.req.param('id'));
+
+        if (isNaN(id)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的 token ID'
+            };
+            return c.json(response, 400);
+        }
+
+        const existing = await db.prepare(`
+            SELECT id, status FROM api_tokens WHERE id = ? AND user_id = ?
+        `).bind(id, currentUser.id).first<{ id: number; status: number }>();
+
+        if (!existing) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: 'API token 不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        const newStatus = existing.status === 0 ? 1 : 0;
+        await db.prepare(`
+            UPDATE api_tokens SET status = ? WHERE id = ?
+        `).bind(newStatus, id).run();
+
+        const response: HttpResponseJsonBody<{ status: number }> = {
+            code: ErrorCode.SUCCESS,
+            message: newStatus === 1 ? 'API token 已禁用' : 'API token 已启用',
+            data: { status: newStatus }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('切换 API token 状态失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '切换 API token 状态失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * DELETE /delete/:id
+ * 吊销（永久删除）API token
+ */
+app.delete('/delete/:id', async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const currentUser = c.get('currentUser');
+        const id = parseInt(c.req.param('id'));
+
+        if (isNaN(id)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的 token ID'
+            };
+            return c.json(response, 400);
+        }
+
+        const result = await db.prepare(`
+            DELETE FROM api_tokens WHERE id = ? AND user_id = ?
+        `).bind(id, currentUser.id).run();
+
+        if (!result.meta.changes) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: 'API token 不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.SUCCESS,
+            message: 'API token 已吊销'
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('吊销 API token 失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '吊销 API token 失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+export default app;
@@ -0,0 +1,310 @@
+import { Hono } from "hono";
+import { CurrentUser, ErrorCode, HttpResponseJsonBody, Variables } from "../util";
+import { isAdmin } from "../rbac";
+import { clearFailures, getLockout, recordFailure, twoFactorAttemptKeys } from "../attempt-limiter";
+import {
+    beginTotpSetup,
+    confirmTotpSetup,
+    countRecoveryCodes,
+    disableTwoFactor,
+    isAdminTwoFactorRequired,
+    loadTwoFactorUser,
+    replaceRecoveryCodes,
+    TwoFactorUser,
+    verifySecondFactor,
+} from "../two-factor";
+
+// ============ 类型定义 ============
+
+interface TwoFactorStatus {
+    enabled: boolean;
+    pending: boolean;                   // 已生成密钥但尚未确认
+    recovery_codes_remaining: number;
+    required: boolean;                  // 系统要求当前用户必须启用
+}
+
+interface SecondFactorRequest {
+    code?: string;
+    recovery_code?: string;
+}
+
+interface DisableTwoFactorRequest extends SecondFactorRequest {
+    password?: string;
+}
+
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
+
+// 两步验证只能由账号密码登录的用户自己管理，API token 不可用
+app.use('*', async (c, next) => {
+    const currentUser = c.get('currentUser');
+    if (currentUser.apiTokenId !== undefined) {
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.FORBIDDEN,
+            message: 'API token 不能用于管理两步验证'
+        };
+        return c.json(response, 403);
+    }
+    await next();
+});
+
+async function isRequiredFor(db: D1Database, user: CurrentUser): Promise<boolean> {
+    return isAdmin(user) && await isAdminTwoFactorRequired(db);
+}
+
+/**
+ * 校验第二因素（带失败次数限制），通过返回 null，否则返回错误响应体及状态码
+ */
+async function checkSecondFactor(
+    db: D1Database,
+    ip: string | null,
+    user: TwoFactorUser,
+    body: SecondFactorRequest
+): Promise<{ response: HttpResponseJsonBody; status: 400 | 429 } | null> {
+    const now = Math.floor(Date.now() / 1000);
+    const attemptKeys = twoFactorAttemptKeys(ip, user.id);
+    const lockedFor = await getLockout(db, attemptKeys, now);
+    if (lockedFor > 0) {
+        return {
+            response: { code: ErrorCode.TOO_MANY_ATTEMPTS, message: `失败次数过多，请 ${lockedFor} 秒后再试` },
+            status: 429
+        };
+    }
+
+    const ok = await verifySecondFactor(db, user, {
+        code: body.code ? String(body.code) : undefined,
+        recovery_code: body.recovery_code ? String(body.recovery_code) : undefined,
+    });
+    if (!ok) {
+        await recordFailure(db, attemptKeys, now);
+        return { response: { code: ErrorCode.DATA_INPUT_ERROR, message: '验证码错误' }, status: 400 };
+    }
+    await clearFailures(db, attemptKeys);
+    return null;
+}
+
+/**
+ * GET /status
+ * 当前用户的两步验证状态
+ */
+app.get('/status', async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const currentUser = c.get('currentUser');
+        const user = await loadTwoFactorUser(db, currentUser.id);
+        const enabled = user?.totp_enabled === 1;
+
+        const response: HttpResponseJsonBody<TwoFactorStatus> = {
+            code: ErrorCode.SUCCESS,
+            message: '查询成功',
+            data: {
+                enabled,
+                pending: !enabled && !!user?.totp_secret,
+                recovery_codes_remaining: enabled ? await countRecoveryCodes(db, currentUser.id) : 0,
+                required: await isRequiredFor(db, currentUser),
+            }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('查询两步验证状态失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '查询两步验证状态失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * POST /setup
+ * 生成新的待绑定密钥，返回密钥及 otpauth:// URI（用于生成二维码）
+ */
+app.post('/setup', async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const currentUser = c.get('currentUser');
+        const user = await loadTwoFactorUser(db, currentUser.id);
+
+        if (user?.totp_enabled === 1) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '两步验证已启用，如需更换请先关闭'
+            };
+            return c.json(response, 400);
+        }
+
+        const response: HttpResponseJsonBody<{ secret: string; otpauth_uri: string }> = {
+            code: ErrorCode.SUCCESS,
+            message: '请使用认证器 App 扫描二维码后输入验证码完成绑定',
+            data: await beginTotpSetup(db, currentUser.id, currentUser.username || String(currentUser.id))
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('生成两步验证密钥失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '生成两步验证密钥失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * POST /enable
+ * 用验证码确认绑定并启用，返回恢复码（只显示一次）
+ * body: { code }
+ */
+app.post('/enable', async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const currentUser = c.get('currentUser');
+        const body = await c.req.json<SecondFactorRequest>();
+        const user = await loadTwoFactorUser(db, currentUser.id);
+
+        if (!user?.totp_secret || user.totp_enabled === 1) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: user?.totp_enabled === 1 ? '两步验证已启用' : '请先生成密钥'
+            };
+            return c.json(response, 400);
+        }
+
+        const recoveryCodes = body.code ? await confirmTotpSetup(db, user, String(body.code)) : null;
+        if (!recoveryCodes) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '验证码错误'
+            };
+            return c.json(response, 400);
+        }
+
+        const response: HttpResponseJsonBody<{ recovery_codes: string[] }> = {
+            code: ErrorCode.SUCCESS,
+            message: '两步验证已启用，请妥善保存恢复码',
+            data: { recovery_codes: recoveryCodes }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('启用两步验证失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '启用两步验证失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * POST /recovery-codes
+ * 重新生成恢复码（旧恢复码作废）
+ * body: { code }
+ */
+app.post('/recovery-codes', async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const currentUser = c.get('currentUser');
+        const body = await c.req.json<SecondFactorRequest>();
+        const user = await loadTwoFactorUser(db, currentUser.id);
+
+        if (!user || user.totp_enabled !== 1) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '两步验证未启用'
+            };
+            return c.json(response, 400);
+        }
+
+        // 只接受 TOTP 验证码，避免用恢复码换取新的恢复码
+        const failed = await checkSecondFactor(db, c.req.header('cf-connecting-ip') || null, user, { code: body.code });
+        if (failed) {
+            return c.json(failed.response, failed.status);
+        }
+
+        const response: HttpResponseJsonBody<{ recovery_codes: string[] }> = {
+            code: ErrorCode.SUCCESS,
+            message: '恢复码已重新生成，请妥善保存',
+            data: { recovery_codes: await replaceRecoveryCodes(db, user.id) }
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('重新生成恢复码失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '重新生成恢复码失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+/**
+ * POST /disable
+ * 关闭两步验证，需要当前密码及验证码或恢复码
+ * body: { password, code? , recovery_code? }
+ */
+app.post('/disable', async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const currentUser = c.get('currentUser');
+        const body = await c.req.json<DisableTwoFactorRequest>();
+
+        if (await isRequiredFor(db, currentUser)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.FORBIDDEN,
+                message: '系统要求管理员启用两步验证，无法关闭'
+            };
+            return c.json(response, 403);
+        }
+
+        const user = await loadTwoFactorUser(db, currentUser.id);
+        if (!user || user.totp_enabled !== 1) {
+            // 只有待确认的密钥时直接清除
+            await disableTwoFactor(db, currentUser.id);
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.SUCCESS,
+                message: '两步验证已关闭'
+            };
+            return c.json(response);
+        }
+
+        const row = await db.prepare(`
+            SELECT password_hash FROM users WHERE id = ?
+        `).bind(currentUser.id).first<{ password_hash: string | null }>();
+
+        const { compareSync } = await import('bcryptjs');
+        let passwordCorrect = false;
+        try {
+            passwordCorrect = !!body.password && compareSync(body.password, row?.password_hash ?? '');
+        } catch {
+            passwordCorrect = false;
+        }
+
+        if (!passwordCorrect) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '密码错误'
+            };
+            return c.json(response, 400);
+        }
+
+        const failed = await checkSecondFactor(db, c.req.header('cf-connecting-ip') || null, user, body);
+        if (failed) {
+            return c.json(failed.response, failed.status);
+        }
+
+        await disableTwoFactor(db, currentUser.id);
+
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.SUCCESS,
+            message: '两步验证已关闭'
+        };
+        return c.json(response);
+    } catch (error) {
+        console.error('关闭两步验证失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '关闭两步验证失败'
+        };
+        return c.json(response, 500);
+    }
+});
+
+export default app;
@@ -1,6 +1,11 @@
 
 import {Hono} from "hono";
 import {ErrorCode, HttpResponseJsonBody, Variables,CurrentUser} from "../util";
+import {requireScope} from "../scopes";
+import {isRole, requireAdmin} from "../rbac";
+import {disableTwoFactor} from "../two-factor";
+import {revokeUserSessions} from "../sessions";
+import {recordAudit} from "../audit-log";
 
 // 定义类型
 interface User {
@@ -10,6 +15,7 @@ interface User {
     role: string;
     status: number;
     deleted_at: number | null;
+    totp_enabled: number;
     created_at: number;
     updated_at: number;
 }
@@ -45,7 +51,7 @@ type DBParam = string | number | null;
 const app = new Hono<{Variables: Variables ; Bindings: Env }>()
 
 // 获取用户列表
-app.get('/list', async (c) => {
+app.get('/list', requireScope('users', 'r'), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
 
@@ -70,6 +76,7 @@ app.get('/list', async (c) => {
                 role,
                 status,
                 deleted_at,
+                totp_enabled,
                 created_at,
                 updated_at
             FROM users
@@ -104,7 +111,7 @@ app.get('/list', async (c) => {
 })
 
 // 创建用户
-app.post('/create', async (c) => {
+app.post('/create', requireScope('users', 'rw'), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const body = await c.req.json<CreateUserRequest>();
@@ -126,6 +133,14 @@ app.post('/create', async (c) => {
             return c.json(response, 400);
         }
 
+        if (body.role !== undefined && !isRole(body.role)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的角色'
+            };
+            return c.json(response, 400);
+        }
+
         // 检查邮箱是否已存在
         if (body.email) {
             const existingEmail = await db.prepare(`
@@ -185,9 +200,15 @@ app.post('/create', async (c) => {
 
         // 查询新创建的用户（不返回密码哈希）
         const newUser = await db.prepare(`
-            SELECT id, email, username, role, status, deleted_at, created_at, updated_at 
+            SELECT id, email, username, role, status, deleted_at, totp_enabled, created_at, updated_at 
             FROM users WHERE id = ?
         `).bind(result.meta.last_row_id).first<User>();
+        await recordAudit(c, {
+            action: 'user.create',
+            entityType: 'user',
+            entityId: result.meta.last_row_id,
+            after: newUser
+        });
 
         const response: HttpResponseJsonBody<User> = {
             code: ErrorCode.SUCCESS,
@@ -207,7 +228,7 @@ app.post('/create', async (c) => {
 })
 
 // 更新用户
-app.put('/update/:id', async (c) => {
+app.put('/update/:id', requireScope('users', 'rw'), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param('id'));
@@ -221,6 +242,14 @@ app.put('/update/:id', async (c) => {
             return c.json(response, 400);
         }
 
+        if (body.role !== undefined && !isRole(body.role)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的角色'
+            };
+            return c.json(response, 400);
+        }
+
         // 检查用户是否存在
         const existing = await db.prepare(`
             SELECT * FROM users WHERE id = ? AND deleted_at IS NULL
@@ -301,11 +330,24 @@ app.put('/update/:id', async (c) => {
             UPDATE users SET ${updates.join(', ')} WHERE id = ?
         `).bind(...params).run();
 
+        // 重置密码或禁用账号时强制下线该用户的所有会话
+        if (body.password || (body.status !== undefined && body.status !== 0)) {
+            await revokeUserSessions(db, id);
+        }
+
         // 查询更新后的数据（不返回密码哈希）
         const updated = await db.prepare(`
-            SELECT id, email, username, role, status, deleted_at, created_at, updated_at 
+            SELECT id, email, username, role, status, deleted_at, totp_enabled, created_at, updated_at 
             FROM users WHERE id = ?
         `).bind(id).first<User>();
+        // 快照不含密码哈希，重置密码单独标记
+        await recordAudit(c, {
+            action: 'user.update',
+            entityType: 'user',
+            entityId: id,
+            before: existing,
+            after: updated && body.password ? { ...updated, password_changed: true } : updated
+        });
 
         const response: HttpResponseJsonBody<User> = {
             code: ErrorCode.SUCCESS,
@@ -325,7 +367,7 @@ app.put('/update/:id', async (c) => {
 })
 
 // 删除用户（软删除）
-app.delete('/delete/:id', async (c) => {
+app.delete('/delete/:id', requireScope('users', 'rw'), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param('id'));
@@ -357,6 +399,14 @@ app.delete('/delete/:id', async (c) => {
         await db.prepare(`
             UPDATE users SET deleted_at = ? WHERE id = ?
         `).bind(now, id).run();
+        await revokeUserSessions(db, id);
+        await recordAudit(c, {
+            action: 'user.delete',
+            entityType: 'user',
+            entityId: id,
+            before: existing,
+            after: { ...existing, deleted_at: now }
+        });
 
         const response: HttpResponseJsonBody = {
             code: ErrorCode.SUCCESS,
@@ -374,8 +424,108 @@ app.delete('/delete/:id', async (c) => {
     }
 })
 
+// 重置用户的两步验证（用户丢失认证器且没有恢复码时由管理员操作）
+app.put('/reset-2fa/:id', requireScope('users', 'rw'), requireAdmin, async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const id = parseInt(c.req.param('id'));
+
+        if (isNaN(id)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的用户 ID'
+            };
+            return c.json(response, 400);
+        }
+
+        const existing = await db.prepare(`
+            SELECT id FROM users WHERE id = ? AND deleted_at IS NULL
+        `).bind(id).first();
+
+        if (!existing) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '用户不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        await disableTwoFactor(db, id);
+        await recordAudit(c, {
+            action: 'user.reset_2fa',
+            entityType: 'user',
+            entityId: id
+        });
+
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.SUCCESS,
+            message: '两步验证已重置'
+        };
+
+        return c.json(response);
+    } catch (error) {
+        console.error('重置两步验证失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '重置两步验证失败'
+        };
+        return c.json(response, 500);
+    }
+})
+
+// 强制下线用户（作废其全部登录会话，API token 不受影响）
+app.put('/revoke-sessions/:id', requireScope('users', 'rw'), requireAdmin, async (c) => {
+    try {
+        const db = c.env.shorturl;
+        const id = parseInt(c.req.param('id'));
+
+        if (isNaN(id)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '无效的用户 ID'
+            };
+            return c.json(response, 400);
+        }
+
+        const existing = await db.prepare(`
+            SELECT id FROM users WHERE id = ? AND deleted_at IS NULL
+        `).bind(id).first();
+
+        if (!existing) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.DATA_INPUT_ERROR,
+                message: '用户不存在'
+            };
+            return c.json(response, 404);
+        }
+
+        const revoked = await revokeUserSessions(db, id);
+        await recordAudit(c, {
+            action: 'user.revoke_sessions',
+            entityType: 'user',
+            entityId: id,
+            after: { revoked_sessions: revoked }
+        });
+
+        const response: HttpResponseJsonBody<{ revoked: number }> = {
+            code: ErrorCode.SUCCESS,
+            message: `已强制下线 ${revoked} 个会话`,
+            data: { revoked }
+        };
+
+        return c.json(response);
+    } catch (error) {
+        console.error('强制下线用户失败:', error);
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.UNKNOWN_ERROR,
+            message: '强制下线用户失败'
+        };
+        return c.json(response, 500);
+    }
+})
+
 // 获取单个用户详情
-app.get('/detail/:id', async (c) => {
+app.get('/detail/:id', requireScope('users', 'r'), requireAdmin, async (c) => {
     try {
         const db = c.env.shorturl;
         const id = parseInt(c.req.param('id'));
@@ -389,7 +539,7 @@ app.get('/detail/:id', async (c) => {
         }
 
         const user = await db.prepare(`
-            SELECT id, email, username, role, status, deleted_at, created_at, updated_at 
+            SELECT id, email, username, role, status, deleted_at, totp_enabled, created_at, updated_at 
             FROM users WHERE id = ? AND deleted_at IS NULL
         `).bind(id).first<User>();
 
@@ -419,7 +569,7 @@ app.get('/detail/:id', async (c) => {
 })
 
 // 获取当前用户信息
-app.get('/me', async (c) => {
+app.get('/me', requireScope('users', 'r'), async (c) => {
     try {
         const db = c.env.shorturl;
         // 直接从上下文获取当前用户信息
@@ -427,7 +577,7 @@ app.get('/me', async (c) => {
         const userId = currentUser.id;
 
         const user = await db.prepare(`
-            SELECT id, email, username, role, status, deleted_at, created_at, updated_at 
+            SELECT id, email, username, role, status, deleted_at, totp_enabled, created_at, updated_at 
             FROM users WHERE id = ? AND deleted_at IS NULL
         `).bind(userId).first<User>();
 
@@ -457,7 +607,7 @@ app.get('/me', async (c) => {
 })
 
 // 修改当前用户信息(不包括密码)
-app.put('/me', async (c) => {
+app.put('/me', requireScope('users', 'rw'), async (c) => {
     try {
         const db = c.env.shorturl;
         // 直接从上下文获取当前用户信息
@@ -523,7 +673,7 @@ app.put('/me', async (c) => {
 
         // 查询更新后的数据
         const updated = await db.prepare(`
-            SELECT id, email, username, role, status, deleted_at, created_at, updated_at 
+            SELECT id, email, username, role, status, deleted_at, totp_enabled, created_at, updated_at 
             FROM users WHERE id = ?
         `).bind(userId).first<User>();
 
@@ -545,7 +695,7 @@ app.put('/me', async (c) => {
 })
 
 // 修改当前用户密码(需验证旧密码)
-app.put('/me/password', async (c) => {
+app.put('/me/password', requireScope('users', 'rw'), async (c) => {
     try {
         const db = c.env.shorturl;
         // 直接从上下文获取当前用户信息
@@ -624,10 +774,11 @@ app.put('/me/password', async (c) => {
         const newPasswordHash = hashSync(body.newPassword, 10);
         const now = Math.floor(Date.now() / 1000);
 
-        // 更新密码
+        // 更新密码，并作废所有会话（包括当前会话），需要重新登录
         await db.prepare(`
             UPDATE users SET password_hash = ?, updated_at = ? WHERE id = ?
         `).bind(newPasswordHash, now, userId).run();
+        await revokeUserSessions(db, userId);
 
         const response: HttpResponseJsonBody = {
             code: ErrorCode.SUCCESS,
@@ -0,0 +1,112 @@
+/**
+ * 登录与短链接密码的暴力破解防护（D1 计数）
+ * 每个 key 允许若干次免费失败，之后每次失败都会锁定一段时间，时长按 2 的幂递增直到上限；
+ * 验证成功或长时间没有失败后计数清零
+ */
+
+interface AttemptPolicy {
+    freeAttempts: number;   // 开始锁定前允许的连续失败次数
+    baseLockout: number;    // 首次锁定时长（秒）
+    maxLockout: number;     // 锁定时长上限（秒）
+    resetAfter: number;     // 超过该时长没有失败则计数清零（秒）
+}
+
+// 按来源 IP 计数：同一 IP 尝试多个账号/短链接
+const IP_POLICY: AttemptPolicy = { freeAttempts: 5, baseLockout: 30, maxLockout: 60 * 60, resetAfter: 24 * 60 * 60 };
+// 按目标（账号/短链接）计数：分布式猜测同一目标，阈值放宽以降低被恶意锁定的影响
+const TARGET_POLICY: AttemptPolicy = { freeAttempts: 10, baseLockout: 60, maxLockout: 60 * 60, resetAfter: 24 * 60 * 60 };
+
+interface AttemptKey {
+    key: string;
+    policy: AttemptPolicy;
+}
+
+const loginAttemptKeys = (ip: string | null, username: string): AttemptKey[] => [
+    ...(ip ? [{ key: `login-ip:${ip}`, policy: IP_POLICY }] : []),
+    { key: `login-user:${username.toLowerCase()}`, policy: TARGET_POLICY },
+];
+
+// 登录第二步（TOTP / 恢复码）按账号计数，6 位验证码同样需要防止穷举
+const twoFactorAttemptKeys = (ip: string | null, userId: number): AttemptKey[] => [
+    ...(ip ? [{ key: `login-ip:${ip}`, policy: IP_POLICY }] : []),
+    { key: `login-2fa:${userId}`, policy: TARGET_POLICY },
+];
+
+const linkAttemptKeys = (ip: string | null, shortLinkId: number): AttemptKey[] => [
+    ...(ip ? [{ key: `link-ip:${ip}`, policy: IP_POLICY }] : []),
+    { key: `link:${shortLinkId}`, policy: TARGET_POLICY },
+];
+
+/** 返回仍需等待的秒数，0 表示未被锁定 */
+async function getLockout(db: D1Database, keys: AttemptKey[], now: number): Promise<number> {
+    if (keys.length === 0) {
+        return 0;
+    }
+    const placeholders = keys.map(() => '?').join(',');
+    const row = await db
+        .prepare(`SELECT MAX(locked_until) as locked_until FROM auth_attempts WHERE key IN (${placeholders})`)
+        .bind(...keys.map((k) => k.key))
+        .first<{ locked_until: number | null }>();
+    const lockedUntil = row?.locked_until ?? 0;
+    return lockedUntil > now ? lockedUntil - now : 0;
+}
+
+/** 记录一次失败，返回本次失败后需要等待的秒数（0 表示尚未锁定） */
+async function recordFailure(db: D1Database, keys: AttemptKey[], now: number): Promise<number> {
+    let lockout = 0;
+    for (const { key, policy } of keys) {
+        const row = await db
+            .prepare(`
+                INSERT INTO auth_attempts (key, failures, locked_until, updated_at) VALUES (?, 1, NULL, ?)
+                ON CONFLICT(key) DO UPDATE SET
+                    failures = CASE WHEN auth_attempts.updated_at < ? THEN 1 ELSE auth_attempts.failures + 1 END,
+                    updated_at = excluded.updated_at
+                RETURNING failures
+            `)
+            .bind(key, now, now - policy.resetAfter)
+            .first<{ failures: number }>();
+
+        const over = (row?.failures ?? 0) - policy.freeAttempts;
+        if (over > 0) {
+            const seconds = Math.min(policy.baseLockout * 2 ** (over - 1), policy.maxLockout);
+            await db
+                .prepare(`UPDATE auth_attempts SET locked_until = ? WHERE key = ?`)
+                .bind(now + seconds, key)
+                .run();
+            lockout = Math.max(lockout, seconds);
+        }
+    }
+    return lockout;
+}
+
+/**
+ * 验证成功后清除目标（账号/短链接）的计数
+ * IP 计数保留到自然过期，避免攻击者用自己知道的密码反复重置
+ */
+async function clearFailures(db: D1Database, keys: AttemptKey[]): Promise<void> {
+    const targets = keys.filter((k) => k.policy === TARGET_POLICY);
+    if (targets.length === 0) {
+        return;
+    }
+    const placeholders = targets.map(() => '?').join(',');
+    await db
+        .prepare(`DELETE FROM auth_attempts WHERE key IN (${placeholders})`)
+        .bind(...targets.map((k) => k.key))
+        .run();
+}
+
+/** 清理已过期的计数记录，由定时任务调用 */
+async function purgeExpiredAttempts(db: D1Database, now: number): Promise<number> {
+    const resetAfter = Math.max(IP_POLICY.resetAfter, TARGET_POLICY.resetAfter);
+    const result = await db
+        .prepare(`
+            DELETE FROM auth_attempts
+            WHERE updated_at < ? AND (locked_until IS NULL OR locked_until < ?)
+        `)
+        .bind(now - resetAfter, now)
+        .run();
+    return result.meta.changes;
+}
+
+export { loginAttemptKeys, twoFactorAttemptKeys, linkAttemptKeys, getLockout, recordFailure, clearFailures, purgeExpiredAttempts };
+export type { AttemptKey, AttemptPolicy };
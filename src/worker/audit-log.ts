@@ -0,0 +1,112 @@
+import type { Context } from "hono";
+import type { Variables } from "./util";
+
+/**
+ * 管理操作审计日志
+ * 域名、模板、模板资源、用户的管理操作写入 audit_logs：操作者、IP、动作、对象及操作前后的状态
+ * 只追加：不提供修改和删除接口，表上的触发器也会拒绝 UPDATE / DELETE
+ */
+
+type AuditEntityType = 'domain' | 'template' | 'template_asset' | 'user';
+
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['domain', 'template', 'template_asset', 'user'];
+
+interface AuditEntry {
+    action: string;                 // 如 domain.create、user.update
+    entityType: AuditEntityType;
+    entityId: number | null;
+    before?: object | null;         // 操作前的状态，新建时为空
+    after?: object | null;          // 操作后的状态，删除时为空
+}
+
+interface AuditLogRow {
+    id: number;
+    actor_user_id: number | null;
+    actor_username: string | null;
+    api_token_id: number | null;
+    ip: string | null;
+    user_agent: string | null;
+    action: string;
+    entity_type: AuditEntityType;
+    entity_id: number | null;
+    before: string | null;
+    after: string | null;
+    created_at: number;
+}
+
+// 快照中不记录的字段：密码哈希、2FA 密钥、文件内容
+const OMITTED_FIELDS = new Set(['password_hash', 'totp_secret', 'totp_last_step', 'content']);
+
+// 单个字段最多保存的字符数，避免很大的 HTML 模板撑满一行（D1 单行上限 2MB）
+const MAX_FIELD_LENGTH = 100_000;
+
+// 每个 batch 写入的日志条数，按前缀删除资源时可能一次产生很多条
+const INSERT_BATCH_SIZE = 100;
+
+type AuditContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+function isAuditEntityType(value: unknown): value is AuditEntityType {
+    return typeof value === 'string' && (AUDIT_ENTITY_TYPES as string[]).includes(value);
+}
+
+function serializeSnapshot(snapshot: object | null | undefined): string | null {
+    if (!snapshot) {
+        return null;
+    }
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(snapshot)) {
+        if (OMITTED_FIELDS.has(key)) {
+            continue;
+        }
+        fields[key] = typeof value === 'string' && value.length > MAX_FIELD_LENGTH
+            ? `${value.slice(0, MAX_FIELD_LENGTH)}…(${value.length} chars)`
+            : value;
+    }
+    return JSON.stringify(fields);
+}
+
+/**
+ * 在操作成功后调用，记录一条或多条审计日志
+ * 写入失败只打印错误，不影响已经完成的操作
+ */
+async function recordAudit(c: AuditContext, entries: AuditEntry | AuditEntry[]): Promise<void> {
+    const list = Array.isArray(entries) ? entries : [entries];
+    if (list.length === 0) {
+        return;
+    }
+    const db = c.env.shorturl;
+    const actor = c.get('currentUser');
+    const ip = c.req.header('cf-connecting-ip') || null;
+    const userAgent = c.req.header('user-agent')?.slice(0, 512) || null;
+    const now = Math.floor(Date.now() / 1000);
+
+    const statements = list.map((entry) => db.prepare(`
+        INSERT INTO audit_logs (
+            actor_user_id, actor_username, api_token_id, ip, user_agent,
+            action, entity_type, entity_id, before, after, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+        actor?.id ?? null,
+        actor?.username ?? null,
+        actor?.apiTokenId ?? null,
+        ip,
+        userAgent,
+        entry.action,
+        entry.entityType,
+        entry.entityId,
+        serializeSnapshot(entry.before),
+        serializeSnapshot(entry.after),
+        now
+    ));
+
+    try {
+        for (let i = 0; i < statements.length; i += INSERT_BATCH_SIZE) {
+            await db.batch(statements.slice(i, i + INSERT_BATCH_SIZE));
+        }
+    } catch (error) {
+        console.error('写入审计日志失败:', error);
+    }
+}
+
+export { AUDIT_ENTITY_TYPES, isAuditEntityType, recordAudit };
+export type { AuditEntityType, AuditEntry, AuditLogRow };
@@ -1,10 +1,46 @@
-import { Hono } from 'hono'
+import { Hono, HonoRequest } from 'hono'
 import {CurrentUser, ErrorCode, HttpResponseJsonBody, Variables} from './util'
 import {sign, verify} from 'hono/jwt'
 import { createMiddleware } from 'hono/factory'
+import { deleteCookie, getSignedCookie, setSignedCookie } from 'hono/cookie'
+import { clearFailures, getLockout, loginAttemptKeys, recordFailure, twoFactorAttemptKeys } from './attempt-limiter'
+import {
+    beginTotpSetup,
+    ChallengePurpose,
+    confirmTotpSetup,
+    createChallengeToken,
+    isAdminTwoFactorRequired,
+    loadTwoFactorUser,
+    verifyChallengeToken,
+    verifySecondFactor
+} from './two-factor'
+import { ACCESS_TOKEN_TTL, checkSession, createSession, revokeSession, rotateSession, SessionMeta } from './sessions'
+import {
+    buildAuthorizationUrl,
+    createLinkToken,
+    createPkcePair,
+    discover,
+    exchangeCode,
+    findOrProvisionUser,
+    getOidcConfig,
+    isOidcReady,
+    isPasswordLoginDisabled,
+    linkOidcAccount,
+    randomToken,
+    verifyLinkToken
+} from './oidc'
+
+
+const app = new Hono<{Bindings: Env; Variables: Variables}>()
+
+// API token 明文前缀，用于与 JWT 区分
+const API_TOKEN_PREFIX = 'sut_'
+
+// SSO 登录过程中保存 state / nonce / PKCE verifier 的签名 cookie
+const OIDC_FLOW_COOKIE = 'oidc_flow'
+const OIDC_FLOW_PATH = '/api/auth/oidc/'
+const OIDC_FLOW_TTL = 10 * 60
 
-
-const app = new Hono<{Bindings: Env}>()
 interface LoginRequest {
     username?: string
     password?: string
@@ -14,6 +50,120 @@ interface InitRequest {
     username: string
     password: string
 }
+
+// 登录结果：直接返回 access token + refresh token，或返回挑战 token 要求完成两步验证（verify）/ 首次绑定（setup）
+interface LoginResult {
+    token?: string
+    refresh_token?: string
+    two_factor?: ChallengePurpose
+    challenge_token?: string
+}
+
+interface RefreshRequest {
+    refresh_token?: string
+}
+
+// 登录页需要的公开 SSO 信息
+interface LoginOptions {
+    sso_enabled: boolean
+    sso_label: string
+    password_login: boolean
+}
+
+interface OidcFlow {
+    state: string
+    nonce: string
+    verifier: string
+}
+
+// SSO 登录后确认关联已有的本地账号
+interface OidcLinkRequest {
+    link_token?: string
+    password?: string
+}
+
+interface TwoFactorLoginRequest {
+    challenge_token?: string
+    code?: string
+    recovery_code?: string
+}
+
+interface LoginUser {
+    id: number
+    username: string | null
+    role: string | null
+    status: number
+    deleted_at: number | null
+}
+
+// 签发短期 access token（JWT），sid 指向 user_sessions，会话作废后立即失效
+async function signAccessToken(secret: string, user: LoginUser, fallbackUsername: string, sessionId: number): Promise<string> {
+    const now = Math.floor(Date.now() / 1000)
+    return sign({
+        sub: user.id,
+        sid: sessionId,
+        username: user.username ?? fallbackUsername,
+        role: user.role ?? 'user',
+        iat: now,
+        exp: now + ACCESS_TOKEN_TTL
+    }, secret)
+}
+
+function sessionMeta(req: HonoRequest): SessionMeta {
+    return {
+        userAgent: req.header('user-agent') || null,
+        ip: req.header('cf-connecting-ip') || null
+    }
+}
+
+// 登录完成：创建会话并签发 access token + refresh token
+async function startSession(env: Env, req: HonoRequest, user: LoginUser, fallbackUsername: string): Promise<{ token: string; refresh_token: string }> {
+    const { sessionId, refreshToken } = await createSession(env.shorturl, user.id, sessionMeta(req))
+    return {
+        token: await signAccessToken(env.JWT_SECRET, user, fallbackUsername, sessionId),
+        refresh_token: refreshToken
+    }
+}
+
+// 第一步（密码或 SSO）通过后：已启用 2FA 则要求验证码，强制管理员启用但尚未绑定时先完成绑定，否则直接创建会话
+async function completeFirstFactor(env: Env, req: HonoRequest, user: LoginUser, totpEnabled: boolean, fallbackUsername: string): Promise<LoginResult> {
+    let purpose: ChallengePurpose | null = null
+    if (totpEnabled) {
+        purpose = 'verify'
+    } else if (user.role === 'admin' && await isAdminTwoFactorRequired(env.shorturl)) {
+        purpose = 'setup'
+    }
+    if (purpose) {
+        return { two_factor: purpose, challenge_token: await createChallengeToken(env.JWT_SECRET, user.id, purpose) }
+    }
+    return startSession(env, req, user, fallbackUsername)
+}
+
+function loginResultMessage(result: LoginResult): string {
+    if (result.two_factor === 'verify') {
+        return 'two-factor code required'
+    }
+    return result.two_factor === 'setup' ? 'two-factor setup required' : ''
+}
+
+// 校验挑战 token 并加载用户，用户已被禁用或删除时视为无效
+async function loadChallengeUser(env: Env, token: string | undefined, purpose: ChallengePurpose): Promise<LoginUser | null> {
+    if (!token) {
+        return null
+    }
+    const userId = await verifyChallengeToken(env.JWT_SECRET, token, purpose)
+    if (userId === null) {
+        return null
+    }
+    const row = await env.shorturl
+        .prepare('SELECT id, username, role, status, deleted_at FROM users WHERE id = ? LIMIT 1')
+        .bind(userId)
+        .first<LoginUser>()
+    if (!row || row.status !== 0 || row.deleted_at != null) {
+        return null
+    }
+    return row
+}
 app.get('/init-status', async (c) => {
     const db = c.env.shorturl
     const existingUser = await db.prepare('SELECT id FROM users WHERE id = 1 LIMIT 1').first<{ id: number }>()
@@ -138,10 +288,30 @@ app.post('/login', async (c) => {
     const username = String(userInfo.username)
     const password = String(userInfo.password)
 
+    if (await isPasswordLoginDisabled(c.env.shorturl)) {
+        const response: HttpResponseJsonBody = {data:null, message: 'password login is disabled, please use single sign-on', code: ErrorCode.FORBIDDEN }
+        return c.json(response, 403)
+    }
+
+    // 暴力破解防护：按 IP 和账号统计失败次数，超过阈值后临时锁定
+    const db = c.env.shorturl
+    const attemptKeys = loginAttemptKeys(c.req.header('cf-connecting-ip') || null, username)
+    const lockedFor = await getLockout(db, attemptKeys, Math.floor(Date.now() / 1000))
+    if (lockedFor > 0) {
+        c.header('Retry-After', String(lockedFor))
+        const response: HttpResponseJsonBody = {data:null, message: `too many failed attempts, try again in ${lockedFor} seconds`, code: ErrorCode.TOO_MANY_ATTEMPTS }
+        return c.json(response, 429)
+    }
+    const loginFailed = async () => {
+        await recordFailure(db, attemptKeys, Math.floor(Date.now() / 1000))
+        const response: HttpResponseJsonBody = {data:null,  message: 'username or password incorrect', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 401)
+    }
+
     const row = await c.env.shorturl
         .prepare(
             `
-      SELECT id, username, password_hash, role, status, deleted_at
+      SELECT id, username, password_hash, role, status, deleted_at, totp_enabled
       FROM users
       WHERE username = ?
       LIMIT 1
@@ -155,11 +325,11 @@ app.post('/login', async (c) => {
             role: string | null
             status: number
             deleted_at: number | null
+            totp_enabled: number
         }>()
 
     if (!row) {
-        const response: HttpResponseJsonBody = {data:null,  message: 'username or password incorrect', code: ErrorCode.DATA_INPUT_ERROR }
-        return c.json(response, 401)
+        return loginFailed()
     }
 
 
@@ -174,8 +344,7 @@ app.post('/login', async (c) => {
     }
 
     if (!ok) {
-        const response: HttpResponseJsonBody = {data:null,  message: 'username or password incorrect', code: ErrorCode.DATA_INPUT_ERROR }
-        return c.json(response, 401)
+        return loginFailed()
     }
     if (row.status !== 0 && row.status !== null) {
         const response: HttpResponseJsonBody = {data:null, message: 'user disabled', code: ErrorCode.DATA_INPUT_ERROR }
@@ -183,30 +352,433 @@ app.post('/login', async (c) => {
     }
     // 检查用户是否被软删除
     if (row.deleted_at != null) {
-        const response: HttpResponseJsonBody = {data:null,  message: 'username or password incorrect', code: ErrorCode.DATA_INPUT_ERROR }
-        return c.json(response, 401)
+        return loginFailed()
     }
+    await clearFailures(db, attemptKeys)
 
-    const now = Math.floor(Date.now() / 1000)
-    const exp = now + 7 * 24 * 60 * 60 // 7 days
-
-    const token = await sign({
-        sub: row.id,
-        username: row.username ?? username,
-        role: row.role ?? 'user',
-        iat: now,
-        exp: exp
-    },c.env.JWT_SECRET)
-    const response:HttpResponseJsonBody<{token:string}>= {message:'',code:ErrorCode.SUCCESS,data:{token:token}}
+    const result = await completeFirstFactor(c.env, c.req, row, row.totp_enabled === 1, username)
+    const response:HttpResponseJsonBody<LoginResult>= {message:loginResultMessage(result),code:ErrorCode.SUCCESS,data:result}
     return c.json(
         response,
         200
     )
 })
 
+// 登录第二步：提交 TOTP 验证码或恢复码，通过后签发 JWT
+app.post('/login/2fa', async (c) => {
+    let body: TwoFactorLoginRequest
+    try {
+        body = await c.req.json()
+    } catch {
+        const response: HttpResponseJsonBody = { data: null, message: 'login data error', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 400)
+    }
+
+    const user = await loadChallengeUser(c.env, body?.challenge_token, 'verify')
+    if (!user) {
+        const response: HttpResponseJsonBody = { data: null, message: 'challenge expired, please login again', code: ErrorCode.UNAUTHORIZED }
+        return c.json(response, 401)
+    }
+
+    const db = c.env.shorturl
+    const attemptKeys = twoFactorAttemptKeys(c.req.header('cf-connecting-ip') || null, user.id)
+    const lockedFor = await getLockout(db, attemptKeys, Math.floor(Date.now() / 1000))
+    if (lockedFor > 0) {
+        c.header('Retry-After', String(lockedFor))
+        const response: HttpResponseJsonBody = { data: null, message: `too many failed attempts, try again in ${lockedFor} seconds`, code: ErrorCode.TOO_MANY_ATTEMPTS }
+        return c.json(response, 429)
+    }
+
+    const twoFactorUser = await loadTwoFactorUser(db, user.id)
+    const ok = twoFactorUser !== null && twoFactorUser.totp_enabled === 1 && await verifySecondFactor(db, twoFactorUser, {
+        code: body.code ? String(body.code) : undefined,
+        recovery_code: body.recovery_code ? String(body.recovery_code) : undefined
+    })
+    if (!ok) {
+        await recordFailure(db, attemptKeys, Math.floor(Date.now() / 1000))
+        const response: HttpResponseJsonBody = { data: null, message: 'invalid verification code', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 401)
+    }
+    await clearFailures(db, attemptKeys)
+
+    const tokens = await startSession(c.env, c.req, user, '')
+    const response: HttpResponseJsonBody<LoginResult> = { message: '', code: ErrorCode.SUCCESS, data: tokens }
+    return c.json(response, 200)
+})
+
+// 强制启用 2FA 的管理员首次登录：生成待绑定的密钥
+app.post('/login/2fa/setup', async (c) => {
+    let body: TwoFactorLoginRequest
+    try {
+        body = await c.req.json()
+    } catch {
+        const response: HttpResponseJsonBody = { data: null, message: 'login data error', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 400)
+    }
+
+    const user = await loadChallengeUser(c.env, body?.challenge_token, 'setup')
+    if (!user) {
+        const response: HttpResponseJsonBody = { data: null, message: 'challenge expired, please login again', code: ErrorCode.UNAUTHORIZED }
+        return c.json(response, 401)
+    }
+
+    const setup = await beginTotpSetup(c.env.shorturl, user.id, user.username ?? String(user.id))
+    const response: HttpResponseJsonBody<{ secret: string; otpauth_uri: string }> = { message: '', code: ErrorCode.SUCCESS, data: setup }
+    return c.json(response, 200)
+})
+
+// 强制启用 2FA 的管理员首次登录：确认验证码后启用 2FA，返回恢复码并签发 JWT
+app.post('/login/2fa/enable', async (c) => {
+    let body: TwoFactorLoginRequest
+    try {
+        body = await c.req.json()
+    } catch {
+        const response: HttpResponseJsonBody = { data: null, message: 'login data error', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 400)
+    }
+
+    const user = await loadChallengeUser(c.env, body?.challenge_token, 'setup')
+    if (!user) {
+        const response: HttpResponseJsonBody = { data: null, message: 'challenge expired, please login again', code: ErrorCode.UNAUTHORIZED }
+        return c.json(response, 401)
+    }
+
+    const db = c.env.shorturl
+    const attemptKeys = twoFactorAttemptKeys(c.req.header('cf-connecting-ip') || null, user.id)
+    const lockedFor = await getLockout(db, attemptKeys, Math.floor(Date.now() / 1000))
+    if (lockedFor > 0) {
+        c.header('Retry-After', String(lockedFor))
+        const response: HttpResponseJsonBody = { data: null, message: `too many failed attempts, try again in ${lockedFor} seconds`, code: ErrorCode.TOO_MANY_ATTEMPTS }
+        return c.json(response, 429)
+    }
+
+    const twoFactorUser = await loadTwoFactorUser(db, user.id)
+    const recoveryCodes = twoFactorUser && body.code ? await confirmTotpSetup(db, twoFactorUser, String(body.code)) : null
+    if (!recoveryCodes) {
+        await recordFailure(db, attemptKeys, Math.floor(Date.now() / 1000))
+        const response: HttpResponseJsonBody = { data: null, message: 'invalid verification code', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 401)
+    }
+    await clearFailures(db, attemptKeys)
+
+    const tokens = await startSession(c.env, c.req, user, '')
+    const response: HttpResponseJsonBody<{ token: string; refresh_token: string; recovery_codes: string[] }> = {
+        message: '',
+        code: ErrorCode.SUCCESS,
+        data: { ...tokens, recovery_codes: recoveryCodes }
+    }
+    return c.json(response, 200)
+})
+
+// 用 refresh token 换取新的 access token，refresh token 同时轮换
+app.post('/refresh', async (c) => {
+    let body: RefreshRequest
+    try {
+        body = await c.req.json()
+    } catch {
+        const response: HttpResponseJsonBody = { data: null, message: 'refresh data error', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 400)
+    }
+
+    const db = c.env.shorturl
+    const rotated = body?.refresh_token ? await rotateSession(db, String(body.refresh_token), sessionMeta(c.req)) : null
+    if (!rotated) {
+        const response: HttpResponseJsonBody = { data: null, message: 'session expired, please login again', code: ErrorCode.UNAUTHORIZED }
+        return c.json(response, 401)
+    }
+
+    const user = await db
+        .prepare('SELECT id, username, role, status, deleted_at FROM users WHERE id = ? LIMIT 1')
+        .bind(rotated.userId)
+        .first<LoginUser>()
+    if (!user || user.status !== 0 || user.deleted_at != null) {
+        await revokeSession(db, rotated.sessionId, null)
+        const response: HttpResponseJsonBody = { data: null, message: 'user disabled', code: ErrorCode.UNAUTHORIZED }
+        return c.json(response, 401)
+    }
+
+    const response: HttpResponseJsonBody<LoginResult> = {
+        message: '',
+        code: ErrorCode.SUCCESS,
+        data: {
+            token: await signAccessToken(c.env.JWT_SECRET, user, '', rotated.sessionId),
+            refresh_token: rotated.refreshToken
+        }
+    }
+    return c.json(response, 200)
+})
+
+// 退出登录：作废当前会话
+app.post('/logout', async (c) => {
+    const currentUser = c.get('currentUser')
+    if (currentUser.sessionId !== undefined) {
+        await revokeSession(c.env.shorturl, currentUser.sessionId, currentUser.id)
+    }
+    const response: HttpResponseJsonBody = { data: null, message: 'logout success', code: ErrorCode.SUCCESS }
+    return c.json(response, 200)
+})
+
+// 登录页选项：是否显示 SSO 按钮、是否允许密码登录
+app.get('/oidc/options', async (c) => {
+    const db = c.env.shorturl
+    const config = await getOidcConfig(db)
+    const ready = isOidcReady(config)
+    const response: HttpResponseJsonBody<LoginOptions> = {
+        message: '',
+        code: ErrorCode.SUCCESS,
+        data: {
+            sso_enabled: ready,
+            sso_label: config.button_label,
+            password_login: !(await isPasswordLoginDisabled(db))
+        }
+    }
+    return c.json(response)
+})
+
+function oidcRedirectUri(requestUrl: string): string {
+    return new URL(OIDC_FLOW_PATH + 'callback', requestUrl).toString()
+}
+
+function oidcFlowSecret(jwtSecret: string): string {
+    return `${jwtSecret}:oidc-flow`
+}
+
+// SSO 结束后回到前端登录页，token 或错误信息放在 URL fragment 中（不会发送到服务器或写入日志）
+function loginPageRedirect(requestUrl: string, params: Record<string, string>): string {
+    const url = new URL(`/${__WEB_LOCATION__}/login`, requestUrl)
+    url.hash = new URLSearchParams(params).toString()
+    return url.toString()
+}
+
+// 发起 SSO 登录：生成 state / nonce / PKCE 并跳转到 IdP
+app.get('/oidc/start', async (c) => {
+    const config = await getOidcConfig(c.env.shorturl)
+    if (!isOidcReady(config)) {
+        return c.redirect(loginPageRedirect(c.req.url, { sso_error: 'single sign-on is not configured' }))
+    }
+
+    let metadata
+    try {
+        metadata = await discover(config.issuer)
+    } catch (error) {
+        console.error('获取 OIDC 配置失败:', error)
+        return c.redirect(loginPageRedirect(c.req.url, { sso_error: 'identity provider is unavailable' }))
+    }
+
+    const { verifier, challenge } = await createPkcePair()
+    const flow: OidcFlow = { state: randomToken(), nonce: randomToken(), verifier }
+    await setSignedCookie(c, OIDC_FLOW_COOKIE, JSON.stringify(flow), oidcFlowSecret(c.env.JWT_SECRET), {
+        path: OIDC_FLOW_PATH,
+        maxAge: OIDC_FLOW_TTL,
+        httpOnly: true,
+        secure: true,
+        sameSite: 'Lax'
+    })
+
+    return c.redirect(buildAuthorizationUrl(config, metadata, {
+        redirectUri: oidcRedirectUri(c.req.url),
+        state: flow.state,
+        nonce: flow.nonce,
+        challenge
+    }))
+})
+
+// IdP 回调：校验 state，换取并校验 id_token，创建或更新用户后签发会话
+app.get('/oidc/callback', async (c) => {
+    const fail = (message: string) => c.redirect(loginPageRedirect(c.req.url, { sso_error: message }))
+
+    const raw = await getSignedCookie(c, oidcFlowSecret(c.env.JWT_SECRET), OIDC_FLOW_COOKIE)
+    deleteCookie(c, OIDC_FLOW_COOKIE, { path: OIDC_FLOW_PATH, secure: true })
+    let flow: OidcFlow | null = null
+    try {
+        flow = raw ? JSON.parse(raw) as OidcFlow : null
+    } catch {
+        flow = null
+    }
+
+    const idpError = c.req.query('error')
+    if (idpError) {
+        return fail(c.req.query('error_description') || idpError)
+    }
+    const code = c.req.query('code')
+    if (!flow || !code || c.req.query('state') !== flow.state) {
+        return fail('sign-in session expired, please try again')
+    }
+
+    const db = c.env.shorturl
+    const config = await getOidcConfig(db)
+    if (!isOidcReady(config)) {
+        return fail('single sign-on is not configured')
+    }
+
+    let user
+    try {
+        const metadata = await discover(config.issuer)
+        const claims = await exchangeCode(config, metadata, {
+            code,
+            redirectUri: oidcRedirectUri(c.req.url),
+            verifier: flow.verifier,
+            nonce: flow.nonce
+        })
+        user = await findOrProvisionUser(db, config, metadata.issuer, claims)
+    } catch (error) {
+        console.error('SSO 登录失败:', error)
+        return fail('single sign-on failed')
+    }
+
+    // 邮箱对应已有的本地账号：回到登录页输入该账号的密码确认关联
+    if ('link' in user) {
+        return c.redirect(loginPageRedirect(c.req.url, {
+            sso_link: await createLinkToken(c.env.JWT_SECRET, user.link),
+            sso_user: user.link.username ?? ''
+        }))
+    }
+
+    if (user.status !== 0 || user.deleted_at != null) {
+        return fail('user disabled')
+    }
+
+    // SSO 登录同样遵循本地两步验证设置，需要时回到登录页完成第二步
+    const twoFactorUser = await loadTwoFactorUser(db, user.id)
+    const result = await completeFirstFactor(c.env, c.req, user, twoFactorUser?.totp_enabled === 1, '')
+    return c.redirect(loginPageRedirect(c.req.url, { ...result }))
+})
+
+// SSO 登录后确认关联已有的本地账号：校验关联 token 和该账号的本地密码，通过后关联并继续登录（含两步验证）
+app.post('/oidc/link', async (c) => {
+    let body: OidcLinkRequest
+    try {
+        body = await c.req.json()
+    } catch {
+        const response: HttpResponseJsonBody = { data: null, message: 'login data error', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 400)
+    }
+
+    const link = body?.link_token ? await verifyLinkToken(c.env.JWT_SECRET, String(body.link_token)) : null
+    if (!link) {
+        const response: HttpResponseJsonBody = { data: null, message: 'sign-in session expired, please try again', code: ErrorCode.UNAUTHORIZED }
+        return c.json(response, 401)
+    }
+
+    const db = c.env.shorturl
+    const row = await db
+        .prepare('SELECT id, username, password_hash, role, status, deleted_at FROM users WHERE id = ? LIMIT 1')
+        .bind(link.user_id)
+        .first<LoginUser & { password_hash: string | null }>()
+    if (!row) {
+        const response: HttpResponseJsonBody = { data: null, message: 'sign-in session expired, please try again', code: ErrorCode.UNAUTHORIZED }
+        return c.json(response, 401)
+    }
+
+    const attemptKeys = loginAttemptKeys(c.req.header('cf-connecting-ip') || null, row.username ?? String(row.id))
+    const lockedFor = await getLockout(db, attemptKeys, Math.floor(Date.now() / 1000))
+    if (lockedFor > 0) {
+        c.header('Retry-After', String(lockedFor))
+        const response: HttpResponseJsonBody = { data: null, message: `too many failed attempts, try again in ${lockedFor} seconds`, code: ErrorCode.TOO_MANY_ATTEMPTS }
+        return c.json(response, 429)
+    }
+
+    let ok = false
+    try {
+        const { compareSync } = await import('bcryptjs')
+        ok = compareSync(String(body.password ?? ''), row.password_hash ?? '')
+    } catch {
+        ok = false
+    }
+    if (!ok) {
+        await recordFailure(db, attemptKeys, Math.floor(Date.now() / 1000))
+        const response: HttpResponseJsonBody = { data: null, message: 'password incorrect', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 401)
+    }
+    if (row.status !== 0 || row.deleted_at != null) {
+        const response: HttpResponseJsonBody = { data: null, message: 'user disabled', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 403)
+    }
+    await clearFailures(db, attemptKeys)
+
+    const user = await linkOidcAccount(db, link)
+    if (!user) {
+        const response: HttpResponseJsonBody = { data: null, message: 'this account is already linked to another single sign-on identity', code: ErrorCode.DATA_INPUT_ERROR }
+        return c.json(response, 409)
+    }
+
+    const twoFactorUser = await loadTwoFactorUser(db, user.id)
+    const result = await completeFirstFactor(c.env, c.req, user, twoFactorUser?.totp_enabled === 1, '')
+    const response: HttpResponseJsonBody<LoginResult> = { message: loginResultMessage(result), code: ErrorCode.SUCCESS, data: result }
+    return c.json(response, 200)
+})
+
+// 生成 API token 明文（仅在创建时返回一次）
+function generateApiToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(24))
+    return API_TOKEN_PREFIX + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// 数据库中只保存 API token 的 SHA-256
+async function hashApiToken(token: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+// 校验 API token，通过则返回对应用户，否则返回错误信息
+async function verifyApiToken(db: D1Database, token: string): Promise<{ user: CurrentUser; tokenId: number; lastUsedAt: number | null } | string> {
+    const row = await db
+        .prepare(
+            `
+      SELECT t.id, t.user_id, t.status, t.scopes, t.expires_at, t.last_used_at,
+             u.username, u.role, u.status as user_status, u.deleted_at
+      FROM api_tokens t
+      JOIN users u ON t.user_id = u.id
+      WHERE t.token_hash = ?
+      LIMIT 1
+    `.trim()
+        )
+        .bind(await hashApiToken(token))
+        .first<{
+            id: number
+            user_id: number
+            status: number
+            scopes: string | null
+            expires_at: number | null
+            last_used_at: number | null
+            username: string | null
+            role: string | null
+            user_status: number
+            deleted_at: number | null
+        }>()
+
+    if (!row) {
+        return 'token error'
+    }
+    if (row.status !== 0) {
+        return 'token disabled'
+    }
+    if (row.expires_at != null && row.expires_at <= Math.floor(Date.now() / 1000)) {
+        return 'token expired'
+    }
+    if (row.user_status !== 0) {
+        return 'user disabled'
+    }
+    if (row.deleted_at != null) {
+        return 'user deleted'
+    }
+
+    return {
+        user: {
+            id: row.user_id,
+            username: row.username ?? '',
+            role: row.role ?? 'user',
+            apiTokenId: row.id,
+            scopes: row.scopes ? row.scopes.split(',') : null
+        },
+        tokenId: row.id,
+        lastUsedAt: row.last_used_at
+    }
+}
+
 const authVerify = createMiddleware<{Variables: Variables ;Bindings:Env}>(async (c, next) => {
     const path = c.req.path
-    if (path === '/api/auth/login'|| path === '/api/auth/init'|| path === '/api/auth/init-status' || !path.startsWith("/api/")) {
+    if (path === '/api/auth/login'|| path.startsWith('/api/auth/login/') || path.startsWith('/api/auth/oidc/') || path === '/api/auth/refresh' || path === '/api/auth/init'|| path === '/api/auth/init-status' || !path.startsWith("/api/")) {
         await next()
         return
     }
@@ -222,16 +794,40 @@ const authVerify = createMiddleware<{Variables: Variables ;Bindings:Env}>(async
 
     const token = jwtToken.substring(7)
 
+    // API token 认证
+    if (token.startsWith(API_TOKEN_PREFIX)) {
+        const result = await verifyApiToken(c.env.shorturl, token)
+        if (typeof result === 'string') {
+            const response: HttpResponseJsonBody = { data: null, message: result, code: ErrorCode.UNAUTHORIZED }
+            return c.json(response, 401)
+        }
+
+        // 最多每分钟更新一次 last_used_at，减少写入
+        const now = Math.floor(Date.now() / 1000)
+        if (result.lastUsedAt == null || now - result.lastUsedAt >= 60) {
+            c.executionCtx.waitUntil(
+                c.env.shorturl
+                    .prepare('UPDATE api_tokens SET last_used_at = ? WHERE id = ?')
+                    .bind(now, result.tokenId)
+                    .run()
+            )
+        }
+
+        c.set('currentUser', result.user)
+        await next()
+        return
+    }
 
     try {
         const decodedVerify = await verify(token, c.env.JWT_SECRET, 'HS256')
         // token 校验通过后，查库确认用户是否被禁用
         const userId = decodedVerify?.sub
-        const iat = decodedVerify?.iat as number | undefined
+        const sessionId = decodedVerify?.sid as number | undefined
         const username = decodedVerify?.username as string | undefined
         const role = decodedVerify?.role as string | undefined
         
-        if (userId == null || iat == null || !username || !role) {
+        // 没有 sid 的旧版长期 token 不再接受，需要重新登录
+        if (userId == null || sessionId == null || !username || !role) {
             const response: HttpResponseJsonBody = { data: null, message: 'token error', code: ErrorCode.UNAUTHORIZED }
             return c.json(response, 401)
         }
@@ -239,14 +835,14 @@ const authVerify = createMiddleware<{Variables: Variables ;Bindings:Env}>(async
         const row = await c.env.shorturl
             .prepare(
                 `
-      SELECT status, deleted_at, updated_at
+      SELECT role, status, deleted_at
       FROM users
       WHERE id = ?
       LIMIT 1
     `.trim()
             )
             .bind(Number(userId))
-            .first<{ status: number; deleted_at: number | null; updated_at: number }>()
+            .first<{ role: string | null; status: number; deleted_at: number | null }>()
 
         // 用户不存在
         if (!row) {
@@ -266,17 +862,18 @@ const authVerify = createMiddleware<{Variables: Variables ;Bindings:Env}>(async
             return c.json(response, 401)
         }
 
-        // 用户修改过密码（updated_at 晚于 token 签发时间）
-        if (row.updated_at > iat) {
-            const response: HttpResponseJsonBody = { data: null, message: 'token expired due to password change', code: ErrorCode.UNAUTHORIZED }
+        // 会话已退出、被管理员强制下线或因修改密码作废
+        if (!(await checkSession(c.env.shorturl, Number(sessionId), Number(userId), (p) => c.executionCtx.waitUntil(p)))) {
+            const response: HttpResponseJsonBody = { data: null, message: 'session revoked', code: ErrorCode.UNAUTHORIZED }
             return c.json(response, 401)
         }
 
-        // 将用户信息注入到上下文中
+        // 将用户信息注入到上下文中（角色以数据库为准，避免沿用 token 中过期的角色）
         c.set('currentUser', {
             id: Number(userId),
             username,
-            role
+            role: row.role ?? role,
+            sessionId: Number(sessionId)
         } as CurrentUser)
 
         await next()
@@ -288,4 +885,4 @@ const authVerify = createMiddleware<{Variables: Variables ;Bindings:Env}>(async
 
 })
 export default app
-export {authVerify}
\ No newline at end of file
+export {authVerify, generateApiToken, hashApiToken}
\ No newline at end of file
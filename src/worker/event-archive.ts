@@ -0,0 +1,284 @@
+import { getAppSetting, setAppSetting } from "./settings";
+import { DAY_SECONDS, dayStart, getBreakdownThrough, getRollupThrough } from "./stats-rollup";
+
+// app_settings 中的原始事件保留天数，0 或未设置表示永久保留
+const RETENTION_DAYS_KEY = 'event_retention_days';
+
+// R2 中归档对象的前缀，按 日期/域名 分区：visit-events/YYYY-MM-DD/domain-<id>-<首个事件 id>-<最后事件 id>.ndjson.gz
+// 早期版本的归档为 visit-events/YYYY-MM-DD/domain-<id>.ndjson.gz，列出和回灌时同样识别
+const ARCHIVE_PREFIX = 'visit-events/';
+
+// 单次定时任务最多归档的天数，避免超出 Worker 的 CPU 时间和子请求限制，剩余的下次继续
+const MAX_DAYS_PER_RUN = 7;
+
+// 分页读取事件的批大小
+const READ_BATCH_SIZE = 1000;
+
+// 单个归档对象最多包含的事件数，超出的写入下一个对象，避免一次在内存中缓冲整天的事件
+const EVENTS_PER_OBJECT = 20000;
+
+// 回灌时每个 D1 batch 包含的语句数
+const WRITE_BATCH_SIZE = 100;
+
+const EVENT_COLUMNS = [
+    'id', 'short_link_id', 'domain_id', 'code', 'visited_at',
+    'ip', 'ua', 'visitor_hash', 'referer', 'country', 'region', 'city', 'device_type', 'os', 'browser',
+    'is_blocked', 'block_reason', 'http_status', 'matched_rule', 'variant',
+] as const;
+
+type VisitEventRow = Record<(typeof EVENT_COLUMNS)[number], string | number | null>;
+
+interface ArchiveObject {
+    key: string;
+    day: string;
+    domain_id: number;
+    size: number;
+    events: number;
+    uploaded_at: number;
+}
+
+interface ArchiveDayResult {
+    day: string;
+    objects: number;
+    events: number;
+}
+
+/** 事件 id 范围写入 key，每个对象的 key 唯一，重复归档不会覆盖已有对象 */
+function archiveKey(day: string, domainId: number, firstId: number, lastId: number): string {
+    return `${ARCHIVE_PREFIX}${day}/domain-${domainId}-${firstId}-${lastId}.ndjson.gz`;
+}
+
+/** 从归档对象 key 中解析日期与域名 ID，格式不符返回 null */
+function parseArchiveKey(key: string): { day: string; domain_id: number } | null {
+    const match = key.match(/^visit-events\/(\d{4}-\d{2}-\d{2})\/domain-(\d+)(?:-\d+-\d+)?\.ndjson\.gz$/);
+    return match ? { day: match[1], domain_id: parseInt(match[2]) } : null;
+}
+
+/** 逐页写入 gzip 流，只缓冲压缩后的数据 */
+async function gzipPages(pages: AsyncIterable<string>): Promise<ArrayBuffer> {
+    const compression = new CompressionStream('gzip');
+    const compressed = new Response(compression.readable).arrayBuffer();
+    const writer = compression.writable.getWriter();
+    const encoder = new TextEncoder();
+    try {
+        for await (const text of pages) {
+            await writer.write(encoder.encode(text));
+        }
+        await writer.close();
+    } catch (error) {
+        await writer.abort(error).catch(() => undefined);
+        throw error;
+    }
+    return compressed;
+}
+
+async function gunzipText(body: ReadableStream): Promise<string> {
+    return new Response(body.pipeThrough(new DecompressionStream('gzip'))).text();
+}
+
+/** 读取保留天数，0 表示不清理 */
+async function getRetentionDays(db: D1Database): Promise<number> {
+    const value = parseInt((await getAppSetting(db, RETENTION_DAYS_KEY)) || '0');
+    return isNaN(value) || value < 0 ? 0 : value;
+}
+
+async function setRetentionDays(db: D1Database, days: number): Promise<void> {
+    await setAppSetting(db, RETENTION_DAYS_KEY, String(days));
+}
+
+/**
+ * 将某一天（UTC）的原始事件按域名导出为 gzip NDJSON 写入 R2，写入成功后从 D1 删除
+ * 每个对象最多 EVENTS_PER_OBJECT 条事件；key 含事件 id 范围，回灌后再次归档会写入新对象，不会覆盖旧归档
+ */
+async function archiveDay(db: D1Database, bucket: R2Bucket, day: string): Promise<ArchiveDayResult> {
+    const start = dayStart(day);
+    const end = start + DAY_SECONDS;
+    const result: ArchiveDayResult = { day, objects: 0, events: 0 };
+
+    const domains = await db
+        .prepare(`SELECT DISTINCT domain_id FROM link_visit_events WHERE visited_at >= ? AND visited_at < ?`)
+        .bind(start, end)
+        .all<{ domain_id: number }>();
+
+    for (const { domain_id: domainId } of domains.results || []) {
+        let afterId = 0;
+
+        while (true) {
+            let firstId = 0;
+            let lastId = afterId;
+            let count = 0;
+
+            // 按 id 分页读取并逐页压缩，直到写满一个对象或没有更多事件
+            async function* pages(): AsyncGenerator<string> {
+                while (count < EVENTS_PER_OBJECT) {
+                    const page = await db
+                        .prepare(`
+                            SELECT ${EVENT_COLUMNS.join(', ')}
+                            FROM link_visit_events
+                            WHERE visited_at >= ? AND visited_at < ? AND domain_id = ? AND id > ?
+                            ORDER BY id
+                            LIMIT ?
+                        `)
+                        .bind(start, end, domainId, lastId, Math.min(READ_BATCH_SIZE, EVENTS_PER_OBJECT - count))
+                        .all<VisitEventRow>();
+                    const rows = page.results || [];
+                    if (rows.length === 0) return;
+                    if (count === 0) firstId = rows[0].id as number;
+                    lastId = rows[rows.length - 1].id as number;
+                    count += rows.length;
+                    yield rows.map((row) => JSON.stringify(row) + '\n').join('');
+                    if (rows.length < READ_BATCH_SIZE) return;
+                }
+            }
+
+            const body = await gzipPages(pages());
+            if (count === 0) break;
+
+            await bucket.put(archiveKey(day, domainId, firstId, lastId), body, {
+                httpMetadata: { contentType: 'application/gzip' },
+                customMetadata: { events: String(count) },
+            });
+
+            // 只删除已写入归档的事件
+            await db
+                .prepare(`DELETE FROM link_visit_events WHERE visited_at >= ? AND visited_at < ? AND domain_id = ? AND id > ? AND id <= ?`)
+                .bind(start, end, domainId, afterId, lastId)
+                .run();
+
+            result.objects++;
+            result.events += count;
+            if (count < EVENTS_PER_OBJECT) break;
+            afterId = lastId;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * 执行保留策略：归档并删除超过保留天数的原始事件，由 scheduled（cron）处理器在汇总之后调用
+ * 只处理已汇总到 link_visit_stats_daily 和 link_visit_breakdown_daily 的日期，保证删除后长期统计和维度明细不丢失
+ */
+async function runRetention(
+    db: D1Database,
+    bucket: R2Bucket,
+    now: number = Math.floor(Date.now() / 1000)
+): Promise<ArchiveDayResult[]> {
+    const retentionDays = await getRetentionDays(db);
+    const rollupThrough = await getRollupThrough(db);
+    const breakdownThrough = await getBreakdownThrough(db);
+    if (retentionDays === 0 || !rollupThrough || !breakdownThrough) {
+        return [];
+    }
+
+    const cutoff = Math.min(
+        Math.floor(now / DAY_SECONDS) * DAY_SECONDS - retentionDays * DAY_SECONDS,
+        dayStart(rollupThrough) + DAY_SECONDS,
+        dayStart(breakdownThrough) + DAY_SECONDS
+    );
+
+    const days = await db
+        .prepare(`
+            SELECT DISTINCT strftime('%Y-%m-%d', visited_at, 'unixepoch') as day
+            FROM link_visit_events
+            WHERE visited_at < ?
+            ORDER BY day
+            LIMIT ?
+        `)
+        .bind(cutoff, MAX_DAYS_PER_RUN)
+        .all<{ day: string }>();
+
+    const results: ArchiveDayResult[] = [];
+    for (const { day } of days.results || []) {
+        results.push(await archiveDay(db, bucket, day));
+    }
+    return results;
+}
+
+/** 列出归档对象，可按日期前缀（"YYYY"、"YYYY-MM" 或 "YYYY-MM-DD"）过滤 */
+async function listArchives(
+    bucket: R2Bucket,
+    dayPrefix: string,
+    cursor?: string
+): Promise<{ objects: ArchiveObject[]; cursor: string | null }> {
+    const listed = await bucket.list({
+        prefix: ARCHIVE_PREFIX + dayPrefix,
+        cursor,
+        limit: 500,
+        include: ['customMetadata'],
+    });
+
+    const objects: ArchiveObject[] = [];
+    for (const object of listed.objects) {
+        const parsed = parseArchiveKey(object.key);
+        if (!parsed) continue;
+        objects.push({
+            key: object.key,
+            ...parsed,
+            size: object.size,
+            events: parseInt(object.customMetadata?.events || '0'),
+            uploaded_at: Math.floor(object.uploaded.getTime() / 1000),
+        });
+    }
+
+    return { objects, cursor: listed.truncated ? listed.cursor : null };
+}
+
+/**
+ * 将某一天的归档重新导入 link_visit_events 以便排查，可只导入指定域名
+ * 保留原事件 id 并使用 INSERT OR IGNORE，重复导入不会产生重复数据
+ * 注意：若该日期仍超出保留期，下次定时任务会再次归档并删除
+ */
+async function restoreDay(
+    db: D1Database,
+    bucket: R2Bucket,
+    day: string,
+    domainId: number | null
+): Promise<{ objects: number; events: number }> {
+    // 指定域名时按 domain-<id> 前缀列出，再精确比对域名 ID（domain-1 前缀也会匹配 domain-12）
+    const prefix = domainId !== null ? `${ARCHIVE_PREFIX}${day}/domain-${domainId}` : `${ARCHIVE_PREFIX}${day}/`;
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    do {
+        const listed = await bucket.list({ prefix, cursor });
+        for (const object of listed.objects) {
+            const parsed = parseArchiveKey(object.key);
+            if (parsed && (domainId === null || parsed.domain_id === domainId)) {
+                keys.push(object.key);
+            }
+        }
+        cursor = listed.truncated ? listed.cursor : undefined;
+    } while (cursor);
+
+    const insertSql = `
+        INSERT OR IGNORE INTO link_visit_events (${EVENT_COLUMNS.join(', ')})
+        VALUES (${EVENT_COLUMNS.map(() => '?').join(', ')})
+    `;
+
+    let objects = 0;
+    let events = 0;
+    for (const key of keys) {
+        const object = await bucket.get(key);
+        if (!object) continue;
+
+        const rows = (await gunzipText(object.body))
+            .split('\n')
+            .filter((line) => line.trim() !== '')
+            .map((line) => JSON.parse(line) as VisitEventRow);
+
+        for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+            const statements = rows
+                .slice(i, i + WRITE_BATCH_SIZE)
+                .map((row) => db.prepare(insertSql).bind(...EVENT_COLUMNS.map((col) => row[col] ?? null)));
+            await db.batch(statements);
+        }
+
+        objects++;
+        events += rows.length;
+    }
+
+    return { objects, events };
+}
+
+export { EVENT_COLUMNS, getRetentionDays, setRetentionDays, archiveDay, runRetention, listArchives, restoreDay };
+export type { ArchiveObject, ArchiveDayResult };
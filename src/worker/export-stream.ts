@@ -0,0 +1,91 @@
+/**
+ * 流式导出
+ * 数据按页从 D1 读取并逐页写入响应，导出量大时也不会把全部结果放在内存中
+ */
+
+type ExportFormat = 'csv' | 'ndjson';
+
+type ExportRow = Record<string, unknown>;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+function parseExportFormat(value: string | undefined): ExportFormat | null {
+    const format = value || 'csv';
+    return format === 'csv' || format === 'ndjson' ? format : null;
+}
+
+// 以这些字符开头的文本会被 Excel 等表格软件当作公式执行
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// 按 RFC 4180 转义：包含逗号、引号或换行时加引号；数组用 | 连接
+// 可能被当作公式的文本前加 '，防止访客可控的 referer、ua 等字段在管理员电脑上执行公式；数字原样输出
+function csvField(value: unknown): string {
+    if (value === null || value === undefined) {
+        return '';
+    }
+    let text = Array.isArray(value) ? value.join('|') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) {
+        text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: unknown[]): string {
+    return values.map(csvField).join(',') + '\r\n';
+}
+
+/**
+ * 生成下载响应：pages 每次产出一页数据，CSV 只输出 columns 中的列
+ * 读取中途出错时中断响应，客户端会得到不完整的文件
+ */
+function exportResponse(
+    format: ExportFormat,
+    filename: string,
+    columns: readonly string[],
+    pages: AsyncGenerator<ExportRow[]>
+): Response {
+    const encoder = new TextEncoder();
+    let headerSent = format !== 'csv';
+
+    const body = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+            if (!headerSent) {
+                // 带 BOM，Excel 才能正确识别 UTF-8
+                controller.enqueue(encoder.encode('\uFEFF' + csvLine([...columns])));
+                headerSent = true;
+                return;
+            }
+            try {
+                const { value, done } = await pages.next();
+                if (done) {
+                    controller.close();
+                    return;
+                }
+                const text = format === 'csv'
+                    ? value.map((row) => csvLine(columns.map((column) => row[column]))).join('')
+                    : value.map((row) => JSON.stringify(row) + '\n').join('');
+                controller.enqueue(encoder.encode(text));
+            } catch (error) {
+                console.error('导出数据失败:', error);
+                controller.error(error);
+            }
+        },
+        async cancel() {
+            await pages.return(undefined);
+        },
+    });
+
+    return new Response(body, {
+        headers: {
+            'Content-Type': CONTENT_TYPES[format],
+            'Content-Disposition': `attachment; filename="${encodeURIComponent(`${filename}.${format}`)}"`,
+            'Cache-Control': 'no-store',
+        },
+    });
+}
+
+export { parseExportFormat, exportResponse };
+export type { ExportFormat, ExportRow };
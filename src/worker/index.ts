@@ -8,6 +8,19 @@ import user from "./api/user";
 import templateAssets from "./api/template-assets";
 import template from "./api/template";
 import shortlink from "./api/shortlink";
+import stats from "./api/stats";
+import archive from "./api/archive";
+import appSettings from "./api/app-settings";
+import token from "./api/token";
+import twoFactor from "./api/two-factor";
+import sessions from "./api/sessions";
+import audit from "./api/audit";
+import { runDailyRollup } from "./stats-rollup";
+import { runRetention } from "./event-archive";
+import { purgeExpiredAttempts } from "./attempt-limiter";
+import { purgeExpiredSessions } from "./sessions";
+import { purgeExpiredTrash } from "./link-trash";
+import { consumeDeadLetterBatch, consumeVisitBatch, VISIT_DLQ_NAME } from "./visit-ingest";
 const app = new Hono<{ Bindings: Env }>();
 app.use(authVerify)
 app.onError((err, c) => {
@@ -36,7 +49,65 @@ app.route('/api/user/',user)
 app.route('/api/template-assets/', templateAssets)
 app.route('/api/template/', template)
 app.route('/api/shortlink/', shortlink)
+app.route('/api/stats/', stats)
+app.route('/api/archive/', archive)
+app.route('/api/app-settings/', appSettings)
+app.route('/api/token/', token)
+app.route('/api/2fa/', twoFactor)
+app.route('/api/sessions/', sessions)
+app.route('/api/audit/', audit)
 
 app.route('/', redirect);
 
-export default app;
+// Durable Object 类需要从入口导出
+export { VisitCounter } from './visit-counter'
+
+export default {
+    fetch: app.fetch,
+    // 访问事件队列消费者；死信队列单独处理
+    async queue(batch, env) {
+        if (batch.queue === VISIT_DLQ_NAME) {
+            await consumeDeadLetterBatch(batch, env);
+        } else {
+            await consumeVisitBatch(batch, env);
+        }
+    },
+    // 每日定时任务：清理过期记录和回收站，将前一天的访问事件汇总到 link_visit_stats_daily，再按保留策略归档旧事件
+    async scheduled(_controller, env, ctx) {
+        ctx.waitUntil((async () => {
+            try {
+                await purgeExpiredAttempts(env.shorturl, Math.floor(Date.now() / 1000));
+            } catch (error) {
+                console.error('清理登录失败记录失败:', error);
+            }
+            try {
+                await purgeExpiredSessions(env.shorturl, Math.floor(Date.now() / 1000));
+            } catch (error) {
+                console.error('清理过期会话失败:', error);
+            }
+            try {
+                const purged = await purgeExpiredTrash(env.shorturl, Math.floor(Date.now() / 1000));
+                if (purged > 0) {
+                    console.log(`回收站清理完成: 彻底删除 ${purged} 个短链接`);
+                }
+            } catch (error) {
+                console.error('清理回收站失败:', error);
+            }
+            try {
+                const { firstDay, lastDay } = await runDailyRollup(env.shorturl);
+                console.log(`访问统计汇总完成: ${firstDay} ~ ${lastDay}`);
+            } catch (error) {
+                console.error('访问统计汇总失败:', error);
+                return;
+            }
+            try {
+                const archived = await runRetention(env.shorturl, env.R2_BUCKET);
+                for (const { day, objects, events } of archived) {
+                    console.log(`访问事件归档完成: ${day}，${objects} 个对象，${events} 条事件`);
+                }
+            } catch (error) {
+                console.error('访问事件归档失败:', error);
+            }
+        })());
+    },
+} satisfies ExportedHandler<Env, unknown>;
@@ -0,0 +1,135 @@
+/**
+ * redirect 热路径的 KV 缓存（LINK_CACHE）
+ * link:<host>:<code>      短链接及其域名设置；不存在的短码也缓存（value 为 null），挡住随机短码扫描
+ * domain-error:<host>     域名的错误页模板 ID（短链接不存在时使用）
+ * tpl:<id>                模板 HTML（替换占位符之前）
+ * 后台修改相关数据后主动删除对应 key。KV 各地域的读缓存约 60 秒，修改在 1 分钟内全局生效；TTL 只是兜底
+ */
+
+// 命中数据的缓存时长（秒）
+const ENTRY_TTL = 24 * 60 * 60;
+// 不存在的短码 / 模板的缓存时长（秒），KV 允许的最小值
+const MISS_TTL = 60;
+
+type WaitUntil = (promise: Promise<unknown>) => void;
+
+interface CacheEntry<T> {
+    value: T | null;
+}
+
+function linkCacheKey(host: string, code: string): string {
+    return `link:${host}:${code}`;
+}
+
+function domainCacheKey(host: string): string {
+    return `domain-error:${host}`;
+}
+
+function templateCacheKey(templateId: number): string {
+    return `tpl:${templateId}`;
+}
+
+/** 先读 KV，未命中时调用 load 查询并在后台写回 */
+async function readThrough<T>(
+    kv: KVNamespace,
+    waitUntil: WaitUntil,
+    key: string,
+    load: () => Promise<T | null>
+): Promise<T | null> {
+    try {
+        const hit = await kv.get<CacheEntry<T>>(key, 'json');
+        if (hit) {
+            return hit.value;
+        }
+    } catch (error) {
+        // 缓存不可用时退回 D1，不影响跳转
+        console.error('读取短链接缓存失败:', error);
+    }
+
+    const value = await load();
+    waitUntil(
+        kv.put(key, JSON.stringify({ value } satisfies CacheEntry<T>), {
+            expirationTtl: value === null ? MISS_TTL : ENTRY_TTL,
+        }).catch((error) => console.error('写入短链接缓存失败:', error))
+    );
+    return value;
+}
+
+function getCachedLink<T>(env: Env, waitUntil: WaitUntil, host: string, code: string, load: () => Promise<T | null>): Promise<T | null> {
+    return readThrough(env.LINK_CACHE, waitUntil, linkCacheKey(host, code), load);
+}
+
+function getCachedDomainErrorTemplate(env: Env, waitUntil: WaitUntil, host: string, load: () => Promise<number | null>): Promise<number | null> {
+    return readThrough(env.LINK_CACHE, waitUntil, domainCacheKey(host), load);
+}
+
+function getCachedTemplate(env: Env, waitUntil: WaitUntil, templateId: number, load: () => Promise<string | null>): Promise<string | null> {
+    return readThrough(env.LINK_CACHE, waitUntil, templateCacheKey(templateId), load);
+}
+
+/** 查询短链接当前对应的缓存 key（修改前后各取一次，短码或域名变化时新旧 key 都要删除） */
+async function linkCacheKeys(db: D1Database, ids: number[]): Promise<string[]> {
+    if (ids.length === 0) {
+        return [];
+    }
+    const placeholders = ids.map(() => '?').join(',');
+    const { results } = await db
+        .prepare(`
+            SELECT sl.code, d.host
+            FROM short_links sl
+            JOIN domains d ON sl.domain_id = d.id
+            WHERE sl.id IN (${placeholders})
+        `)
+        .bind(...ids)
+        .all<{ code: string; host: string }>();
+    return results.map((row) => linkCacheKey(row.host, row.code));
+}
+
+async function deleteKeys(env: Env, keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+        return;
+    }
+    await Promise.all([...new Set(keys)].map((key) => env.LINK_CACHE.delete(key)));
+}
+
+/** 删除指定短链接的缓存；staleKeys 为修改前取得的 key */
+async function invalidateLinks(env: Env, ids: number[], staleKeys: string[] = []): Promise<void> {
+    await deleteKeys(env, [...staleKeys, ...await linkCacheKeys(env.shorturl, ids)]);
+}
+
+/** 删除某个域名下所有短链接及域名错误页的缓存 */
+async function invalidateDomain(env: Env, host: string): Promise<void> {
+    const kv = env.LINK_CACHE;
+    const keys = [domainCacheKey(host)];
+    let cursor: string | undefined;
+    do {
+        const page = await kv.list({ prefix: linkCacheKey(host, ''), cursor });
+        keys.push(...page.keys.map((k) => k.name));
+        cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    await deleteKeys(env, keys);
+}
+
+async function invalidateTemplates(env: Env, templateIds: number[]): Promise<void> {
+    await deleteKeys(env, templateIds.map(templateCacheKey));
+}
+
+/** 模板资源变化时，删除所有文件型模板的缓存（模板数量很少，不再按前缀区分） */
+async function invalidateFileTemplates(env: Env): Promise<void> {
+    const { results } = await env.shorturl
+        .prepare(`SELECT id FROM redirect_templates WHERE content_type = 1`)
+        .all<{ id: number }>();
+    await invalidateTemplates(env, results.map((row) => row.id));
+}
+
+export {
+    getCachedLink,
+    getCachedDomainErrorTemplate,
+    getCachedTemplate,
+    linkCacheKeys,
+    invalidateLinks,
+    invalidateDomain,
+    invalidateTemplates,
+    invalidateFileTemplates,
+};
+export type { WaitUntil };
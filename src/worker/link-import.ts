@@ -0,0 +1,203 @@
+/**
+ * 短链接批量导入
+ * 解析 CSV（首行为表头）或 JSON 数组，并按创建接口的规则逐行校验；域名、短码冲突等需要查库的检查由调用方完成
+ */
+
+type ImportFormat = 'csv' | 'json';
+
+interface ImportRow {
+    domain: string;                      // 域名 host
+    code: string;                        // 为空时自动生成
+    target_url: string;
+    tags: string[];
+    expire_at: number | null;
+    password: string | null;
+    redirect_http_code: number;
+    remark: string | null;
+}
+
+// 每次最多导入的行数
+const MAX_IMPORT_ROWS = 500;
+
+// 每次最多导入的带密码行数：每个密码 bcrypt 哈希约需 70-100ms CPU，行数过多会超出 Worker CPU 时间
+const MAX_IMPORT_PASSWORD_ROWS = 20;
+
+const VALID_HTTP_CODES = [301, 302, 307, 308];
+
+const CODE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// 表头别名，便于直接导入其他短链接服务导出的文件
+const COLUMN_ALIASES: Record<string, keyof ImportRow> = {
+    domain: 'domain',
+    domain_host: 'domain',
+    host: 'domain',
+    code: 'code',
+    short_code: 'code',
+    slug: 'code',
+    target_url: 'target_url',
+    url: 'target_url',
+    long_url: 'target_url',
+    tags: 'tags',
+    expire_at: 'expire_at',
+    expires_at: 'expire_at',
+    password: 'password',
+    redirect_http_code: 'redirect_http_code',
+    http_code: 'redirect_http_code',
+    redirect_type: 'redirect_http_code',
+    remark: 'remark',
+    title: 'remark',
+};
+
+/** 按 RFC 4180 解析 CSV：支持引号包裹的字段、字段内的逗号、换行和 "" 转义 */
+function parseCsv(content: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const text = content.replace(/^\uFEFF/, '');
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (quoted) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ',') {
+            record.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+    // 忽略空行
+    return records.filter((r) => r.some((value) => value.trim()));
+}
+
+/** 把 CSV 或 JSON 内容解析为按表头字段取值的记录 */
+function parseImportContent(format: ImportFormat, content: string): { records: Record<string, unknown>[] } | { error: string } {
+    let records: Record<string, unknown>[];
+    if (format === 'json') {
+        let data: unknown;
+        try {
+            data = JSON.parse(content);
+        } catch {
+            return { error: 'JSON 格式无效' };
+        }
+        if (!Array.isArray(data) || data.some((item) => !item || typeof item !== 'object' || Array.isArray(item))) {
+            return { error: 'JSON 内容必须是对象数组' };
+        }
+        records = data;
+    } else {
+        const [header, ...rows] = parseCsv(content);
+        if (!header) {
+            return { error: 'CSV 内容为空' };
+        }
+        const columns = header.map((name) => name.trim().toLowerCase());
+        records = rows.map((row) => Object.fromEntries(columns.map((name, i) => [name, row[i] ?? ''])));
+    }
+
+    if (records.length === 0) {
+        return { error: '没有可导入的数据' };
+    }
+    if (records.length > MAX_IMPORT_ROWS) {
+        return { error: `每次最多导入 ${MAX_IMPORT_ROWS} 行` };
+    }
+    return { records };
+}
+
+function optionalString(value: unknown): string | null {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    const text = String(value).trim();
+    return text || null;
+}
+
+// 过期时间支持 unix 秒或 ISO 8601 / 日期字符串
+function parseExpireAt(value: unknown): number | null | undefined {
+    const text = optionalString(value);
+    if (text === null) {
+        return null;
+    }
+    if (/^\d+$/.test(text)) {
+        return Number(text);
+    }
+    const ms = Date.parse(text);
+    return isNaN(ms) ? undefined : Math.floor(ms / 1000);
+}
+
+// 标签支持数组，或用逗号、| 分隔的字符串
+function parseTags(value: unknown): string[] {
+    const items = Array.isArray(value) ? value.map(String) : (optionalString(value) ?? '').split(/[,|]/);
+    return [...new Set(items.map((tag) => tag.trim()).filter(Boolean))];
+}
+
+/** 校验并规范化一行记录；不检查域名是否存在和短码冲突 */
+function normalizeImportRow(record: Record<string, unknown>): { row: ImportRow } | { error: string } {
+    const values: Partial<Record<keyof ImportRow, unknown>> = {};
+    for (const [key, value] of Object.entries(record)) {
+        const column = COLUMN_ALIASES[key.trim().toLowerCase()];
+        if (column && values[column] === undefined) {
+            values[column] = value;
+        }
+    }
+
+    const domain = optionalString(values.domain)?.toLowerCase();
+    if (!domain) {
+        return { error: '域名不能为空' };
+    }
+    const targetUrl = optionalString(values.target_url);
+    if (!targetUrl) {
+        return { error: '目标 URL 不能为空' };
+    }
+    const code = optionalString(values.code) ?? '';
+    if (code && !CODE_PATTERN.test(code)) {
+        return { error: '短码只能包含字母、数字、连字符和下划线' };
+    }
+
+    const httpCodeText = optionalString(values.redirect_http_code);
+    const httpCode = httpCodeText === null ? 302 : Number(httpCodeText);
+    if (!VALID_HTTP_CODES.includes(httpCode)) {
+        return { error: '无效的跳转状态码，仅支持 301/302/307/308' };
+    }
+
+    const expireAt = parseExpireAt(values.expire_at);
+    if (expireAt === undefined) {
+        return { error: '过期时间格式无效' };
+    }
+
+    return {
+        row: {
+            domain,
+            code,
+            target_url: targetUrl,
+            tags: parseTags(values.tags),
+            expire_at: expireAt,
+            password: optionalString(values.password),
+            redirect_http_code: httpCode,
+            remark: optionalString(values.remark),
+        },
+    };
+}
+
+export { MAX_IMPORT_ROWS, MAX_IMPORT_PASSWORD_ROWS, parseImportContent, normalizeImportRow };
+export type { ImportFormat, ImportRow };
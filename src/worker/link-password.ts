@@ -0,0 +1,25 @@
+/**
+ * 短链接访问密码
+ * 与用户密码一样使用 bcrypt 存储；旧数据中的明文密码仍可校验，校验通过后由调用方升级为哈希
+ */
+
+const BCRYPT_PATTERN = /^\$2[aby]\$\d{2}\$/;
+
+function isHashedLinkPassword(stored: string): boolean {
+    return BCRYPT_PATTERN.test(stored);
+}
+
+async function hashLinkPassword(password: string): Promise<string> {
+    const { hashSync } = await import('bcryptjs');
+    return hashSync(password, 10);
+}
+
+async function verifyLinkPassword(password: string, stored: string): Promise<boolean> {
+    if (!isHashedLinkPassword(stored)) {
+        return password === stored;
+    }
+    const { compareSync } = await import('bcryptjs');
+    return compareSync(password, stored);
+}
+
+export { isHashedLinkPassword, hashLinkPassword, verifyLinkPassword };
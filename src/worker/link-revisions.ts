@@ -0,0 +1,229 @@
+/**
+ * 短链接修改历史
+ * 每次创建、修改、启用/禁用、删除等操作后记录一条 revision：操作者、时间、操作后的完整状态（snapshot）及字段差异，
+ * 可以把短链接回滚到任一 revision 的状态
+ */
+
+type RevisionAction =
+    | 'baseline'    // 启用修改历史之前已存在的短链接，首次修改前的状态
+    | 'create'
+    | 'import'
+    | 'update'
+    | 'toggle'
+    | 'delete'
+    | 'restore'
+    | 'transfer'
+    | 'revert';
+
+// 记录到 snapshot 的字段（short_links 中可修改的列）
+const SNAPSHOT_FIELDS = [
+    'domain_id', 'code', 'target_url', 'owner_user_id',
+    'redirect_http_code', 'use_interstitial', 'interstitial_delay', 'force_interstitial',
+    'template_id', 'error_template_id', 'password_template_id',
+    'password', 'max_visits', 'start_at', 'expire_at', 'schedule', 'fallback_url',
+    'routing_rules', 'ab_variants', 'ab_sticky',
+    'is_disabled', 'deleted_at', 'remark',
+] as const;
+
+// 回滚时恢复的字段：所有者和删除状态由转移、回收站单独管理
+const REVERTIBLE_FIELDS = SNAPSHOT_FIELDS.filter((field) => field !== 'owner_user_id' && field !== 'deleted_at');
+
+type SnapshotField = (typeof SNAPSHOT_FIELDS)[number];
+
+type LinkSnapshot = Record<SnapshotField, string | number | null> & { tags: string[] };
+
+// 字段差异；密码只记录是否设置，不记录哈希
+type RevisionChanges = Record<string, { from: unknown; to: unknown }>;
+
+interface RevisionEntry {
+    linkId: number;
+    action: RevisionAction;
+    before: LinkSnapshot | null;    // create / import 时为 null
+    after: LinkSnapshot;
+    revertedFrom?: number;
+}
+
+interface RevisionRow {
+    id: number;
+    short_link_id: number;
+    revision: number;
+    action: RevisionAction;
+    actor_user_id: number | null;
+    actor_username: string | null;
+    changes: string | null;
+    reverted_from: number | null;
+    created_at: number;
+}
+
+// D1 单条语句最多绑定 100 个参数
+const IN_CHUNK_SIZE = 90;
+
+const MASKED_PASSWORD = '******';
+
+/** 读取短链接当前状态（含已删除的），不存在的 ID 不会出现在结果中 */
+async function loadSnapshots(db: D1Database, ids: number[]): Promise<Map<number, LinkSnapshot>> {
+    const snapshots = new Map<number, LinkSnapshot>();
+    const unique = [...new Set(ids)];
+    for (let i = 0; i < unique.length; i += IN_CHUNK_SIZE) {
+        const part = unique.slice(i, i + IN_CHUNK_SIZE);
+        const placeholders = part.map(() => '?').join(',');
+        const [links, tags] = await db.batch<Record<string, string | number | null>>([
+            db.prepare(`SELECT id, ${SNAPSHOT_FIELDS.join(', ')} FROM short_links WHERE id IN (${placeholders})`).bind(...part),
+            db.prepare(`
+                SELECT slt.short_link_id, t.name
+                FROM short_link_tags slt
+                JOIN tags t ON slt.tag_id = t.id
+                WHERE slt.short_link_id IN (${placeholders})
+                ORDER BY t.name
+            `).bind(...part),
+        ]);
+        for (const { id, ...fields } of links.results) {
+            snapshots.set(id as number, { ...fields, tags: [] as string[] } as LinkSnapshot);
+        }
+        for (const row of tags.results) {
+            snapshots.get(row.short_link_id as number)?.tags.push(row.name as string);
+        }
+    }
+    return snapshots;
+}
+
+function diffSnapshots(before: LinkSnapshot | null, after: LinkSnapshot): RevisionChanges {
+    const changes: RevisionChanges = {};
+    for (const field of SNAPSHOT_FIELDS) {
+        const from = before ? before[field] : null;
+        const to = after[field];
+        if (from === to || (before === null && to === null)) {
+            continue;
+        }
+        changes[field] = field === 'password'
+            ? { from: from ? MASKED_PASSWORD : null, to: to ? MASKED_PASSWORD : null }
+            : { from, to };
+    }
+    const fromTags = before?.tags ?? [];
+    if (fromTags.join('\n') !== after.tags.join('\n')) {
+        changes.tags = { from: fromTags, to: after.tags };
+    }
+    return changes;
+}
+
+/** 按短链接追加版本号（同一语句内取 MAX + 1，batch 中按顺序执行） */
+function insertRevisionStatement(
+    db: D1Database,
+    linkId: number,
+    action: RevisionAction,
+    actorId: number | null,
+    snapshot: LinkSnapshot,
+    changes: RevisionChanges | null,
+    revertedFrom: number | null,
+    now: number
+): D1PreparedStatement {
+    return db.prepare(`
+        INSERT INTO short_link_revisions (
+            short_link_id, revision, action, actor_user_id, snapshot, changes, reverted_from, created_at
+        )
+        SELECT ?, COALESCE(MAX(revision), 0) + 1, ?, ?, ?, ?, ?, ?
+        FROM short_link_revisions WHERE short_link_id = ?
+    `).bind(
+        linkId,
+        action,
+        actorId,
+        JSON.stringify(snapshot),
+        changes ? JSON.stringify(changes) : null,
+        revertedFrom,
+        now,
+        linkId
+    );
+}
+
+/**
+ * 记录一批 revision；没有实际变化的修改不记录
+ * 短链接还没有历史时，先用修改前的状态补一条 baseline，保证可以回滚到第一次修改之前
+ */
+async function recordRevisions(db: D1Database, actorId: number | null, entries: RevisionEntry[]): Promise<void> {
+    const pending = entries
+        .map((entry) => ({ ...entry, changes: diffSnapshots(entry.before, entry.after) }))
+        .filter((entry) => entry.before === null || Object.keys(entry.changes).length > 0);
+    if (pending.length === 0) {
+        return;
+    }
+
+    const withHistory = new Set<number>();
+    const ids = [...new Set(pending.filter((entry) => entry.before).map((entry) => entry.linkId))];
+    for (let i = 0; i < ids.length; i += IN_CHUNK_SIZE) {
+        const part = ids.slice(i, i + IN_CHUNK_SIZE);
+        const { results } = await db.prepare(`
+            SELECT DISTINCT short_link_id FROM short_link_revisions WHERE short_link_id IN (${part.map(() => '?').join(',')})
+        `).bind(...part).all<{ short_link_id: number }>();
+        results.forEach((row) => withHistory.add(row.short_link_id));
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const statements: D1PreparedStatement[] = [];
+    for (const entry of pending) {
+        if (entry.before && !withHistory.has(entry.linkId)) {
+            statements.push(insertRevisionStatement(db, entry.linkId, 'baseline', null, entry.before, null, null, now));
+            withHistory.add(entry.linkId);
+        }
+        statements.push(insertRevisionStatement(
+            db, entry.linkId, entry.action, actorId, entry.after, entry.changes, entry.revertedFrom ?? null, now
+        ));
+    }
+    await db.batch(statements);
+}
+
+/** 记录新建的短链接（create / import） */
+async function recordCreated(db: D1Database, actorId: number | null, action: RevisionAction, ids: number[]): Promise<void> {
+    const after = await loadSnapshots(db, ids);
+    await recordRevisions(db, actorId, [...after].map(([linkId, snapshot]) => ({ linkId, action, before: null, after: snapshot })));
+}
+
+/**
+ * 修改之后调用：before 为修改前 loadSnapshots 的结果，重新读取当前状态并记录有变化的短链接
+ * 已不存在（被彻底删除）的短链接不记录
+ */
+async function recordChanges(
+    db: D1Database,
+    actorId: number | null,
+    action: RevisionAction,
+    before: Map<number, LinkSnapshot>,
+    revertedFrom?: number
+): Promise<void> {
+    const after = await loadSnapshots(db, [...before.keys()]);
+    await recordRevisions(db, actorId, [...before]
+        .filter(([linkId]) => after.has(linkId))
+        .map(([linkId, snapshot]) => ({ linkId, action, before: snapshot, after: after.get(linkId)!, revertedFrom })));
+}
+
+/** 短链接的修改历史，新的在前 */
+async function listRevisions(db: D1Database, linkId: number): Promise<RevisionRow[]> {
+    const { results } = await db.prepare(`
+        SELECT r.id, r.short_link_id, r.revision, r.action, r.actor_user_id, u.username as actor_username,
+               r.changes, r.reverted_from, r.created_at
+        FROM short_link_revisions r
+        LEFT JOIN users u ON r.actor_user_id = u.id
+        WHERE r.short_link_id = ?
+        ORDER BY r.revision DESC
+    `).bind(linkId).all<RevisionRow>();
+    return results;
+}
+
+async function getRevisionSnapshot(
+    db: D1Database,
+    linkId: number,
+    revision: number
+): Promise<LinkSnapshot | null> {
+    const row = await db.prepare(`
+        SELECT snapshot FROM short_link_revisions WHERE short_link_id = ? AND revision = ?
+    `).bind(linkId, revision).first<{ snapshot: string }>();
+    return row ? JSON.parse(row.snapshot) : null;
+}
+
+export {
+    REVERTIBLE_FIELDS,
+    loadSnapshots,
+    recordCreated,
+    recordChanges,
+    listRevisions,
+    getRevisionSnapshot,
+};
+export type { RevisionAction, LinkSnapshot, RevisionChanges, RevisionEntry, RevisionRow };
@@ -0,0 +1,143 @@
+/**
+ * 短链接的周期性生效时间
+ * JSON 保存在 short_links.schedule：在指定时区下，按星期几和每天的时间段开放访问，时间段之外返回"暂不可用"
+ * 结束时间早于开始时间表示跨午夜（如 22:00-02:00），此时 days 指开始的那一天
+ */
+
+interface ScheduleWindow {
+    days: number[];     // 0=周日 ... 6=周六
+    start: string;      // "HH:MM"
+    end: string;        // "HH:MM"，不含
+}
+
+interface LinkSchedule {
+    timezone: string;   // IANA 时区，如 "Asia/Shanghai"
+    windows: ScheduleWindow[];
+}
+
+const MAX_WINDOWS = 14;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+}
+
+function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** 读取保存的时间表，格式错误时视为不限制 */
+function parseSchedule(raw: string | null): LinkSchedule | null {
+    if (!raw) {
+        return null;
+    }
+    try {
+        const schedule = JSON.parse(raw);
+        return schedule && Array.isArray(schedule.windows) && schedule.windows.length > 0 ? schedule : null;
+    } catch {
+        return null;
+    }
+}
+
+/** 校验并规范化接口提交的时间表；null 表示不限制 */
+function validateSchedule(value: unknown): { schedule: LinkSchedule | null } | { error: string } {
+    if (value === null) {
+        return { schedule: null };
+    }
+    if (!value || typeof value !== 'object') {
+        return { error: '生效时间段格式无效' };
+    }
+    const { timezone, windows } = value as Record<string, unknown>;
+    if (typeof timezone !== 'string' || !isValidTimezone(timezone)) {
+        return { error: '时区无效' };
+    }
+    if (!Array.isArray(windows) || windows.length > MAX_WINDOWS) {
+        return { error: `生效时间段最多 ${MAX_WINDOWS} 个` };
+    }
+    if (windows.length === 0) {
+        return { schedule: null };
+    }
+
+    const cleaned: ScheduleWindow[] = [];
+    for (const [index, item] of windows.entries()) {
+        const label = `第 ${index + 1} 个生效时间段`;
+        if (!item || typeof item !== 'object') {
+            return { error: `${label}格式无效` };
+        }
+        const { days, start, end } = item as Record<string, unknown>;
+        if (!Array.isArray(days) || days.length === 0 || days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+            return { error: `${label}的星期无效` };
+        }
+        if (typeof start !== 'string' || typeof end !== 'string' || !TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+            return { error: `${label}的时间格式应为 HH:MM` };
+        }
+        if (start === end) {
+            return { error: `${label}的开始和结束时间不能相同` };
+        }
+        cleaned.push({ days: [...new Set(days as number[])].sort((a, b) => a - b), start, end });
+    }
+    return { schedule: { timezone, windows: cleaned } };
+}
+
+/** 校验结束后的备用跳转地址，只接受 http(s) 绝对地址；空值表示不设置 */
+function validateFallbackUrl(value: unknown): { url: string | null } | { error: string } {
+    if (value === null || value === undefined || (typeof value === 'string' && !value.trim())) {
+        return { url: null };
+    }
+    if (typeof value !== 'string') {
+        return { error: '备用跳转地址格式无效' };
+    }
+    let url: URL;
+    try {
+        url = new URL(value.trim());
+    } catch {
+        return { error: '备用跳转地址不是有效的 URL' };
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return { error: '备用跳转地址只支持 http 或 https' };
+    }
+    return { url: value.trim() };
+}
+
+/** 判断某一时刻（unix 秒）是否在时间表内 */
+function isWithinSchedule(schedule: LinkSchedule, now: number): boolean {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+        parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: schedule.timezone,
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23',
+        }).formatToParts(new Date(now * 1000));
+    } catch {
+        // 时区不可用时不限制访问
+        return true;
+    }
+    const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+    const day = WEEKDAYS.indexOf(part('weekday'));
+    const previousDay = (day + 6) % 7;
+    const minutes = Number(part('hour')) * 60 + Number(part('minute'));
+
+    return schedule.windows.some((window) => {
+        const start = toMinutes(window.start);
+        const end = toMinutes(window.end);
+        if (start < end) {
+            return window.days.includes(day) && minutes >= start && minutes < end;
+        }
+        // 跨午夜：开始当天的晚段，或前一天开始的窗口在今天凌晨的部分
+        return (window.days.includes(day) && minutes >= start) || (window.days.includes(previousDay) && minutes < end);
+    });
+}
+
+export { parseSchedule, validateSchedule, validateFallbackUrl, isWithinSchedule };
+export type { LinkSchedule, ScheduleWindow };
@@ -0,0 +1,65 @@
+import { getAppSetting, setAppSetting } from "./settings";
+import { DAY_SECONDS } from "./stats-rollup";
+
+/**
+ * 短链接回收站
+ * 删除只设置 deleted_at，短码仍占用唯一索引；彻底删除（purge）后短码才能重新使用
+ * 访问事件和日汇总保留；日汇总记录访问时的 domain_id，域名/全局统计不受影响
+ */
+
+// app_settings 中回收站的保留天数，0 或未设置表示不自动清空
+const TRASH_RETENTION_DAYS_KEY = 'trash_retention_days';
+
+// 单次定时任务最多彻底删除的短链接数，剩余的下次继续
+const MAX_PURGE_PER_RUN = 500;
+
+async function getTrashRetentionDays(db: D1Database): Promise<number> {
+    const value = parseInt((await getAppSetting(db, TRASH_RETENTION_DAYS_KEY)) || '0');
+    return isNaN(value) || value < 0 ? 0 : value;
+}
+
+async function setTrashRetentionDays(db: D1Database, days: number): Promise<void> {
+    await setAppSetting(db, TRASH_RETENTION_DAYS_KEY, String(days));
+}
+
+/**
+ * 彻底删除回收站中的短链接及其标签关联、修改历史，只处理已删除的记录
+ * ownerId 不为 null 时只删除该用户的短链接，返回删除的数量
+ */
+async function purgeLinks(db: D1Database, ids: number[], ownerId: number | null = null): Promise<number> {
+    if (ids.length === 0) {
+        return 0;
+    }
+    const placeholders = ids.map(() => '?').join(',');
+    const ownerSql = ownerId === null ? '' : ' AND owner_user_id = ?';
+    const params = ownerId === null ? ids : [...ids, ownerId];
+    const selection = `SELECT id FROM short_links WHERE id IN (${placeholders}) AND deleted_at IS NOT NULL${ownerSql}`;
+
+    const [, , result] = await db.batch([
+        db.prepare(`DELETE FROM short_link_tags WHERE short_link_id IN (${selection})`).bind(...params),
+        db.prepare(`DELETE FROM short_link_revisions WHERE short_link_id IN (${selection})`).bind(...params),
+        db.prepare(`DELETE FROM short_links WHERE id IN (${selection})`).bind(...params),
+    ]);
+    return result.meta.changes;
+}
+
+/** 按保留策略清空回收站中超期的短链接，由 scheduled（cron）处理器调用 */
+async function purgeExpiredTrash(db: D1Database, now: number): Promise<number> {
+    const days = await getTrashRetentionDays(db);
+    if (days === 0) {
+        return 0;
+    }
+    const { results } = await db
+        .prepare(`SELECT id FROM short_links WHERE deleted_at IS NOT NULL AND deleted_at < ? ORDER BY deleted_at LIMIT ?`)
+        .bind(now - days * DAY_SECONDS, MAX_PURGE_PER_RUN)
+        .all<{ id: number }>();
+
+    let purged = 0;
+    // D1 单条语句最多绑定 100 个参数
+    for (let i = 0; i < results.length; i += 90) {
+        purged += await purgeLinks(db, results.slice(i, i + 90).map((row) => row.id));
+    }
+    return purged;
+}
+
+export { getTrashRetentionDays, setTrashRetentionDays, purgeLinks, purgeExpiredTrash };
@@ -0,0 +1,414 @@
+import { sign, verify, verifyWithJwks } from "hono/jwt";
+import { getAppSetting, setAppSetting } from "./settings";
+import { isRole, Role } from "./rbac";
+
+/**
+ * OpenID Connect 单点登录（授权码 + PKCE）
+ * 配置保存在 app_settings.oidc_config（JSON），首次登录自动创建用户，
+ * 用户通过 users.oidc_issuer + users.oidc_subject 与 IdP 账号关联；
+ * 已有的本地账号不会按邮箱自动关联，需要输入本地密码确认
+ */
+
+const OIDC_CONFIG_KEY = 'oidc_config';
+const DISABLE_PASSWORD_LOGIN_KEY = 'disable_password_login';
+
+// discovery 文档缓存时长（毫秒）
+const DISCOVERY_TTL = 60 * 60 * 1000;
+
+// 关联本地账号的确认 token 有效期（秒）
+const LINK_TOKEN_TTL = 5 * 60;
+
+const ID_TOKEN_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA'] as const;
+
+interface OidcConfig {
+    enabled: boolean;
+    issuer: string;                 // 如 "https://idp.example.com/realms/main"，本地测试可用 http://localhost
+    client_id: string;
+    client_secret: string;          // 为空表示公共客户端，只依赖 PKCE
+    scopes: string;
+    button_label: string;           // 登录页按钮文字
+    role_claim: string;             // 组/角色声明，支持点路径（如 "realm_access.roles"）；为空则不同步角色
+    admin_groups: string[];         // role_claim 中包含任一值时映射为 admin，否则为 default_role
+    default_role: Role;             // 新用户（以及配置了 role_claim 但不属于管理员组的用户）的角色
+}
+
+interface OidcMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    jwks_uri: string;
+}
+
+interface OidcClaims {
+    sub: string;
+    email?: string;
+    email_verified?: boolean;
+    preferred_username?: string;
+    name?: string;
+    [claim: string]: unknown;
+}
+
+interface OidcUser {
+    id: number;
+    username: string | null;
+    role: string | null;
+    status: number;
+    deleted_at: number | null;
+}
+
+// 已验证邮箱与尚未关联 SSO 的本地账号相同：需要用户输入该账号的密码确认后才关联
+interface OidcLinkRequired {
+    link: {
+        user_id: number;
+        username: string | null;
+        issuer: string;
+        subject: string;
+        role: Role | null;          // IdP 组声明对应的角色，关联后同步
+    };
+}
+
+const DEFAULT_OIDC_CONFIG: OidcConfig = {
+    enabled: false,
+    issuer: '',
+    client_id: '',
+    client_secret: '',
+    scopes: 'openid profile email',
+    button_label: 'Sign in with SSO',
+    role_claim: '',
+    admin_groups: [],
+    default_role: 'user',
+};
+
+// 当前 isolate 缓存的 discovery 文档
+const discoveryCache = new Map<string, { metadata: OidcMetadata; fetchedAt: number }>();
+
+async function getOidcConfig(db: D1Database): Promise<OidcConfig> {
+    const value = await getAppSetting(db, OIDC_CONFIG_KEY);
+    if (!value) {
+        return { ...DEFAULT_OIDC_CONFIG };
+    }
+    try {
+        return { ...DEFAULT_OIDC_CONFIG, ...JSON.parse(value) as Partial<OidcConfig> };
+    } catch {
+        console.error('oidc_config 不是有效的 JSON，已忽略');
+        return { ...DEFAULT_OIDC_CONFIG };
+    }
+}
+
+async function setOidcConfig(db: D1Database, config: OidcConfig): Promise<void> {
+    await setAppSetting(db, OIDC_CONFIG_KEY, JSON.stringify(config));
+}
+
+function isOidcReady(config: OidcConfig): boolean {
+    return config.enabled && !!config.issuer && !!config.client_id;
+}
+
+/** 只有 SSO 可用时才真正禁用密码登录，避免配置错误导致所有人无法登录 */
+async function isPasswordLoginDisabled(db: D1Database): Promise<boolean> {
+    if ((await getAppSetting(db, DISABLE_PASSWORD_LOGIN_KEY)) !== '1') {
+        return false;
+    }
+    return isOidcReady(await getOidcConfig(db));
+}
+
+async function getPasswordLoginDisabledSetting(db: D1Database): Promise<boolean> {
+    return (await getAppSetting(db, DISABLE_PASSWORD_LOGIN_KEY)) === '1';
+}
+
+async function setPasswordLoginDisabled(db: D1Database, disabled: boolean): Promise<void> {
+    await setAppSetting(db, DISABLE_PASSWORD_LOGIN_KEY, disabled ? '1' : '0');
+}
+
+async function discover(issuer: string): Promise<OidcMetadata> {
+    const cached = discoveryCache.get(issuer);
+    if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL) {
+        return cached.metadata;
+    }
+    const response = await fetch(`${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`);
+    if (!response.ok) {
+        throw new Error(`获取 OIDC discovery 文档失败: HTTP ${response.status}`);
+    }
+    const metadata = await response.json<OidcMetadata>();
+    if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+        throw new Error('OIDC discovery 文档缺少必要字段');
+    }
+    discoveryCache.set(issuer, { metadata, fetchedAt: Date.now() });
+    return metadata;
+}
+
+function base64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomToken(): string {
+    return base64Url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/** 生成 PKCE code_verifier 及其 S256 code_challenge */
+async function createPkcePair(): Promise<{ verifier: string; challenge: string }> {
+    const verifier = randomToken();
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+    return { verifier, challenge: base64Url(new Uint8Array(digest)) };
+}
+
+function buildAuthorizationUrl(
+    config: OidcConfig,
+    metadata: OidcMetadata,
+    params: { redirectUri: string; state: string; nonce: string; challenge: string }
+): string {
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.client_id);
+    url.searchParams.set('redirect_uri', params.redirectUri);
+    url.searchParams.set('scope', config.scopes || DEFAULT_OIDC_CONFIG.scopes);
+    url.searchParams.set('state', params.state);
+    url.searchParams.set('nonce', params.nonce);
+    url.searchParams.set('code_challenge', params.challenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    return url.toString();
+}
+
+/** 用授权码换取 id_token 并校验签名、issuer、audience 和 nonce */
+async function exchangeCode(
+    config: OidcConfig,
+    metadata: OidcMetadata,
+    params: { code: string; redirectUri: string; verifier: string; nonce: string }
+): Promise<OidcClaims> {
+    const body = new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: params.code,
+        redirect_uri: params.redirectUri,
+        client_id: config.client_id,
+        code_verifier: params.verifier,
+    });
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+    };
+    // 机密客户端使用 client_secret_basic
+    if (config.client_secret) {
+        const credentials = `${encodeURIComponent(config.client_id)}:${encodeURIComponent(config.client_secret)}`;
+        headers.Authorization = `Basic ${btoa(credentials)}`;
+    }
+
+    const response = await fetch(metadata.token_endpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+        throw new Error(`OIDC token 请求失败: HTTP ${response.status} ${await response.text()}`);
+    }
+    const tokens = await response.json<{ id_token?: string }>();
+    if (!tokens.id_token) {
+        throw new Error('OIDC token 响应中没有 id_token');
+    }
+
+    const claims = await verifyWithJwks(tokens.id_token, {
+        jwks_uri: metadata.jwks_uri,
+        allowedAlgorithms: ID_TOKEN_ALGORITHMS,
+        verification: { iss: metadata.issuer, aud: config.client_id },
+    }) as OidcClaims;
+    if (claims.nonce !== params.nonce) {
+        throw new Error('id_token nonce 不匹配');
+    }
+    if (!claims.sub) {
+        throw new Error('id_token 缺少 sub');
+    }
+    return claims;
+}
+
+// 按点路径读取声明，如 "realm_access.roles"
+function readClaim(claims: OidcClaims, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        claims
+    );
+}
+
+/** 根据组声明计算角色；未配置 role_claim 时返回 null（不同步角色） */
+function resolveRole(config: OidcConfig, claims: OidcClaims): Role | null {
+    if (!config.role_claim) {
+        return null;
+    }
+    const value = readClaim(claims, config.role_claim);
+    const groups = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(/[\s,]+/) : [];
+    return groups.some((group) => config.admin_groups.includes(group)) ? 'admin' : config.default_role;
+}
+
+async function pickUsername(db: D1Database, claims: OidcClaims): Promise<string> {
+    const base = (claims.preferred_username || claims.email || claims.sub).trim().slice(0, 64);
+    const taken = await db.prepare(`SELECT id FROM users WHERE username = ?`).bind(base).first();
+    if (!taken) {
+        return base;
+    }
+    // 与本地账号重名时追加随机后缀，不自动合并同名账号
+    return `${base}-${base64Url(crypto.getRandomValues(new Uint8Array(3)))}`;
+}
+
+/** IdP 是角色的唯一来源：每次登录同步，未配置 role_claim 时不修改 */
+async function syncRole(db: D1Database, user: OidcUser, role: Role | null): Promise<OidcUser> {
+    if (!role || role === user.role) {
+        return user;
+    }
+    await db
+        .prepare(`UPDATE users SET role = ?, updated_at = ? WHERE id = ?`)
+        .bind(role, Math.floor(Date.now() / 1000), user.id)
+        .run();
+    return { ...user, role };
+}
+
+/**
+ * 查找 IdP 账号对应的用户，不存在时自动创建
+ * 已验证邮箱与尚未关联 SSO 的本地账号相同时不自动关联（否则控制 IdP 邮箱即可接管管理员等本地账号），
+ * 返回 link，由用户输入本地密码后调用 linkOidcAccount
+ */
+async function findOrProvisionUser(
+    db: D1Database,
+    config: OidcConfig,
+    issuer: string,
+    claims: OidcClaims
+): Promise<OidcUser | OidcLinkRequired> {
+    const now = Math.floor(Date.now() / 1000);
+    const role = resolveRole(config, claims);
+
+    const user = await db
+        .prepare(`SELECT id, username, role, status, deleted_at FROM users WHERE oidc_issuer = ? AND oidc_subject = ?`)
+        .bind(issuer, claims.sub)
+        .first<OidcUser>();
+
+    const email = claims.email?.trim() || null;
+    if (!user && email && claims.email_verified === true) {
+        const local = await db
+            .prepare(`
+                SELECT id, username FROM users
+                WHERE email = ? AND oidc_subject IS NULL AND deleted_at IS NULL
+            `)
+            .bind(email)
+            .first<{ id: number; username: string | null }>();
+        if (local) {
+            return { link: { user_id: local.id, username: local.username, issuer, subject: claims.sub, role } };
+        }
+    }
+
+    if (!user) {
+        // 邮箱已被其他账号使用时不保存，避免唯一索引冲突
+        const emailTaken = email ? await db.prepare(`SELECT id FROM users WHERE email = ?`).bind(email).first() : null;
+        const created = await db
+            .prepare(`
+                INSERT INTO users (email, username, password_hash, role, status, oidc_issuer, oidc_subject, created_at, updated_at)
+                VALUES (?, ?, NULL, ?, 0, ?, ?, ?, ?)
+                RETURNING id, username, role, status, deleted_at
+            `)
+            .bind(emailTaken ? null : email, await pickUsername(db, claims), role ?? config.default_role, issuer, claims.sub, now, now)
+            .first<OidcUser>();
+        if (!created) {
+            throw new Error('创建 SSO 用户失败');
+        }
+        return created;
+    }
+
+    return syncRole(db, user, role);
+}
+
+/**
+ * 本地密码确认后关联 IdP 账号并同步角色
+ * 该账号在此期间已关联其他 IdP 账号时返回 null
+ */
+async function linkOidcAccount(db: D1Database, link: OidcLinkRequired['link']): Promise<OidcUser | null> {
+    const linked = await db
+        .prepare(`
+            UPDATE users SET oidc_issuer = ?, oidc_subject = ?
+            WHERE id = ? AND oidc_subject IS NULL AND deleted_at IS NULL
+            RETURNING id, username, role, status, deleted_at
+        `)
+        .bind(link.issuer, link.subject, link.user_id)
+        .first<OidcUser>();
+    return linked ? syncRole(db, linked, link.role) : null;
+}
+
+// 关联确认 token 使用独立的派生密钥签名，不能当作登录 JWT 或 2FA 挑战 token 使用
+function linkTokenSecret(jwtSecret: string): string {
+    return `${jwtSecret}:oidc-link`;
+}
+
+/** IdP 登录成功但需要确认本地账号时签发，携带待关联的 IdP 账号 */
+async function createLinkToken(jwtSecret: string, link: OidcLinkRequired['link']): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    return sign({
+        sub: link.user_id,
+        oidc_issuer: link.issuer,
+        oidc_subject: link.subject,
+        role: link.role,
+        iat: now,
+        exp: now + LINK_TOKEN_TTL,
+    }, linkTokenSecret(jwtSecret));
+}
+
+/** 校验关联确认 token，无效或过期返回 null */
+async function verifyLinkToken(jwtSecret: string, token: string): Promise<OidcLinkRequired['link'] | null> {
+    try {
+        const payload = await verify(token, linkTokenSecret(jwtSecret), 'HS256');
+        if (payload.sub == null || typeof payload.oidc_issuer !== 'string' || typeof payload.oidc_subject !== 'string') {
+            return null;
+        }
+        return {
+            user_id: Number(payload.sub),
+            username: null,
+            issuer: payload.oidc_issuer,
+            subject: payload.oidc_subject,
+            role: isRole(payload.role) ? payload.role : null,
+        };
+    } catch {
+        return null;
+    }
+}
+
+/** 校验管理员提交的配置，返回错误信息或 null */
+function validateOidcConfig(config: OidcConfig): string | null {
+    if (typeof config.enabled !== 'boolean') {
+        return 'oidc.enabled 必须是布尔值';
+    }
+    for (const key of ['issuer', 'client_id', 'client_secret', 'scopes', 'button_label', 'role_claim'] as const) {
+        if (typeof config[key] !== 'string') {
+            return `oidc.${key} 必须是字符串`;
+        }
+    }
+    if (config.issuer) {
+        let url: URL;
+        try {
+            url = new URL(config.issuer);
+        } catch {
+            return 'oidc.issuer 不是有效的 URL';
+        }
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            return 'oidc.issuer 必须是 http(s) 地址';
+        }
+    }
+    if (config.enabled && (!config.issuer || !config.client_id)) {
+        return '启用 SSO 需要填写 issuer 和 client_id';
+    }
+    if (!Array.isArray(config.admin_groups) || config.admin_groups.some((g) => typeof g !== 'string')) {
+        return 'oidc.admin_groups 必须是字符串数组';
+    }
+    if (!isRole(config.default_role)) {
+        return 'oidc.default_role 无效';
+    }
+    return null;
+}
+
+export {
+    getOidcConfig,
+    setOidcConfig,
+    isOidcReady,
+    isPasswordLoginDisabled,
+    getPasswordLoginDisabledSetting,
+    setPasswordLoginDisabled,
+    discover,
+    randomToken,
+    createPkcePair,
+    buildAuthorizationUrl,
+    exchangeCode,
+    findOrProvisionUser,
+    linkOidcAccount,
+    createLinkToken,
+    verifyLinkToken,
+    validateOidcConfig,
+};
+export type { OidcConfig, OidcClaims, OidcUser, OidcLinkRequired };
@@ -0,0 +1,118 @@
+import { getAppSetting } from "./settings";
+import { toDay } from "./stats-rollup";
+
+/**
+ * 访问者 IP 的存储方式
+ * full     - 原样保存 IP 与 User-Agent
+ * truncate - IP 截断到 /24 (IPv4) 或 /48 (IPv6)，保留 User-Agent
+ * hash     - 只保存加盐哈希（盐每天轮换），不保存原始 IP 与 User-Agent
+ */
+type IpMode = 'full' | 'truncate' | 'hash';
+
+const IP_MODES: IpMode[] = ['full', 'truncate', 'hash'];
+
+// app_settings 中的全局 IP 存储方式，域名未单独设置时使用
+const PRIVACY_IP_MODE_KEY = 'privacy_ip_mode';
+
+// app_settings 中每日盐的 key 前缀，后接 "YYYY-MM-DD"
+const SALT_KEY_PREFIX = 'privacy_salt:';
+
+// 当前 isolate 缓存的当日盐，避免每次访问都查询 D1
+let saltCache: { day: string; salt: string } | null = null;
+
+function isIpMode(value: unknown): value is IpMode {
+    return typeof value === 'string' && (IP_MODES as string[]).includes(value);
+}
+
+async function getGlobalIpMode(db: D1Database): Promise<IpMode> {
+    const value = await getAppSetting(db, PRIVACY_IP_MODE_KEY);
+    return isIpMode(value) ? value : 'full';
+}
+
+/** IPv4 截断为 /24，IPv6 截断为 /48，无法识别的格式返回 null */
+function truncateIp(ip: string): string | null {
+    if (/^\d{1,3}(\.\d{1,3}){3}$/.test(ip)) {
+        return ip.split('.').slice(0, 3).join('.') + '.0';
+    }
+
+    if (ip.includes(':')) {
+        // 展开 "::" 缩写后取前 3 组
+        const [head, tail = ''] = ip.split('::');
+        const headGroups = head ? head.split(':') : [];
+        const tailGroups = tail ? tail.split(':') : [];
+        const groups = ip.includes('::')
+            ? [...headGroups, ...Array(Math.max(0, 8 - headGroups.length - tailGroups.length)).fill('0'), ...tailGroups]
+            : headGroups;
+        if (groups.length < 3) {
+            return null;
+        }
+        return groups.slice(0, 3).map((g) => (parseInt(g, 16) || 0).toString(16)).join(':') + '::';
+    }
+
+    return null;
+}
+
+/**
+ * 获取某天的盐，不存在则生成
+ * 生成新盐时删除之前的旧盐，使跨天的哈希无法再关联到同一访问者
+ */
+async function getDailySalt(db: D1Database, day: string): Promise<string> {
+    if (saltCache?.day === day) {
+        return saltCache.salt;
+    }
+
+    const key = SALT_KEY_PREFIX + day;
+    const salt = Array.from(crypto.getRandomValues(new Uint8Array(16)))
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+    const now = Math.floor(Date.now() / 1000);
+
+    // 并发请求可能同时生成，以先写入的为准
+    await db.batch([
+        db.prepare(`INSERT OR IGNORE INTO app_settings (key, value, updated_at) VALUES (?, ?, ?)`).bind(key, salt, now),
+        db.prepare(`DELETE FROM app_settings WHERE key LIKE ? AND key < ?`).bind(SALT_KEY_PREFIX + '%', key),
+    ]);
+
+    const stored = (await getAppSetting(db, key)) || salt;
+    saltCache = { day, salt: stored };
+    return stored;
+}
+
+async function saltedHash(salt: string, value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${value}`));
+    return Array.from(new Uint8Array(digest).slice(0, 16))
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * 按存储方式处理访问者的 IP 与 User-Agent
+ * 无论哪种方式都生成当日的访客哈希 (ip + ua)，用于统计 unique_users
+ * hash 方式下 ip 字段保存 IP 的当日哈希，仍可统计 unique_ips
+ */
+async function anonymizeVisitor(
+    db: D1Database,
+    mode: IpMode,
+    ip: string | null,
+    ua: string | null,
+    visitedAt: number
+): Promise<{ ip: string | null; ua: string | null; visitor_hash: string | null }> {
+    if (!ip) {
+        return { ip: null, ua: mode === 'hash' ? null : ua, visitor_hash: null };
+    }
+
+    const salt = await getDailySalt(db, toDay(visitedAt));
+    const visitorHash = await saltedHash(salt, `${ip}|${ua || ''}`);
+
+    switch (mode) {
+        case 'truncate':
+            return { ip: truncateIp(ip), ua, visitor_hash: visitorHash };
+        case 'hash':
+            return { ip: await saltedHash(salt, ip), ua: null, visitor_hash: visitorHash };
+        default:
+            return { ip, ua, visitor_hash: visitorHash };
+    }
+}
+
+export { IP_MODES, PRIVACY_IP_MODE_KEY, isIpMode, getGlobalIpMode, truncateIp, anonymizeVisitor };
+export type { IpMode };
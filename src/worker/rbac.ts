@@ -0,0 +1,42 @@
+import { createMiddleware } from "hono/factory";
+import { CurrentUser, ErrorCode, HttpResponseJsonBody, Variables } from "./util";
+
+/**
+ * 用户角色
+ * admin - 管理用户、域名、模板、模板资源及系统设置
+ * user  - 管理短链接，只能读取域名和模板供选择
+ */
+type Role = 'admin' | 'user';
+
+const ROLES: Role[] = ['admin', 'user'];
+
+function isRole(value: unknown): value is Role {
+    return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+function isAdmin(user: CurrentUser | undefined): boolean {
+    return user?.role === 'admin';
+}
+
+/**
+ * 短链接归属限制：普通用户只能查看和修改自己的短链接（及其统计）
+ * 返回需要匹配的 owner_user_id，管理员不受限制返回 null
+ */
+function linkOwnerScope(user: CurrentUser): number | null {
+    return isAdmin(user) ? null : user.id;
+}
+
+/** 仅管理员可访问的路由，其他角色返回 403 */
+const requireAdmin = createMiddleware<{ Variables: Variables; Bindings: Env }>(async (c, next) => {
+    if (!isAdmin(c.get('currentUser') as CurrentUser | undefined)) {
+        const response: HttpResponseJsonBody = {
+            code: ErrorCode.FORBIDDEN,
+            message: '需要管理员权限'
+        };
+        return c.json(response, 403);
+    }
+    await next();
+});
+
+export { ROLES, isRole, isAdmin, linkOwnerScope, requireAdmin };
+export type { Role };
@@ -1,8 +1,24 @@
-import { Hono } from "hono";
+import { Context, Hono } from "hono";
+import { getCookie, getSignedCookie, setCookie, setSignedCookie } from "hono/cookie";
 import { UAParser } from 'ua-parser-js';
 import { ErrorCode } from "./util";
+import { IpMode } from "./privacy";
+import { hashLinkPassword, isHashedLinkPassword, verifyLinkPassword } from "./link-password";
+import { clearFailures, getLockout, linkAttemptKeys, recordFailure } from "./attempt-limiter";
+import { getCachedDomainErrorTemplate, getCachedLink, getCachedTemplate, invalidateLinks, WaitUntil } from "./link-cache";
+import { getVisitCount, reserveVisit } from "./visit-counter";
+import { trackVisit, VisitEventData } from "./visit-ingest";
+import { parseRoutingRules, primaryLanguage, resolveRoute, VisitorAttributes } from "./routing-rules";
+import { parseAbVariants, pickAbVariant } from "./ab-variants";
+import { isWithinSchedule, parseSchedule } from "./link-schedule";
 const app = new Hono<{ Bindings: Env }>();
 
+// 密码验证通过后的 cookie 有效期（秒）
+const PASSWORD_COOKIE_TTL = 30 * 60;
+
+// A/B 分流 sticky cookie 的有效期（秒）
+const AB_COOKIE_TTL = 30 * 24 * 60 * 60;
+
 interface ShortLink {
     id: number;
     domain_id: number;
@@ -13,35 +29,22 @@ interface ShortLink {
     interstitial_delay: number;                    // 中转页等待时间（秒），0为不等待
     force_interstitial: number;                    // 是否强制中转页验签：0=不强制，1=强制
     template_id: number | null;
-    password: string | null;
+    password: string | null;                   // bcrypt 哈希（旧数据可能为明文）
     max_visits: number | null;
+    start_at: number | null;                   // 生效时间，之前返回"暂不可用"
     expire_at: number | null;
+    schedule: string | null;                   // 周期性生效时间段 JSON
+    fallback_url: string | null;               // 过期或达到访问上限后跳转的地址
+    routing_rules: string | null;              // 路由规则 JSON
+    ab_variants: string | null;                // A/B 分流版本 JSON
+    ab_sticky: number;                         // A/B 分流是否固定访问者的版本
     is_disabled: number;
     deleted_at: number | null;
-    total_clicks: number;
     password_template_id: number | null;       // 短链接级别的密码模板
     error_template_id: number | null;          // 短链接级别的错误模板
     domain_password_template_id: number | null; // 域名级别的密码模板
     domain_error_template_id: number | null;    // 域名级别的错误模板
-}
-
-interface VisitEventData {
-    short_link_id: number;
-    domain_id: number;
-    code: string;
-    visited_at: number;
-    ip: string | null;
-    ua: string | null;
-    referer: string | null;
-    country: string | null;
-    region: string | null;
-    city: string | null;
-    device_type: string | null;
-    os: string | null;
-    browser: string | null;
-    is_blocked: number;
-    block_reason: string | null;
-    http_status: number;
+    domain_ip_mode: IpMode | null;              // 域名级别的 IP 存储方式，NULL 使用全局设置
 }
 
 // 模板接口
@@ -52,13 +55,8 @@ interface RedirectTemplate {
     asset_prefix: string | null;
 }
 
-// 获取模板内容的辅助函数
-async function getTemplateContent(
-    db: D1Database,
-    templateId: number,
-    replacements?: Record<string, string>,
-    r2Bucket?: R2Bucket
-): Promise<{ html: string } | null> {
+// 读取模板原始 HTML（未替换占位符），结果写入 KV 缓存
+async function loadTemplateHtml(db: D1Database, templateId: number, r2Bucket?: R2Bucket): Promise<string | null> {
     const template = await db
         .prepare(`
             SELECT content_type, html_content, main_file, asset_prefix 
@@ -127,6 +125,22 @@ async function getTemplateContent(
         return null;
     }
 
+    return html;
+}
+
+// 获取模板内容的辅助函数
+async function getTemplateContent(
+    env: Env,
+    waitUntil: WaitUntil,
+    templateId: number,
+    replacements?: Record<string, string>
+): Promise<{ html: string } | null> {
+    let html = await getCachedTemplate(env, waitUntil, templateId,
+        () => loadTemplateHtml(env.shorturl, templateId, env.R2_BUCKET));
+    if (html === null) {
+        return null;
+    }
+
     // 应用替换
     if (replacements) {
         for (const [key, value] of Object.entries(replacements)) {
@@ -199,47 +213,18 @@ async function verifyHmacSignature(
     return expectedSignature === providedSignature;
 }
 
-// 记录访问事件
-async function recordVisitEvent(db: D1Database, event: VisitEventData) {
-    await db
-        .prepare(`
-            INSERT INTO link_visit_events
-            (short_link_id, domain_id, code, visited_at, ip, ua, referer, country, region, city, device_type, os, browser, is_blocked, block_reason, http_status)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `)
-        .bind(
-            event.short_link_id,
-            event.domain_id,
-            event.code,
-            event.visited_at,
-            event.ip,
-            event.ua,
-            event.referer,
-            event.country,
-            event.region,
-            event.city,
-            event.device_type,
-            event.os,
-            event.browser,
-            event.is_blocked,
-            event.block_reason,
-            event.http_status
-        )
-        .run();
-}
-
 /**
  * 获取错误页面 HTML
- * @param db 数据库连接
- * @param r2Bucket R2 存储桶
+ * @param env Worker 环境
+ * @param waitUntil 后台任务（写入缓存）
  * @param host 域名
  * @param shortLink 短链接信息（如果存在）
  * @param replacements 模板替换变量
  * @returns HTML 字符串，如果没有配置模板则返回 null
  */
 async function getErrorPageHtml(
-    db: D1Database,
-    r2Bucket: R2Bucket | undefined,
+    env: Env,
+    waitUntil: WaitUntil,
     host: string,
     shortLink: ShortLink | null,
     replacements: Record<string, string>
@@ -251,56 +236,34 @@ async function getErrorPageHtml(
         templateId = shortLink.error_template_id ?? shortLink.domain_error_template_id;
     } else {
         // 没有短链接：只能查询域名模板
-        const domain = await db
-            .prepare(`SELECT error_template_id FROM domains WHERE host = ? AND is_active = 1`)
-            .bind(host)
-            .first<{ error_template_id: number | null }>();
-        templateId = domain?.error_template_id ?? null;
+        templateId = await getCachedDomainErrorTemplate(env, waitUntil, host, async () => {
+            const domain = await env.shorturl
+                .prepare(`SELECT error_template_id FROM domains WHERE host = ? AND is_active = 1`)
+                .bind(host)
+                .first<{ error_template_id: number | null }>();
+            return domain?.error_template_id ?? null;
+        });
     }
 
     if (!templateId) {
         return null;
     }
 
-    const templateResult = await getTemplateContent(db, templateId, replacements, r2Bucket);
+    const templateResult = await getTemplateContent(env, waitUntil, templateId, replacements);
     return templateResult?.html ?? null;
 }
 
-app.get("/:code", async (c) => {
-    c.header("Cache-Control", "no-store, no-cache, must-revalidate, max-age=0");
-    c.header("Pragma", "no-cache");
-    c.header("Expires", "0");
-    const code = c.req.param("code");
-    const host = c.req.header("host") || "";
-    const now = Math.floor(Date.now() / 1000);
-
-    // 通过查询参数获取密码（不再使用 path）
-    const password = c.req.query("password") || null;
-
-    // 获取中转页签名参数
-    const timestampStr = c.req.query("t") || null;
-    const sign = c.req.query("s") || null;
-
-    // 获取访问上下文信息
-    const ip = c.req.header("cf-connecting-ip") || c.req.header("x-forwarded-for") || null;
-    const ua = c.req.header("user-agent") || null;
-    const referer = c.req.header("referer") || null;
-    // Cloudflare 提供的地理位置信息
-    const cfData = (c.req.raw).cf;
-    const country = String(cfData?.country || "");
-    const region = String(cfData?.region || "");
-    const city = String(cfData?.city || "");
-
-    // 解析 User-Agent 获取设备信息
-    const { device_type, os, browser } = parseUserAgent(ua);
-
-    // 查询短链接（需要同时匹配域名和短码）
-    const result = await c.env.shorturl
+// 查询短链接（需要同时匹配域名和短码），结果写入 KV 缓存，不包含会频繁变化的访问次数
+async function findShortLink(env: Env, waitUntil: WaitUntil, code: string, host: string) {
+    return getCachedLink(env, waitUntil, host, code, () => env.shorturl
         .prepare(`
-                SELECT sl.*, 
-                       d.host as domain_host, 
+                SELECT sl.id, sl.domain_id, sl.code, sl.target_url, sl.redirect_http_code,
+                       sl.use_interstitial, sl.interstitial_delay, sl.force_interstitial, sl.template_id,
+                       sl.password, sl.max_visits, sl.start_at, sl.expire_at, sl.schedule, sl.fallback_url, sl.routing_rules, sl.ab_variants, sl.ab_sticky, sl.is_disabled, sl.deleted_at,
+                       sl.password_template_id, sl.error_template_id,
                        d.password_template_id as domain_password_template_id,
-                       d.error_template_id as domain_error_template_id
+                       d.error_template_id as domain_error_template_id,
+                       d.ip_mode as domain_ip_mode
                 FROM short_links sl
                 JOIN domains d ON sl.domain_id = d.id
                 WHERE sl.code = ? AND d.host = ?
@@ -309,111 +272,304 @@ app.get("/:code", async (c) => {
                   AND d.is_active = 1
             `)
         .bind(code, host)
-        .first<ShortLink & { domain_host: string }>();
+        .first<ShortLink>());
+}
 
-    if (!result) {
-        const html = await getErrorPageHtml(
-            c.env.shorturl, c.env.R2_BUCKET, host, null,
-            { error_message: "Short link not found", error_code: String(ErrorCode.SHORTURL_NOT_FOUND), http_status: "404", code }
-        );
-        return html ? c.html(html, 404) : c.json({ error: "not_found", message: "Short link not found" }, 404);
+// 访问次数限制：以 VisitCounter 中的计数为准（D1 的 total_clicks 在跳转后才异步更新）
+async function isVisitLimitReached(env: Env, link: ShortLink): Promise<boolean> {
+    if (!link.max_visits) {
+        return false;
     }
+    return (await getVisitCount(env, link.id)) >= link.max_visits;
+}
 
-    // 基础事件数据
-    const baseEvent: VisitEventData = {
-        short_link_id: result.id,
-        domain_id: result.domain_id,
-        code: result.code,
+// 根据请求上下文构造基础访问事件
+function createBaseEvent(c: Context<{ Bindings: Env }>, link: ShortLink, now: number): VisitEventData {
+    // 获取访问上下文信息
+    const ip = c.req.header("cf-connecting-ip") || c.req.header("x-forwarded-for") || null;
+    const ua = c.req.header("user-agent") || null;
+    const referer = c.req.header("referer") || null;
+    // Cloudflare 提供的地理位置信息
+    const cfData = (c.req.raw).cf;
+
+    // 解析 User-Agent 获取设备信息
+    const { device_type, os, browser } = parseUserAgent(ua);
+
+    return {
+        short_link_id: link.id,
+        domain_id: link.domain_id,
+        code: link.code,
         visited_at: now,
         ip,
         ua,
         referer,
-        country,
-        region,
-        city,
+        country: String(cfData?.country || ""),
+        region: String(cfData?.region || ""),
+        city: String(cfData?.city || ""),
         device_type,
         os,
         browser,
         is_blocked: 0,
         block_reason: null,
-        http_status: result.redirect_http_code,
+        http_status: link.redirect_http_code,
+        matched_rule: null,
+        variant: null,
     };
+}
 
-    // 检查是否过期
-    if (result.expire_at && result.expire_at < now) {
-        c.executionCtx.waitUntil(
-            recordVisitEvent(c.env.shorturl, { ...baseEvent, is_blocked: 1, block_reason: "expired", http_status: 410 })
-        );
-        const html = await getErrorPageHtml(
-            c.env.shorturl, c.env.R2_BUCKET, host, result,
-            { error_message: "Link expired", error_code: String(ErrorCode.LINK_EXPIRED), http_status: "410" }
-        );
-        return html ? c.html(html, 410) : c.json({ error: "expired", message: "Link expired" }, 410);
+// 路由规则匹配用的访问者属性，系统和浏览器只取名称（不含版本号）
+function visitorAttributes(c: Context<{ Bindings: Env }>, event: VisitEventData): VisitorAttributes {
+    const { os, browser } = new UAParser(event.ua ?? undefined).getResult();
+    return {
+        country: event.country || null,
+        region: event.region || null,
+        city: event.city || null,
+        device_type: event.device_type,
+        os: os.name || null,
+        browser: browser.name || null,
+        language: primaryLanguage(c.req.header("accept-language") || null),
+    };
+}
+
+/**
+ * 密码验证 cookie：只对当前短码路径生效，值为过期时间
+ * 签名密钥包含密码哈希，修改密码后已签发的 cookie 自动失效
+ */
+function passwordCookieName(code: string): string {
+    return `sl_pw_${code}`;
+}
+
+function passwordCookieSecret(secret: string, passwordHash: string): string {
+    return `${secret}:${passwordHash}`;
+}
+
+async function hasValidPasswordCookie(c: Context<{ Bindings: Env }>, link: ShortLink, now: number): Promise<boolean> {
+    if (!link.password) {
+        return false;
+    }
+    const value = await getSignedCookie(
+        c,
+        passwordCookieSecret(c.env.JWT_SECRET, link.password),
+        passwordCookieName(link.code)
+    );
+    if (!value) {
+        return false;
     }
+    const expiresAt = parseInt(value, 10);
+    return !isNaN(expiresAt) && expiresAt > now;
+}
 
-    // 检查访问次数限制
-    if (result.max_visits && result.total_clicks >= result.max_visits) {
-        c.executionCtx.waitUntil(
-            recordVisitEvent(c.env.shorturl, { ...baseEvent, is_blocked: 1, block_reason: "limit", http_status: 410 })
-        );
-        const html = await getErrorPageHtml(
-            c.env.shorturl, c.env.R2_BUCKET, host, result,
-            { error_message: "Link visit limit reached", error_code: String(ErrorCode.LINK_LIMIT_REACHED), http_status: "410" }
-        );
-        return html ? c.html(html, 410) : c.json({ error: "limit", message: "Link visit limit reached" }, 410);
+// A/B 分流 sticky cookie：只对当前短码路径生效，值为版本名
+function abCookieName(code: string): string {
+    return `sl_ab_${code}`;
+}
+
+function abCookie(c: Context<{ Bindings: Env }>, link: ShortLink): string | null {
+    return getCookie(c, abCookieName(link.code)) ?? null;
+}
+
+// 渲染密码输入页：优先使用短链接模板，其次域名模板，都没有时使用内置页面
+// lockedFor > 0 表示失败次数过多被临时锁定，返回 429 及 Retry-After
+async function renderPasswordPage(
+    c: Context<{ Bindings: Env }>,
+    link: ShortLink,
+    wrongPassword: boolean,
+    lockedFor: number = 0
+): Promise<Response> {
+    if (lockedFor > 0) {
+        c.header("Retry-After", String(lockedFor));
     }
 
-    // 如果需要密码验证
-    if (result.password) {
-        const passwordTemplateId = result.password_template_id ?? result.domain_password_template_id;
+    const passwordTemplateId = link.password_template_id ?? link.domain_password_template_id;
+    if (passwordTemplateId) {
+        const templateResult = await getTemplateContent(
+            c.env,
+            (promise) => c.executionCtx.waitUntil(promise),
+            passwordTemplateId,
+            { "errorpassword": wrongPassword ? "true" : "false", "retry_after": String(lockedFor) }
+        );
 
-        // 有传密码但不正确
-        if (password && result.password !== password) {
-            c.executionCtx.waitUntil(
-                recordVisitEvent(c.env.shorturl, { ...baseEvent, is_blocked: 1, block_reason: "password_wrong", http_status: 401 })
-            );
+        if (templateResult) {
+            return c.html(templateResult.html, lockedFor > 0 ? 429 : 200);
+        }
+    }
 
-            if (passwordTemplateId) {
-                const templateResult = await getTemplateContent(
-                    c.env.shorturl,
-                    passwordTemplateId,
-                    { "errorpassword": "true" },
-                    c.env.R2_BUCKET
-                );
+    const hint = lockedFor > 0
+        ? ` (too many attempts, try again in ${lockedFor} seconds)`
+        : wrongPassword ? " (wrong password)" : "";
+    return c.html(`<!doctype html>
+<html>
+<head><meta charset="UTF-8" /><meta name="viewport" content="width=device-width, initial-scale=1.0" /><title>Password required</title></head>
+<body>
+  <form method="post">
+    <p>Password required${hint}</p>
+    <input type="password" name="password" autofocus autocomplete="current-password" />
+    <button type="submit">Submit</button>
+  </form>
+</body>
+</html>`, lockedFor > 0 ? 429 : 401);
+}
 
-                if (templateResult) {
-                    return c.html(templateResult.html, 200);
-                }
-            }
+// 尚未到生效时间，或不在周期性时间段内
+function unavailableReason(link: ShortLink, now: number): "not_started" | "schedule" | null {
+    if (link.start_at && link.start_at > now) {
+        return "not_started";
+    }
+    const schedule = parseSchedule(link.schedule);
+    if (schedule && !isWithinSchedule(schedule, now)) {
+        return "schedule";
+    }
+    return null;
+}
 
-            return c.text("server error", 500);
+// 暂不可用：记录拦截事件并返回错误页（模板可用 {{start_at}} 显示生效时间）
+async function renderUnavailable(
+    c: Context<{ Bindings: Env }>,
+    link: ShortLink,
+    baseEvent: VisitEventData,
+    waitUntil: WaitUntil,
+    host: string,
+    reason: "not_started" | "schedule"
+): Promise<Response> {
+    waitUntil(
+        trackVisit(c.env, { ...baseEvent, is_blocked: 1, block_reason: reason, http_status: 403 }, link.domain_ip_mode, false)
+    );
+    const html = await getErrorPageHtml(
+        c.env, waitUntil, host, link,
+        {
+            error_message: "Link not yet available",
+            error_code: String(ErrorCode.LINK_NOT_AVAILABLE),
+            http_status: "403",
+            start_at: String(reason === "not_started" ? link.start_at : 0),
         }
+    );
+    return html ? c.html(html, 403) : c.json({ error: reason, message: "Link not yet available" }, 403);
+}
 
-        // 没传密码：返回输入页
-        if (!password) {
-            if (passwordTemplateId) {
-                const templateResult = await getTemplateContent(
-                    c.env.shorturl,
-                    passwordTemplateId,
-                    { "errorpassword": "false" },
-                    c.env.R2_BUCKET
-                );
+// 已过期或达到访问上限：设置了 fallback_url 时跳转过去（不计入点击），否则返回错误页
+async function renderEnded(
+    c: Context<{ Bindings: Env }>,
+    link: ShortLink,
+    baseEvent: VisitEventData,
+    waitUntil: WaitUntil,
+    host: string,
+    reason: "expired" | "limit"
+): Promise<Response> {
+    if (link.fallback_url) {
+        waitUntil(
+            trackVisit(c.env, { ...baseEvent, is_blocked: 1, block_reason: reason, http_status: 302 }, link.domain_ip_mode, false)
+        );
+        return c.redirect(link.fallback_url, 302);
+    }
 
-                if (templateResult) {
-                    c.executionCtx.waitUntil(
-                        recordVisitEvent(c.env.shorturl, { ...baseEvent, is_blocked: 1, block_reason: "password", http_status: 401 })
-                    );
-                    return c.html(templateResult.html, 200);
-                }
-            }
+    waitUntil(
+        trackVisit(c.env, { ...baseEvent, is_blocked: 1, block_reason: reason, http_status: 410 }, link.domain_ip_mode, false)
+    );
+    const message = reason === "expired" ? "Link expired" : "Link visit limit reached";
+    const errorCode = reason === "expired" ? ErrorCode.LINK_EXPIRED : ErrorCode.LINK_LIMIT_REACHED;
+    const html = await getErrorPageHtml(
+        c.env, waitUntil, host, link,
+        { error_message: message, error_code: String(errorCode), http_status: "410" }
+    );
+    return html ? c.html(html, 410) : c.json({ error: reason, message }, 410);
+}
 
-            c.executionCtx.waitUntil(
-                recordVisitEvent(c.env.shorturl, { ...baseEvent, is_blocked: 1, block_reason: "password", http_status: 401 })
-            );
-            return c.text("Password required", 401);
+// 跳转到目标地址：设置了访问上限时先预留一次访问，预留失败说明名额已被并发请求用完
+async function redirectToTarget(
+    c: Context<{ Bindings: Env }>,
+    link: ShortLink,
+    baseEvent: VisitEventData,
+    waitUntil: WaitUntil,
+    host: string
+): Promise<Response> {
+    if (link.max_visits && !(await reserveVisit(c.env, link.id, link.max_visits))) {
+        return renderEnded(c, link, baseEvent, waitUntil, host, "limit");
+    }
+
+    // 按路由规则选择目标地址，未命中时使用 target_url
+    const rules = parseRoutingRules(link.routing_rules);
+    const route = rules.length > 0
+        ? resolveRoute(rules, visitorAttributes(c, baseEvent), link.target_url)
+        : { url: link.target_url, label: null, matched: false };
+
+    // 未命中路由规则时按 A/B 版本分流
+    let targetUrl = route.url;
+    let variantName: string | null = null;
+    if (!route.matched) {
+        const variant = pickAbVariant(parseAbVariants(link.ab_variants), link.ab_sticky ? abCookie(c, link) : null);
+        if (variant) {
+            targetUrl = variant.url;
+            variantName = variant.name;
+            if (link.ab_sticky) {
+                setCookie(c, abCookieName(link.code), variant.name, {
+                    path: `/${link.code}`,
+                    maxAge: AB_COOKIE_TTL,
+                    httpOnly: true,
+                    secure: true,
+                    sameSite: "Lax",
+                });
+            }
         }
     }
 
+    // 记录成功访问事件，点击数由队列消费者批量更新
+    waitUntil(trackVisit(c.env, { ...baseEvent, matched_rule: route.label, variant: variantName }, link.domain_ip_mode, true));
+
+    // 执行跳转
+    return c.redirect(targetUrl, link.redirect_http_code as 301 | 302 | 307 | 308);
+}
+
+app.get("/:code", async (c) => {
+    c.header("Cache-Control", "no-store, no-cache, must-revalidate, max-age=0");
+    c.header("Pragma", "no-cache");
+    c.header("Expires", "0");
+    const code = c.req.param("code");
+    const host = c.req.header("host") || "";
+    const now = Math.floor(Date.now() / 1000);
+
+    // 获取中转页签名参数
+    const timestampStr = c.req.query("t") || null;
+    const sign = c.req.query("s") || null;
+
+    const waitUntil: WaitUntil = (promise) => c.executionCtx.waitUntil(promise);
+
+    const result = await findShortLink(c.env, waitUntil, code, host);
+
+    if (!result) {
+        const html = await getErrorPageHtml(
+            c.env, waitUntil, host, null,
+            { error_message: "Short link not found", error_code: String(ErrorCode.SHORTURL_NOT_FOUND), http_status: "404", code }
+        );
+        return html ? c.html(html, 404) : c.json({ error: "not_found", message: "Short link not found" }, 404);
+    }
+
+    // 基础事件数据
+    const baseEvent = createBaseEvent(c, result, now);
+
+    // 检查是否过期
+    if (result.expire_at && result.expire_at < now) {
+        return renderEnded(c, result, baseEvent, waitUntil, host, "expired");
+    }
+
+    // 检查生效时间和周期性时间段
+    const unavailable = unavailableReason(result, now);
+    if (unavailable) {
+        return renderUnavailable(c, result, baseEvent, waitUntil, host, unavailable);
+    }
+
+    // 检查访问次数限制
+    if (await isVisitLimitReached(c.env, result)) {
+        return renderEnded(c, result, baseEvent, waitUntil, host, "limit");
+    }
+
+    // 如果需要密码验证：没有有效的验证 cookie 时返回输入页，密码通过 POST 提交
+    if (result.password && !(await hasValidPasswordCookie(c, result, now))) {
+        c.executionCtx.waitUntil(
+            trackVisit(c.env, { ...baseEvent, is_blocked: 1, block_reason: "password", http_status: 401 }, result.domain_ip_mode, false)
+        );
+        return renderPasswordPage(c, result, false);
+    }
+
     // 判断是否需要中转页逻辑
     const needsInterstitial = result.use_interstitial && result.template_id;
     const forceVerification = result.force_interstitial === 1;
@@ -428,20 +584,7 @@ app.get("/:code", async (c) => {
         if (timestampStr) {
             // 不强制验签：只要有 t 参数就直接跳转
             if (!forceVerification) {
-                c.executionCtx.waitUntil(
-                    Promise.all([
-                        recordVisitEvent(c.env.shorturl, baseEvent),
-                        c.env.shorturl
-                            .prepare(`
-                                UPDATE short_links
-                                SET total_clicks = total_clicks + 1, last_access_at = ?
-                                WHERE id = ?
-                            `)
-                            .bind(now, result.id)
-                            .run(),
-                    ])
-                );
-                return c.redirect(result.target_url, result.redirect_http_code as 301 | 302 | 307 | 308);
+                return redirectToTarget(c, result, baseEvent, waitUntil, host);
             }
 
             // 强制验签：需要验证签名和等待时间
@@ -460,20 +603,7 @@ app.get("/:code", async (c) => {
 
                     // 检查时间是否已超过中转页等待时间且未超过 30 分钟
                     if (elapsedSeconds >= (result.interstitial_delay - 1) && elapsedSeconds <= maxValiditySeconds) {
-                        c.executionCtx.waitUntil(
-                            Promise.all([
-                                recordVisitEvent(c.env.shorturl, baseEvent),
-                                c.env.shorturl
-                                    .prepare(`
-                                        UPDATE short_links
-                                        SET total_clicks = total_clicks + 1, last_access_at = ?
-                                        WHERE id = ?
-                                    `)
-                                    .bind(now, result.id)
-                                    .run(),
-                            ])
-                        );
-                        return c.redirect(result.target_url, result.redirect_http_code as 301 | 302 | 307 | 308);
+                        return redirectToTarget(c, result, baseEvent, waitUntil, host);
                     }
                 }
             }
@@ -485,41 +615,107 @@ app.get("/:code", async (c) => {
         const newSign = await generateHmacSignature(hmacSecret, newTimestamp, host, code);
 
         const templateResult = await getTemplateContent(
-            c.env.shorturl,
+            c.env,
+            waitUntil,
             templateId,
             {
                 delay: String(result.interstitial_delay),
                 timestamp: String(newTimestamp),
                 sign: newSign
-            },
-            c.env.R2_BUCKET
+            }
         );
 
         if (templateResult) {
             c.executionCtx.waitUntil(
-                recordVisitEvent(c.env.shorturl, { ...baseEvent,is_blocked:1, block_reason: "interstitial", http_status: 200 })
+                trackVisit(c.env, { ...baseEvent,is_blocked:1, block_reason: "interstitial", http_status: 200 }, result.domain_ip_mode, false)
             );
             return c.html(templateResult.html);
         }
     }
 
-    // 记录成功访问事件 + 更新统计
-    c.executionCtx.waitUntil(
-        Promise.all([
-            recordVisitEvent(c.env.shorturl, baseEvent),
-            c.env.shorturl
-                .prepare(`
-                    UPDATE short_links
-                    SET total_clicks = total_clicks + 1, last_access_at = ?
-                    WHERE id = ?
-                `)
-                .bind(now, result.id)
-                .run(),
-        ])
+    return redirectToTarget(c, result, baseEvent, waitUntil, host);
+});
+
+// 提交访问密码：验证通过后设置 cookie 并跳回短链接，密码不会出现在 URL 中
+app.post("/:code", async (c) => {
+    c.header("Cache-Control", "no-store, no-cache, must-revalidate, max-age=0");
+    const code = c.req.param("code");
+    const host = c.req.header("host") || "";
+    const now = Math.floor(Date.now() / 1000);
+
+    const waitUntil: WaitUntil = (promise) => c.executionCtx.waitUntil(promise);
+
+    const result = await findShortLink(c.env, waitUntil, code, host);
+
+    // 不存在、无需密码、已过期、暂不可用或达到访问上限时交给 GET 处理
+    if (
+        !result ||
+        !result.password ||
+        (result.expire_at && result.expire_at < now) ||
+        unavailableReason(result, now) ||
+        (await isVisitLimitReached(c.env, result))
+    ) {
+        return c.redirect(`/${code}`, 303);
+    }
+
+    // 暴力破解防护：按 IP 和短链接统计失败次数，锁定期间不再校验密码
+    const attemptKeys = linkAttemptKeys(c.req.header("cf-connecting-ip") || null, result.id);
+    const lockedFor = await getLockout(c.env.shorturl, attemptKeys, now);
+    if (lockedFor > 0) {
+        c.executionCtx.waitUntil(
+            trackVisit(
+                c.env,
+                { ...createBaseEvent(c, result, now), is_blocked: 1, block_reason: "password_locked", http_status: 429 },
+                result.domain_ip_mode,
+                false
+            )
+        );
+        return renderPasswordPage(c, result, true, lockedFor);
+    }
+
+    const body = await c.req.parseBody();
+    const password = typeof body.password === "string" ? body.password : "";
+
+    if (!password || !(await verifyLinkPassword(password, result.password))) {
+        const lockout = await recordFailure(c.env.shorturl, attemptKeys, now);
+        c.executionCtx.waitUntil(
+            trackVisit(
+                c.env,
+                { ...createBaseEvent(c, result, now), is_blocked: 1, block_reason: "password_wrong", http_status: 401 },
+                result.domain_ip_mode,
+                false
+            )
+        );
+        return renderPasswordPage(c, result, true, lockout);
+    }
+    await clearFailures(c.env.shorturl, attemptKeys);
+
+    // 旧数据中的明文密码在验证通过后升级为哈希
+    let passwordHash = result.password;
+    if (!isHashedLinkPassword(passwordHash)) {
+        passwordHash = await hashLinkPassword(password);
+        await c.env.shorturl
+            .prepare(`UPDATE short_links SET password = ? WHERE id = ? AND password = ?`)
+            .bind(passwordHash, result.id, result.password)
+            .run();
+        await invalidateLinks(c.env, [result.id]);
+    }
+
+    await setSignedCookie(
+        c,
+        passwordCookieName(code),
+        String(now + PASSWORD_COOKIE_TTL),
+        passwordCookieSecret(c.env.JWT_SECRET, passwordHash),
+        {
+            path: `/${code}`,
+            maxAge: PASSWORD_COOKIE_TTL,
+            httpOnly: true,
+            secure: true,
+            sameSite: "Lax",
+        }
     );
 
-    // 执行跳转
-    return c.redirect(result.target_url, result.redirect_http_code as 301 | 302 | 307 | 308);
+    return c.redirect(`/${code}`, 303);
 });
 
 export default app;
@@ -0,0 +1,156 @@
+/**
+ * 短链接路由规则
+ * 规则以 JSON 数组保存在 short_links.routing_rules，按顺序匹配访问者的地理位置、设备和语言，
+ * 命中第一条规则时跳转到该规则的地址，都不命中时使用短链接的 target_url
+ */
+
+type RuleField = 'country' | 'region' | 'city' | 'device_type' | 'os' | 'browser' | 'language';
+
+// in / not_in：等于（不等于）任一值；starts_with：以任一值开头。均不区分大小写
+type RuleOperator = 'in' | 'not_in' | 'starts_with';
+
+interface RoutingRule {
+    name?: string;          // 规则名称，记录到访问事件的 matched_rule；为空时记为 "rule N"
+    field: RuleField;
+    operator: RuleOperator;
+    values: string[];
+    target_url: string;
+}
+
+// 用于匹配的访问者属性；os / browser 只含名称（如 iOS、Chrome），language 为 Accept-Language 的首选语言
+type VisitorAttributes = Record<RuleField, string | null>;
+
+const RULE_FIELDS: RuleField[] = ['country', 'region', 'city', 'device_type', 'os', 'browser', 'language'];
+const RULE_OPERATORS: RuleOperator[] = ['in', 'not_in', 'starts_with'];
+
+// 每个短链接最多的规则数 / 每条规则最多的匹配值数
+const MAX_RULES = 20;
+const MAX_VALUES = 50;
+
+// 未命中任何规则时记录到访问事件的 matched_rule
+const DEFAULT_RULE_LABEL = 'default';
+
+/** 读取保存的规则，格式错误时视为没有规则 */
+function parseRoutingRules(raw: string | null): RoutingRule[] {
+    if (!raw) {
+        return [];
+    }
+    try {
+        const rules = JSON.parse(raw);
+        return Array.isArray(rules) ? rules : [];
+    } catch {
+        return [];
+    }
+}
+
+/** 校验并规范化接口提交的规则，返回错误信息或规则列表 */
+function validateRoutingRules(value: unknown): { rules: RoutingRule[] } | { error: string } {
+    if (value === null) {
+        return { rules: [] };
+    }
+    if (!Array.isArray(value)) {
+        return { error: '路由规则格式无效' };
+    }
+    if (value.length > MAX_RULES) {
+        return { error: `路由规则最多 ${MAX_RULES} 条` };
+    }
+
+    const rules: RoutingRule[] = [];
+    for (const [index, item] of value.entries()) {
+        const label = `第 ${index + 1} 条路由规则`;
+        if (!item || typeof item !== 'object') {
+            return { error: `${label}格式无效` };
+        }
+        const { name, field, operator, values, target_url } = item as Record<string, unknown>;
+        if (!RULE_FIELDS.includes(field as RuleField)) {
+            return { error: `${label}的匹配字段无效` };
+        }
+        if (!RULE_OPERATORS.includes(operator as RuleOperator)) {
+            return { error: `${label}的匹配方式无效` };
+        }
+        if (!Array.isArray(values) || values.some((v) => typeof v !== 'string')) {
+            return { error: `${label}的匹配值无效` };
+        }
+        const cleaned = [...new Set((values as string[]).map((v) => v.trim()).filter(Boolean))];
+        if (cleaned.length === 0 || cleaned.length > MAX_VALUES) {
+            return { error: `${label}需要 1-${MAX_VALUES} 个匹配值` };
+        }
+        if (typeof target_url !== 'string' || !target_url.trim()) {
+            return { error: `${label}的目标 URL 不能为空` };
+        }
+        if (name !== undefined && name !== null && typeof name !== 'string') {
+            return { error: `${label}的名称无效` };
+        }
+
+        const rule: RoutingRule = {
+            field: field as RuleField,
+            operator: operator as RuleOperator,
+            values: cleaned,
+            target_url: target_url.trim(),
+        };
+        if (typeof name === 'string' && name.trim()) {
+            rule.name = name.trim().slice(0, 64);
+        }
+        rules.push(rule);
+    }
+    return { rules };
+}
+
+/** 取 Accept-Language 中权重最高的语言（小写），如 "de-de" */
+function primaryLanguage(acceptLanguage: string | null): string | null {
+    if (!acceptLanguage) {
+        return null;
+    }
+    let best: { tag: string; q: number } | null = null;
+    for (const part of acceptLanguage.split(',')) {
+        const [tag, ...params] = part.trim().split(';');
+        if (!tag || tag === '*') {
+            continue;
+        }
+        const qParam = params.find((p) => p.trim().startsWith('q='));
+        const q = qParam ? parseFloat(qParam.trim().slice(2)) : 1;
+        if (!isNaN(q) && q > 0 && (!best || q > best.q)) {
+            best = { tag: tag.trim().toLowerCase(), q };
+        }
+    }
+    return best?.tag ?? null;
+}
+
+function ruleMatches(rule: RoutingRule, visitor: VisitorAttributes): boolean {
+    const actual = visitor[rule.field]?.toLowerCase() || null;
+    const values = rule.values.map((v) => v.toLowerCase());
+    switch (rule.operator) {
+        case 'in':
+            return actual !== null && values.includes(actual);
+        case 'not_in':
+            // 取不到该属性时不命中，避免把未知访问者路由到规则地址
+            return actual !== null && !values.includes(actual);
+        case 'starts_with':
+            return actual !== null && values.some((v) => actual.startsWith(v));
+        default:
+            return false;
+    }
+}
+
+/**
+ * 按顺序匹配规则，返回目标地址和记录到访问事件的规则标识；没有规则时 label 为 null
+ * matched 为 false 表示使用了默认地址（调用方可继续做 A/B 分流）
+ */
+function resolveRoute(
+    rules: RoutingRule[],
+    visitor: VisitorAttributes,
+    defaultUrl: string
+): { url: string; label: string | null; matched: boolean } {
+    if (rules.length === 0) {
+        return { url: defaultUrl, label: null, matched: false };
+    }
+    const index = rules.findIndex((rule) => ruleMatches(rule, visitor));
+    if (index === -1) {
+        return { url: defaultUrl, label: DEFAULT_RULE_LABEL, matched: false };
+    }
+    const rule = rules[index];
+    return { url: rule.target_url, label: rule.name || `rule ${index + 1}`, matched: true };
+}
+
+export { RULE_FIELDS, RULE_OPERATORS, parseRoutingRules, validateRoutingRules, primaryLanguage, resolveRoute };
+export type { RoutingRule, RuleField, RuleOperator, VisitorAttributes };
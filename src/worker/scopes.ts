@@ -0,0 +1,55 @@
+import { createMiddleware } from "hono/factory";
+import { CurrentUser, ErrorCode, HttpResponseJsonBody, Variables } from "./util";
+
+/**
+ * API token 权限范围，格式为逗号分隔的 "资源:权限"，如 "links:rw,stats:r"
+ * r 只读，rw 读写（包含只读）；token 的 scopes 为 NULL 表示拥有该用户的全部权限
+ * 账号密码登录（JWT）不受 scope 限制
+ */
+type ScopeResource = 'links' | 'domains' | 'templates' | 'assets' | 'users' | 'stats' | 'settings' | 'audit';
+type ScopeAccess = 'r' | 'rw';
+
+const SCOPE_RESOURCES: ScopeResource[] = ['links', 'domains', 'templates', 'assets', 'users', 'stats', 'settings', 'audit'];
+
+/** 解析并规范化 scopes 字符串，格式错误返回 null */
+function parseScopes(value: string): string[] | null {
+    const scopes = new Map<string, ScopeAccess>();
+    for (const item of value.split(',')) {
+        const trimmed = item.trim();
+        if (!trimmed) continue;
+
+        const [resource, access] = trimmed.split(':');
+        if (!(SCOPE_RESOURCES as string[]).includes(resource) || (access !== 'r' && access !== 'rw')) {
+            return null;
+        }
+        // 同一资源重复声明时取较高权限
+        if (scopes.get(resource) !== 'rw') {
+            scopes.set(resource, access);
+        }
+    }
+    return [...scopes].map(([resource, access]) => `${resource}:${access}`);
+}
+
+function hasScope(scopes: string[] | null | undefined, resource: ScopeResource, access: ScopeAccess): boolean {
+    if (scopes == null) {
+        return true;
+    }
+    return scopes.includes(`${resource}:rw`) || (access === 'r' && scopes.includes(`${resource}:r`));
+}
+
+/** 声明路由所需的 scope，API token 缺少该 scope 时返回 403 */
+const requireScope = (resource: ScopeResource, access: ScopeAccess) =>
+    createMiddleware<{ Variables: Variables; Bindings: Env }>(async (c, next) => {
+        const currentUser = c.get('currentUser') as CurrentUser | undefined;
+        if (!hasScope(currentUser?.scopes, resource, access)) {
+            const response: HttpResponseJsonBody = {
+                code: ErrorCode.INSUFFICIENT_SCOPE,
+                message: `API token 缺少权限: ${resource}:${access}`
+            };
+            return c.json(response, 403);
+        }
+        await next();
+    });
+
+export { SCOPE_RESOURCES, parseScopes, hasScope, requireScope };
+export type { ScopeResource, ScopeAccess };
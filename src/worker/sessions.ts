@@ -0,0 +1,193 @@
+/**
+ * 登录会话
+ * 登录成功后创建 user_sessions 记录：access token 为短期 JWT（携带 sid），refresh token 只保存 SHA-256，
+ * 每次刷新都会轮换；旧 refresh token 再次出现说明已泄露，整个会话立即作废
+ */
+
+// access token 有效期（秒）
+const ACCESS_TOKEN_TTL = 15 * 60;
+// refresh token 有效期（秒），每次刷新顺延
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60;
+// 多个标签页同时刷新时，刚被轮换掉的 refresh token 在该时间内重复出现不视为泄露（秒）
+const ROTATION_GRACE = 30;
+// last_seen_at 最多每分钟更新一次，减少写入
+const TOUCH_INTERVAL = 60;
+
+// refresh token 明文前缀
+const REFRESH_TOKEN_PREFIX = 'srt_';
+
+interface SessionMeta {
+    userAgent: string | null;
+    ip: string | null;
+}
+
+interface UserSession {
+    id: number;
+    user_agent: string | null;
+    ip: string | null;
+    created_at: number;
+    last_seen_at: number;
+    expires_at: number;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function generateRefreshToken(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(32));
+    return REFRESH_TOKEN_PREFIX + Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function normalizeMeta(meta: SessionMeta): SessionMeta {
+    return {
+        userAgent: meta.userAgent ? meta.userAgent.slice(0, 512) : null,
+        ip: meta.ip,
+    };
+}
+
+/** 创建会话，返回会话 ID 和 refresh token 明文（只在本次返回） */
+async function createSession(db: D1Database, userId: number, meta: SessionMeta): Promise<{ sessionId: number; refreshToken: string }> {
+    const now = Math.floor(Date.now() / 1000);
+    const refreshToken = generateRefreshToken();
+    const { userAgent, ip } = normalizeMeta(meta);
+    const row = await db
+        .prepare(`
+            INSERT INTO user_sessions (user_id, refresh_token_hash, user_agent, ip, created_at, last_seen_at, expires_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?)
+            RETURNING id
+        `)
+        .bind(userId, await sha256Hex(refreshToken), userAgent, ip, now, now, now + REFRESH_TOKEN_TTL)
+        .first<{ id: number }>();
+    if (!row) {
+        throw new Error('创建会话失败');
+    }
+    return { sessionId: row.id, refreshToken };
+}
+
+/**
+ * 用 refresh token 换取新的 refresh token（轮换），返回会话信息；无效返回 null
+ * 已被轮换掉的旧 token 超过宽限期后再次使用时，作废整个会话
+ */
+async function rotateSession(
+    db: D1Database,
+    refreshToken: string,
+    meta: SessionMeta
+): Promise<{ sessionId: number; userId: number; refreshToken: string } | null> {
+    if (!refreshToken.startsWith(REFRESH_TOKEN_PREFIX)) {
+        return null;
+    }
+    const now = Math.floor(Date.now() / 1000);
+    const tokenHash = await sha256Hex(refreshToken);
+    const nextToken = generateRefreshToken();
+    const { userAgent, ip } = normalizeMeta(meta);
+
+    // 条件更新保证同一个 refresh token 只能成功轮换一次
+    const rotated = await db
+        .prepare(`
+            UPDATE user_sessions
+            SET refresh_token_hash = ?, previous_token_hash = refresh_token_hash, rotated_at = ?,
+                last_seen_at = ?, expires_at = ?, user_agent = COALESCE(?, user_agent), ip = COALESCE(?, ip)
+            WHERE refresh_token_hash = ? AND revoked_at IS NULL AND expires_at > ?
+            RETURNING id, user_id
+        `)
+        .bind(await sha256Hex(nextToken), now, now, now + REFRESH_TOKEN_TTL, userAgent, ip, tokenHash, now)
+        .first<{ id: number; user_id: number }>();
+    if (rotated) {
+        return { sessionId: rotated.id, userId: rotated.user_id, refreshToken: nextToken };
+    }
+
+    const reused = await db
+        .prepare(`SELECT id, rotated_at FROM user_sessions WHERE previous_token_hash = ? AND revoked_at IS NULL`)
+        .bind(tokenHash)
+        .first<{ id: number; rotated_at: number | null }>();
+    if (reused && (reused.rotated_at === null || now - reused.rotated_at > ROTATION_GRACE)) {
+        console.warn(`refresh token 被重复使用，会话 ${reused.id} 已作废`);
+        await revokeSession(db, reused.id, null);
+    }
+    return null;
+}
+
+/** 查询 access token 对应的会话是否有效，有效时按需更新 last_seen_at */
+async function checkSession(
+    db: D1Database,
+    sessionId: number,
+    userId: number,
+    waitUntil: (promise: Promise<unknown>) => void
+): Promise<boolean> {
+    const now = Math.floor(Date.now() / 1000);
+    const row = await db
+        .prepare(`SELECT last_seen_at FROM user_sessions WHERE id = ? AND user_id = ? AND revoked_at IS NULL AND expires_at > ?`)
+        .bind(sessionId, userId, now)
+        .first<{ last_seen_at: number }>();
+    if (!row) {
+        return false;
+    }
+    if (now - row.last_seen_at >= TOUCH_INTERVAL) {
+        waitUntil(db.prepare(`UPDATE user_sessions SET last_seen_at = ? WHERE id = ?`).bind(now, sessionId).run());
+    }
+    return true;
+}
+
+/** 当前有效的会话，最近活跃的在前 */
+async function listSessions(db: D1Database, userId: number): Promise<UserSession[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const { results } = await db
+        .prepare(`
+            SELECT id, user_agent, ip, created_at, last_seen_at, expires_at
+            FROM user_sessions
+            WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+            ORDER BY last_seen_at DESC
+        `)
+        .bind(userId, now)
+        .all<UserSession>();
+    return results;
+}
+
+/** 作废单个会话；指定 userId 时只能作废该用户自己的会话 */
+async function revokeSession(db: D1Database, sessionId: number, userId: number | null): Promise<boolean> {
+    const now = Math.floor(Date.now() / 1000);
+    const result = await db
+        .prepare(`
+            UPDATE user_sessions SET revoked_at = ?
+            WHERE id = ? AND revoked_at IS NULL${userId === null ? '' : ' AND user_id = ?'}
+        `)
+        .bind(...(userId === null ? [now, sessionId] : [now, sessionId, userId]))
+        .run();
+    return result.meta.changes > 0;
+}
+
+/** 作废用户的全部会话（可保留当前会话），返回作废数量 */
+async function revokeUserSessions(db: D1Database, userId: number, exceptSessionId?: number): Promise<number> {
+    const now = Math.floor(Date.now() / 1000);
+    const result = await db
+        .prepare(`
+            UPDATE user_sessions SET revoked_at = ?
+            WHERE user_id = ? AND revoked_at IS NULL${exceptSessionId === undefined ? '' : ' AND id != ?'}
+        `)
+        .bind(...(exceptSessionId === undefined ? [now, userId] : [now, userId, exceptSessionId]))
+        .run();
+    return result.meta.changes;
+}
+
+/** 清理已过期或已作废的会话，由定时任务调用 */
+async function purgeExpiredSessions(db: D1Database, now: number): Promise<number> {
+    const result = await db
+        .prepare(`DELETE FROM user_sessions WHERE expires_at < ? OR revoked_at < ?`)
+        .bind(now, now - REFRESH_TOKEN_TTL)
+        .run();
+    return result.meta.changes;
+}
+
+export {
+    ACCESS_TOKEN_TTL,
+    createSession,
+    rotateSession,
+    checkSession,
+    listSessions,
+    revokeSession,
+    revokeUserSessions,
+    purgeExpiredSessions,
+};
+export type { SessionMeta, UserSession };
@@ -0,0 +1,22 @@
+// app_settings 表的读写辅助函数（key/value 均为字符串）
+
+async function getAppSetting(db: D1Database, key: string): Promise<string | null> {
+    const row = await db
+        .prepare(`SELECT value FROM app_settings WHERE key = ?`)
+        .bind(key)
+        .first<{ value: string }>();
+    return row?.value ?? null;
+}
+
+async function setAppSetting(db: D1Database, key: string, value: string): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    await db
+        .prepare(`
+            INSERT INTO app_settings (key, value, updated_at) VALUES (?, ?, ?)
+            ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+        `)
+        .bind(key, value, now)
+        .run();
+}
+
+export { getAppSetting, setAppSetting };
@@ -0,0 +1,183 @@
+import { getAppSetting, setAppSetting } from "./settings";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+// app_settings 中记录已汇总到的最后一天（"YYYY-MM-DD"）
+const ROLLUP_THROUGH_KEY = 'stats_rollup_through';
+
+// 维度明细（link_visit_breakdown_daily）已汇总到的最后一天；升级前已汇总的日期由定时任务逐步回填
+const BREAKDOWN_THROUGH_KEY = 'stats_breakdown_through';
+
+// 单次定时任务最多回填的维度明细天数，避免超出 Worker 的 CPU 时间限制，剩余的下次继续
+const MAX_BREAKDOWN_BACKFILL_DAYS = 31;
+
+// 按天汇总的维度（link_visit_events 的列名），统计报表的 Top N 明细从这里读取
+const BREAKDOWN_DIMENSIONS = [
+    'referer', 'country', 'region', 'city', 'device_type', 'os', 'browser', 'block_reason', 'matched_rule', 'variant',
+] as const;
+
+type BreakdownDimension = (typeof BREAKDOWN_DIMENSIONS)[number];
+
+/** unix seconds -> "YYYY-MM-DD" (UTC) */
+function toDay(ts: number): string {
+    return new Date(ts * 1000).toISOString().slice(0, 10);
+}
+
+/** "YYYY-MM-DD" -> 当天 00:00 (UTC) 的 unix seconds */
+function dayStart(day: string): number {
+    return Math.floor(Date.parse(`${day}T00:00:00Z`) / 1000);
+}
+
+function isValidDay(day: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(day) && !isNaN(dayStart(day)) && toDay(dayStart(day)) === day;
+}
+
+/**
+ * 将 [firstDay, lastDay] 范围内每天各维度的访问次数写入 link_visit_breakdown_daily，每个维度一条语句
+ * 使用 upsert 覆盖已有行；原始事件已归档删除的日期不会产生新行，已有的明细保持不变
+ * 按访问时的域名分行，域名统计与原始事件一样以 domain_id 筛选
+ */
+async function rollupBreakdowns(db: D1Database, firstDay: string, lastDay: string): Promise<void> {
+    const start = dayStart(firstDay);
+    const end = dayStart(lastDay) + DAY_SECONDS;
+
+    await db.batch(BREAKDOWN_DIMENSIONS.map((dimension) => db
+        .prepare(`
+            INSERT INTO link_visit_breakdown_daily (short_link_id, domain_id, day, dimension, value, clicks, blocked)
+            SELECT short_link_id,
+                   domain_id,
+                   strftime('%Y-%m-%d', visited_at, 'unixepoch') as day,
+                   ?,
+                   COALESCE(NULLIF(${dimension}, ''), 'unknown') as value,
+                   SUM(CASE WHEN is_blocked = 0 THEN 1 ELSE 0 END),
+                   SUM(CASE WHEN is_blocked = 1 THEN 1 ELSE 0 END)
+            FROM link_visit_events
+            WHERE visited_at >= ? AND visited_at < ?
+            GROUP BY short_link_id, domain_id, day, value
+            ON CONFLICT(short_link_id, domain_id, day, dimension, value) DO UPDATE SET
+                clicks = excluded.clicks,
+                blocked = excluded.blocked
+        `)
+        .bind(dimension, start, end)));
+}
+
+/**
+ * 将 [firstDay, lastDay] 范围内每天的 link_visit_events 汇总写入 link_visit_stats_daily 和 link_visit_breakdown_daily
+ * 使用 upsert 覆盖已有行，重复执行结果一致；返回 link_visit_stats_daily 写入的行数
+ * unique_users 优先使用 visitor_hash，旧数据以 ip + user-agent 近似区分访客
+ */
+async function rollupDays(db: D1Database, firstDay: string, lastDay: string): Promise<number> {
+    await rollupBreakdowns(db, firstDay, lastDay);
+    return rollupClicks(db, firstDay, lastDay);
+}
+
+async function rollupClicks(db: D1Database, firstDay: string, lastDay: string): Promise<number> {
+    const start = dayStart(firstDay);
+    const end = dayStart(lastDay) + DAY_SECONDS;
+
+    const result = await db
+        .prepare(`
+            INSERT INTO link_visit_stats_daily (short_link_id, domain_id, day, clicks, blocked, unique_ips, unique_users)
+            SELECT short_link_id,
+                   domain_id,
+                   strftime('%Y-%m-%d', visited_at, 'unixepoch') as day,
+                   SUM(CASE WHEN is_blocked = 0 THEN 1 ELSE 0 END),
+                   SUM(CASE WHEN is_blocked = 1 THEN 1 ELSE 0 END),
+                   COUNT(DISTINCT CASE WHEN is_blocked = 0 THEN ip END),
+                   COUNT(DISTINCT CASE WHEN is_blocked = 0 THEN COALESCE(visitor_hash, COALESCE(ip, '') || '|' || COALESCE(ua, '')) END)
+            FROM link_visit_events
+            WHERE visited_at >= ? AND visited_at < ?
+            GROUP BY short_link_id, domain_id, day
+            ON CONFLICT(short_link_id, domain_id, day) DO UPDATE SET
+                clicks = excluded.clicks,
+                blocked = excluded.blocked,
+                unique_ips = excluded.unique_ips,
+                unique_users = excluded.unique_users
+        `)
+        .bind(start, end)
+        .run();
+
+    return result.meta.changes ?? 0;
+}
+
+/** 读取已汇总到的最后一天，未汇总过返回 null */
+async function getRollupThrough(db: D1Database): Promise<string | null> {
+    return getAppSetting(db, ROLLUP_THROUGH_KEY);
+}
+
+/** 读取维度明细已汇总到的最后一天，未汇总过返回 null */
+async function getBreakdownThrough(db: D1Database): Promise<string | null> {
+    return getAppSetting(db, BREAKDOWN_THROUGH_KEY);
+}
+
+async function earliestEventDay(db: D1Database): Promise<string | null> {
+    const earliest = await db
+        .prepare(`SELECT MIN(visited_at) as visited_at FROM link_visit_events`)
+        .first<{ visited_at: number | null }>();
+    return earliest?.visited_at != null ? toDay(earliest.visited_at) : null;
+}
+
+/**
+ * 汇总昨天的维度明细；stats_breakdown_through 落后时（含升级前已汇总点击数的日期）
+ * 从下一天开始，每次最多回填 MAX_BREAKDOWN_BACKFILL_DAYS 天
+ */
+async function runBreakdownRollup(db: D1Database, yesterday: string): Promise<void> {
+    const through = await getBreakdownThrough(db);
+    if (through && through >= yesterday) {
+        return;
+    }
+
+    let firstDay = through ? toDay(dayStart(through) + DAY_SECONDS) : (await earliestEventDay(db)) ?? yesterday;
+    if (firstDay > yesterday) {
+        firstDay = yesterday;
+    }
+    const lastDay = toDay(Math.min(dayStart(firstDay) + (MAX_BREAKDOWN_BACKFILL_DAYS - 1) * DAY_SECONDS, dayStart(yesterday)));
+
+    await rollupBreakdowns(db, firstDay, lastDay);
+    await setAppSetting(db, BREAKDOWN_THROUGH_KEY, lastDay);
+}
+
+/**
+ * 汇总昨天（UTC）的数据，由 Worker 的 scheduled（cron）处理器调用
+ * 若上次汇总落后（定时任务漏跑），则一并补算；首次运行时从最早的访问事件开始回填
+ * 完成后 stats_rollup_through 之前（含）的每一天都可直接从汇总表读取；维度明细见 runBreakdownRollup
+ */
+async function runDailyRollup(db: D1Database, now: number = Math.floor(Date.now() / 1000)): Promise<{ firstDay: string; lastDay: string }> {
+    const yesterday = toDay(now - DAY_SECONDS);
+    const through = await getRollupThrough(db);
+
+    let firstDay = yesterday;
+    if (through) {
+        if (through < yesterday) {
+            firstDay = toDay(dayStart(through) + DAY_SECONDS);
+        }
+    } else {
+        const earliest = await earliestEventDay(db);
+        if (earliest && earliest < yesterday) {
+            firstDay = earliest;
+        }
+    }
+
+    await rollupClicks(db, firstDay, yesterday);
+
+    if (!through || through < yesterday) {
+        await setAppSetting(db, ROLLUP_THROUGH_KEY, yesterday);
+    }
+
+    await runBreakdownRollup(db, yesterday);
+
+    return { firstDay, lastDay: yesterday };
+}
+
+export {
+    BREAKDOWN_DIMENSIONS,
+    rollupDays,
+    runDailyRollup,
+    getRollupThrough,
+    getBreakdownThrough,
+    toDay,
+    dayStart,
+    isValidDay,
+    DAY_SECONDS,
+};
+export type { BreakdownDimension };
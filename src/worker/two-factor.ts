@@ -0,0 +1,292 @@
+import { sign, verify } from "hono/jwt";
+import { getAppSetting, setAppSetting } from "./settings";
+
+/**
+ * TOTP 两步验证（RFC 6238，SHA-1 / 6 位 / 30 秒）
+ * users.totp_secret 保存 Base32 密钥，totp_enabled=0 时为尚未确认的待启用密钥
+ * 恢复码只保存 SHA-256，每个只能使用一次
+ */
+
+const TOTP_ISSUER = 'Shorturl';
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD = 30;
+// 允许前后各 1 个时间窗口的时钟偏差
+const TOTP_WINDOW = 1;
+const RECOVERY_CODE_COUNT = 10;
+// 登录第二步的挑战 token 有效期（秒）
+const CHALLENGE_TTL = 5 * 60;
+
+const REQUIRE_ADMIN_2FA_KEY = 'require_admin_2fa';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+type ChallengePurpose = 'verify' | 'setup';
+
+interface TwoFactorUser {
+    id: number;
+    totp_secret: string | null;
+    totp_enabled: number;
+    totp_last_step: number | null;
+}
+
+function base32Encode(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+function base32Decode(input: string): Uint8Array {
+    const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) {
+            throw new Error(`无效的 Base32 字符: ${char}`);
+        }
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+/** 生成 160 位随机密钥（Base32） */
+function generateTotpSecret(): string {
+    return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/** 生成认证器 App 可识别的 otpauth:// URI，可直接编码为二维码 */
+function buildOtpauthUri(account: string, secret: string): string {
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${account}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer: TOTP_ISSUER,
+        algorithm: 'SHA1',
+        digits: String(TOTP_DIGITS),
+        period: String(TOTP_PERIOD),
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+async function generateTotp(secret: string, step: number): Promise<string> {
+    const counter = new Uint8Array(8);
+    new DataView(counter.buffer).setBigUint64(0, BigInt(step));
+
+    const key = await crypto.subtle.importKey(
+        'raw',
+        base32Decode(secret),
+        { name: 'HMAC', hash: 'SHA-1' },
+        false,
+        ['sign']
+    );
+    const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+
+    // RFC 4226 动态截断
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = ((hmac[offset] & 0x7f) << 24)
+        | (hmac[offset + 1] << 16)
+        | (hmac[offset + 2] << 8)
+        | hmac[offset + 3];
+    return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * 校验 TOTP，返回匹配的时间步；不匹配或该时间步已使用过（防重放）返回 null
+ */
+async function verifyTotp(secret: string, code: string, now: number, lastStep: number | null): Promise<number | null> {
+    const normalized = code.replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) {
+        return null;
+    }
+    const current = Math.floor(now / TOTP_PERIOD);
+    for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+        if (lastStep !== null && step <= lastStep) {
+            continue;
+        }
+        if (await generateTotp(secret, step) === normalized) {
+            return step;
+        }
+    }
+    return null;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// 恢复码统一去掉分隔符并转小写后再哈希，用户输入时不区分格式
+function normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+}
+
+/** 重新生成恢复码（旧恢复码全部作废），明文只在本次返回 */
+async function replaceRecoveryCodes(db: D1Database, userId: number): Promise<string[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const codes: string[] = [];
+    const statements: D1PreparedStatement[] = [
+        db.prepare(`DELETE FROM user_recovery_codes WHERE user_id = ?`).bind(userId),
+    ];
+    for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+        const raw = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+        const code = `${raw.slice(0, 5)}-${raw.slice(5)}`;
+        codes.push(code);
+        statements.push(
+            db.prepare(`INSERT INTO user_recovery_codes (user_id, code_hash, created_at) VALUES (?, ?, ?)`)
+                .bind(userId, await sha256Hex(normalizeRecoveryCode(code)), now)
+        );
+    }
+    await db.batch(statements);
+    return codes;
+}
+
+/** 使用一个恢复码，成功返回 true */
+async function consumeRecoveryCode(db: D1Database, userId: number, code: string): Promise<boolean> {
+    const now = Math.floor(Date.now() / 1000);
+    const result = await db
+        .prepare(`
+            UPDATE user_recovery_codes SET used_at = ?
+            WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+        `)
+        .bind(now, userId, await sha256Hex(normalizeRecoveryCode(code)))
+        .run();
+    return result.meta.changes > 0;
+}
+
+async function countRecoveryCodes(db: D1Database, userId: number): Promise<number> {
+    const row = await db
+        .prepare(`SELECT COUNT(*) as total FROM user_recovery_codes WHERE user_id = ? AND used_at IS NULL`)
+        .bind(userId)
+        .first<{ total: number }>();
+    return row?.total ?? 0;
+}
+
+async function loadTwoFactorUser(db: D1Database, userId: number): Promise<TwoFactorUser | null> {
+    return db
+        .prepare(`SELECT id, totp_secret, totp_enabled, totp_last_step FROM users WHERE id = ?`)
+        .bind(userId)
+        .first<TwoFactorUser>();
+}
+
+/**
+ * 校验第二因素：TOTP 验证码或恢复码（二选一）
+ * TOTP 校验通过后记录时间步，同一验证码不能重复使用
+ */
+async function verifySecondFactor(
+    db: D1Database,
+    user: TwoFactorUser,
+    input: { code?: string; recovery_code?: string }
+): Promise<boolean> {
+    if (!user.totp_secret) {
+        return false;
+    }
+    if (input.code) {
+        const step = await verifyTotp(user.totp_secret, input.code, Math.floor(Date.now() / 1000), user.totp_last_step);
+        if (step === null) {
+            return false;
+        }
+        await db.prepare(`UPDATE users SET totp_last_step = ? WHERE id = ?`).bind(step, user.id).run();
+        return true;
+    }
+    if (input.recovery_code && user.totp_enabled === 1) {
+        return consumeRecoveryCode(db, user.id, input.recovery_code);
+    }
+    return false;
+}
+
+/** 为用户生成新的待启用密钥（替换尚未确认的旧密钥） */
+async function beginTotpSetup(db: D1Database, userId: number, account: string): Promise<{ secret: string; otpauth_uri: string }> {
+    const secret = generateTotpSecret();
+    await db
+        .prepare(`UPDATE users SET totp_secret = ?, totp_enabled = 0, totp_last_step = NULL WHERE id = ?`)
+        .bind(secret, userId)
+        .run();
+    return { secret, otpauth_uri: buildOtpauthUri(account, secret) };
+}
+
+/** 用验证码确认待启用密钥，成功后启用 2FA 并返回新的恢复码 */
+async function confirmTotpSetup(db: D1Database, user: TwoFactorUser, code: string): Promise<string[] | null> {
+    if (!user.totp_secret || user.totp_enabled === 1) {
+        return null;
+    }
+    if (!(await verifySecondFactor(db, user, { code }))) {
+        return null;
+    }
+    await db.prepare(`UPDATE users SET totp_enabled = 1 WHERE id = ?`).bind(user.id).run();
+    return replaceRecoveryCodes(db, user.id);
+}
+
+/** 关闭 2FA：清除密钥和恢复码 */
+async function disableTwoFactor(db: D1Database, userId: number): Promise<void> {
+    await db.batch([
+        db.prepare(`UPDATE users SET totp_secret = NULL, totp_enabled = 0, totp_last_step = NULL WHERE id = ?`).bind(userId),
+        db.prepare(`DELETE FROM user_recovery_codes WHERE user_id = ?`).bind(userId),
+    ]);
+}
+
+async function isAdminTwoFactorRequired(db: D1Database): Promise<boolean> {
+    return (await getAppSetting(db, REQUIRE_ADMIN_2FA_KEY)) === '1';
+}
+
+async function setAdminTwoFactorRequired(db: D1Database, required: boolean): Promise<void> {
+    await setAppSetting(db, REQUIRE_ADMIN_2FA_KEY, required ? '1' : '0');
+}
+
+// 挑战 token 使用独立的派生密钥签名，不能当作登录 JWT 使用
+function challengeSecret(jwtSecret: string): string {
+    return `${jwtSecret}:2fa-challenge`;
+}
+
+/** 密码验证通过后签发的挑战 token，用于完成第二步（verify）或首次绑定（setup） */
+async function createChallengeToken(jwtSecret: string, userId: number, purpose: ChallengePurpose): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    return sign({ sub: userId, purpose, iat: now, exp: now + CHALLENGE_TTL }, challengeSecret(jwtSecret));
+}
+
+/** 校验挑战 token，返回用户 ID，无效或用途不符返回 null */
+async function verifyChallengeToken(jwtSecret: string, token: string, purpose: ChallengePurpose): Promise<number | null> {
+    try {
+        const payload = await verify(token, challengeSecret(jwtSecret), 'HS256');
+        if (payload.purpose !== purpose || payload.sub == null) {
+            return null;
+        }
+        return Number(payload.sub);
+    } catch {
+        return null;
+    }
+}
+
+export {
+    REQUIRE_ADMIN_2FA_KEY,
+    buildOtpauthUri,
+    verifyTotp,
+    replaceRecoveryCodes,
+    countRecoveryCodes,
+    loadTwoFactorUser,
+    verifySecondFactor,
+    beginTotpSetup,
+    confirmTotpSetup,
+    disableTwoFactor,
+    isAdminTwoFactorRequired,
+    setAdminTwoFactorRequired,
+    createChallengeToken,
+    verifyChallengeToken,
+};
+export type { ChallengePurpose, TwoFactorUser };
@@ -9,6 +9,10 @@ enum ErrorCode {
     SHORTURL_NOT_FOUND = -3,
     LINK_EXPIRED = -4,
     LINK_LIMIT_REACHED = -5,
+    INSUFFICIENT_SCOPE = -6,
+    FORBIDDEN = -7,
+    TOO_MANY_ATTEMPTS = -8,
+    LINK_NOT_AVAILABLE = -9,
     UNKNOWN_ERROR = -999,
     SUCCESS = 0
 }
@@ -17,6 +21,9 @@ type CurrentUser = {
     id: number;
     username: string;
     role: string;
+    apiTokenId?: number;    // 通过 API token 认证时为 api_tokens.id
+    sessionId?: number;     // 通过登录 JWT 认证时为 user_sessions.id
+    scopes?: string[] | null;   // API token 的权限范围，NULL/undefined 表示不限制
 }
 type Variables = {
     currentUser: CurrentUser
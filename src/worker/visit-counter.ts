@@ -0,0 +1,89 @@
+import { DurableObject } from "cloudflare:workers";
+
+/**
+ * 短链接访问计数（Durable Object，每个设置了访问上限的短链接一个实例）
+ * 同一实例内的请求串行执行，跳转前先预留一次访问，并发访问也不会超过 max_visits
+ * D1 中的 total_clicks 仍用于统计展示；计数器首次使用时以它为初始值，修改 max_visits 后重新与它同步
+ */
+export class VisitCounter extends DurableObject<Env> {
+    // 已计入的访问次数，null 表示尚未从存储加载
+    private clicks: number | null = null;
+
+    private async load(linkId: number): Promise<number> {
+        // 加载期间阻塞其他请求，避免并发请求重复初始化
+        await this.ctx.blockConcurrencyWhile(async () => {
+            if (this.clicks !== null) {
+                return;
+            }
+            const stored = await this.ctx.storage.get<number>("clicks");
+            if (stored !== undefined) {
+                this.clicks = stored;
+                return;
+            }
+            const row = await this.env.shorturl
+                .prepare(`SELECT total_clicks FROM short_links WHERE id = ?`)
+                .bind(linkId)
+                .first<{ total_clicks: number }>();
+            this.clicks = row?.total_clicks ?? 0;
+            await this.ctx.storage.put("clicks", this.clicks);
+        });
+        return this.clicks ?? 0;
+    }
+
+    async count(linkId: number): Promise<number> {
+        return this.clicks ?? await this.load(linkId);
+    }
+
+    /**
+     * 与 D1 的 total_clicks 重新同步，取两者较大值
+     * 没有访问上限期间的访问不经过计数器，total_clicks 会更大；已预留但尚未写入 D1 的访问则只在计数器中
+     */
+    async resync(linkId: number): Promise<void> {
+        await this.ctx.blockConcurrencyWhile(async () => {
+            const current = this.clicks ?? (await this.ctx.storage.get<number>("clicks")) ?? 0;
+            const row = await this.env.shorturl
+                .prepare(`SELECT total_clicks FROM short_links WHERE id = ?`)
+                .bind(linkId)
+                .first<{ total_clicks: number }>();
+            this.clicks = Math.max(current, row?.total_clicks ?? 0);
+            await this.ctx.storage.put("clicks", this.clicks);
+        });
+    }
+
+    /** 预留一次访问，已达上限返回 false */
+    async reserve(linkId: number, limit: number): Promise<boolean> {
+        if (this.clicks === null) {
+            await this.load(linkId);
+        }
+        // 检查和递增之间没有 await，不会被其他请求打断
+        const clicks = this.clicks ?? 0;
+        if (clicks >= limit) {
+            return false;
+        }
+        this.clicks = clicks + 1;
+        // 不需要 await：输出门会等写入完成后才把结果返回给调用方
+        this.ctx.storage.put("clicks", this.clicks);
+        return true;
+    }
+}
+
+function counterFor(env: Env, linkId: number): DurableObjectStub<VisitCounter> {
+    return env.VISIT_COUNTER.get(env.VISIT_COUNTER.idFromName(String(linkId)));
+}
+
+/** 当前已计入的访问次数 */
+async function getVisitCount(env: Env, linkId: number): Promise<number> {
+    return counterFor(env, linkId).count(linkId);
+}
+
+/** 预留一次访问，成功后才允许跳转 */
+async function reserveVisit(env: Env, linkId: number, limit: number): Promise<boolean> {
+    return counterFor(env, linkId).reserve(linkId, limit);
+}
+
+/** 访问上限变化后调用，使计数器包含没有上限期间的访问 */
+async function resyncVisitCount(env: Env, linkId: number): Promise<void> {
+    await counterFor(env, linkId).resync(linkId);
+}
+
+export { getVisitCount, reserveVisit, resyncVisitCount };
@@ -0,0 +1,236 @@
+/**
+ * 访问事件异步写入
+ * redirect 只把（已按隐私设置处理过的）事件推入 VISIT_QUEUE，由队列消费者批量写入 D1：
+ * 事件逐条 INSERT、点击数按短链接合并成一条 UPDATE，整批放在一个 D1 batch（事务）里；
+ * 整批失败时改为逐条写入，只重试写入失败的消息，格式无效的消息直接保存到 R2，不会拖垮整批
+ * 重试多次仍失败的消息进入死信队列，由死信消费者再写一次 D1，仍失败则保存到 R2
+ */
+import { anonymizeVisitor, getGlobalIpMode, IpMode } from "./privacy";
+
+// 死信队列名，与 wrangler.jsonc 中的 dead_letter_queue 一致
+const VISIT_DLQ_NAME = 'shorturl-visits-dlq';
+
+// 无法写入 D1 的消息在 R2 中的前缀：visit-dead-letters/YYYY-MM-DD/<时间戳>-<uuid>.ndjson
+const DEAD_LETTER_PREFIX = 'visit-dead-letters/';
+
+// 批次写入失败后的重试延迟（秒）
+const RETRY_DELAY = 30;
+
+interface VisitEventData {
+    short_link_id: number;
+    domain_id: number;
+    code: string;
+    visited_at: number;
+    ip: string | null;
+    ua: string | null;
+    referer: string | null;
+    country: string | null;
+    region: string | null;
+    city: string | null;
+    device_type: string | null;
+    os: string | null;
+    browser: string | null;
+    is_blocked: number;
+    block_reason: string | null;
+    http_status: number;
+    matched_rule: string | null;
+    variant: string | null;
+}
+
+// 队列消息：ip / ua 已处理，counted 表示计入短链接的点击数
+interface VisitMessage {
+    event: VisitEventData & { visitor_hash: string | null };
+    counted: boolean;
+}
+
+function insertEventStatement(db: D1Database, event: VisitMessage['event']): D1PreparedStatement {
+    return db
+        .prepare(`
+            INSERT INTO link_visit_events
+            (short_link_id, domain_id, code, visited_at, ip, ua, visitor_hash, referer, country, region, city, device_type, os, browser, is_blocked, block_reason, http_status, matched_rule, variant)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `)
+        .bind(
+            event.short_link_id,
+            event.domain_id,
+            event.code,
+            event.visited_at,
+            event.ip,
+            event.ua,
+            event.visitor_hash,
+            event.referer,
+            event.country,
+            event.region,
+            event.city,
+            event.device_type,
+            event.os,
+            event.browser,
+            event.is_blocked,
+            event.block_reason,
+            event.http_status,
+            // 旧版本入队的消息没有以下字段
+            event.matched_rule ?? null,
+            event.variant ?? null
+        );
+}
+
+// 按短链接合并点击数与最后访问时间
+function clickUpdateStatements(db: D1Database, messages: VisitMessage[]): D1PreparedStatement[] {
+    const deltas = new Map<number, { clicks: number; lastAccessAt: number }>();
+    for (const { event, counted } of messages) {
+        if (!counted) {
+            continue;
+        }
+        const delta = deltas.get(event.short_link_id) ?? { clicks: 0, lastAccessAt: 0 };
+        delta.clicks += 1;
+        delta.lastAccessAt = Math.max(delta.lastAccessAt, event.visited_at);
+        deltas.set(event.short_link_id, delta);
+    }
+    return [...deltas].map(([linkId, { clicks, lastAccessAt }]) => db
+        .prepare(`
+            UPDATE short_links
+            SET total_clicks = total_clicks + ?, last_access_at = MAX(COALESCE(last_access_at, 0), ?)
+            WHERE id = ?
+        `)
+        .bind(clicks, lastAccessAt, linkId));
+}
+
+/** 校验队列消息的结构，避免格式错误的消息导致整批写入失败 */
+function isVisitMessage(body: unknown): body is VisitMessage {
+    if (!body || typeof body !== 'object') {
+        return false;
+    }
+    const { event, counted } = body as Partial<VisitMessage>;
+    if (typeof counted !== 'boolean' || !event || typeof event !== 'object') {
+        return false;
+    }
+    return ['short_link_id', 'domain_id', 'visited_at', 'is_blocked', 'http_status'].every(
+        (key) => Number.isInteger(event[key as keyof VisitMessage['event']])
+    ) && typeof event.code === 'string';
+}
+
+async function writeVisits(db: D1Database, messages: VisitMessage[]): Promise<void> {
+    await db.batch([
+        ...messages.map(({ event }) => insertEventStatement(db, event)),
+        ...clickUpdateStatements(db, messages),
+    ]);
+}
+
+/**
+ * 记录一次访问，在 waitUntil 中调用
+ * 写入队列前先按域名或全局设置处理 IP 与 User-Agent，原始 IP 不会进入队列；入队失败时直接写 D1，避免丢失事件
+ */
+async function trackVisit(env: Env, event: VisitEventData, ipMode: IpMode | null, counted: boolean): Promise<void> {
+    const db = env.shorturl;
+    const mode = ipMode ?? await getGlobalIpMode(db);
+    const visitor = await anonymizeVisitor(db, mode, event.ip, event.ua, event.visited_at);
+    const message: VisitMessage = { event: { ...event, ...visitor }, counted };
+
+    try {
+        await env.VISIT_QUEUE.send(message, { contentType: 'json' });
+    } catch (error) {
+        console.error('访问事件入队失败，直接写入数据库:', error);
+        await writeVisits(db, [message]);
+    }
+}
+
+/** 把无法写入 D1 的消息原样保存到 R2（NDJSON），之后可以人工检查或重新导入 */
+async function storeDeadLetters(bucket: R2Bucket, bodies: unknown[], reason: string): Promise<void> {
+    const now = new Date();
+    const key = `${DEAD_LETTER_PREFIX}${now.toISOString().slice(0, 10)}/${now.getTime()}-${crypto.randomUUID()}.ndjson`;
+    await bucket.put(key, bodies.map((body) => JSON.stringify(body)).join('\n') + '\n', {
+        httpMetadata: { contentType: 'application/x-ndjson' },
+        customMetadata: { reason, messages: String(bodies.length) },
+    });
+}
+
+/**
+ * 逐条写入（每条一个事务），返回写入失败的消息
+ * 整批写入失败时使用，一条有问题的消息不影响同批其他消息
+ */
+async function writeEach(db: D1Database, messages: Message<VisitMessage>[]): Promise<Message<VisitMessage>[]> {
+    const failed: Message<VisitMessage>[] = [];
+    for (const message of messages) {
+        try {
+            await writeVisits(db, [message.body]);
+            message.ack();
+        } catch (error) {
+            console.error(`写入访问事件失败（短链接 ${message.body.event.short_link_id}）:`, error);
+            failed.push(message);
+        }
+    }
+    return failed;
+}
+
+/**
+ * 队列消费者：先整批写入（D1 batch 是事务，不会重复写入）；整批失败时逐条写入，只重试失败的消息
+ * 格式无效的消息重试也不会成功，保存到 R2 后确认
+ */
+async function consumeVisitBatch(batch: MessageBatch<unknown>, env: Env): Promise<void> {
+    const valid: Message<VisitMessage>[] = [];
+    const invalid: Message<unknown>[] = [];
+    for (const message of batch.messages) {
+        if (isVisitMessage(message.body)) {
+            valid.push(message as Message<VisitMessage>);
+        } else {
+            invalid.push(message);
+        }
+    }
+
+    if (invalid.length > 0) {
+        console.error(`丢弃 ${invalid.length} 条格式无效的访问事件，已保存到 R2`);
+        try {
+            await storeDeadLetters(env.R2_BUCKET, invalid.map((message) => message.body), 'invalid');
+            invalid.forEach((message) => message.ack());
+        } catch (error) {
+            console.error('保存无效访问事件失败，稍后重试:', error);
+            invalid.forEach((message) => message.retry({ delaySeconds: RETRY_DELAY }));
+        }
+    }
+
+    if (valid.length === 0) {
+        return;
+    }
+    try {
+        await writeVisits(env.shorturl, valid.map((message) => message.body));
+        valid.forEach((message) => message.ack());
+        return;
+    } catch (error) {
+        console.error(`整批写入访问事件失败（${valid.length} 条），改为逐条写入:`, error);
+    }
+
+    const failed = await writeEach(env.shorturl, valid);
+    failed.forEach((message) => message.retry({ delaySeconds: RETRY_DELAY }));
+}
+
+/**
+ * 死信队列消费者：重试多次仍失败的消息再逐条写一次 D1（例如 D1 故障已恢复），仍失败的保存到 R2
+ * R2 也写入失败时重试，超过死信队列自身的重试次数后才会丢弃
+ */
+async function consumeDeadLetterBatch(batch: MessageBatch<unknown>, env: Env): Promise<void> {
+    const valid: Message<VisitMessage>[] = [];
+    const unwritten: Message<unknown>[] = [];
+    for (const message of batch.messages) {
+        if (isVisitMessage(message.body)) {
+            valid.push(message as Message<VisitMessage>);
+        } else {
+            unwritten.push(message);
+        }
+    }
+    unwritten.push(...await writeEach(env.shorturl, valid));
+
+    if (unwritten.length === 0) {
+        return;
+    }
+    try {
+        await storeDeadLetters(env.R2_BUCKET, unwritten.map((message) => message.body), 'dead-letter');
+        unwritten.forEach((message) => message.ack());
+        console.error(`${unwritten.length} 条访问事件无法写入数据库，已保存到 R2`);
+    } catch (error) {
+        console.error(`保存死信访问事件失败（${unwritten.length} 条），稍后重试:`, error);
+        unwritten.forEach((message) => message.retry({ delaySeconds: RETRY_DELAY }));
+    }
+}
+
+export { VISIT_DLQ_NAME, trackVisit, consumeVisitBatch, consumeDeadLetterBatch };
+export type { VisitEventData, VisitMessage };
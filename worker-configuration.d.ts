@@ -7,6 +7,9 @@ declare namespace Cloudflare {
 	}
 	interface Env {
 		R2_BUCKET: R2Bucket;
+		LINK_CACHE: KVNamespace;
+		VISIT_COUNTER: DurableObjectNamespace<import("./src/worker/visit-counter").VisitCounter>;
+		VISIT_QUEUE: Queue<import("./src/worker/visit-ingest").VisitMessage>;
 		shorturl: D1Database;
 		ASSETS: Fetcher;
 		JWT_SECRET: "12345";